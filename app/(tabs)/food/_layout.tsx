@@ -0,0 +1,18 @@
+import { Stack } from "expo-router"
+
+export default function FoodStackLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerLargeTitle: true,
+        headerShadowVisible: false,
+        headerBackTitle: "Food"
+      }}
+    >
+      <Stack.Screen name="index" options={{ headerShown: false }} />
+      <Stack.Screen name="places/index" options={{ title: "Places" }} />
+      <Stack.Screen name="places/[id]" options={{ title: "Place" }} />
+      <Stack.Screen name="dishes/[id]" options={{ title: "Dish" }} />
+    </Stack>
+  )
+}
@@ -0,0 +1,5 @@
+import { FoodDishScreen } from "@/src/features/food/screens/FoodDishScreen"
+
+export default function FoodDishRoute() {
+  return <FoodDishScreen />
+}
@@ -1,5 +1,5 @@
 import { FoodScreen } from "@/src/features/food/screens/FoodScreen"
 
-export default function FoodRoute() {
+export default function FoodIndexRoute() {
   return <FoodScreen />
 }
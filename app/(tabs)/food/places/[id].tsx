@@ -0,0 +1,5 @@
+import { FoodPlaceScreen } from "@/src/features/food/screens/FoodPlaceScreen"
+
+export default function FoodPlaceRoute() {
+  return <FoodPlaceScreen />
+}
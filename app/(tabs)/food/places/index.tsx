@@ -0,0 +1,5 @@
+import { FoodPlacesScreen } from "@/src/features/food/screens/FoodPlacesScreen"
+
+export default function FoodPlacesRoute() {
+  return <FoodPlacesScreen />
+}
@@ -17,6 +17,9 @@ export default function MediaStackLayout() {
           headerLargeTitle: false
         }}
       />
+      <Stack.Screen name="subscriptions" options={{ title: "Subscriptions" }} />
+      <Stack.Screen name="collections/index" options={{ title: "Collections" }} />
+      <Stack.Screen name="collections/[id]" options={{ title: "Collection" }} />
     </Stack>
   )
 }
@@ -0,0 +1,5 @@
+import { MediaCollectionScreen } from "@/src/features/media/screens/MediaCollectionScreen"
+
+export default function MediaCollectionRoute() {
+  return <MediaCollectionScreen />
+}
@@ -0,0 +1,5 @@
+import { MediaCollectionsScreen } from "@/src/features/media/screens/MediaCollectionsScreen"
+
+export default function MediaCollectionsRoute() {
+  return <MediaCollectionsScreen />
+}
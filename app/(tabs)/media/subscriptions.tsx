@@ -0,0 +1,5 @@
+import { MediaSubscriptionsScreen } from "@/src/features/media/screens/MediaSubscriptionsScreen"
+
+export default function MediaSubscriptionsRoute() {
+  return <MediaSubscriptionsScreen />
+}
@@ -30,6 +30,8 @@ export default function RootLayout() {
         <Stack.Screen name="(auth)" options={{ animation: "fade", headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ animation: "none", headerShown: false }} />
         <Stack.Screen name="analytics" options={{ title: "Analytics" }} />
+        <Stack.Screen name="currency" options={{ title: "Currency" }} />
+        <Stack.Screen name="custom-fields" options={{ title: "Custom Fields" }} />
         <Stack.Screen name="ai" options={{ title: "Assistant", headerLargeTitle: true }} />
         <Stack.Screen name="admin" options={{ title: "Admin" }} />
       </Stack>
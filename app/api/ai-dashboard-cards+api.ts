@@ -0,0 +1,63 @@
+import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
+import { getConversation, getConversationTurns } from "@/src/server/services/ai-conversation-repository"
+import { createDashboardCard } from "@/src/server/services/ai-dashboard-card-repository"
+import type { SaveDashboardCardRequest, SaveDashboardCardResponse } from "@analytics/contracts"
+
+const VISUALIZATION_TYPES = new Set(["kpi", "table", "bar", "pie", "line", "area"])
+const TITLE_MAX_LENGTH = 120
+
+export async function POST(request: Request) {
+  const auth = await requireAuthenticatedUser(request)
+  if (!auth.success) return auth.response
+
+  const { supabase, user } = auth.context
+
+  let body: SaveDashboardCardRequest
+  try {
+    body = (await request.json()) as SaveDashboardCardRequest
+  } catch {
+    return Response.json({ success: false, error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (body.workspace !== "media" && body.workspace !== "food") {
+    return Response.json({ success: false, error: "Invalid workspace. Must be 'media' or 'food'" }, { status: 400 })
+  }
+  if (typeof body.conversationId !== "string" || typeof body.turnId !== "string") {
+    return Response.json({ success: false, error: "conversationId and turnId are required" }, { status: 400 })
+  }
+  // Titles default to the question asked, so long ones are cut rather than rejected
+  const title = typeof body.title === "string" ? body.title.trim().slice(0, TITLE_MAX_LENGTH) : ""
+  if (!title) {
+    return Response.json({ success: false, error: "title is required" }, { status: 400 })
+  }
+  if (!VISUALIZATION_TYPES.has(body.visualizationType)) {
+    return Response.json({ success: false, error: "Invalid visualizationType" }, { status: 400 })
+  }
+
+  try {
+    const conversation = await getConversation(supabase, user.id, body.conversationId)
+    const turn = conversation?.workspace === body.workspace
+      ? getConversationTurns(conversation).find((item) => item.id === body.turnId)
+      : undefined
+    if (!turn) {
+      return Response.json({ success: false, error: "Saved query not found" }, { status: 404 })
+    }
+
+    const result = await createDashboardCard(user.id, { ...body, title }, turn)
+    if (!result.success) {
+      return Response.json({ success: false, error: result.error }, { status: 400 })
+    }
+
+    const payload: SaveDashboardCardResponse = { cardId: result.data.id }
+    return Response.json(payload)
+  } catch (error) {
+    console.error("Dashboard card save error:", error)
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      },
+      { status: 500 }
+    )
+  }
+}
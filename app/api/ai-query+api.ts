@@ -1,46 +1,16 @@
-import { GoogleGenerativeAI } from "@google/generative-ai"
-import { buildSystemPrompt, buildActionPrompt, shouldUseActionMode, WorkspaceType } from "@/src/server/ai-query-schemas"
+import { buildSystemPrompt, buildActionPrompt, buildFollowUpPrompt, shouldUseActionMode } from "@/src/server/ai-query-schemas"
 import { normalizeGeminiError } from "@/src/server/gemini-errors"
+import { getLLMProvider, LLMBlockedResponseError } from "@/src/server/llm-provider"
 import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
+import { appendConversationTurn, getConversation, getConversationTurns } from "@/src/server/services/ai-conversation-repository"
+import { getDashboardCard } from "@/src/server/services/ai-dashboard-card-repository"
+import { getHomeCurrency } from "@/src/server/services/currency-repository"
+import { getCustomFieldDefinitions } from "@/src/server/services/custom-field-repository"
+import { validateAIQuerySql } from "@/src/server/sql-safety"
 import type { AIQueryRequest } from "@analytics/contracts"
 
-// Validate SQL is read-only
-function validateSQL(sql: string): { valid: boolean; error?: string } {
-  const sqlUpper = sql.toUpperCase()
-
-  // Check for dangerous operations
-  const dangerousOperations = [
-    "INSERT",
-    "UPDATE",
-    "DELETE",
-    "DROP",
-    "ALTER",
-    "CREATE",
-    "TRUNCATE",
-    "GRANT",
-    "REVOKE",
-    "EXECUTE",
-  ]
-
-  for (const op of dangerousOperations) {
-    if (sqlUpper.includes(op)) {
-      return {
-        valid: false,
-        error: `SQL contains forbidden operation: ${op}. Only SELECT queries are allowed.`,
-      }
-    }
-  }
-
-  // Must start with SELECT (after trimming whitespace)
-  if (!sqlUpper.trim().startsWith("SELECT")) {
-    return {
-      valid: false,
-      error: "Query must start with SELECT",
-    }
-  }
-
-  return { valid: true }
-}
+// Number of earlier turns sent to the model as follow-up context
+const MAX_CONTEXT_TURNS = 4
 
 // Determine visualization type based on query results
 function determineVisualizationType(
@@ -125,6 +95,78 @@ function inferColumnTypes(data: any[]): Record<string, string> {
   return types
 }
 
+type GenerationResult = { success: true; parsed: any } | { success: false; response: Response }
+
+function failure(response: Response): GenerationResult {
+  return { success: false, response }
+}
+
+// Ask the configured LLM provider for a JSON answer and parse it
+async function generateStructuredResponse(systemPrompt: string, prompt: string): Promise<GenerationResult> {
+  const llm = getLLMProvider("ai-query")
+  if (!llm.success) {
+    return failure(Response.json(
+      { success: false, error: llm.error },
+      { status: 500 }
+    ))
+  }
+
+  let text: string
+  try {
+    text = await llm.provider.generateText({ systemInstruction: systemPrompt, prompt })
+  } catch (textError) {
+    if (!(textError instanceof LLMBlockedResponseError)) throw textError
+    console.error("AI response not usable (blocked or empty):", textError)
+    return failure(Response.json(
+      {
+        success: false,
+        error:
+          "The AI response was blocked or empty. Try rephrasing your question or check your API key and model access.",
+      },
+      { status: 500 }
+    ))
+  }
+
+  if (!text?.trim()) {
+    return failure(Response.json(
+      {
+        success: false,
+        error: "The AI returned an empty response. Please try rephrasing your question.",
+      },
+      { status: 500 }
+    ))
+  }
+
+  // Parse JSON response
+  let jsonString = text.trim()
+
+  // Try to extract JSON from code blocks if wrapped
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  if (jsonMatch) {
+    jsonString = jsonMatch[1].trim()
+  } else {
+    // Try to find JSON object boundaries
+    const startIdx = jsonString.indexOf("{")
+    const lastIdx = jsonString.lastIndexOf("}")
+    if (startIdx !== -1 && lastIdx !== -1 && lastIdx > startIdx) {
+      jsonString = jsonString.substring(startIdx, lastIdx + 1)
+    }
+  }
+
+  try {
+    return { success: true, parsed: JSON.parse(jsonString) }
+  } catch (parseError) {
+    console.error("Failed to parse AI response:", text.substring(0, 500))
+    return failure(Response.json(
+      {
+        success: false,
+        error: "Failed to parse AI response. Please try rephrasing your question.",
+      },
+      { status: 500 }
+    ))
+  }
+}
+
 export async function POST(request: Request) {
   try {
     const body = (await request.json()) as AIQueryRequest
@@ -143,102 +185,87 @@ export async function POST(request: Request) {
       )
     }
 
-    const auth = await requireAuthenticatedUser(request)
-    if (!auth.success) return auth.response
-    const { supabase } = auth.context
-
-    // Check Gemini API key
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
+    // SQL is only ever generated here or read back from the caller's own history
+    if ("sql" in body) {
       return Response.json(
-        { success: false, error: "Gemini API key not configured" },
-        { status: 500 }
+        { success: false, error: "Raw SQL is not accepted; rerun a saved query with rerunTurnId or cardId" },
+        { status: 400 }
       )
     }
 
-    const modelName = process.env.GEMINI_MODEL_NAME
-    if (!modelName) {
-      return Response.json(
-        { success: false, error: "Gemini model name not configured (GEMINI_MODEL_NAME)" },
-        { status: 500 }
-      )
+    for (const field of ["conversationId", "rerunTurnId", "cardId"] as const) {
+      if (body[field] !== undefined && typeof body[field] !== "string") {
+        return Response.json(
+          { success: false, error: `Invalid ${field} field` },
+          { status: 400 }
+        )
+      }
     }
 
-    // Action execution is intentionally media-only in v1
-    const isActionMode = body.workspace === "media" && shouldUseActionMode(body.query)
-
-    // Generate response using Gemini
-    const genAI = new GoogleGenerativeAI(apiKey)
-    const systemPrompt = isActionMode 
-      ? buildActionPrompt(body.workspace)
-      : buildSystemPrompt(body.workspace)
-
-    const model = genAI.getGenerativeModel({
-      model: modelName,
-      systemInstruction: systemPrompt,
-    })
-
-    const result = await model.generateContent(body.query)
-    const response = result.response
-
-    // Safe text extraction (response.text() throws if blocked/empty)
-    let text: string
-    try {
-      text = response.text()
-    } catch (textError) {
-      console.error("Gemini response not usable (blocked or empty):", textError)
+    if (body.rerunTurnId && !body.conversationId) {
       return Response.json(
-        {
-          success: false,
-          error:
-            "The AI response was blocked or empty. Try rephrasing your question or check your API key and model access.",
-        },
-        { status: 500 }
+        { success: false, error: "rerunTurnId requires a conversationId" },
+        { status: 400 }
       )
     }
 
-    if (!text?.trim()) {
+    const auth = await requireAuthenticatedUser(request)
+    if (!auth.success) return auth.response
+    const { supabase, user } = auth.context
+
+    const conversation = body.conversationId
+      ? await getConversation(supabase, user.id, body.conversationId)
+      : null
+    if (body.conversationId && (!conversation || conversation.workspace !== body.workspace)) {
       return Response.json(
-        {
-          success: false,
-          error: "The AI returned an empty response. Please try rephrasing your question.",
-        },
-        { status: 500 }
+        { success: false, error: "Conversation not found" },
+        { status: 404 }
       )
     }
+    const previousTurns = getConversationTurns(conversation).slice(-MAX_CONTEXT_TURNS)
 
-    // Parse JSON response
-    let jsonString = text.trim()
+    let isActionMode = false
+    let parsed: any
 
-    // Try to extract JSON from code blocks if wrapped
-    const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
-    if (jsonMatch) {
-      jsonString = jsonMatch[1].trim()
-    } else {
-      // Try to find JSON object boundaries
-      const startIdx = jsonString.indexOf("{")
-      const lastIdx = jsonString.lastIndexOf("}")
-      if (startIdx !== -1 && lastIdx !== -1 && lastIdx > startIdx) {
-        jsonString = jsonString.substring(startIdx, lastIdx + 1)
+    if (body.rerunTurnId) {
+      // Rerun: skip generation and execute the stored SQL through the same safety layer
+      const original = getConversationTurns(conversation).find((turn) => turn.id === body.rerunTurnId)
+      if (!original?.sql) {
+        return Response.json(
+          { success: false, error: "Saved query not found" },
+          { status: 404 }
+        )
       }
-    }
-
-    let parsed: any
-    try {
-      parsed = JSON.parse(jsonString)
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", text.substring(0, 500))
-      return Response.json(
-        {
-          success: false,
-          error: "Failed to parse AI response. Please try rephrasing your question.",
-        },
-        { status: 500 }
+      parsed = { sql: original.sql, explanation: original.explanation ?? "Re-ran saved query" }
+    } else if (body.cardId) {
+      const card = await getDashboardCard(supabase, user.id, body.cardId)
+      if (!card || card.workspace !== body.workspace) {
+        return Response.json(
+          { success: false, error: "Dashboard card not found" },
+          { status: 404 }
+        )
+      }
+      parsed = { sql: card.sql, explanation: "Re-ran saved query" }
+    } else {
+      isActionMode = shouldUseActionMode(body.query, body.workspace)
+      const homeCurrency = await getHomeCurrency(supabase, user.id)
+      const systemPrompt = isActionMode
+        ? buildActionPrompt(body.workspace, { homeCurrency })
+        : buildSystemPrompt(body.workspace, {
+            homeCurrency,
+            customFields: await getCustomFieldDefinitions(supabase, user.id, body.workspace)
+          })
+
+      const generated = await generateStructuredResponse(
+        systemPrompt,
+        buildFollowUpPrompt(body.query, previousTurns)
       )
+      if (!generated.success) return generated.response
+      parsed = generated.parsed
     }
 
     // Handle action mode response
-    if (isActionMode || (parsed.type === "action" && body.workspace === "media")) {
+    if (isActionMode || parsed.type === "action") {
       if (!parsed.actions || !Array.isArray(parsed.actions)) {
         return Response.json(
           {
@@ -249,24 +276,28 @@ export async function POST(request: Request) {
         )
       }
 
+      const intent = parsed.intent || "Perform actions"
+      const appended = await appendConversationTurn(user.id, body.workspace, conversation, {
+        query: body.query,
+        type: "action",
+        sql: null,
+        explanation: null,
+        columns: [],
+        rowCount: null,
+        intent,
+      })
+
       return Response.json({
         success: true,
         type: "action",
-        intent: parsed.intent || "Perform actions",
+        intent,
+        workspace: body.workspace,
         actions: parsed.actions,
+        conversationId: appended?.conversationId,
+        turnId: appended?.turnId,
       })
     }
 
-    if (parsed.type === "action" && body.workspace !== "media") {
-      return Response.json(
-        {
-          success: false,
-          error: "AI actions are currently supported for media workspace only.",
-        },
-        { status: 400 }
-      )
-    }
-
     // Handle query mode response
     if (!parsed.sql || !parsed.explanation) {
       return Response.json(
@@ -278,13 +309,14 @@ export async function POST(request: Request) {
       )
     }
 
-    // Validate SQL
-    const validation = validateSQL(parsed.sql)
+    // Validate SQL and scope it to the requesting user
+    const validation = validateAIQuerySql(parsed.sql, { userId: user.id })
     if (!validation.valid) {
       return Response.json(
         {
           success: false,
-          error: validation.error,
+          error: `Generated SQL was rejected: ${validation.reasons.map((reason) => reason.message).join("; ")}`,
+          rejections: validation.reasons,
           sql: parsed.sql,
         },
         { status: 400 }
@@ -295,7 +327,7 @@ export async function POST(request: Request) {
     // Use Supabase's rpc function to execute raw SQL
     // This requires a database function to be created in Supabase
     const { data: queryData, error: queryError } = await supabase.rpc("execute_sql_query", {
-      query_text: parsed.sql,
+      query_text: validation.sql,
     })
 
     if (queryError) {
@@ -317,9 +349,25 @@ export async function POST(request: Request) {
     const columnTypes = inferColumnTypes(resultData)
     const visualizationType = determineVisualizationType(resultData, columns)
 
+    // A rerun answers an existing turn or card, so it is not recorded as a new turn
+    const isRerun = Boolean(body.rerunTurnId || body.cardId)
+    const appended = isRerun || body.recordHistory === false
+      ? null
+      : await appendConversationTurn(user.id, body.workspace, conversation, {
+          query: body.query,
+          type: "query",
+          sql: parsed.sql,
+          explanation: parsed.explanation,
+          columns,
+          rowCount: resultData.length,
+          intent: null,
+        })
+
     return Response.json({
       success: true,
       type: "query",
+      conversationId: appended?.conversationId ?? (body.rerunTurnId ? body.conversationId : undefined),
+      turnId: appended?.turnId ?? body.rerunTurnId,
       sql: parsed.sql,
       explanation: parsed.explanation,
       data: resultData,
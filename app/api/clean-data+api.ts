@@ -1,5 +1,5 @@
-import { GoogleGenerativeAI } from "@google/generative-ai"
 import { normalizeGeminiError } from "@/src/server/gemini-errors"
+import { getLLMProvider } from "@/src/server/llm-provider"
 import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
 import type { CleanDataRequest, CleanDataResponse } from "@analytics/contracts"
 
@@ -8,7 +8,7 @@ const SYSTEM_INSTRUCTION = `You are a strict data cleaner for a media tracking a
 RULES:
 1. Normalize all dates to YYYY-MM-DD format
 2. Convert ratings like "5/10" or "8.5/10" to plain numeric values (5.0, 8.5)
-3. Strip all currency symbols from prices, output as plain numbers
+3. Strip all currency symbols from prices, output as plain numbers. Put the ISO 4217 code implied by the symbol or code (e.g. "€" -> "EUR", "¥" -> "JPY") in "currency", or null when none is given
 4. Parse durations into standardized format: "X min" or "Xh Ym" (e.g., "2h" becomes "120 min", "1:30" becomes "90 min")
 5. Normalize medium values to one of: Movie, TV Show, Game, Podcast
 6. Normalize status values to one of: Finished, Watching, On Hold, Dropped, Plan to Watch
@@ -29,6 +29,7 @@ Return a JSON object with structure:
       "episodes": "number | null",
       "length": "string | null",
       "price": "number | null",
+      "currency": "string | null",
       "status": "string | null",
       "my_rating": "number | null",
       "average_rating": "number | null",
@@ -70,33 +71,17 @@ export async function POST(request: Request) {
       )
     }
 
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
+    const llm = getLLMProvider("clean-data")
+    if (!llm.success) {
       return Response.json(
-        { error: "Gemini API key not configured" },
+        { error: llm.error },
         { status: 500 }
       )
     }
 
-    const modelName = process.env.GEMINI_MODEL_NAME
-    if (!modelName) {
-      return Response.json(
-        { error: "Gemini model name not configured (GEMINI_MODEL_NAME)" },
-        { status: 500 }
-      )
-    }
-
-    const genAI = new GoogleGenerativeAI(apiKey)
-    const model = genAI.getGenerativeModel({
-      model: modelName,
-      systemInstruction: SYSTEM_INSTRUCTION,
-    })
-
     const prompt = `Clean and normalize the following CSV data:\n\n${csvData}`
 
-    const result = await model.generateContent(prompt)
-    const response = result.response
-    const text = response.text()
+    const text = await llm.provider.generateText({ systemInstruction: SYSTEM_INSTRUCTION, prompt })
 
     // Extract JSON from response (handle potential markdown wrapping)
     let jsonString = text.trim()
@@ -1,6 +1,8 @@
 import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
-import { createMediaEntry, updateMediaEntry, deleteMediaEntry, findMediaEntryByTitle } from "@/src/server/services/media-repository"
-import type { ExecuteActionResult, ExecuteActionsRequest, ExecuteActionsResponse, MediaAction } from "@analytics/contracts"
+import { executeActionBatch } from "@/src/server/services/action-executor"
+import type { ExecuteActionsMode, ExecuteActionsRequest, WorkspaceAction } from "@analytics/contracts"
+
+const EXECUTE_MODES: ExecuteActionsMode[] = ["dry-run", "atomic", "best-effort"]
 
 export async function POST(request: Request) {
   const auth = await requireAuthenticatedUser(request)
@@ -25,124 +27,28 @@ export async function POST(request: Request) {
       )
     }
 
-    const results: ExecuteActionResult[] = []
-
-    for (const action of body.actions) {
-      try {
-        if (action.type === "create") {
-          const result = await createMediaEntry(supabase, user.id, action.data ?? {})
-
-          if (result.success) {
-            results.push({
-              success: true,
-              action,
-              entryId: result.data.id
-            })
-          } else {
-            results.push({
-              success: false,
-              action,
-              error: result.error
-            })
-          }
-          continue
-        }
-
-        if (action.type === "update") {
-          let targetId = action.id
-
-          if (!targetId && action.data?.title) {
-            const matched = await findMediaEntryByTitle(supabase, user.id, action.data.title)
-            targetId = matched?.id
-          }
-
-          if (!targetId) {
-            results.push({
-              success: false,
-              action,
-              error: "Entry ID or title match is required for update action"
-            })
-            continue
-          }
-
-          const result = await updateMediaEntry(supabase, user.id, targetId, action.data ?? {})
-
-          if (result.success) {
-            results.push({
-              success: true,
-              action,
-              entryId: result.data.id
-            })
-          } else {
-            results.push({
-              success: false,
-              action,
-              error: result.error
-            })
-          }
-          continue
-        }
-
-        if (action.type === "delete") {
-          let targetId = action.id
-
-          if (!targetId && action.data?.title) {
-            const matched = await findMediaEntryByTitle(supabase, user.id, action.data.title)
-            targetId = matched?.id
-          }
-
-          if (!targetId) {
-            results.push({
-              success: false,
-              action,
-              error: "Entry ID or title match is required for delete action"
-            })
-            continue
-          }
-
-          const result = await deleteMediaEntry(supabase, user.id, targetId)
-
-          if (result.success) {
-            results.push({
-              success: true,
-              action,
-              entryId: targetId
-            })
-          } else {
-            results.push({
-              success: false,
-              action,
-              error: result.error
-            })
-          }
-          continue
-        }
-
-        results.push({
-          success: false,
-          action,
-          error: `Unknown action type: ${action.type}`
-        })
-      } catch (error) {
-        results.push({
-          success: false,
-          action,
-          error: error instanceof Error ? error.message : "Unknown error occurred"
-        })
-      }
+    if (body.workspace && !["media", "food"].includes(body.workspace)) {
+      return Response.json(
+        { success: false, error: "Invalid workspace. Must be 'media' or 'food'" },
+        { status: 400 }
+      )
     }
 
-    const summary = {
-      total: results.length,
-      succeeded: results.filter((result) => result.success).length,
-      failed: results.filter((result) => !result.success).length
+    const mode = body.mode ?? "best-effort"
+    if (!EXECUTE_MODES.includes(mode)) {
+      return Response.json(
+        { success: false, error: `Invalid mode. Must be one of: ${EXECUTE_MODES.join(", ")}` },
+        { status: 400 }
+      )
     }
 
-    const payload: ExecuteActionsResponse = {
-      success: summary.failed === 0,
-      results,
-      summary
-    }
+    const payload = await executeActionBatch(
+      supabase,
+      user.id,
+      body.workspace ?? "media",
+      body.actions as WorkspaceAction[],
+      mode
+    )
 
     return Response.json(payload)
   } catch (error) {
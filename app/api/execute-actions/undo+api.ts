@@ -0,0 +1,38 @@
+import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
+import { undoActionBatch } from "@/src/server/services/action-executor"
+import type { UndoActionsRequest } from "@analytics/contracts"
+
+export async function POST(request: Request) {
+  const auth = await requireAuthenticatedUser(request)
+  if (!auth.success) return auth.response
+
+  const { supabase, user } = auth.context
+
+  let body: UndoActionsRequest
+  try {
+    body = (await request.json()) as UndoActionsRequest
+  } catch {
+    return Response.json({ success: false, error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (!body.undoToken || typeof body.undoToken !== "string") {
+    return Response.json({ success: false, error: "undoToken is required" }, { status: 400 })
+  }
+
+  try {
+    const payload = await undoActionBatch(supabase, user.id, body.undoToken)
+    if (!payload.success && payload.reverted === 0 && payload.error) {
+      return Response.json(payload, { status: 400 })
+    }
+    return Response.json(payload)
+  } catch (error) {
+    console.error("Undo actions error:", error)
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
+import { mergeFoodPlaces } from "@/src/server/services/food-place-repository"
+import type { FoodPlaceMergeRequest, FoodPlaceMergeResponse } from "@analytics/contracts"
+
+const MAX_SOURCES = 50
+
+export async function POST(request: Request) {
+  const auth = await requireAuthenticatedUser(request)
+  if (!auth.success) return auth.response
+
+  const { supabase, user } = auth.context
+
+  let body: FoodPlaceMergeRequest
+  try {
+    body = (await request.json()) as FoodPlaceMergeRequest
+  } catch {
+    return Response.json({ success: false, error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (!body.targetId || typeof body.targetId !== "string") {
+    return Response.json({ success: false, error: "targetId is required" }, { status: 400 })
+  }
+  if (
+    !Array.isArray(body.sourceIds) ||
+    body.sourceIds.length === 0 ||
+    body.sourceIds.length > MAX_SOURCES ||
+    !body.sourceIds.every((id) => typeof id === "string" && id.length > 0)
+  ) {
+    return Response.json(
+      { success: false, error: `sourceIds must list 1 to ${MAX_SOURCES} place ids` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await mergeFoodPlaces(supabase, user.id, body.targetId, body.sourceIds)
+    if (!result.success) {
+      return Response.json({ success: false, error: result.error }, { status: result.error === "Place not found" ? 404 : 400 })
+    }
+
+    const payload: FoodPlaceMergeResponse = { movedVisits: result.data.movedVisits }
+    return Response.json(payload)
+  } catch (error) {
+    console.error("Food place merge error:", error)
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      },
+      { status: 500 }
+    )
+  }
+}
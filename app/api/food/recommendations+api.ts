@@ -0,0 +1,77 @@
+import { recommendFoodPlaces } from "@/src/features/food/lib/food-recommender"
+import { requireAuthenticatedUser } from "@/src/server/api/request-auth"
+import { listFoodEntries } from "@/src/server/services/food-repository"
+import type { FoodRecommendationsRequest, FoodRecommendationsResponse } from "@analytics/contracts"
+
+const MAX_LIMIT = 20
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+export async function POST(request: Request) {
+  const auth = await requireAuthenticatedUser(request)
+  if (!auth.success) return auth.response
+
+  const { supabase, user } = auth.context
+
+  let body: FoodRecommendationsRequest
+  try {
+    body = (await request.json()) as FoodRecommendationsRequest
+  } catch {
+    return Response.json({ success: false, error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  const latitude = optionalNumber(body.latitude)
+  const longitude = optionalNumber(body.longitude)
+  if ((latitude == null) !== (longitude == null)) {
+    return Response.json({ success: false, error: "latitude and longitude must be sent together" }, { status: 400 })
+  }
+  if ((latitude != null && Math.abs(latitude) > 90) || (longitude != null && Math.abs(longitude) > 180)) {
+    return Response.json({ success: false, error: "Coordinates are out of range" }, { status: 400 })
+  }
+
+  try {
+    const entries = await listFoodEntries(supabase, user.id)
+    if (!entries.success) {
+      return Response.json({ success: false, error: entries.error }, { status: 500 })
+    }
+
+    const recommendations = recommendFoodPlaces(entries.data, {
+      latitude,
+      longitude,
+      city: typeof body.city === "string" ? body.city : null,
+      maxDistanceKm: optionalNumber(body.maxDistanceKm),
+      maxPriceLevel: optionalNumber(body.maxPriceLevel),
+      diningType: typeof body.diningType === "string" ? body.diningType : null,
+      cuisines: Array.isArray(body.cuisines) ? body.cuisines.filter((cuisine): cuisine is string => typeof cuisine === "string") : [],
+      limit: Math.min(MAX_LIMIT, Math.max(1, optionalNumber(body.limit) ?? 5))
+    })
+
+    const payload: FoodRecommendationsResponse = {
+      recommendations: recommendations.map((recommendation) => ({
+        placeId: recommendation.placeId,
+        entryId: recommendation.latestVisit.id,
+        name: recommendation.latestVisit.name,
+        branch: recommendation.latestVisit.branch,
+        city: recommendation.latestVisit.city,
+        distanceKm: recommendation.distanceKm,
+        averageRating: recommendation.averageRating,
+        visitCount: recommendation.visitCount,
+        lastVisitDate: recommendation.lastVisitDate,
+        score: recommendation.score,
+        reasons: recommendation.reasons
+      }))
+    }
+    return Response.json(payload)
+  } catch (error) {
+    console.error("Food recommendations error:", error)
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error occurred"
+      },
+      { status: 500 }
+    )
+  }
+}
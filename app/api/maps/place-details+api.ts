@@ -1,4 +1,5 @@
 import { requireAuthenticatedUser } from "@/src/server/api/request-auth";
+import { findFoodPlace } from "@/src/server/services/food-place-repository";
 import type { MapsPlaceDetailsRequest, MapsPlaceDetailsResponse } from "@analytics/contracts";
 
 export async function POST(request: Request) {
@@ -213,9 +214,19 @@ export async function POST(request: Request) {
             }
         }
 
+        const name = placeData.displayName?.text || "";
+        const address = placeData.formattedAddress || "";
+        const latitude = typeof placeData.location?.latitude === "number" ? placeData.location.latitude : coords?.lat ?? null;
+        const longitude = typeof placeData.location?.longitude === "number" ? placeData.location.longitude : coords?.lng ?? null;
+        const existingPlace = await findFoodPlace(auth.context.supabase, auth.context.user.id, {
+            googlePlaceId: placeData.id ?? null,
+            name,
+            address,
+        });
+
         const payload: MapsPlaceDetailsResponse = {
-            name: placeData.displayName?.text || "",
-            address: placeData.formattedAddress || "",
+            name,
+            address,
             website: placeData.websiteUri || "",
             priceLevel: priceLevelMap[placeData.priceLevel] || null,
             neighborhood,
@@ -223,6 +234,12 @@ export async function POST(request: Request) {
             country: country || "Cambodia", // Default/Fallback
             googleMapsUrl: placeData.googleMapsUri || url,
             photos: photoUrls.length > 0 ? photoUrls : null,
+            googlePlaceId: placeData.id ?? null,
+            latitude,
+            longitude,
+            existingPlace: existingPlace
+                ? { id: existingPlace.id, name: existingPlace.name, branch: existingPlace.branch }
+                : null,
         };
 
         return Response.json(payload);
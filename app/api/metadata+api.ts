@@ -17,7 +17,8 @@ import {
   OMDBResponse
 } from "@/src/server/services/omdb";
 import { normalizeLanguageCode, normalizeLanguage } from "@/src/server/language-utils";
-import { classifyWithGemini } from "@/src/server/services/ai-classifier";
+import { classifyWithLLM, isClassifierConfigured } from "@/src/server/services/ai-classifier";
+import { getMetadataProvider } from "@/src/server/services/metadata-providers";
 import type { MetadataResponse } from "@analytics/contracts";
 
 export async function GET(request: Request) {
@@ -25,12 +26,39 @@ export async function GET(request: Request) {
     const searchParams = (new URL(request.url)).searchParams;
     const title = searchParams.get("title");
     const imdbIdParam = searchParams.get("imdb_id"); // For direct IMDb ID searches
+    const isbnParam = searchParams.get("isbn"); // For direct ISBN lookups (books)
     const type = searchParams.get("type"); // movie, series, episode
     const medium = searchParams.get("medium"); // Movie, TV Show, etc.
     const year = searchParams.get("year");
     const season = searchParams.get("season"); // Season number (e.g., "1", "2")
     const source = searchParams.get("source"); // "omdb", "tmdb", or undefined (both)
 
+    // --- PROVIDER FLOW (books, ...) ---
+
+    const provider = getMetadataProvider(medium);
+    if (provider) {
+      if (!provider.isConfigured()) {
+        return Response.json(
+          { error: `The ${provider.source} metadata provider is not configured` },
+          { status: 500 }
+        );
+      }
+
+      if (!title && !isbnParam) {
+        return Response.json(
+          { error: "Title or ISBN is required" },
+          { status: 400 }
+        );
+      }
+
+      const providerMetadata = await provider.lookup({ title, isbn: isbnParam, year });
+      if (!providerMetadata) {
+        return Response.json({ error: "Media not found" }, { status: 404 });
+      }
+
+      return Response.json(providerMetadata);
+    }
+
     // Check if imdb_id is provided
     const isImdbId = imdbIdParam && imdbIdParam.trim().startsWith("tt");
 
@@ -297,17 +325,16 @@ export async function GET(request: Request) {
       needsAIClassification = true;
     }
 
-    // 2. Gemini AI Fallback (if needed and available)
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-    if (needsAIClassification && geminiApiKey && metadata.title) {
+    // 2. AI Fallback (if needed and a provider is configured)
+    if (needsAIClassification && metadata.title && isClassifierConfigured()) {
       try {
-        const classification = await classifyWithGemini({
+        const classification = await classifyWithLLM({
           title: metadata.title,
           plot: metadata.plot || undefined,
           genres: Array.isArray(metadata.genre) ? metadata.genre : (metadata.genre ? [metadata.genre] : undefined),
           year: metadata.year || undefined,
           type: metadata.type || undefined,
-        }, geminiApiKey);
+        });
 
         if (classification) {
           if (classification.content_type && !metadata.content_type) {
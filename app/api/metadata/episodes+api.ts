@@ -0,0 +1,120 @@
+import { fetchTMDBSeason, findTMDBByIMDb, searchTMDB } from "@/src/server/services/tmdb";
+import { fetchOMDBByTitle, fetchOMDBEpisodeRuntimes, fetchOMDBSeason } from "@/src/server/services/omdb";
+import type { EpisodeMetadata, SeasonEpisodesResponse } from "@analytics/contracts";
+
+function parseOMDBNumber(value: string | undefined): number | null {
+  if (!value || value === "N/A") return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+async function fetchTMDBEpisodes(
+  apiKey: string,
+  seasonNumber: number,
+  imdbId: string | null,
+  title: string | null
+): Promise<EpisodeMetadata[] | null> {
+  const tmdbId = imdbId
+    ? await findTMDBByIMDb(imdbId, apiKey)
+    : title
+      ? await searchTMDB(title, apiKey, "tv")
+      : null;
+  if (!tmdbId?.tvId) return null;
+
+  const season = await fetchTMDBSeason(tmdbId.tvId, seasonNumber, apiKey);
+  if (!season?.episodes?.length) return null;
+
+  return season.episodes.map((episode) => ({
+    episode: episode.episode_number,
+    title: episode.name || null,
+    air_date: episode.air_date || null,
+    runtime_minutes: episode.runtime && episode.runtime > 0 ? episode.runtime : null,
+    rating: episode.vote_average ? parseFloat(episode.vote_average.toFixed(1)) : null,
+  }));
+}
+
+async function fetchOMDBEpisodes(
+  apiKey: string,
+  seasonNumber: number,
+  imdbId: string | null,
+  title: string | null
+): Promise<EpisodeMetadata[] | null> {
+  let seriesId = imdbId;
+  if (!seriesId && title) {
+    const series = await fetchOMDBByTitle(title, apiKey, { type: "series" });
+    seriesId = series?.Response === "True" && series.imdbID ? series.imdbID : null;
+  }
+  if (!seriesId) return null;
+
+  const season = await fetchOMDBSeason(seriesId, String(seasonNumber), apiKey);
+  if (!season || season.Response !== "True" || !season.Episodes?.length) return null;
+
+  // OMDB only returns runtimes on the episode records themselves.
+  const runtimes = await fetchOMDBEpisodeRuntimes(
+    season.Episodes.map((episode) => episode.imdbID || null),
+    apiKey
+  );
+
+  return season.Episodes
+    .map((episode, index) => ({
+      episode: parseInt(episode.Episode),
+      title: episode.Title && episode.Title !== "N/A" ? episode.Title : null,
+      air_date: episode.Released && episode.Released !== "N/A" ? episode.Released : null,
+      runtime_minutes: runtimes[index] > 0 ? runtimes[index] : null,
+      rating: parseOMDBNumber(episode.imdbRating),
+    }))
+    .filter((episode) => Number.isFinite(episode.episode));
+}
+
+export async function GET(request: Request) {
+  try {
+    const searchParams = (new URL(request.url)).searchParams;
+    const title = searchParams.get("title")?.trim() || null;
+    const imdbIdParam = searchParams.get("imdb_id")?.trim() || null;
+    const imdbId = imdbIdParam?.startsWith("tt") ? imdbIdParam : null;
+    const seasonMatch = (searchParams.get("season") ?? "").match(/\d+/);
+    const seasonNumber = seasonMatch ? parseInt(seasonMatch[0]) : 1;
+
+    if (!title && !imdbId) {
+      return Response.json(
+        { error: "Title or IMDb ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const omdbApiKey = process.env.OMDB_API_KEY;
+    const tmdbApiKey = process.env.TMDB_API_KEY;
+
+    if (!omdbApiKey && !tmdbApiKey) {
+      return Response.json(
+        { error: "OMDB_API_KEY or TMDB_API_KEY must be configured" },
+        { status: 500 }
+      );
+    }
+
+    // TMDB has per-episode runtimes in one request; OMDB needs one request per episode, a few at a time.
+    if (tmdbApiKey) {
+      const episodes = await fetchTMDBEpisodes(tmdbApiKey, seasonNumber, imdbId, title);
+      if (episodes) {
+        const body: SeasonEpisodesResponse = { season: seasonNumber, source: "tmdb", episodes };
+        return Response.json(body);
+      }
+    }
+
+    if (omdbApiKey) {
+      const episodes = await fetchOMDBEpisodes(omdbApiKey, seasonNumber, imdbId, title);
+      if (episodes) {
+        const body: SeasonEpisodesResponse = { season: seasonNumber, source: "omdb", episodes };
+        return Response.json(body);
+      }
+    }
+
+    return Response.json({ error: "Season not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Episode metadata fetch error:", error);
+    return Response.json(
+      { error: "Failed to fetch episode metadata" },
+      { status: 500 }
+    );
+  }
+}
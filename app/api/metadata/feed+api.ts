@@ -0,0 +1,46 @@
+import { requireAuthenticatedUser } from "@/src/server/api/request-auth";
+import { getEnvValue } from "@/src/server/env";
+import { fetchMetadataUrl } from "@/src/server/services/metadata-providers";
+import { checkFeedUrl, fetchPinnedFeedUrl, fetchPodcastFeed } from "@/src/server/services/podcast-feed";
+import type { PodcastFeedResponse } from "@analytics/contracts";
+
+export async function GET(request: Request) {
+  try {
+    const auth = await requireAuthenticatedUser(request);
+    if (!auth.success) return auth.response;
+
+    const searchParams = (new URL(request.url)).searchParams;
+    const url = searchParams.get("url")?.trim() || null;
+
+    if (!url) {
+      return Response.json(
+        { error: "A valid http(s) feed URL is required" },
+        { status: 400 }
+      );
+    }
+
+    // Private, loopback and link-local hosts are refused so the route cannot reach internal services
+    const problem = await checkFeedUrl(url);
+    if (problem) {
+      return Response.json({ error: problem }, { status: 400 });
+    }
+
+    // Live requests connect to the checked address; recorded fixtures replace them in tests
+    const feed = await fetchPodcastFeed(url, getEnvValue("METADATA_FIXTURE_FILE") ? fetchMetadataUrl : fetchPinnedFeedUrl);
+    if (!feed) {
+      return Response.json({ error: "Feed could not be loaded" }, { status: 502 });
+    }
+    if (feed.episodes.length === 0) {
+      return Response.json({ error: "Feed has no episodes" }, { status: 404 });
+    }
+
+    const body: PodcastFeedResponse = { title: feed.title, season: 1, source: "rss", episodes: feed.episodes };
+    return Response.json(body);
+  } catch (error) {
+    console.error("Podcast feed error:", error);
+    return Response.json(
+      { error: "Failed to parse podcast feed" },
+      { status: 500 }
+    );
+  }
+}
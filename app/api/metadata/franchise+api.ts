@@ -0,0 +1,102 @@
+import { fetchTMDBCollection, fetchTMDBMovie, fetchTMDBTV, findTMDBByIMDb, searchTMDB } from "@/src/server/services/tmdb";
+import type { FranchisePart, FranchiseResponse } from "@analytics/contracts";
+
+async function resolveTMDBId(
+  apiKey: string,
+  imdbId: string | null,
+  title: string | null,
+  type: string | null,
+  year: string | undefined
+): Promise<{ movieId?: number; tvId?: number } | null> {
+  if (imdbId) return findTMDBByIMDb(imdbId, apiKey);
+  if (!title) return null;
+
+  const isTV = type === "series" || type === "tv";
+  const found = await searchTMDB(title, apiKey, isTV ? "tv" : "movie", year);
+  // Entries without a type may be either; fall back to the other search.
+  if (found || type) return found;
+  return searchTMDB(title, apiKey, "tv", year);
+}
+
+async function fetchMovieCollection(apiKey: string, movieId: number): Promise<FranchiseResponse | null> {
+  const movie = await fetchTMDBMovie(movieId, apiKey);
+  if (!movie?.belongs_to_collection) return null;
+
+  const collection = await fetchTMDBCollection(movie.belongs_to_collection.id, apiKey);
+  if (!collection?.parts?.length) return null;
+
+  // Unreleased parts have no date; keep them after everything that has one.
+  const parts: FranchisePart[] = [...collection.parts]
+    .sort((left, right) => (left.release_date || "9999").localeCompare(right.release_date || "9999"))
+    .map((part, order) => ({
+      title: part.title,
+      year: part.release_date?.substring(0, 4) || null,
+      release_date: part.release_date || null,
+      order,
+    }));
+
+  return { source: "tmdb", kind: "collection", name: collection.name, parts };
+}
+
+async function fetchShowSeasons(apiKey: string, tvId: number): Promise<FranchiseResponse | null> {
+  const show = await fetchTMDBTV(tvId, apiKey);
+  // Season 0 is TMDB's bucket for specials, which are not part of the running order.
+  const seasons = (show?.seasons ?? [])
+    .filter((season) => season.season_number > 0)
+    .sort((left, right) => left.season_number - right.season_number);
+  if (!show || seasons.length === 0) return null;
+
+  const parts: FranchisePart[] = seasons.map((season, order) => ({
+    title: show.name,
+    year: season.air_date?.substring(0, 4) || null,
+    release_date: season.air_date || null,
+    order,
+    season_number: season.season_number,
+  }));
+
+  return { source: "tmdb", kind: "seasons", name: show.name, parts };
+}
+
+export async function GET(request: Request) {
+  try {
+    const searchParams = (new URL(request.url)).searchParams;
+    const title = searchParams.get("title")?.trim() || null;
+    const imdbIdParam = searchParams.get("imdb_id")?.trim() || null;
+    const imdbId = imdbIdParam?.startsWith("tt") ? imdbIdParam : null;
+    const type = searchParams.get("type")?.trim().toLowerCase() || null;
+    const year = searchParams.get("year")?.match(/\d{4}/)?.[0];
+
+    if (!title && !imdbId) {
+      return Response.json(
+        { error: "Title or IMDb ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const tmdbApiKey = process.env.TMDB_API_KEY;
+    if (!tmdbApiKey) {
+      return Response.json(
+        { error: "TMDB_API_KEY must be configured" },
+        { status: 500 }
+      );
+    }
+
+    const tmdbId = await resolveTMDBId(tmdbApiKey, imdbId, title, type, year);
+    const body = tmdbId?.movieId
+      ? await fetchMovieCollection(tmdbApiKey, tmdbId.movieId)
+      : tmdbId?.tvId
+        ? await fetchShowSeasons(tmdbApiKey, tmdbId.tvId)
+        : null;
+
+    if (!body) {
+      return Response.json({ error: "No franchise found" }, { status: 404 });
+    }
+    return Response.json(body);
+  } catch (error) {
+    console.error("Franchise metadata fetch error:", error);
+    return Response.json(
+      { error: "Failed to fetch franchise metadata" },
+      { status: 500 }
+    );
+  }
+}
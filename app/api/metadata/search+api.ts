@@ -1,4 +1,5 @@
 import { searchOMDB } from "@/src/server/services/omdb";
+import { getMetadataProvider } from "@/src/server/services/metadata-providers";
 import type { MetadataSearchItem, MetadataSearchResponse } from "@analytics/contracts";
 
 // Extended TMDB search types
@@ -74,6 +75,7 @@ export async function GET(request: Request) {
   try {
     const searchParams = (new URL(request.url)).searchParams;
     const query = searchParams.get("q");
+    const medium = searchParams.get("medium");
     
     if (!query || query.trim().length < 2) {
       return Response.json(
@@ -81,6 +83,19 @@ export async function GET(request: Request) {
         { status: 200 }
       );
     }
+
+    const provider = getMetadataProvider(medium);
+    if (provider) {
+      if (!provider.isConfigured()) {
+        return Response.json(
+          { error: `The ${provider.source} metadata provider is not configured`, results: [] },
+          { status: 500 }
+        );
+      }
+
+      const providerPayload: MetadataSearchResponse = { results: await provider.search(query.trim()) };
+      return Response.json(providerPayload);
+    }
     
     const tmdbApiKey = process.env.TMDB_API_KEY;
     const omdbApiKey = process.env.OMDB_API_KEY;
@@ -0,0 +1,11 @@
+import { Stack } from "expo-router"
+import { CurrencySettingsScreen } from "@/src/features/currency/screens/CurrencySettingsScreen"
+
+export default function CurrencyRoute() {
+  return (
+    <>
+      <Stack.Screen options={{ title: "Currency" }} />
+      <CurrencySettingsScreen />
+    </>
+  )
+}
@@ -0,0 +1,11 @@
+import { Stack } from "expo-router"
+import { CustomFieldsScreen } from "@/src/features/custom-fields/screens/CustomFieldsScreen"
+
+export default function CustomFieldsRoute() {
+  return (
+    <>
+      <Stack.Screen options={{ title: "Custom Fields" }} />
+      <CustomFieldsScreen />
+    </>
+  )
+}
@@ -1,7 +1,7 @@
 export type WorkspaceType = "media" | "food"
 export type UserProfileStatus = "pending" | "approved" | "rejected"
 export type CheckUserStatus = UserProfileStatus | "unknown"
-export type MetadataSource = "tmdb" | "omdb"
+export type MetadataSource = "tmdb" | "omdb" | "openlibrary" | "rawg" | "rss"
 export type AdminUsersStatusFilter = "all" | UserProfileStatus
 
 export interface ApiErrorResponse {
@@ -22,6 +22,7 @@ export interface CheckUserResponse {
 export interface MetadataLookupRequest {
   title?: string
   imdb_id?: string
+  isbn?: string
   type?: "movie" | "series" | "episode"
   medium?: string
   year?: string
@@ -44,10 +45,17 @@ export interface MetadataResponse {
   imdb_id: string | null
   content_type?: string | null
   price?: number | null
+  source?: MetadataSource
+  authors?: string[] | null
+  page_count?: number | null
+  isbn?: string | null
+  platforms?: string[] | null
+  developer?: string | null
 }
 
 export interface MetadataSearchRequest {
   q: string
+  medium?: string
 }
 
 export interface MetadataSearchItem {
@@ -55,8 +63,11 @@ export interface MetadataSearchItem {
   title: string
   year: string | null
   poster_url: string | null
-  media_type: "movie" | "tv"
+  media_type: "movie" | "tv" | "book" | "game"
   imdb_id?: string
+  isbn?: string
+  authors?: string[]
+  platforms?: string[]
 }
 
 export interface MetadataSearchResponse {
@@ -64,6 +75,62 @@ export interface MetadataSearchResponse {
   error?: string
 }
 
+export interface SeasonEpisodesRequest {
+  title?: string
+  imdb_id?: string
+  season: string
+}
+
+export interface EpisodeMetadata {
+  episode: number
+  title: string | null
+  air_date: string | null
+  runtime_minutes: number | null
+  rating: number | null
+}
+
+export interface SeasonEpisodesResponse {
+  season: number
+  source: MetadataSource
+  episodes: EpisodeMetadata[]
+}
+
+export interface PodcastFeedRequest {
+  url: string
+}
+
+/** Feed episodes as a single season so they share the episode checklist. */
+export interface PodcastFeedResponse extends SeasonEpisodesResponse {
+  title: string | null
+}
+
+export interface FranchiseRequest {
+  title?: string
+  imdb_id?: string
+  type?: string
+  year?: string
+}
+
+export interface FranchisePart {
+  title: string
+  year: string | null
+  release_date: string | null
+  /** 0-based position in release order (or season order for `kind: "seasons"`). */
+  order: number
+  season_number?: number
+}
+
+/**
+ * A TMDB movie collection ("The Matrix Collection") or a show's season list, in order.
+ * `kind` decides whether consecutive library matches are suggested as sequel_of or season_of.
+ */
+export interface FranchiseResponse {
+  source: MetadataSource
+  kind: "collection" | "seasons"
+  name: string
+  parts: FranchisePart[]
+}
+
 export interface MapsPlaceDetailsRequest {
   url: string
 }
@@ -78,6 +145,69 @@ export interface MapsPlaceDetailsResponse {
   country: string | null
   googleMapsUrl: string
   photos: string[] | null
+  googlePlaceId?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  /** The user's saved place this resolves to, so a new visit joins it instead of creating a duplicate. */
+  existingPlace?: MapsExistingPlace | null
+}
+
+export interface MapsExistingPlace {
+  id: string
+  name: string
+  branch: string | null
+}
+
+export type FoodRecommendationFactor = "distance" | "rating" | "wouldReturn" | "recency" | "budget" | "diningType" | "cuisine"
+
+export interface FoodRecommendationsRequest {
+  latitude?: number | null
+  longitude?: number | null
+  city?: string | null
+  maxDistanceKm?: number | null
+  /** 1 (cheap) to 4 (very expensive). */
+  maxPriceLevel?: number | null
+  diningType?: string | null
+  cuisines?: string[]
+  limit?: number
+}
+
+export interface FoodRecommendationReason {
+  factor: FoodRecommendationFactor
+  /** 0-1 score for this factor. */
+  score: number
+  detail: string
+}
+
+export interface FoodRecommendationItem {
+  placeId: string | null
+  /** Most recent visit to the place. */
+  entryId: string
+  name: string
+  branch: string | null
+  city: string | null
+  distanceKm: number | null
+  averageRating: number | null
+  visitCount: number
+  lastVisitDate: string
+  /** 0-100. */
+  score: number
+  reasons: FoodRecommendationReason[]
+}
+
+export interface FoodRecommendationsResponse {
+  recommendations: FoodRecommendationItem[]
+}
+
+export interface FoodPlaceMergeRequest {
+  targetId: string
+  /** Places folded into the target; earlier ones win when two could fill the same blank field. */
+  sourceIds: string[]
+}
+
+export interface FoodPlaceMergeResponse {
+  /** Visits moved over from the merged places. */
+  movedVisits: number
 }
 
 export interface CleanedMediaEntry {
@@ -88,6 +218,7 @@ export interface CleanedMediaEntry {
   episodes: number | null
   length: string | null
   price: number | null
+  currency: string | null
   status: string | null
   my_rating: number | null
   average_rating: number | null
@@ -193,6 +324,7 @@ export interface MediaActionData {
   episodes?: number
   episodes_watched?: number
   price?: number
+  currency?: string
   poster_url?: string
   imdb_id?: string
   average_rating?: number
@@ -208,6 +340,39 @@ export interface MediaAction {
   data?: MediaActionData
 }
 
+export interface FoodActionData {
+  name?: string
+  branch?: string
+  visit_date?: string
+  category?: string
+  cuisine_type?: string[]
+  dining_type?: string
+  overall_rating?: number
+  food_rating?: number
+  ambiance_rating?: number
+  service_rating?: number
+  value_rating?: number
+  total_price?: number
+  currency?: string
+  price_level?: string
+  favorite_item?: string
+  would_return?: boolean
+  address?: string
+  neighborhood?: string
+  city?: string
+  country?: string
+  tags?: string[]
+  notes?: string
+}
+
+export interface FoodAction {
+  type: "create" | "update" | "delete"
+  id?: string
+  data?: FoodActionData
+}
+
+export type WorkspaceAction = MediaAction | FoodAction
+
 export interface ActionValidationResult {
   valid: boolean
   errors: string[]
@@ -226,9 +391,59 @@ export interface ValidatedMediaAction {
   validation: ActionValidationResult
 }
 
+export interface MatchedFoodEntrySummary {
+  id: string
+  name: string
+  visit_date: string
+}
+
+export interface ValidatedFoodAction {
+  action: FoodAction
+  matchedEntry?: MatchedFoodEntrySummary | null
+  validation: ActionValidationResult
+}
+
+export type SqlRejectionCode =
+  | "empty_query"
+  | "syntax_error"
+  | "multiple_statements"
+  | "not_select"
+  | "forbidden_keyword"
+  | "function_not_allowed"
+  | "system_object"
+  | "table_not_allowed"
+  | "missing_table"
+  | "invalid_limit"
+  | "invalid_user"
+
+export interface SqlRejectionReason {
+  code: SqlRejectionCode
+  message: string
+}
+
 export interface AIQueryRequest {
   query: string
   workspace: WorkspaceType
+  /** Continue an existing conversation; its recent turns are sent to the model as context. */
+  conversationId?: string
+  /** Re-execute the stored SQL of this turn of `conversationId` instead of asking the model again. */
+  rerunTurnId?: string
+  /** Re-execute the SQL of one of the caller's saved dashboard cards. */
+  cardId?: string
+  /** Set to false to skip writing this query to the conversation history (e.g. dashboard refreshes). */
+  recordHistory?: boolean
+}
+
+export interface AIConversationTurn {
+  id: string
+  query: string
+  type: "query" | "action"
+  sql: string | null
+  explanation: string | null
+  columns: string[]
+  rowCount: number | null
+  intent: string | null
+  created_at: string
 }
 
 export interface AIQueryMetadata {
@@ -247,28 +462,81 @@ export interface AIQueryResponse {
   data?: Record<string, unknown>[]
   metadata?: AIQueryMetadata
   intent?: string
-  actions?: MediaAction[]
+  workspace?: WorkspaceType
+  actions?: WorkspaceAction[]
+  rejections?: SqlRejectionReason[]
+  conversationId?: string
+  /** The stored turn this response answers; absent when history was not recorded. */
+  turnId?: string
   error?: string
 }
 
-export interface ExecuteActionsRequest {
-  actions: MediaAction[]
+export interface SaveDashboardCardRequest {
+  workspace: WorkspaceType
+  /** The recorded query turn whose SQL the card re-runs. */
+  conversationId: string
+  turnId: string
+  title: string
+  visualizationType: AIQueryMetadata["visualizationType"]
+}
+
+export interface SaveDashboardCardResponse {
+  cardId: string
+}
+
+export type ExecuteActionsMode = "dry-run" | "atomic" | "best-effort"
+
+export type ExecuteActionsRequest = (
+  | { workspace?: "media"; actions: MediaAction[] }
+  | { workspace: "food"; actions: FoodAction[] }
+) & {
+  /** Defaults to "best-effort", which applies each action independently. */
+  mode?: ExecuteActionsMode
+}
+
+export interface ActionFieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export interface ExecuteActionDiff {
+  entryId: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changes: ActionFieldChange[]
 }
 
 export interface ExecuteActionResult {
   success: boolean
-  action: MediaAction
+  action: WorkspaceAction
   error?: string
   entryId?: string
+  diff?: ExecuteActionDiff
 }
 
 export interface ExecuteActionsResponse {
   success: boolean
+  mode: ExecuteActionsMode
   results: ExecuteActionResult[]
   summary: {
     total: number
     succeeded: number
     failed: number
   }
+  /** Reverts every applied action of the batch; null when nothing was applied. */
+  undoToken: string | null
+  rolledBack?: boolean
+  error?: string
+}
+
+export interface UndoActionsRequest {
+  undoToken: string
+}
+
+export interface UndoActionsResponse {
+  success: boolean
+  reverted: number
+  errors: string[]
   error?: string
 }
@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/src/shared/api/supabase"
+import type { AIConversation } from "@/src/shared/types/database"
+import type { WorkspaceType } from "@analytics/contracts"
+
+export function useAIConversations(workspace: WorkspaceType) {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: ["ai-conversations", workspace],
+    queryFn: async (): Promise<AIConversation[]> => {
+      const { data, error } = await supabase
+        .from("ai_conversations")
+        .select("*")
+        .eq("workspace", workspace)
+        .order("pinned", { ascending: false })
+        .order("updated_at", { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+      return ((data ?? []) as AIConversation[]).map((conversation) => ({
+        ...conversation,
+        turns: Array.isArray(conversation.turns) ? conversation.turns : []
+      }))
+    }
+  })
+
+  const pinMutation = useMutation({
+    mutationFn: async ({ id, pinned }: { id: string; pinned: boolean }) => {
+      const { error } = await supabase.from("ai_conversations").update({ pinned }).eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["ai-conversations"] })
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ai_conversations").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["ai-conversations"] })
+  })
+
+  return {
+    ...query,
+    setPinned: pinMutation.mutateAsync,
+    deleteConversation: deleteMutation.mutateAsync,
+    refreshConversations: () => queryClient.invalidateQueries({ queryKey: ["ai-conversations"] })
+  }
+}
@@ -13,19 +13,57 @@ import { SafeAreaView } from "react-native-safe-area-context"
 import { Stack, useLocalSearchParams } from "expo-router"
 import { supabase } from "@/src/shared/api/supabase"
 import { backendFetch } from "@/src/shared/api/backend"
+import { useAIConversations } from "@/src/features/ai/hooks/useAIConversations"
+import { useDashboardCards } from "@/src/features/analytics/hooks/useDashboardCards"
 import { GroupedSection } from "@/src/shared/components/native/grouped-section"
 import { NativeSegmentedControl } from "@/src/shared/components/native/native-segmented-control"
 import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
 import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { AIConversation } from "@/src/shared/types/database"
 import type {
+  AIConversationTurn,
   AIQueryResponse,
+  ExecuteActionDiff,
+  ExecuteActionsMode,
   ExecuteActionsResponse,
+  FoodAction,
   MediaAction,
+  UndoActionsResponse,
+  ValidatedFoodAction,
   ValidatedMediaAction,
+  WorkspaceAction,
   WorkspaceType
 } from "@analytics/contracts"
 
 const STATUS_OPTIONS = ["Watching", "Finished", "On Hold", "Dropped", "Plan to Watch", "Planned"]
+const FOOD_RATING_FIELDS = ["overall_rating", "food_rating", "ambiance_rating", "service_rating", "value_rating"] as const
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+type ValidatedWorkspaceAction = ValidatedMediaAction | ValidatedFoodAction
+type ActionDraft = Record<string, unknown>
+
+interface ActionEditField {
+  key: string
+  placeholder: string
+  numeric?: boolean
+}
+
+const MEDIA_EDIT_FIELDS: ActionEditField[] = [
+  { key: "title", placeholder: "Title" },
+  { key: "medium", placeholder: "Medium" },
+  { key: "platform", placeholder: "Platform" },
+  { key: "status", placeholder: `Status (${STATUS_OPTIONS.join(", ")})` },
+  { key: "my_rating", placeholder: "My rating (0-10)", numeric: true }
+]
+
+const FOOD_EDIT_FIELDS: ActionEditField[] = [
+  { key: "name", placeholder: "Place name" },
+  { key: "visit_date", placeholder: "Visit date (YYYY-MM-DD)" },
+  { key: "city", placeholder: "City" },
+  { key: "overall_rating", placeholder: "Overall rating (0-10)", numeric: true },
+  { key: "total_price", placeholder: "Total price", numeric: true },
+  { key: "currency", placeholder: "Currency (e.g. USD)" }
+]
 
 export function AIScreen() {
   const { palette } = useAppTheme()
@@ -41,11 +79,28 @@ export function AIScreen() {
   const [validationOpen, setValidationOpen] = useState(false)
   const [validating, setValidating] = useState(false)
   const [executing, setExecuting] = useState(false)
-  const [validatedActions, setValidatedActions] = useState<ValidatedMediaAction[]>([])
+  const [actionWorkspace, setActionWorkspace] = useState<WorkspaceType>(initialWorkspace)
+  const [validatedActions, setValidatedActions] = useState<ValidatedWorkspaceAction[]>([])
   const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set())
+  const [previewing, setPreviewing] = useState(false)
+  const [previewDiffs, setPreviewDiffs] = useState<Map<number, ExecuteActionDiff | string>>(new Map())
+  const [undoToken, setUndoToken] = useState<string | null>(null)
+  const [undoing, setUndoing] = useState(false)
 
   const [editIndex, setEditIndex] = useState<number | null>(null)
-  const [editDraft, setEditDraft] = useState<MediaAction["data"] | null>(null)
+  const [editDraft, setEditDraft] = useState<ActionDraft | null>(null)
+
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [threadTurns, setThreadTurns] = useState<AIConversationTurn[]>([])
+  const {
+    data: conversations,
+    setPinned,
+    deleteConversation,
+    refreshConversations
+  } = useAIConversations(workspace)
+  const { saveCard, saving: savingCard } = useDashboardCards(workspace)
+  const [cardTitle, setCardTitle] = useState("")
+  const [savedCardSql, setSavedCardSql] = useState<string | null>(null)
 
   useEffect(() => {
     if (workspaceParam === "media" || workspaceParam === "food") {
@@ -53,22 +108,102 @@ export function AIScreen() {
     }
   }, [workspaceParam])
 
-  async function submit() {
+  useEffect(() => {
+    setConversationId(null)
+    setThreadTurns([])
+  }, [workspace])
+
+  function startNewConversation() {
+    setConversationId(null)
+    setThreadTurns([])
+    setResult(null)
+    setError(null)
+  }
+
+  function openConversation(conversation: AIConversation) {
+    setConversationId(conversation.id)
+    setThreadTurns(conversation.turns)
+    setResult(null)
+    setError(null)
+  }
+
+  async function rerunConversation(conversation: AIConversation) {
+    const lastQuery = [...conversation.turns].reverse().find((turn) => turn.type === "query" && turn.sql)
+    if (!lastQuery?.sql) return
+    openConversation(conversation)
+    await submit({ text: lastQuery.query, rerunTurnId: lastQuery.id, targetConversationId: conversation.id })
+  }
+
+  async function togglePinned(conversation: AIConversation) {
+    try {
+      await setPinned({ id: conversation.id, pinned: !conversation.pinned })
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update conversation")
+    }
+  }
+
+  async function removeConversation(conversation: AIConversation) {
+    try {
+      await deleteConversation(conversation.id)
+      if (conversation.id === conversationId) startNewConversation()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete conversation")
+    }
+  }
+
+  async function saveResultAsCard() {
+    if (!result?.sql || !result.metadata) return
+    if (!result.conversationId || !result.turnId) {
+      setError("This query was not saved to history, so it cannot be added to the dashboard")
+      return
+    }
+    const lastQuery = threadTurns[threadTurns.length - 1]?.query ?? query
+    try {
+      await saveCard({
+        workspace,
+        conversationId: result.conversationId,
+        turnId: result.turnId,
+        title: cardTitle.trim() || lastQuery.trim(),
+        visualizationType: result.metadata.visualizationType
+      })
+      setSavedCardSql(result.sql)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save dashboard card")
+    }
+  }
+
+  async function submit(options: { text?: string; rerunTurnId?: string; targetConversationId?: string | null } = {}) {
+    const text = options.text ?? query
+    const activeConversationId = options.targetConversationId !== undefined ? options.targetConversationId : conversationId
+
     setLoading(true)
     setError(null)
     setResult(null)
     setValidatedActions([])
     setSelectedIndexes(new Set())
+    setPreviewDiffs(new Map())
 
     try {
       const response = await backendFetch<AIQueryResponse>("/api/ai-query", {
         method: "POST",
-        body: JSON.stringify({ query, workspace })
+        body: JSON.stringify({
+          query: text,
+          workspace,
+          conversationId: activeConversationId ?? undefined,
+          rerunTurnId: options.rerunTurnId
+        })
       })
       setResult(response)
+      setCardTitle(text.trim())
+      setSavedCardSql(null)
+      setConversationId(response.conversationId ?? activeConversationId)
+      // A rerun answers a turn already in the thread
+      if (!options.rerunTurnId) setThreadTurns((prev) => [...prev, toLocalTurn(text, response)])
+      if (!options.text) setQuery("")
+      refreshConversations()
 
       if (response.type === "action" && Array.isArray(response.actions)) {
-        await openActionValidation(response.actions)
+        await openActionValidation(response.workspace ?? workspace, response.actions)
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to run query")
@@ -77,10 +212,13 @@ export function AIScreen() {
     }
   }
 
-  async function openActionValidation(actions: MediaAction[]) {
+  async function openActionValidation(targetWorkspace: WorkspaceType, actions: WorkspaceAction[]) {
     setValidating(true)
     try {
-      const validated = await validateActions(actions)
+      const validated = targetWorkspace === "food"
+        ? await validateFoodActions(actions as FoodAction[])
+        : await validateMediaActions(actions as MediaAction[])
+      setActionWorkspace(targetWorkspace)
       setValidatedActions(validated)
       setSelectedIndexes(new Set(validated.map((item, index) => (item.validation.valid ? index : -1)).filter((index) => index >= 0)))
       setValidationOpen(true)
@@ -92,6 +230,7 @@ export function AIScreen() {
   }
 
   function toggleSelection(index: number) {
+    setPreviewDiffs(new Map())
     setSelectedIndexes((prev) => {
       const next = new Set(prev)
       if (next.has(index)) next.delete(index)
@@ -104,7 +243,7 @@ export function AIScreen() {
     const target = validatedActions[index]
     if (!target) return
     setEditIndex(index)
-    setEditDraft(target.action.data ?? {})
+    setEditDraft({ ...(target.action.data ?? {}) })
   }
 
   function applyActionEdit() {
@@ -121,37 +260,80 @@ export function AIScreen() {
               ...editDraft
             }
           }
-        }
+        } as ValidatedWorkspaceAction
       })
     )
     setEditIndex(null)
     setEditDraft(null)
+    setPreviewDiffs(new Map())
   }
 
-  async function executeActions() {
-    const selected = Array.from(selectedIndexes)
-      .map((index) => validatedActions[index])
-      .filter((item) => item?.validation.valid)
-      .map((item) => item.action)
+  function getSelectedActionIndexes() {
+    return Array.from(selectedIndexes)
+      .sort((left, right) => left - right)
+      .filter((index) => validatedActions[index]?.validation.valid)
+  }
 
-    if (selected.length === 0) {
+  function postActions(indexes: number[], mode: ExecuteActionsMode) {
+    return backendFetch<ExecuteActionsResponse>("/api/execute-actions", {
+      method: "POST",
+      body: JSON.stringify({
+        workspace: actionWorkspace,
+        mode,
+        actions: indexes.map((index) => validatedActions[index].action)
+      })
+    })
+  }
+
+  async function previewActions() {
+    const indexes = getSelectedActionIndexes()
+    if (indexes.length === 0) {
       setError("Select at least one valid action")
       return
     }
 
-    setExecuting(true)
+    setPreviewing(true)
     setError(null)
     try {
-      const response = await backendFetch<ExecuteActionsResponse>("/api/execute-actions", {
-        method: "POST",
-        body: JSON.stringify({ actions: selected })
+      const response = await postActions(indexes, "dry-run")
+      const next = new Map<number, ExecuteActionDiff | string>()
+      response.results.forEach((item, position) => {
+        const index = indexes[position]
+        if (index == null) return
+        next.set(index, item.diff ?? item.error ?? "No changes")
       })
+      setPreviewDiffs(next)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to preview actions")
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  async function executeActions() {
+    const indexes = getSelectedActionIndexes()
+    if (indexes.length === 0) {
+      setError("Select at least one valid action")
+      return
+    }
+
+    setExecuting(true)
+    setError(null)
+    try {
+      const response = await postActions(indexes, "atomic")
+
+      if (response.rolledBack) {
+        const failure = response.results.find((item) => item.error && !item.error.startsWith("Rolled back") && !item.error.startsWith("Not applied"))
+        throw new Error(`Nothing was changed: ${failure?.error ?? response.error ?? "an action failed"}`)
+      }
 
       if (!response.success && response.summary.succeeded === 0) {
         throw new Error("No actions executed")
       }
 
+      setUndoToken(response.undoToken)
       setError(`Executed ${response.summary.succeeded}/${response.summary.total} actions`)
+      setPreviewDiffs(new Map())
       setValidationOpen(false)
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to execute actions")
@@ -160,6 +342,29 @@ export function AIScreen() {
     }
   }
 
+  async function undoLastBatch() {
+    if (!undoToken) return
+
+    setUndoing(true)
+    setError(null)
+    try {
+      const response = await backendFetch<UndoActionsResponse>("/api/execute-actions/undo", {
+        method: "POST",
+        body: JSON.stringify({ undoToken })
+      })
+      setUndoToken(null)
+      setError(
+        response.success
+          ? `Reverted ${response.reverted} actions`
+          : `Reverted ${response.reverted} actions; ${response.errors.join("; ")}`
+      )
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to undo actions")
+    } finally {
+      setUndoing(false)
+    }
+  }
+
   const selectedCount = useMemo(() => selectedIndexes.size, [selectedIndexes])
 
   return (
@@ -185,21 +390,90 @@ export function AIScreen() {
 
         <GroupedSection title="Ask Assistant">
           <View style={{ padding: 16, gap: 14 }}>
+            {threadTurns.length > 0 ? (
+              <View style={{ gap: 8 }}>
+                {threadTurns.map((turn, index) => (
+                  <View key={turn.id} style={[styles.turnRow, { borderColor: palette.border }]}>
+                    <Text selectable style={[styles.turnQuery, { color: palette.text }]}>
+                      {index + 1}. {turn.query}
+                    </Text>
+                    {turn.explanation || turn.intent ? (
+                      <Text selectable style={[styles.meta, { color: palette.textMuted }]}>
+                        {turn.explanation ?? turn.intent}
+                      </Text>
+                    ) : null}
+                  </View>
+                ))}
+              </View>
+            ) : null}
+
             <TextInput
               style={[styles.input, themedInput(palette)]}
               value={query}
               onChangeText={setQuery}
-              placeholder="Ask a question or request an action"
+              placeholder={threadTurns.length > 0 ? "Ask a follow-up (e.g. \"now only 2025\")" : "Ask a question or request an action"}
               placeholderTextColor={palette.textMuted}
               multiline
             />
 
-            <Pressable style={[styles.submit, { backgroundColor: palette.primary }]} onPress={submit} disabled={loading || !query.trim()}>
+            <Pressable style={[styles.submit, { backgroundColor: palette.primary }]} onPress={() => submit()} disabled={loading || !query.trim()}>
               {loading ? <ActivityIndicator color={palette.primaryText} /> : <Text style={[styles.submitText, { color: palette.primaryText }]}>Run</Text>}
             </Pressable>
+
+            {threadTurns.length > 0 ? (
+              <Pressable style={[styles.secondaryButton, { borderColor: palette.border }]} onPress={startNewConversation} disabled={loading}>
+                <Text style={{ color: palette.text, fontWeight: "700" }}>New Conversation</Text>
+              </Pressable>
+            ) : null}
           </View>
         </GroupedSection>
 
+        {conversations && conversations.length > 0 ? (
+          <GroupedSection title="History">
+            <View style={{ padding: 16, gap: 10 }}>
+              {conversations.map((conversation) => {
+                const active = conversation.id === conversationId
+                const canRerun = conversation.turns.some((turn) => turn.type === "query" && turn.sql)
+                return (
+                  <View
+                    key={conversation.id}
+                    style={[styles.actionRow, { backgroundColor: palette.surface, borderColor: active ? palette.primary : palette.border }]}
+                  >
+                    <Pressable onPress={() => openConversation(conversation)}>
+                      <Text selectable style={[styles.turnQuery, { color: palette.text }]} numberOfLines={2}>
+                        {conversation.pinned ? "📌 " : ""}{conversation.title}
+                      </Text>
+                      <Text style={[styles.meta, { color: palette.textMuted }]}>
+                        {conversation.turns.length} turns • {conversation.updated_at.slice(0, 10)}
+                      </Text>
+                    </Pressable>
+                    <View style={styles.historyActions}>
+                      <Pressable style={[styles.historyButton, { borderColor: palette.border }]} onPress={() => openConversation(conversation)}>
+                        <Text style={{ color: palette.text, fontSize: 12 }}>Open</Text>
+                      </Pressable>
+                      {canRerun ? (
+                        <Pressable
+                          style={[styles.historyButton, { borderColor: palette.border }]}
+                          onPress={() => rerunConversation(conversation)}
+                          disabled={loading}
+                        >
+                          <Text style={{ color: palette.text, fontSize: 12 }}>Rerun</Text>
+                        </Pressable>
+                      ) : null}
+                      <Pressable style={[styles.historyButton, { borderColor: palette.border }]} onPress={() => togglePinned(conversation)}>
+                        <Text style={{ color: palette.text, fontSize: 12 }}>{conversation.pinned ? "Unpin" : "Pin"}</Text>
+                      </Pressable>
+                      <Pressable style={[styles.historyButton, { borderColor: palette.border }]} onPress={() => removeConversation(conversation)}>
+                        <Text style={{ color: palette.danger, fontSize: 12 }}>Delete</Text>
+                      </Pressable>
+                    </View>
+                  </View>
+                )
+              })}
+            </View>
+          </GroupedSection>
+        ) : null}
+
         {validating ? (
           <View style={styles.validatingRow}>
             <ActivityIndicator color={palette.primary} />
@@ -212,7 +486,35 @@ export function AIScreen() {
         {error ? <Text selectable style={[styles.error, { color: palette.danger }]}>{error}</Text> : null}
 
         {result && result.type !== "action" ? (
-          <AIQueryVisualization response={result} palette={palette} />
+          <>
+            <AIQueryVisualization response={result} palette={palette} />
+            {result.sql && result.metadata ? (
+              <GroupedSection title="Dashboard">
+                <View style={{ padding: 16, gap: 10 }}>
+                  <TextInput
+                    style={[styles.titleInput, themedInput(palette)]}
+                    value={cardTitle}
+                    onChangeText={setCardTitle}
+                    placeholder="Card name"
+                    placeholderTextColor={palette.textMuted}
+                  />
+                  <Pressable
+                    style={[styles.secondaryButton, { borderColor: palette.border }]}
+                    onPress={saveResultAsCard}
+                    disabled={savingCard || savedCardSql === result.sql}
+                  >
+                    {savingCard ? (
+                      <ActivityIndicator color={palette.primary} />
+                    ) : (
+                      <Text style={{ color: palette.text, fontWeight: "700" }}>
+                        {savedCardSql === result.sql ? "Saved to Analytics" : "Save to Dashboard"}
+                      </Text>
+                    )}
+                  </Pressable>
+                </View>
+              </GroupedSection>
+            ) : null}
+          </>
         ) : result?.type === "action" && Array.isArray(result.actions) ? (
           <GroupedSection title="Generated Plan">
             <View style={{ padding: 16, gap: 10 }}>
@@ -225,6 +527,17 @@ export function AIScreen() {
                   Review & Execute
                 </Text>
               </Pressable>
+              {undoToken ? (
+                <Pressable style={[styles.secondaryButton, { borderColor: palette.border }]} onPress={undoLastBatch} disabled={undoing}>
+                  {undoing ? (
+                    <ActivityIndicator color={palette.primary} />
+                  ) : (
+                    <Text selectable style={{ color: palette.danger, fontWeight: "700" }}>
+                      Undo Last Batch
+                    </Text>
+                  )}
+                </Pressable>
+              ) : null}
             </View>
           </GroupedSection>
         ) : null}
@@ -260,9 +573,9 @@ export function AIScreen() {
                     <Text style={[styles.actionType, { color: palette.text }]}>{item.action.type.toUpperCase()}</Text>
                     <Text style={{ color: selected ? palette.primary : palette.textMuted }}>{selected ? "Selected" : "Not selected"}</Text>
                   </View>
-                  <Text selectable style={{ color: palette.text }}>{item.action.data?.title ?? "Untitled action"}</Text>
+                  <Text selectable style={{ color: palette.text }}>{describeAction(item.action)}</Text>
                   {item.matchedEntry ? (
-                    <Text selectable style={[styles.meta, { color: palette.textMuted }]}>Match: {item.matchedEntry.title}</Text>
+                    <Text selectable style={[styles.meta, { color: palette.textMuted }]}>Match: {describeMatch(item)}</Text>
                   ) : null}
                   {item.validation.errors.map((msg) => (
                     <Text key={`error-${msg}`} selectable style={[styles.validationText, { color: palette.danger }]}>Error: {msg}</Text>
@@ -270,6 +583,9 @@ export function AIScreen() {
                   {item.validation.warnings.map((msg) => (
                     <Text key={`warn-${msg}`} selectable style={[styles.validationText, { color: "#d97706" }]}>Warning: {msg}</Text>
                   ))}
+                  {previewDiffs.has(index) ? (
+                    <ActionDiffPreview actionType={item.action.type} diff={previewDiffs.get(index)!} palette={palette} />
+                  ) : null}
 
                   {item.action.type === "create" ? (
                     <Pressable
@@ -282,6 +598,13 @@ export function AIScreen() {
                 </Pressable>
               )
             })}
+            <Pressable
+              style={[styles.secondaryButton, { borderColor: palette.border }]}
+              onPress={previewActions}
+              disabled={previewing || selectedCount === 0}
+            >
+              {previewing ? <ActivityIndicator color={palette.primary} /> : <Text style={{ color: palette.text, fontWeight: "700" }}>Preview Changes</Text>}
+            </Pressable>
             <Pressable
               style={[
                 styles.submit,
@@ -309,45 +632,24 @@ export function AIScreen() {
 
           {editDraft ? (
             <ScrollView contentInsetAdjustmentBehavior="automatic" contentContainerStyle={{ gap: 12, padding: 16, paddingBottom: 24 }}>
-              <TextInput
-                style={[styles.input, themedInput(palette)]}
-                value={editDraft.title ?? ""}
-                onChangeText={(value) => setEditDraft((prev) => ({ ...prev, title: value }))}
-                placeholder="Title"
-                placeholderTextColor={palette.textMuted}
-              />
-              <TextInput
-                style={[styles.input, themedInput(palette)]}
-                value={editDraft.medium ?? ""}
-                onChangeText={(value) => setEditDraft((prev) => ({ ...prev, medium: value }))}
-                placeholder="Medium"
-                placeholderTextColor={palette.textMuted}
-              />
-              <TextInput
-                style={[styles.input, themedInput(palette)]}
-                value={editDraft.platform ?? ""}
-                onChangeText={(value) => setEditDraft((prev) => ({ ...prev, platform: value }))}
-                placeholder="Platform"
-                placeholderTextColor={palette.textMuted}
-              />
-              <TextInput
-                style={[styles.input, themedInput(palette)]}
-                value={editDraft.status ?? ""}
-                onChangeText={(value) => setEditDraft((prev) => ({ ...prev, status: value }))}
-                placeholder={`Status (${STATUS_OPTIONS.join(", ")})`}
-                placeholderTextColor={palette.textMuted}
-              />
-              <TextInput
-                style={[styles.input, themedInput(palette)]}
-                value={editDraft.my_rating != null ? String(editDraft.my_rating) : ""}
-                onChangeText={(value) => {
-                  const parsed = Number(value)
-                  setEditDraft((prev) => ({ ...prev, my_rating: Number.isFinite(parsed) ? parsed : undefined }))
-                }}
-                placeholder="My rating (0-10)"
-                placeholderTextColor={palette.textMuted}
-                keyboardType="decimal-pad"
-              />
+              {(actionWorkspace === "food" ? FOOD_EDIT_FIELDS : MEDIA_EDIT_FIELDS).map((field) => (
+                <TextInput
+                  key={field.key}
+                  style={[styles.input, themedInput(palette)]}
+                  value={editDraft[field.key] != null ? String(editDraft[field.key]) : ""}
+                  onChangeText={(value) => {
+                    if (!field.numeric) {
+                      setEditDraft((prev) => ({ ...prev, [field.key]: value }))
+                      return
+                    }
+                    const parsed = Number(value)
+                    setEditDraft((prev) => ({ ...prev, [field.key]: value.trim() && Number.isFinite(parsed) ? parsed : undefined }))
+                  }}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={palette.textMuted}
+                  keyboardType={field.numeric ? "decimal-pad" : "default"}
+                />
+              ))}
 
               <Pressable style={[styles.submit, { backgroundColor: palette.primary }]} onPress={applyActionEdit}>
                 <Text style={[styles.submitText, { color: palette.primaryText }]}>Save Action</Text>
@@ -442,6 +744,52 @@ function AIQueryVisualization({
   )
 }
 
+function toLocalTurn(query: string, response: AIQueryResponse): AIConversationTurn {
+  return {
+    id: response.turnId ?? `local-${Date.now()}`,
+    query,
+    type: response.type === "action" ? "action" : "query",
+    sql: response.sql ?? null,
+    explanation: response.explanation ?? null,
+    columns: response.metadata?.columns ?? [],
+    rowCount: response.metadata?.rowCount ?? null,
+    intent: response.intent ?? null,
+    created_at: new Date().toISOString()
+  }
+}
+
+function ActionDiffPreview({
+  actionType,
+  diff,
+  palette
+}: {
+  actionType: WorkspaceAction["type"]
+  diff: ExecuteActionDiff | string
+  palette: ReturnType<typeof useAppTheme>["palette"]
+}) {
+  if (typeof diff === "string") {
+    return <Text selectable style={[styles.validationText, { color: palette.danger }]}>Preview: {diff}</Text>
+  }
+
+  if (actionType === "delete") {
+    return <Text selectable style={[styles.validationText, { color: palette.textMuted }]}>Preview: entry will be deleted</Text>
+  }
+
+  if (diff.changes.length === 0) {
+    return <Text selectable style={[styles.validationText, { color: palette.textMuted }]}>Preview: no field changes</Text>
+  }
+
+  return (
+    <View style={{ gap: 2 }}>
+      {diff.changes.map((change) => (
+        <Text key={`diff-${change.field}`} selectable style={[styles.validationText, { color: palette.textMuted }]}>
+          {change.field}: {formatCell(change.before)} → {formatCell(change.after)}
+        </Text>
+      ))}
+    </View>
+  )
+}
+
 function formatCell(value: unknown) {
   if (value == null) return "-"
   if (typeof value === "object") return JSON.stringify(value)
@@ -456,7 +804,24 @@ function themedInput(palette: ReturnType<typeof useAppTheme>["palette"]) {
   }
 }
 
-async function validateActions(actions: MediaAction[]): Promise<ValidatedMediaAction[]> {
+function describeAction(action: WorkspaceAction): string {
+  const data = action.data ?? {}
+  if ("name" in data || "visit_date" in data) {
+    const food = data as NonNullable<FoodAction["data"]>
+    const name = food.name ?? "Untitled visit"
+    return food.visit_date ? `${name} • ${food.visit_date}` : name
+  }
+  return (data as NonNullable<MediaAction["data"]>).title ?? "Untitled action"
+}
+
+function describeMatch(item: ValidatedWorkspaceAction): string {
+  const matched = item.matchedEntry
+  if (!matched) return ""
+  if ("name" in matched) return `${matched.name} • ${matched.visit_date}`
+  return matched.title
+}
+
+async function validateMediaActions(actions: MediaAction[]): Promise<ValidatedMediaAction[]> {
   const { data: mediaData } = await supabase
     .from("media_entries")
     .select("id,title,status")
@@ -509,6 +874,73 @@ async function validateActions(actions: MediaAction[]): Promise<ValidatedMediaAc
   })
 }
 
+async function validateFoodActions(actions: FoodAction[]): Promise<ValidatedFoodAction[]> {
+  const { data: foodData } = await supabase
+    .from("food_entries")
+    .select("id,name,visit_date")
+    .order("visit_date", { ascending: false })
+    .limit(500)
+
+  const entries = (foodData ?? []) as Array<{ id: string; name: string; visit_date: string }>
+
+  return actions.map((action) => {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const data = action.data ?? {}
+    const name = data.name?.trim() ?? ""
+    const nameLower = name.toLowerCase()
+
+    if (!name) errors.push("Missing name")
+
+    const sameName = entries.filter((entry) => {
+      const left = entry.name.toLowerCase().trim()
+      if (!nameLower) return false
+      return left === nameLower || left.includes(nameLower) || nameLower.includes(left)
+    })
+    const matchedEntry =
+      action.type === "delete" && data.visit_date
+        ? sameName.find((entry) => entry.visit_date === data.visit_date)
+        : sameName[0]
+
+    if ((action.type === "update" || action.type === "delete") && !matchedEntry) {
+      errors.push("No matching visit found")
+    }
+    if (action.type === "create" && data.visit_date && sameName.some((entry) => entry.visit_date === data.visit_date)) {
+      warnings.push(`A visit to ${name} on ${data.visit_date} already exists`)
+    }
+    if (action.type === "create" && !data.visit_date) {
+      warnings.push("No visit date given; today will be used")
+    }
+    if (data.visit_date && !DATE_KEY_PATTERN.test(data.visit_date)) {
+      errors.push("visit_date must be YYYY-MM-DD")
+    }
+    for (const field of FOOD_RATING_FIELDS) {
+      const value = data[field]
+      if (value != null && (value < 0 || value > 10)) {
+        errors.push(`${field} must be between 0 and 10`)
+      }
+    }
+    if (data.total_price != null && data.total_price < 0) {
+      errors.push("total_price cannot be negative")
+    }
+
+    return {
+      action: {
+        ...action,
+        id: action.id ?? matchedEntry?.id
+      },
+      matchedEntry: matchedEntry
+        ? { id: matchedEntry.id, name: matchedEntry.name, visit_date: matchedEntry.visit_date }
+        : null,
+      validation: {
+        valid: errors.length === 0,
+        errors,
+        warnings
+      }
+    }
+  })
+}
+
 const styles = StyleSheet.create({
   container: { flex: 1, padding: 16, gap: 12 },
   topBlock: { gap: 12 },
@@ -520,6 +952,7 @@ const styles = StyleSheet.create({
     padding: 12,
     textAlignVertical: "top"
   },
+  titleInput: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
   submit: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
   submitText: { color: "#fff", fontWeight: "700" },
   validatingRow: { flexDirection: "row", gap: 8, alignItems: "center" },
@@ -551,5 +984,9 @@ const styles = StyleSheet.create({
   actionRow: { borderWidth: 1, borderRadius: 10, padding: 10, gap: 5 },
   actionHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
   actionType: { fontWeight: "700" },
-  validationText: { fontSize: 11 }
+  validationText: { fontSize: 11 },
+  turnRow: { borderLeftWidth: 2, paddingLeft: 10, gap: 2 },
+  turnQuery: { fontSize: 14, fontWeight: "600" },
+  historyActions: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  historyButton: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 10, paddingVertical: 6 }
 })
@@ -0,0 +1,36 @@
+import { StyleSheet, Text } from "react-native"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+/** Explains which original currencies went into a converted spend total. */
+export function CurrencyNote({
+  homeCurrency,
+  spentByCurrency,
+  unconvertedCount,
+  unitLabel
+}: {
+  homeCurrency: string
+  spentByCurrency: Record<string, number>
+  unconvertedCount: number
+  unitLabel: string
+}) {
+  const { palette } = useAppTheme()
+  const foreignCurrencies = Object.keys(spentByCurrency).filter((currency) => currency !== homeCurrency)
+  if (foreignCurrencies.length === 0 && unconvertedCount === 0) return null
+
+  const parts: string[] = []
+  if (foreignCurrencies.length > 0) {
+    const originals = foreignCurrencies.map((currency) => formatMoney(spentByCurrency[currency], currency)).join(", ")
+    parts.push(`Spend converted to ${homeCurrency} from ${originals}.`)
+  }
+  if (unconvertedCount > 0) {
+    const plural = unconvertedCount === 1 ? `${unitLabel} without an exchange rate is` : `${unitLabel}s without an exchange rate are`
+    parts.push(`${unconvertedCount} ${plural} excluded.`)
+  }
+
+  return <Text style={[styles.note, { color: palette.textMuted }]}>{parts.join(" ")}</Text>
+}
+
+const styles = StyleSheet.create({
+  note: { fontSize: 12 }
+})
@@ -1,9 +1,15 @@
 import { useMemo, useState } from "react"
 import { Pressable, StyleSheet, Text, View } from "react-native"
+import { CurrencyNote } from "@/src/features/analytics/components/CurrencyNote"
 import { DateRangeRow, MultiSelectChips } from "@/src/features/analytics/components/FilterChips"
 import { KPIGrid } from "@/src/features/analytics/components/KPIGrid"
 import { SimpleBarList } from "@/src/features/analytics/components/SimpleBarList"
 import { useFoodMetrics } from "@/src/features/analytics/hooks/useFoodMetrics"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { useCustomFieldDefinitions } from "@/src/features/custom-fields/hooks/useCustomFieldDefinitions"
+import { formatMoney, normalizeCurrencyCode, type CurrencyConverter } from "@/src/features/currency/lib/currency"
+import { describeDebt, type FoodBalances } from "@/src/features/food/lib/food-bill-split"
+import { getVisitPlaceKey } from "@/src/features/food/lib/food-places"
 import {
   applyFoodFilters,
   defaultFoodFilters,
@@ -18,6 +24,8 @@ type FoodDrilldownDimension = "place" | "cuisine" | "itemCategory" | "city" | "m
 interface FoodDrilldownSelection {
   dimension: FoodDrilldownDimension
   value: string
+  /** For place drilldowns, the `getVisitPlaceKey` of the selected place. */
+  placeKey?: string
 }
 
 interface FoodAnalyticsPanelProps {
@@ -25,13 +33,16 @@ interface FoodAnalyticsPanelProps {
 }
 
 export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
+  const { converter } = useCurrencySettings()
+  const { data: customFields } = useCustomFieldDefinitions("food")
   const [filters, setFilters] = useState<FoodFilterState>(defaultFoodFilters)
   const [foodDrilldown, setFoodDrilldown] = useState<FoodDrilldownSelection | null>(null)
   const [expandedPlaces, setExpandedPlaces] = useState<Set<string>>(new Set())
 
   const options = useMemo(() => extractFoodFilterOptions(entries), [entries])
   const filtered = useMemo(() => applyFoodFilters(entries, filters), [entries, filters])
-  const metrics = useFoodMetrics(filtered)
+  const metrics = useFoodMetrics(filtered, converter)
+  const home = metrics.homeCurrency
 
   const drilldownEntries = useMemo(() => {
     if (!foodDrilldown) return []
@@ -50,7 +61,7 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
     return Array.from(grouped.entries())
       .map(([place, placeEntries]) => {
         const sorted = [...placeEntries].sort((left, right) => right.visit_date.localeCompare(left.visit_date))
-        const total = sorted.reduce((sum, item) => sum + foodTotal(item), 0)
+        const total = sorted.reduce((sum, item) => sum + (convertedFoodTotal(item, converter) ?? 0), 0)
         return {
           place,
           entries: sorted,
@@ -58,7 +69,7 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
         }
       })
       .sort((left, right) => right.entries.length - left.entries.length)
-  }, [drilldownEntries])
+  }, [drilldownEntries, converter])
 
   return (
     <View style={styles.root}>
@@ -74,12 +85,26 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
         <MultiSelectChips label="Food Type" options={options.itemCategories} selected={filters.itemCategories} onToggle={(value) => toggle(value, filters.itemCategories, (itemCategories) => setFilters({ ...filters, itemCategories }))} />
         <MultiSelectChips label="Price" options={options.priceLevels} selected={filters.priceLevels} onToggle={(value) => toggle(value, filters.priceLevels, (priceLevels) => setFilters({ ...filters, priceLevels }))} />
         <MultiSelectChips label="City" options={options.cities} selected={filters.cities} onToggle={(value) => toggle(value, filters.cities, (cities) => setFilters({ ...filters, cities }))} />
+        {(customFields ?? []).map((field) => (
+          <MultiSelectChips
+            key={field.id}
+            label={field.label}
+            options={options.customFields[field.key] ?? []}
+            selected={filters.customFields[field.key] ?? []}
+            onToggle={(value) =>
+              toggle(value, filters.customFields[field.key] ?? [], (selected) =>
+                setFilters({ ...filters, customFields: { ...filters.customFields, [field.key]: selected } })
+              )
+            }
+          />
+        ))}
       </View>
 
       <KPIGrid
         rows={[
           { label: "visits", value: String(metrics.totalVisits) },
-          { label: "spent", value: `$${metrics.totalSpent.toFixed(2)}` },
+          { label: "table spend", value: formatMoney(metrics.totalSpent, home) },
+          { label: "my spend", value: formatMoney(metrics.mySpent, home) },
           { label: "avg rating", value: metrics.averageRating.toFixed(2) },
           { label: "unique places", value: String(metrics.uniquePlaces) },
           { label: "top city", value: metrics.topCity ?? "-" },
@@ -92,6 +117,15 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
         ]}
       />
 
+      <CurrencyNote
+        homeCurrency={home}
+        spentByCurrency={metrics.spentByCurrency}
+        unconvertedCount={metrics.unconvertedCount}
+        unitLabel="visit"
+      />
+
+      <FoodBalancesCard balances={metrics.balances} homeCurrency={home} />
+
       <SimpleBarList
         title="Visits by Month"
         rows={metrics.countByMonth.map((row) => ({ label: row.month, value: row.count }))}
@@ -108,7 +142,7 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
       <SimpleBarList
         title="Spending by Month"
         rows={metrics.spentByMonth.map((row) => ({ label: row.month, value: row.amount }))}
-        formatValue={(value) => `$${value.toFixed(0)}`}
+        formatValue={(value) => formatMoney(value, home, 0)}
       />
       <SimpleBarList
         title="By Cuisine"
@@ -144,13 +178,18 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
           setFoodDrilldown((prev) =>
             prev && prev.dimension === "place" && prev.value === label
               ? null
-              : { dimension: "place", value: label }
+              : {
+                  dimension: "place",
+                  value: label,
+                  placeKey: metrics.mostVisitedPlaces.find((row) => row.name === label)?.key
+                }
           )
         }}
         selectedLabel={foodDrilldown?.dimension === "place" ? foodDrilldown.value : null}
       />
 
       <FoodDrilldownCard
+        converter={converter}
         selection={foodDrilldown}
         rows={drilldownByPlace}
         expandedPlaces={expandedPlaces}
@@ -171,13 +210,37 @@ export function FoodAnalyticsPanel({ entries }: FoodAnalyticsPanelProps) {
   )
 }
 
+function FoodBalancesCard({ balances, homeCurrency }: { balances: FoodBalances; homeCurrency: string }) {
+  const { palette } = useAppTheme()
+  if (balances.settlements.length === 0) return null
+
+  return (
+    <View style={[styles.drilldownCard, { backgroundColor: palette.surface, borderColor: palette.border }]}>
+      <Text style={[styles.blockTitle, { color: palette.text }]}>Who Owes Whom</Text>
+      {balances.settlements.map((debt) => (
+        <View key={`${debt.from}-${debt.to}`} style={styles.drilldownGroupHeader}>
+          <Text style={[styles.drilldownPlace, { color: palette.text }]}>{describeDebt(debt)}</Text>
+          <Text style={[styles.drilldownMeta, { color: palette.textMuted }]}>{formatMoney(debt.amount, homeCurrency)}</Text>
+        </View>
+      ))}
+      {balances.unconvertedCount > 0 ? (
+        <Text style={[styles.drilldownMeta, { color: palette.textMuted }]}>
+          {balances.unconvertedCount} split {balances.unconvertedCount === 1 ? "visit" : "visits"} left out: no exchange rate
+        </Text>
+      ) : null}
+    </View>
+  )
+}
+
 function FoodDrilldownCard({
+  converter,
   selection,
   rows,
   expandedPlaces,
   onTogglePlace,
   onClear
 }: {
+  converter: CurrencyConverter
   selection: FoodDrilldownSelection | null
   rows: Array<{ place: string; entries: FoodEntry[]; total: number }>
   expandedPlaces: Set<string>
@@ -207,7 +270,7 @@ function FoodDrilldownCard({
                 <Pressable style={styles.drilldownGroupHeader} onPress={() => onTogglePlace(group.place)}>
                   <Text style={[styles.drilldownPlace, { color: palette.text }]}>{group.place}</Text>
                   <Text style={[styles.drilldownMeta, { color: palette.textMuted }]}>
-                    {group.entries.length} visits • ${group.total.toFixed(2)} {expanded ? "▲" : "▼"}
+                    {group.entries.length} visits • {formatMoney(group.total, converter.homeCurrency)} {expanded ? "▲" : "▼"}
                   </Text>
                 </Pressable>
                 {expanded
@@ -215,7 +278,7 @@ function FoodDrilldownCard({
                       <View key={entry.id} style={[styles.drilldownEntryRow, { borderColor: palette.border }]}> 
                         <Text style={[styles.drilldownEntryTitle, { color: palette.text }]}>{entry.visit_date}</Text>
                         <Text style={[styles.drilldownMeta, { color: palette.textMuted }]}>
-                          Rating {entry.overall_rating ?? "-"} • ${foodTotal(entry).toFixed(2)}
+                          Rating {entry.overall_rating ?? "-"} • {formatEntryAmount(entry, converter)}
                         </Text>
                       </View>
                     ))
@@ -238,8 +301,23 @@ function foodTotal(entry: FoodEntry): number {
   return (entry.items_ordered ?? []).reduce((sum, item) => sum + (item.price ?? 0), 0)
 }
 
+function convertedFoodTotal(entry: FoodEntry, converter: CurrencyConverter): number | null {
+  return converter.convert(foodTotal(entry), entry.currency, entry.visit_date)
+}
+
+/** Home-currency amount with the original beside it when the visit was paid in another currency. */
+function formatEntryAmount(entry: FoodEntry, converter: CurrencyConverter): string {
+  const original = foodTotal(entry)
+  const currency = normalizeCurrencyCode(entry.currency) ?? converter.homeCurrency
+  const converted = convertedFoodTotal(entry, converter)
+  if (currency === converter.homeCurrency) return formatMoney(original, currency)
+  if (converted == null) return `${formatMoney(original, currency)} (no rate)`
+  return `${formatMoney(converted, converter.homeCurrency)} (${formatMoney(original, currency)})`
+}
+
 function matchesFoodDrilldown(entry: FoodEntry, selection: FoodDrilldownSelection): boolean {
   if (selection.dimension === "place") {
+    if (selection.placeKey) return getVisitPlaceKey(entry) === selection.placeKey
     return formatPlace(entry) === selection.value || entry.name === selection.value
   }
   if (selection.dimension === "cuisine") {
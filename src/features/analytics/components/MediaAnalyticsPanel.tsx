@@ -1,8 +1,10 @@
 import { useMemo, useState } from "react"
 import { StyleSheet, View } from "react-native"
+import { CurrencyNote } from "@/src/features/analytics/components/CurrencyNote"
 import { DateRangeRow, MultiSelectChips } from "@/src/features/analytics/components/FilterChips"
 import { KPIGrid } from "@/src/features/analytics/components/KPIGrid"
 import { SimpleBarList } from "@/src/features/analytics/components/SimpleBarList"
+import { SubscriptionCostCard } from "@/src/features/analytics/components/SubscriptionCostCard"
 import {
   applyMediaFilters,
   defaultMediaFilters,
@@ -10,18 +12,35 @@ import {
   type MediaFilterState
 } from "@/src/features/analytics/lib/filters"
 import { useMediaMetrics } from "@/src/features/analytics/hooks/useMediaMetrics"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { useCustomFieldDefinitions } from "@/src/features/custom-fields/hooks/useCustomFieldDefinitions"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import { useMediaCollections } from "@/src/features/media/hooks/useMediaCollections"
+import { useMediaPlaySessions } from "@/src/features/media/hooks/useMediaPlaySessions"
+import { useMediaViewings } from "@/src/features/media/hooks/useMediaViewings"
+import { usePlatformSubscriptions } from "@/src/features/media/hooks/usePlatformSubscriptions"
 import type { MediaEntry } from "@/src/shared/types/database"
 
 interface MediaAnalyticsPanelProps {
   entries: MediaEntry[]
 }
 
+const REVIEW_FILTER_OPTIONS = ["Reviewed", "Not reviewed"]
+
 export function MediaAnalyticsPanel({ entries }: MediaAnalyticsPanelProps) {
   const [filters, setFilters] = useState<MediaFilterState>(defaultMediaFilters)
+  const { converter } = useCurrencySettings()
+  const { data: subscriptions } = usePlatformSubscriptions()
+  const { data: viewings } = useMediaViewings()
+  const { data: playSessions } = useMediaPlaySessions()
+  const { data: customFields } = useCustomFieldDefinitions("media")
+  const { data: collections } = useMediaCollections()
 
   const options = useMemo(() => extractMediaFilterOptions(entries), [entries])
-  const filtered = useMemo(() => applyMediaFilters(entries, filters), [entries, filters])
-  const metrics = useMediaMetrics(filtered)
+  const collectionNames = useMemo(() => (collections ?? []).map((collection) => collection.name), [collections])
+  const filtered = useMemo(() => applyMediaFilters(entries, filters, collections), [entries, filters, collections])
+  const metrics = useMediaMetrics(filtered, converter, subscriptions, viewings, playSessions)
+  const home = metrics.homeCurrency
 
   return (
     <View style={styles.root}>
@@ -62,29 +81,83 @@ export function MediaAnalyticsPanel({ entries }: MediaAnalyticsPanelProps) {
           selected={filters.statuses}
           onToggle={(value) => toggle(value, filters.statuses, (statuses) => setFilters({ ...filters, statuses }))}
         />
+        <MultiSelectChips
+          label="Tag"
+          options={options.tags}
+          selected={filters.tags}
+          onToggle={(value) => toggle(value, filters.tags, (tags) => setFilters({ ...filters, tags }))}
+        />
+        <MultiSelectChips
+          label="Review"
+          options={REVIEW_FILTER_OPTIONS}
+          selected={filters.hasReview === null ? [] : [filters.hasReview ? "Reviewed" : "Not reviewed"]}
+          onToggle={(value) => {
+            const hasReview = value === "Reviewed"
+            setFilters({ ...filters, hasReview: filters.hasReview === hasReview ? null : hasReview })
+          }}
+        />
+        <MultiSelectChips
+          label="Collection"
+          options={collectionNames}
+          selected={filters.collections}
+          onToggle={(value) => toggle(value, filters.collections, (selected) => setFilters({ ...filters, collections: selected }))}
+        />
+        {(customFields ?? []).map((field) => (
+          <MultiSelectChips
+            key={field.id}
+            label={field.label}
+            options={options.customFields[field.key] ?? []}
+            selected={filters.customFields[field.key] ?? []}
+            onToggle={(value) =>
+              toggle(value, filters.customFields[field.key] ?? [], (selected) =>
+                setFilters({ ...filters, customFields: { ...filters.customFields, [field.key]: selected } })
+              )
+            }
+          />
+        ))}
       </View>
 
       <KPIGrid
         rows={[
           { label: "items", value: String(metrics.totalItems) },
-          { label: "spent", value: `$${metrics.totalSpent.toFixed(2)}` },
+          { label: "spent", value: formatMoney(metrics.totalSpent, home) },
           { label: "avg rating", value: metrics.averageRating.toFixed(2) },
+          { label: "subscriptions", value: formatMoney(metrics.subscriptionSpent, home) },
           { label: "hours", value: metrics.totalHours.toFixed(1) },
+          { label: "reading h", value: (metrics.readingMinutes / 60).toFixed(1) },
           { label: "top genre", value: metrics.topGenre ?? "-" },
-          { label: "top platform", value: metrics.topPlatform ?? "-" }
+          { label: "top platform", value: metrics.topPlatform ?? "-" },
+          { label: "rewatches", value: `${metrics.rewatchCount} (${metrics.rewatchedTitles} titles)` }
         ]}
       />
 
+      <CurrencyNote
+        homeCurrency={home}
+        spentByCurrency={metrics.spentByCurrency}
+        unconvertedCount={metrics.unconvertedCount}
+        unitLabel="entry"
+      />
+
+      <SubscriptionCostCard
+        homeCurrency={home}
+        costs={metrics.subscriptionCosts}
+        idlePeriods={metrics.idleBillingPeriods}
+      />
+
       <SimpleBarList
         title="Spent by Month"
         rows={metrics.spentByMonth.map((row) => ({ label: row.month, value: row.amount }))}
-        formatValue={(value) => `$${value.toFixed(0)}`}
+        formatValue={(value) => formatMoney(value, home, 0)}
       />
       <SimpleBarList
         title="Minutes by Month"
         rows={metrics.minutesByMonth.map((row) => ({ label: row.month, value: row.minutes }))}
         formatValue={(value) => `${value.toFixed(0)}m`}
       />
+      <SimpleBarList
+        title="Most Rewatched"
+        rows={metrics.rewatchesByTitle.map((row) => ({ label: row.title, value: row.count }))}
+      />
       <SimpleBarList title="By Genre" rows={toSortedRows(metrics.countByGenre)} />
       <SimpleBarList title="By Status" rows={toSortedRows(metrics.countByStatus)} />
       <SimpleBarList title="By Language" rows={toSortedRows(metrics.countByLanguage)} />
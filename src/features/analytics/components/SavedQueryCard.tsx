@@ -0,0 +1,133 @@
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native"
+import { useQuery } from "@tanstack/react-query"
+import { KPIGrid } from "@/src/features/analytics/components/KPIGrid"
+import { SimpleBarList } from "@/src/features/analytics/components/SimpleBarList"
+import { backendFetch } from "@/src/shared/api/backend"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { AIDashboardCard } from "@/src/shared/types/database"
+import type { AIQueryResponse } from "@analytics/contracts"
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "-"
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function SavedQueryResult({ card, response }: { card: AIDashboardCard; response: AIQueryResponse }) {
+  const { palette } = useAppTheme()
+  const rows = response.data ?? []
+  const columns = response.metadata?.columns ?? []
+
+  if (rows.length === 0 || columns.length === 0) {
+    return <Text style={[styles.meta, { color: palette.textMuted }]}>No rows returned.</Text>
+  }
+
+  if (card.visualization_type === "kpi") {
+    return <KPIGrid rows={columns.map((column) => ({ label: column, value: formatCell(rows[0][column]) }))} />
+  }
+
+  if (card.visualization_type !== "table" && columns.length >= 2) {
+    const [labelKey, valueKey] = columns
+    return (
+      <SimpleBarList
+        title={`${valueKey} by ${labelKey}`}
+        rows={rows.map((row) => ({ label: formatCell(row[labelKey]), value: toNumber(row[valueKey]) }))}
+      />
+    )
+  }
+
+  return (
+    <View style={styles.table}>
+      {rows.slice(0, 10).map((row, index) => (
+        <Text key={`${card.id}-${index}`} style={[styles.meta, { color: palette.text }]} numberOfLines={1}>
+          {columns.map((column) => formatCell(row[column])).join(" • ")}
+        </Text>
+      ))}
+      {rows.length > 10 ? (
+        <Text style={[styles.meta, { color: palette.textMuted }]}>+{rows.length - 10} more rows</Text>
+      ) : null}
+    </View>
+  )
+}
+
+export function SavedQueryCard({
+  card,
+  isFirst,
+  isLast,
+  onMove,
+  onRemove
+}: {
+  card: AIDashboardCard
+  isFirst: boolean
+  isLast: boolean
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+}) {
+  const { palette } = useAppTheme()
+
+  // Re-run the card's stored SQL on load; the server reads it by id and the model is not involved
+  const result = useQuery({
+    queryKey: ["dashboard-card-result", card.id, card.sql],
+    queryFn: () =>
+      backendFetch<AIQueryResponse>("/api/ai-query", {
+        method: "POST",
+        body: JSON.stringify({
+          query: card.query,
+          workspace: card.workspace,
+          cardId: card.id,
+          recordHistory: false
+        })
+      })
+  })
+
+  return (
+    <View style={[styles.card, { backgroundColor: palette.surfaceMuted, borderColor: palette.border }]}>
+      <View style={styles.header}>
+        <Text selectable style={[styles.title, { color: palette.text }]} numberOfLines={2}>
+          {card.title}
+        </Text>
+        <View style={styles.controls}>
+          <Pressable style={[styles.control, { borderColor: palette.border }]} onPress={() => onMove(-1)} disabled={isFirst}>
+            <Text style={{ color: isFirst ? palette.textMuted : palette.text }}>↑</Text>
+          </Pressable>
+          <Pressable style={[styles.control, { borderColor: palette.border }]} onPress={() => onMove(1)} disabled={isLast}>
+            <Text style={{ color: isLast ? palette.textMuted : palette.text }}>↓</Text>
+          </Pressable>
+          <Pressable style={[styles.control, { borderColor: palette.border }]} onPress={() => result.refetch()}>
+            <Text style={{ color: palette.text }}>↻</Text>
+          </Pressable>
+          <Pressable style={[styles.control, { borderColor: palette.border }]} onPress={onRemove}>
+            <Text style={{ color: palette.danger }}>✕</Text>
+          </Pressable>
+        </View>
+      </View>
+
+      {result.isLoading ? (
+        <ActivityIndicator color={palette.primary} />
+      ) : result.error ? (
+        <Text selectable style={[styles.meta, { color: palette.danger }]}>
+          {result.error instanceof Error ? result.error.message : "Failed to load card"}
+        </Text>
+      ) : result.data ? (
+        <SavedQueryResult card={card} response={result.data} />
+      ) : null}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: { borderWidth: 1, borderRadius: 14, padding: 12, gap: 10 },
+  header: { flexDirection: "row", alignItems: "flex-start", gap: 8 },
+  title: { flex: 1, fontSize: 15, fontWeight: "700" },
+  controls: { flexDirection: "row", gap: 6 },
+  control: { borderWidth: 1, borderRadius: 8, width: 28, height: 28, alignItems: "center", justifyContent: "center" },
+  table: { gap: 4 },
+  meta: { fontSize: 12 }
+})
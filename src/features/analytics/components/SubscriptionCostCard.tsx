@@ -0,0 +1,71 @@
+import { StyleSheet, Text, View } from "react-native"
+import type { IdleBillingPeriod, PlatformSubscriptionCost } from "@/src/features/analytics/hooks/useMediaMetrics"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+/** Per-platform subscription cost with cost per hour/title and the billing periods nothing was watched in. */
+export function SubscriptionCostCard({
+  homeCurrency,
+  costs,
+  idlePeriods
+}: {
+  homeCurrency: string
+  costs: PlatformSubscriptionCost[]
+  idlePeriods: IdleBillingPeriod[]
+}) {
+  const { palette } = useAppTheme()
+  if (costs.length === 0) return null
+
+  const money = (value: number | null) => (value == null ? "-" : formatMoney(value, homeCurrency))
+
+  return (
+    <View style={[styles.card, { backgroundColor: palette.surface, borderColor: palette.border }]}>
+      <Text style={[styles.title, { color: palette.text }]}>Subscription Cost</Text>
+      {costs.map((row) => (
+        <View key={row.platform} style={styles.platform}>
+          <View style={styles.header}>
+            <Text style={[styles.platformName, { color: palette.text }]} numberOfLines={1}>
+              {row.platform}
+            </Text>
+            <Text style={[styles.total, { color: palette.text }]}>{money(row.totalCost)}</Text>
+          </View>
+          <Text style={[styles.detail, { color: palette.textMuted }]}>
+            {`${money(row.costPerHour)}/hour • ${money(row.costPerTitle)}/title • ${row.hoursWatched.toFixed(1)}h, ${row.titlesFinished} finished`}
+          </Text>
+          <Text style={[styles.detail, { color: row.idlePeriods > 0 ? palette.danger : palette.textMuted }]}>
+            {`${row.billedPeriods} billed period${row.billedPeriods === 1 ? "" : "s"}, ${row.idlePeriods} idle`}
+            {row.unconvertedPeriods > 0 ? ` • ${row.unconvertedPeriods} without an exchange rate` : ""}
+          </Text>
+        </View>
+      ))}
+
+      {idlePeriods.length > 0 ? (
+        <View style={styles.idleBlock}>
+          <Text style={[styles.subtitle, { color: palette.text }]}>Idle billing periods</Text>
+          {idlePeriods.slice(0, 12).map((period) => (
+            <View key={`${period.subscriptionId}-${period.start}`} style={styles.idleRow}>
+              <Text style={[styles.detail, styles.flex, { color: palette.text }]} numberOfLines={1}>
+                {`${period.platform} • ${period.start} → ${period.end}`}
+              </Text>
+              <Text style={[styles.detail, { color: palette.textMuted }]}>{money(period.cost)}</Text>
+            </View>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: { borderWidth: 1, borderRadius: 12, padding: 12, gap: 10 },
+  title: { fontSize: 14, fontWeight: "700" },
+  subtitle: { fontSize: 13, fontWeight: "600" },
+  platform: { gap: 2 },
+  header: { flexDirection: "row", justifyContent: "space-between", gap: 8 },
+  platformName: { flex: 1, fontSize: 13, fontWeight: "600" },
+  total: { fontSize: 13, fontWeight: "700" },
+  detail: { fontSize: 12 },
+  idleBlock: { gap: 4 },
+  idleRow: { flexDirection: "row", gap: 8 },
+  flex: { flex: 1 }
+})
@@ -0,0 +1,79 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { backendFetch } from "@/src/shared/api/backend"
+import { supabase } from "@/src/shared/api/supabase"
+import type { AIDashboardCard } from "@/src/shared/types/database"
+import type { SaveDashboardCardRequest, SaveDashboardCardResponse, WorkspaceType } from "@analytics/contracts"
+
+export function useDashboardCards(workspace: WorkspaceType) {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["dashboard-cards"] })
+
+  const query = useQuery({
+    queryKey: ["dashboard-cards", workspace],
+    queryFn: async (): Promise<AIDashboardCard[]> => {
+      const { data, error } = await supabase
+        .from("ai_dashboard_cards")
+        .select("*")
+        .eq("workspace", workspace)
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true })
+
+      if (error) throw error
+      return (data ?? []) as AIDashboardCard[]
+    }
+  })
+
+  // Cards re-run their SQL, so the server copies it from the recorded query turn
+  const saveMutation = useMutation({
+    mutationFn: (payload: SaveDashboardCardRequest) =>
+      backendFetch<SaveDashboardCardResponse>("/api/ai-dashboard-cards", {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: invalidate
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ai_dashboard_cards").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, direction }: { id: string; direction: -1 | 1 }) => {
+      const cards = query.data ?? []
+      const index = cards.findIndex((card) => card.id === id)
+      const targetIndex = index + direction
+      if (index < 0 || targetIndex < 0 || targetIndex >= cards.length) return
+
+      // Rewrite positions for the whole list so legacy duplicates settle into a stable order
+      const reordered = [...cards]
+      const [moved] = reordered.splice(index, 1)
+      reordered.splice(targetIndex, 0, moved)
+
+      const updates = reordered
+        .map((card, position) => ({ card, position }))
+        .filter(({ card, position }) => card.position !== position)
+
+      for (const { card, position } of updates) {
+        const { error } = await supabase
+          .from("ai_dashboard_cards")
+          .update({ position, updated_at: new Date().toISOString() })
+          .eq("id", card.id)
+        if (error) throw error
+      }
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    saveCard: saveMutation.mutateAsync,
+    removeCard: removeMutation.mutateAsync,
+    moveCard: moveMutation.mutateAsync,
+    saving: saveMutation.isPending,
+    moving: moveMutation.isPending
+  }
+}
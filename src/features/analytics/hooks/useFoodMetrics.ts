@@ -1,12 +1,26 @@
 import { useMemo } from "react"
+import type { CurrencyConverter } from "@/src/features/currency/lib/currency"
+import { computeBillBreakdown, computeFoodBalances, type FoodBalances } from "@/src/features/food/lib/food-bill-split"
+import { formatPlaceName, getVisitPlaceKey } from "@/src/features/food/lib/food-places"
 import type { FoodEntry } from "@/src/shared/types/database"
 
 export interface FoodMetrics {
   totalVisits: number
   uniquePlaces: number
   wouldReturnCount: number
+  /** Spend figures below are converted to this currency. */
+  homeCurrency: string
+  /** Table spend: the whole bill of every visit. */
   totalSpent: number
   averagePrice: number
+  /** My share of the same visits, from each visit's party size and bill split. */
+  mySpent: number
+  /** Who owes whom across visits with a recorded split. */
+  balances: FoodBalances
+  /** Original (unconverted) spend per currency code. */
+  spentByCurrency: Record<string, number>
+  /** Priced visits left out of spend totals because no exchange rate covers their currency. */
+  unconvertedCount: number
   spentByMonth: { month: string; amount: number }[]
   spentByCuisine: Record<string, number>
   spentByItemCategory: Record<string, number>
@@ -31,7 +45,8 @@ export interface FoodMetrics {
   topCategory: string | null
   topItemCategory: string | null
   topDiningType: string | null
-  mostVisitedPlaces: { name: string; count: number; avgRating: number }[]
+  /** Grouped by canonical place, falling back to the normalized name for unlinked visits. */
+  mostVisitedPlaces: { key: string; placeId: string | null; name: string; count: number; avgRating: number }[]
   recentEntries: FoodEntry[]
 }
 
@@ -53,9 +68,11 @@ function incrementRecord(record: Record<string, number>, key: string | null | un
   record[key] = (record[key] || 0) + amount
 }
 
-export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
+export function useFoodMetrics(data: FoodEntry[], converter: CurrencyConverter): FoodMetrics {
   return useMemo(() => {
     let totalSpent = 0
+    let mySpent = 0
+    let unconvertedCount = 0
     let totalRatingSum = 0
     let ratedItemCount = 0
     let totalFoodRatingSum = 0
@@ -69,6 +86,7 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
     let wouldReturnCount = 0
 
     const spentByMonthMap: Record<string, number> = {}
+    const spentByCurrency: Record<string, number> = {}
     const spentByCuisine: Record<string, number> = {}
     const spentByItemCategory: Record<string, number> = {}
     const countByMonthMap: Record<string, number> = {}
@@ -82,27 +100,45 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
     const countByDiningType: Record<string, number> = {}
     const ratingBuckets: Record<number, number> = {}
 
-    const placeVisits: Record<string, { count: number; totalRating: number; ratingCount: number }> = {}
-    const uniquePlaces = new Set<string>()
+    const placeVisits: Record<
+      string,
+      { placeId: string | null; name: string; count: number; totalRating: number; ratingCount: number }
+    > = {}
 
     for (const entry of data) {
       const month = getMonthKey(entry.visit_date)
-      uniquePlaces.add(entry.name)
+      const placeKey = getVisitPlaceKey(entry)
 
-      if (!placeVisits[entry.name]) {
-        placeVisits[entry.name] = { count: 0, totalRating: 0, ratingCount: 0 }
+      if (!placeVisits[placeKey]) {
+        placeVisits[placeKey] = {
+          placeId: entry.place_id,
+          name: formatPlaceName(entry),
+          count: 0,
+          totalRating: 0,
+          ratingCount: 0
+        }
       }
-      placeVisits[entry.name].count += 1
+      placeVisits[placeKey].count += 1
       if (entry.overall_rating) {
-        placeVisits[entry.name].totalRating += entry.overall_rating
-        placeVisits[entry.name].ratingCount += 1
+        placeVisits[placeKey].totalRating += entry.overall_rating
+        placeVisits[placeKey].ratingCount += 1
       }
 
       if (entry.would_return) wouldReturnCount += 1
 
-      const price = entry.total_price
-      if (typeof price === "number" && price > 0) {
+      const originalPrice = entry.total_price
+      const price =
+        typeof originalPrice === "number" && originalPrice > 0
+          ? converter.convert(originalPrice, entry.currency, entry.visit_date)
+          : null
+      if (typeof originalPrice === "number" && originalPrice > 0) {
+        incrementRecord(spentByCurrency, entry.currency?.trim().toUpperCase() || converter.homeCurrency, originalPrice)
+        if (price == null) unconvertedCount += 1
+      }
+      if (price != null) {
         totalSpent += price
+        const breakdown = computeBillBreakdown(entry)
+        mySpent += breakdown ? (price * breakdown.myShare) / breakdown.total : price
         if (month) spentByMonthMap[month] = (spentByMonthMap[month] || 0) + price
 
         if (entry.cuisine_type && Array.isArray(entry.cuisine_type) && entry.cuisine_type.length > 0) {
@@ -113,8 +149,9 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
         if (entry.items_ordered && Array.isArray(entry.items_ordered)) {
           for (const item of entry.items_ordered) {
             const categories = item.categories?.length ? item.categories : item.category ? [item.category] : []
-            if (categories.length > 0 && item.price) {
-              const perCategory = item.price / categories.length
+            const itemPrice = item.price ? converter.convert(item.price, entry.currency, entry.visit_date) : null
+            if (categories.length > 0 && itemPrice) {
+              const perCategory = itemPrice / categories.length
               for (const category of categories) incrementRecord(spentByItemCategory, category, perCategory)
             }
           }
@@ -188,8 +225,10 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
     const averageValueRating = valueRatingCount > 0 ? totalValueRatingSum / valueRatingCount : 0
 
     const mostVisitedPlaces = Object.entries(placeVisits)
-      .map(([name, visit]) => ({
-        name,
+      .map(([key, visit]) => ({
+        key,
+        placeId: visit.placeId,
+        name: visit.name,
         count: visit.count,
         avgRating: visit.ratingCount > 0 ? visit.totalRating / visit.ratingCount : 0
       }))
@@ -202,10 +241,15 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
 
     return {
       totalVisits: data.length,
-      uniquePlaces: uniquePlaces.size,
+      uniquePlaces: Object.keys(placeVisits).length,
       wouldReturnCount,
+      homeCurrency: converter.homeCurrency,
       totalSpent,
       averagePrice,
+      mySpent,
+      balances: computeFoodBalances(data, converter),
+      spentByCurrency,
+      unconvertedCount,
       spentByMonth,
       spentByCuisine,
       spentByItemCategory,
@@ -233,5 +277,5 @@ export function useFoodMetrics(data: FoodEntry[]): FoodMetrics {
       mostVisitedPlaces,
       recentEntries
     }
-  }, [data])
+  }, [data, converter])
 }
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test"
+import { computeMediaMetrics } from "@/src/features/analytics/hooks/useMediaMetrics"
+import { createCurrencyConverter } from "@/src/features/currency/lib/currency"
+import type { MediaEntry, MediaPlaySession, MediaViewing } from "@/src/shared/types/database"
+
+const converter = createCurrencyConverter([], "USD")
+
+function entry(overrides: Partial<MediaEntry> & Pick<MediaEntry, "id" | "title">): MediaEntry {
+  return {
+    user_id: "user",
+    medium: "Game",
+    type: null,
+    status: "Finished",
+    genre: null,
+    platform: null,
+    language: null,
+    start_date: null,
+    finish_date: null,
+    my_rating: null,
+    average_rating: null,
+    rating: null,
+    price: null,
+    currency: null,
+    priority: null,
+    custom_fields: null,
+    tags: null,
+    review: null,
+    review_has_spoilers: false,
+    length: null,
+    episodes: null,
+    episodes_watched: null,
+    episode_history: null,
+    episode_metadata: null,
+    feed_url: null,
+    last_watched_at: null,
+    progress_unit: null,
+    progress_current: null,
+    progress_total: null,
+    progress_history: null,
+    season: null,
+    time_taken: null,
+    poster_url: null,
+    imdb_id: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides
+  }
+}
+
+function session(mediaEntryId: string, playedOn: string, durationMinutes: number): MediaPlaySession {
+  return {
+    id: `${mediaEntryId}-${playedOn}`,
+    user_id: "user",
+    media_entry_id: mediaEntryId,
+    played_on: playedOn,
+    duration_minutes: durationMinutes,
+    platform: null,
+    notes: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z"
+  }
+}
+
+function viewing(mediaEntryId: string, finishDate: string, rating: number | null): MediaViewing {
+  return {
+    id: `${mediaEntryId}-${finishDate}`,
+    user_id: "user",
+    media_entry_id: mediaEntryId,
+    start_date: null,
+    finish_date: finishDate,
+    rating,
+    platform: null,
+    notes: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z"
+  }
+}
+
+describe("computeMediaMetrics play sessions", () => {
+  const hades = entry({ id: "hades", title: "Hades", length: "21h", finish_date: "2026-03-20" })
+  const celeste = entry({ id: "celeste", title: "Celeste", length: "8h", finish_date: "2026-02-10" })
+
+  test("logged sessions replace the game's length in minutesByMedium", () => {
+    const metrics = computeMediaMetrics([hades, celeste], converter, [], [], [
+      session("hades", "2026-02-27", 90),
+      session("hades", "2026-03-02", 45)
+    ])
+
+    // Hades counts its 135 logged minutes instead of 21h; Celeste has no sessions and keeps its 8h
+    expect(metrics.minutesByMedium).toEqual({ Game: 135 + 480 })
+    expect(metrics.totalMinutes).toBe(615)
+  })
+
+  test("each session is credited to the month it was played", () => {
+    const metrics = computeMediaMetrics([hades], converter, [], [], [
+      session("hades", "2026-02-27", 90),
+      session("hades", "2026-03-02", 45),
+      session("hades", "2026-03-15", 60)
+    ])
+
+    expect(metrics.minutesByMonth).toEqual([
+      { month: "2026-02", minutes: 90 },
+      { month: "2026-03", minutes: 105 }
+    ])
+  })
+
+  test("ignores empty sessions and sessions for other entries", () => {
+    const metrics = computeMediaMetrics([hades], converter, [], [], [
+      session("hades", "2026-03-01", 0),
+      session("hades", "2026-03-02", 30),
+      session("deleted-entry", "2026-03-02", 500)
+    ])
+
+    expect(metrics.minutesByMedium).toEqual({ Game: 30 })
+  })
+
+  test("falls back to length without sessions", () => {
+    const metrics = computeMediaMetrics([hades], converter)
+    expect(metrics.minutesByMedium).toEqual({ Game: 1260 })
+    expect(metrics.minutesByMonth).toEqual([{ month: "2026-03", minutes: 1260 }])
+  })
+})
+
+describe("computeMediaMetrics ratings", () => {
+  test("averages the entry's rating with its rated rewatches", () => {
+    const metrics = computeMediaMetrics(
+      [entry({ id: "dune", title: "Dune", my_rating: 8 }), entry({ id: "heat", title: "Heat", rating: 6 })],
+      converter,
+      [],
+      [viewing("dune", "2026-04-01", 10), viewing("dune", "2026-05-01", null), viewing("gone", "2026-05-01", 1)]
+    )
+
+    expect(metrics.averageRating).toBe(8)
+    expect(metrics.ratingDistribution).toEqual([
+      { rating: 6, count: 1 },
+      { rating: 8, count: 1 },
+      { rating: 10, count: 1 }
+    ])
+  })
+})
@@ -1,13 +1,59 @@
 import { useMemo } from "react"
-import type { MediaEntry } from "@/src/shared/types/database"
+import { getRateDate, type CurrencyConverter } from "@/src/features/currency/lib/currency"
+import { getEpisodeWatchMinutes } from "@/src/features/media/lib/media-editor"
+import {
+  getProgressMinutes,
+  isReadingUnit,
+  parseDurationToMinutes,
+  resolveProgressUnit
+} from "@/src/features/media/lib/media-progress"
+import {
+  getEntryActivityDates,
+  isDateInPeriod,
+  listBillingPeriods,
+  normalizePlatformKey,
+  type BillingPeriod
+} from "@/src/features/media/lib/media-subscriptions"
+import type { MediaEntry, MediaPlaySession, MediaViewing, PlatformSubscription } from "@/src/shared/types/database"
+
+export interface PlatformSubscriptionCost {
+  platform: string
+  /** Billed cost in the home currency. */
+  totalCost: number
+  billedPeriods: number
+  /** Periods whose price could not be converted and are left out of totalCost. */
+  unconvertedPeriods: number
+  hoursWatched: number
+  titlesFinished: number
+  costPerHour: number | null
+  costPerTitle: number | null
+  idlePeriods: number
+}
+
+export interface IdleBillingPeriod {
+  subscriptionId: string
+  platform: string
+  start: string
+  end: string
+  /** Home-currency cost, null when no exchange rate covers the subscription currency. */
+  cost: number | null
+}
 
 export interface MediaMetrics {
+  /** Spend figures below are converted to this currency. */
+  homeCurrency: string
   totalSpent: number
   averagePrice: number
+  /** Original (unconverted) spend per currency code. */
+  spentByCurrency: Record<string, number>
+  /** Priced entries left out of spend totals because no exchange rate covers their currency. */
+  unconvertedCount: number
   spentByMedium: Record<string, number>
   spentByMonth: { month: string; amount: number; byMedium: Record<string, number> }[]
   totalMinutes: number
   totalHours: number
+  /** Part of totalMinutes spent on books and other page/chapter-tracked entries. */
+  readingMinutes: number
   daysWatched: number
   minutesByMonth: { month: string; minutes: number }[]
   minutesByMedium: Record<string, number>
@@ -25,28 +71,31 @@ export interface MediaMetrics {
   topGenre: string | null
   topPlatform: string | null
   topMedium: string | null
+  subscriptionSpent: number
+  subscriptionCosts: PlatformSubscriptionCost[]
+  idleBillingPeriods: IdleBillingPeriod[]
+  /** Viewings recorded after the first one, across all entries. */
+  rewatchCount: number
+  rewatchedTitles: number
+  rewatchesByTitle: { title: string; count: number }[]
 }
 
-function parseDurationToMinutes(value: string | null): number | null {
-  if (!value) return null
-  const normalized = value.trim().toLowerCase()
-  if (!normalized) return null
-
-  const hourMinute = normalized.match(/(\d+)\s*h(?:ours?)?\s*(\d+)?\s*m?/)
-  if (hourMinute) {
-    const hours = Number(hourMinute[1])
-    const minutes = Number(hourMinute[2] ?? 0)
-    return hours * 60 + minutes
-  }
+/**
+ * Episode-accurate watch time when runtimes are cached, progress-based time for pages,
+ * chapters, percent and minutes, otherwise the entry's `length`.
+ */
+function getWatchMinutes(entry: MediaEntry): number | null {
+  const lengthMinutes = parseDurationToMinutes(entry.length)
+  return getEpisodeWatchMinutes(entry) ?? getProgressMinutes(entry, lengthMinutes) ?? lengthMinutes
+}
 
-  const minuteOnly = normalized.match(/(\d+)\s*m(?:in(?:ute)?s?)?/)
-  if (minuteOnly) {
-    return Number(minuteOnly[1])
-  }
+function isReadingEntry(entry: MediaEntry): boolean {
+  return isReadingUnit(resolveProgressUnit(entry)) || entry.medium?.trim().toLowerCase() === "book"
+}
 
-  const justNumber = Number(normalized)
-  if (Number.isFinite(justNumber)) return justNumber
-  return null
+/** Runtime of one complete viewing, used for rewatches regardless of the entry's progress. */
+function getFullViewingMinutes(entry: MediaEntry): number | null {
+  return getEpisodeWatchMinutes({ ...entry, status: "Finished" }) ?? parseDurationToMinutes(entry.length)
 }
 
 function getMonthKey(dateStr: string | null): string | null {
@@ -76,118 +125,329 @@ function normalizeLanguage(language: string[] | string | null): string[] {
     .filter(Boolean)
 }
 
-export function useMediaMetrics(data: MediaEntry[]): MediaMetrics {
-  return useMemo(() => {
-    let totalSpent = 0
-    let totalMinutes = 0
-    let totalRatingSum = 0
-    let ratedItemCount = 0
-
-    const spentByMedium: Record<string, number> = {}
-    const spentByMonthMap: Record<string, { amount: number; byMedium: Record<string, number> }> = {}
-    const minutesByMonthMap: Record<string, number> = {}
-    const minutesByMedium: Record<string, number> = {}
-    const countByMedium: Record<string, number> = {}
-    const countByLanguage: Record<string, number> = {}
-    const countByGenre: Record<string, number> = {}
-    const countByPlatform: Record<string, number> = {}
-    const countByStatus: Record<string, number> = {}
-    const countByType: Record<string, number> = {}
-    const countByMonthMap: Record<string, number> = {}
-    const ratingBuckets: Record<number, number> = {}
-
-    for (const entry of data) {
-      const month = getMonthKey(entry.finish_date) || getMonthKey(entry.start_date)
-      const medium = entry.medium
-
-      const price = entry.price
-      if (typeof price === "number" && price > 0) {
-        totalSpent += price
-        incrementRecord(spentByMedium, medium, price)
-        if (month) {
-          if (!spentByMonthMap[month]) {
-            spentByMonthMap[month] = { amount: 0, byMedium: {} }
-          }
-          spentByMonthMap[month].amount += price
-          incrementRecord(spentByMonthMap[month].byMedium, medium, price)
+const NO_SUBSCRIPTIONS: PlatformSubscription[] = []
+const NO_VIEWINGS: MediaViewing[] = []
+const NO_PLAY_SESSIONS: MediaPlaySession[] = []
+
+function todayDateKey(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Watch activity on one platform: an entry itself, or one of its rewatches. */
+interface PlatformActivity {
+  platformKey: string
+  dates: string[]
+  minutes: number
+  /** Set when the activity finished the title. */
+  finishDate: string | null
+}
+
+/** Entries count on their own platform; a rewatch counts on its platform, or the entry's when unset. */
+function listPlatformActivity(data: MediaEntry[], viewings: MediaViewing[]): PlatformActivity[] {
+  const entriesById = new Map(data.map((entry) => [entry.id, entry]))
+  const activity: PlatformActivity[] = data.map((entry) => ({
+    platformKey: normalizePlatformKey(entry.platform),
+    dates: getEntryActivityDates(entry),
+    minutes: getWatchMinutes(entry) ?? 0,
+    finishDate: entry.status === "Finished" ? entry.finish_date?.slice(0, 10) || null : null
+  }))
+
+  for (const viewing of viewings) {
+    const entry = entriesById.get(viewing.media_entry_id)
+    if (!entry) continue
+    const finishDate = viewing.finish_date?.slice(0, 10) || null
+    activity.push({
+      platformKey: normalizePlatformKey(viewing.platform ?? entry.platform),
+      dates: [viewing.start_date?.slice(0, 10), finishDate].filter((date): date is string => !!date && date.length === 10),
+      // As in the watch totals, only a finished rewatch adds watch time
+      minutes: finishDate ? getFullViewingMinutes(entry) ?? 0 : 0,
+      finishDate
+    })
+  }
+
+  return activity
+}
+
+/**
+ * Cost per hour and per finished title for each subscribed platform. Entries and rewatches
+ * count on the platform they were watched on and only with activity inside a billed period,
+ * so watching before subscribing (or after cancelling) does not make a subscription look cheaper.
+ */
+function computeSubscriptionCosts(
+  data: MediaEntry[],
+  viewings: MediaViewing[],
+  subscriptions: PlatformSubscription[],
+  converter: CurrencyConverter,
+  today: string
+): { costs: PlatformSubscriptionCost[]; idle: IdleBillingPeriod[] } {
+  const periodsByPlatform = new Map<string, { label: string; periods: BillingPeriod[] }>()
+  for (const subscription of subscriptions) {
+    const key = normalizePlatformKey(subscription.platform)
+    if (!key) continue
+    const group = periodsByPlatform.get(key) ?? { label: subscription.platform.trim(), periods: [] }
+    group.periods.push(...listBillingPeriods(subscription, today))
+    periodsByPlatform.set(key, group)
+  }
+
+  const costs: PlatformSubscriptionCost[] = []
+  const idle: IdleBillingPeriod[] = []
+  const activity = periodsByPlatform.size > 0 ? listPlatformActivity(data, viewings) : []
+
+  for (const [key, { label, periods }] of periodsByPlatform) {
+    const platformActivity = activity.filter((item) => item.platformKey === key)
+
+    let totalCost = 0
+    let unconvertedPeriods = 0
+    let idlePeriods = 0
+
+    for (const period of periods) {
+      const cost = converter.convert(period.price, period.currency, period.start)
+      if (cost == null) unconvertedPeriods += 1
+      else totalCost += cost
+
+      const active = platformActivity.some(({ dates }) => dates.some((date) => isDateInPeriod(date, period)))
+      if (!active) {
+        idlePeriods += 1
+        idle.push({ subscriptionId: period.subscriptionId, platform: label, start: period.start, end: period.end, cost })
+      }
+    }
+
+    let minutesWatched = 0
+    let titlesFinished = 0
+    for (const { dates, minutes, finishDate } of platformActivity) {
+      if (!dates.some((date) => periods.some((period) => isDateInPeriod(date, period)))) continue
+      minutesWatched += minutes
+      if (finishDate && periods.some((period) => isDateInPeriod(finishDate, period))) {
+        titlesFinished += 1
+      }
+    }
+
+    const hoursWatched = minutesWatched / 60
+    costs.push({
+      platform: label,
+      totalCost,
+      billedPeriods: periods.length,
+      unconvertedPeriods,
+      hoursWatched,
+      titlesFinished,
+      costPerHour: hoursWatched > 0 ? totalCost / hoursWatched : null,
+      costPerTitle: titlesFinished > 0 ? totalCost / titlesFinished : null,
+      idlePeriods
+    })
+  }
+
+  costs.sort((left, right) => right.totalCost - left.totalCost)
+  idle.sort((left, right) => right.start.localeCompare(left.start))
+  return { costs, idle }
+}
+
+/**
+ * Spending, watch time and counts across entries. Logged play sessions replace a game's
+ * `length` as its playtime, and finished rewatches add a full viewing each. Ratings are
+ * averaged per viewing, so a rated rewatch counts alongside the entry's own rating.
+ */
+export function computeMediaMetrics(
+  data: MediaEntry[],
+  converter: CurrencyConverter,
+  subscriptions: PlatformSubscription[] = NO_SUBSCRIPTIONS,
+  viewings: MediaViewing[] = NO_VIEWINGS,
+  playSessions: MediaPlaySession[] = NO_PLAY_SESSIONS,
+  today: string = todayDateKey()
+): MediaMetrics {
+  let totalSpent = 0
+  let unconvertedCount = 0
+  let totalMinutes = 0
+  let readingMinutes = 0
+  let totalRatingSum = 0
+  let ratedItemCount = 0
+
+  const spentByMedium: Record<string, number> = {}
+  const spentByCurrency: Record<string, number> = {}
+  const spentByMonthMap: Record<string, { amount: number; byMedium: Record<string, number> }> = {}
+  const minutesByMonthMap: Record<string, number> = {}
+  const minutesByMedium: Record<string, number> = {}
+  const countByMedium: Record<string, number> = {}
+  const countByLanguage: Record<string, number> = {}
+  const countByGenre: Record<string, number> = {}
+  const countByPlatform: Record<string, number> = {}
+  const countByStatus: Record<string, number> = {}
+  const countByType: Record<string, number> = {}
+  const countByMonthMap: Record<string, number> = {}
+  const ratingBuckets: Record<number, number> = {}
+  const rewatchesByTitle: { title: string; count: number }[] = []
+  let rewatchCount = 0
+
+  const viewingsByEntry = new Map<string, MediaViewing[]>()
+  for (const viewing of viewings) {
+    const list = viewingsByEntry.get(viewing.media_entry_id) ?? []
+    list.push(viewing)
+    viewingsByEntry.set(viewing.media_entry_id, list)
+  }
+
+  const sessionsByEntry = new Map<string, MediaPlaySession[]>()
+  for (const session of playSessions) {
+    const list = sessionsByEntry.get(session.media_entry_id) ?? []
+    list.push(session)
+    sessionsByEntry.set(session.media_entry_id, list)
+  }
+
+  for (const entry of data) {
+    const month = getMonthKey(entry.finish_date) || getMonthKey(entry.start_date)
+    const medium = entry.medium
+
+    const originalPrice = entry.price
+    const price =
+      typeof originalPrice === "number" && originalPrice > 0
+        ? converter.convert(originalPrice, entry.currency, getRateDate("media", entry))
+        : null
+    if (typeof originalPrice === "number" && originalPrice > 0) {
+      incrementRecord(spentByCurrency, entry.currency?.trim().toUpperCase() || converter.homeCurrency, originalPrice)
+      if (price == null) unconvertedCount += 1
+    }
+    if (price != null) {
+      totalSpent += price
+      incrementRecord(spentByMedium, medium, price)
+      if (month) {
+        if (!spentByMonthMap[month]) {
+          spentByMonthMap[month] = { amount: 0, byMedium: {} }
         }
+        spentByMonthMap[month].amount += price
+        incrementRecord(spentByMonthMap[month].byMedium, medium, price)
       }
+    }
 
-      const minutes = parseDurationToMinutes(entry.length)
+    // Logged play sessions are the playtime, each credited to the month it was played.
+    const entrySessions = sessionsByEntry.get(entry.id) ?? []
+    if (entrySessions.length > 0) {
+      for (const session of entrySessions) {
+        if (session.duration_minutes <= 0) continue
+        totalMinutes += session.duration_minutes
+        incrementRecord(minutesByMedium, medium, session.duration_minutes)
+        const sessionMonth = getMonthKey(session.played_on)
+        if (sessionMonth) incrementRecord(minutesByMonthMap, sessionMonth, session.duration_minutes)
+      }
+    } else {
+      const minutes = getWatchMinutes(entry)
       if (typeof minutes === "number" && minutes > 0) {
         totalMinutes += minutes
+        if (isReadingEntry(entry)) readingMinutes += minutes
         incrementRecord(minutesByMedium, medium, minutes)
         if (month) incrementRecord(minutesByMonthMap, month, minutes)
       }
+    }
 
-      incrementRecord(countByMedium, medium)
-      incrementRecord(countByPlatform, entry.platform)
-      incrementRecord(countByStatus, entry.status)
-      incrementRecord(countByType, entry.type)
-      if (month) incrementRecord(countByMonthMap, month)
+    const entryViewings = viewingsByEntry.get(entry.id) ?? []
+    if (entryViewings.length > 0) {
+      rewatchCount += entryViewings.length
+      rewatchesByTitle.push({ title: entry.title, count: entryViewings.length })
 
-      if (entry.genre && Array.isArray(entry.genre)) {
-        for (const genre of entry.genre) incrementRecord(countByGenre, genre.trim())
+      // Only completed rewatches add watch time, credited to the month they finished.
+      const viewingMinutes = getFullViewingMinutes(entry)
+      if (typeof viewingMinutes === "number" && viewingMinutes > 0) {
+        for (const viewing of entryViewings) {
+          if (!viewing.finish_date) continue
+          totalMinutes += viewingMinutes
+          if (isReadingEntry(entry)) readingMinutes += viewingMinutes
+          incrementRecord(minutesByMedium, medium, viewingMinutes)
+          const viewingMonth = getMonthKey(viewing.finish_date)
+          if (viewingMonth) incrementRecord(minutesByMonthMap, viewingMonth, viewingMinutes)
+        }
       }
+    }
 
-      for (const language of normalizeLanguage(entry.language)) {
-        incrementRecord(countByLanguage, language)
-      }
+    incrementRecord(countByMedium, medium)
+    incrementRecord(countByPlatform, entry.platform)
+    incrementRecord(countByStatus, entry.status)
+    incrementRecord(countByType, entry.type)
+    if (month) incrementRecord(countByMonthMap, month)
 
-      const rating = entry.my_rating ?? entry.rating
-      if (typeof rating === "number") {
-        totalRatingSum += rating
-        ratedItemCount += 1
-        const bucket = Math.floor(rating)
-        ratingBuckets[bucket] = (ratingBuckets[bucket] || 0) + 1
-      }
+    if (entry.genre && Array.isArray(entry.genre)) {
+      for (const genre of entry.genre) incrementRecord(countByGenre, genre.trim())
+    }
+
+    for (const language of normalizeLanguage(entry.language)) {
+      incrementRecord(countByLanguage, language)
     }
 
-    const spentByMonth = Object.entries(spentByMonthMap)
-      .map(([month, monthData]) => ({ month, ...monthData }))
-      .sort((left, right) => left.month.localeCompare(right.month))
-
-    const minutesByMonth = Object.entries(minutesByMonthMap)
-      .map(([month, minutes]) => ({ month, minutes }))
-      .sort((left, right) => left.month.localeCompare(right.month))
-
-    const countByMonth = Object.entries(countByMonthMap)
-      .map(([month, count]) => ({ month, count }))
-      .sort((left, right) => left.month.localeCompare(right.month))
-
-    const ratingDistribution = Object.entries(ratingBuckets)
-      .map(([rating, count]) => ({ rating: Number.parseInt(rating, 10), count }))
-      .sort((left, right) => left.rating - right.rating)
-
-    const totalHours = totalMinutes / 60
-    const daysWatched = totalHours / 24
-    const averagePrice = data.length > 0 ? totalSpent / data.length : 0
-    const averageRating = ratedItemCount > 0 ? totalRatingSum / ratedItemCount : 0
-
-    return {
-      totalSpent,
-      averagePrice,
-      spentByMedium,
-      spentByMonth,
-      totalMinutes,
-      totalHours,
-      daysWatched,
-      minutesByMonth,
-      minutesByMedium,
-      totalItems: data.length,
-      countByMedium,
-      countByLanguage,
-      countByGenre,
-      countByPlatform,
-      countByStatus,
-      countByType,
-      countByMonth,
-      averageRating,
-      ratingDistribution,
-      topLanguage: getTopEntry(countByLanguage),
-      topGenre: getTopEntry(countByGenre),
-      topPlatform: getTopEntry(countByPlatform),
-      topMedium: getTopEntry(countByMedium)
+    // The entry's rating is its first viewing; rated rewatches count as viewings of their own
+    const ratings = [entry.my_rating ?? entry.rating, ...entryViewings.map((viewing) => viewing.rating)]
+    for (const rating of ratings) {
+      if (typeof rating !== "number") continue
+      totalRatingSum += rating
+      ratedItemCount += 1
+      const bucket = Math.floor(rating)
+      ratingBuckets[bucket] = (ratingBuckets[bucket] || 0) + 1
     }
-  }, [data])
+  }
+
+  const spentByMonth = Object.entries(spentByMonthMap)
+    .map(([month, monthData]) => ({ month, ...monthData }))
+    .sort((left, right) => left.month.localeCompare(right.month))
+
+  const minutesByMonth = Object.entries(minutesByMonthMap)
+    .map(([month, minutes]) => ({ month, minutes }))
+    .sort((left, right) => left.month.localeCompare(right.month))
+
+  const countByMonth = Object.entries(countByMonthMap)
+    .map(([month, count]) => ({ month, count }))
+    .sort((left, right) => left.month.localeCompare(right.month))
+
+  const ratingDistribution = Object.entries(ratingBuckets)
+    .map(([rating, count]) => ({ rating: Number.parseInt(rating, 10), count }))
+    .sort((left, right) => left.rating - right.rating)
+
+  const totalHours = totalMinutes / 60
+  const daysWatched = totalHours / 24
+  const averagePrice = data.length > 0 ? totalSpent / data.length : 0
+  const averageRating = ratedItemCount > 0 ? totalRatingSum / ratedItemCount : 0
+  const subscriptionCosts = computeSubscriptionCosts(data, viewings, subscriptions, converter, today)
+
+  return {
+    homeCurrency: converter.homeCurrency,
+    totalSpent,
+    averagePrice,
+    spentByCurrency,
+    unconvertedCount,
+    spentByMedium,
+    spentByMonth,
+    totalMinutes,
+    totalHours,
+    readingMinutes,
+    daysWatched,
+    minutesByMonth,
+    minutesByMedium,
+    totalItems: data.length,
+    countByMedium,
+    countByLanguage,
+    countByGenre,
+    countByPlatform,
+    countByStatus,
+    countByType,
+    countByMonth,
+    averageRating,
+    ratingDistribution,
+    topLanguage: getTopEntry(countByLanguage),
+    topGenre: getTopEntry(countByGenre),
+    topPlatform: getTopEntry(countByPlatform),
+    topMedium: getTopEntry(countByMedium),
+    subscriptionSpent: subscriptionCosts.costs.reduce((sum, row) => sum + row.totalCost, 0),
+    subscriptionCosts: subscriptionCosts.costs,
+    idleBillingPeriods: subscriptionCosts.idle,
+    rewatchCount,
+    rewatchedTitles: rewatchesByTitle.length,
+    rewatchesByTitle: rewatchesByTitle.sort((left, right) => right.count - left.count)
+  }
+}
+
+export function useMediaMetrics(
+  data: MediaEntry[],
+  converter: CurrencyConverter,
+  subscriptions: PlatformSubscription[] = NO_SUBSCRIPTIONS,
+  viewings: MediaViewing[] = NO_VIEWINGS,
+  playSessions: MediaPlaySession[] = NO_PLAY_SESSIONS
+): MediaMetrics {
+  return useMemo(
+    () => computeMediaMetrics(data, converter, subscriptions, viewings, playSessions),
+    [data, converter, subscriptions, viewings, playSessions]
+  )
 }
@@ -1,3 +1,9 @@
+import {
+  extractCustomFieldOptions,
+  matchesCustomFieldFilters,
+  type CustomFieldFilters
+} from "@/src/features/custom-fields/lib/custom-fields"
+import { getCollectionMemberIds, type MediaCollectionWithItems } from "@/src/features/media/lib/media-collections"
 import type { FoodEntry, MediaEntry } from "@/src/shared/types/database"
 
 export interface MediaFilterState {
@@ -9,6 +15,13 @@ export interface MediaFilterState {
   platforms: string[]
   statuses: string[]
   types: string[]
+  /** An entry must carry every selected tag. */
+  tags: string[]
+  /** true keeps only reviewed entries, false only unreviewed ones. */
+  hasReview: boolean | null
+  /** Collection names; an entry matches if it belongs to any of them. */
+  collections: string[]
+  customFields: CustomFieldFilters
 }
 
 export interface FoodFilterState {
@@ -22,6 +35,7 @@ export interface FoodFilterState {
   cities: string[]
   minRating: number | null
   wouldReturn: boolean | null
+  customFields: CustomFieldFilters
 }
 
 export const defaultMediaFilters: MediaFilterState = {
@@ -32,7 +46,11 @@ export const defaultMediaFilters: MediaFilterState = {
   languages: [],
   platforms: [],
   statuses: [],
-  types: []
+  types: [],
+  tags: [],
+  hasReview: null,
+  collections: [],
+  customFields: {}
 }
 
 export const defaultFoodFilters: FoodFilterState = {
@@ -45,7 +63,8 @@ export const defaultFoodFilters: FoodFilterState = {
   diningTypes: [],
   cities: [],
   minRating: null,
-  wouldReturn: null
+  wouldReturn: null,
+  customFields: {}
 }
 
 export function normalizeLanguage(language: string[] | string | null): string[] {
@@ -57,7 +76,13 @@ export function normalizeLanguage(language: string[] | string | null): string[]
     .filter(Boolean)
 }
 
-export function applyMediaFilters(entries: MediaEntry[], filters: MediaFilterState): MediaEntry[] {
+export function applyMediaFilters(
+  entries: MediaEntry[],
+  filters: MediaFilterState,
+  collections: MediaCollectionWithItems[] = []
+): MediaEntry[] {
+  const collectionMembers = filters.collections.length > 0 ? getCollectionMemberIds(collections, filters.collections) : null
+
   return entries.filter((entry) => {
     const finishDate = entry.finish_date || entry.start_date || ""
 
@@ -67,6 +92,7 @@ export function applyMediaFilters(entries: MediaEntry[], filters: MediaFilterSta
     if (filters.platforms.length > 0 && (!entry.platform || !filters.platforms.includes(entry.platform))) return false
     if (filters.statuses.length > 0 && (!entry.status || !filters.statuses.includes(entry.status))) return false
     if (filters.types.length > 0 && (!entry.type || !filters.types.includes(entry.type))) return false
+    if (collectionMembers && !collectionMembers.has(entry.id)) return false
 
     if (filters.languages.length > 0) {
       const languages = normalizeLanguage(entry.language)
@@ -78,6 +104,14 @@ export function applyMediaFilters(entries: MediaEntry[], filters: MediaFilterSta
       if (!filters.genres.every((genre) => genres.includes(genre.toLowerCase().trim()))) return false
     }
 
+    if (filters.tags.length > 0) {
+      const tags = (entry.tags ?? []).map((tag) => tag.toLowerCase().trim())
+      if (!filters.tags.every((tag) => tags.includes(tag.toLowerCase().trim()))) return false
+    }
+
+    if (filters.hasReview !== null && Boolean(entry.review?.trim()) !== filters.hasReview) return false
+    if (!matchesCustomFieldFilters(entry.custom_fields, filters.customFields)) return false
+
     return true
   })
 }
@@ -106,6 +140,7 @@ export function applyFoodFilters(entries: FoodEntry[], filters: FoodFilterState)
 
     if (filters.minRating !== null && (!entry.overall_rating || entry.overall_rating < filters.minRating)) return false
     if (filters.wouldReturn !== null && entry.would_return !== filters.wouldReturn) return false
+    if (!matchesCustomFieldFilters(entry.custom_fields, filters.customFields)) return false
 
     return true
   })
@@ -118,6 +153,7 @@ export function extractMediaFilterOptions(entries: MediaEntry[]) {
   const platforms = new Set<string>()
   const statuses = new Set<string>()
   const types = new Set<string>()
+  const tags = new Set<string>()
 
   for (const entry of entries) {
     if (entry.medium) mediums.add(entry.medium)
@@ -126,6 +162,7 @@ export function extractMediaFilterOptions(entries: MediaEntry[]) {
     if (entry.type) types.add(entry.type)
     for (const language of normalizeLanguage(entry.language)) languages.add(language)
     for (const genre of entry.genre ?? []) genres.add(genre)
+    for (const tag of entry.tags ?? []) tags.add(tag)
   }
 
   return {
@@ -134,7 +171,9 @@ export function extractMediaFilterOptions(entries: MediaEntry[]) {
     languages: Array.from(languages).sort(),
     platforms: Array.from(platforms).sort(),
     statuses: Array.from(statuses).sort(),
-    types: Array.from(types).sort()
+    types: Array.from(types).sort(),
+    tags: Array.from(tags).sort(),
+    customFields: extractCustomFieldOptions(entries)
   }
 }
 
@@ -166,6 +205,7 @@ export function extractFoodFilterOptions(entries: FoodEntry[]) {
     itemCategories: Array.from(itemCategories).sort(),
     priceLevels: Array.from(priceLevels).sort(),
     diningTypes: Array.from(diningTypes).sort(),
-    cities: Array.from(cities).sort()
+    cities: Array.from(cities).sort(),
+    customFields: extractCustomFieldOptions(entries)
   }
 }
@@ -2,6 +2,8 @@ import { Text, View } from "react-native"
 import { useState } from "react"
 import { FoodAnalyticsPanel } from "@/src/features/analytics/components/FoodAnalyticsPanel"
 import { MediaAnalyticsPanel } from "@/src/features/analytics/components/MediaAnalyticsPanel"
+import { SavedQueryCard } from "@/src/features/analytics/components/SavedQueryCard"
+import { useDashboardCards } from "@/src/features/analytics/hooks/useDashboardCards"
 import { useFoodEntries } from "@/src/features/food/hooks/useFoodEntries"
 import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
 import { GroupedSection } from "@/src/shared/components/native/grouped-section"
@@ -16,6 +18,7 @@ export function AnalyticsScreen() {
   const [workspace, setWorkspace] = useState<AnalyticsWorkspace>("media")
   const { data: media } = useMediaEntries()
   const { data: food } = useFoodEntries()
+  const { data: cards, moveCard, removeCard, moving } = useDashboardCards(workspace)
 
   return (
     <ScreenScrollView>
@@ -41,6 +44,23 @@ export function AnalyticsScreen() {
         </View>
       </GroupedSection>
 
+      {cards && cards.length > 0 ? (
+        <GroupedSection title="Saved Queries">
+          <View style={{ padding: 12, gap: 10 }}>
+            {cards.map((card, index) => (
+              <SavedQueryCard
+                key={card.id}
+                card={card}
+                isFirst={index === 0 || moving}
+                isLast={index === cards.length - 1 || moving}
+                onMove={(direction) => moveCard({ id: card.id, direction })}
+                onRemove={() => removeCard(card.id)}
+              />
+            ))}
+          </View>
+        </GroupedSection>
+      ) : null}
+
       {workspace === "media" ? <MediaAnalyticsPanel entries={media ?? []} /> : <FoodAnalyticsPanel entries={food ?? []} />}
     </ScreenScrollView>
   )
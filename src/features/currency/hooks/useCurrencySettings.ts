@@ -0,0 +1,91 @@
+import { useMemo } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/src/shared/api/supabase"
+import { getUserPreference, setUserPreference } from "@/src/shared/preferences/userPreferences"
+import type { ExchangeRate } from "@/src/shared/types/database"
+import {
+  createCurrencyConverter,
+  DEFAULT_HOME_CURRENCY,
+  HOME_CURRENCY_PREFERENCE_KEY,
+  normalizeCurrencyCode,
+  type ExchangeRateInput
+} from "@/src/features/currency/lib/currency"
+
+export function useCurrencySettings() {
+  const queryClient = useQueryClient()
+
+  const homeCurrencyQuery = useQuery({
+    queryKey: ["home-currency"],
+    queryFn: async (): Promise<string> => {
+      const stored = await getUserPreference<string>(HOME_CURRENCY_PREFERENCE_KEY)
+      return normalizeCurrencyCode(stored) ?? DEFAULT_HOME_CURRENCY
+    }
+  })
+
+  const ratesQuery = useQuery({
+    queryKey: ["exchange-rates"],
+    queryFn: async (): Promise<ExchangeRate[]> => {
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("*")
+        .order("effective_date", { ascending: false })
+        .order("from_currency", { ascending: true })
+
+      if (error) throw error
+      return (data ?? []) as ExchangeRate[]
+    }
+  })
+
+  const homeCurrency = homeCurrencyQuery.data ?? DEFAULT_HOME_CURRENCY
+  const rates = ratesQuery.data
+  const converter = useMemo(() => createCurrencyConverter(rates ?? [], homeCurrency), [rates, homeCurrency])
+
+  const setHomeCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const code = normalizeCurrencyCode(currency)
+      if (!code) throw new Error("Home currency must be a 3-letter code such as USD")
+      const saved = await setUserPreference(HOME_CURRENCY_PREFERENCE_KEY, code)
+      if (!saved) throw new Error("Failed to save home currency")
+      return code
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["home-currency"] })
+  })
+
+  const addRatesMutation = useMutation({
+    mutationFn: async ({ rates: inputs, source }: { rates: ExchangeRateInput[]; source: ExchangeRate["source"] }) => {
+      if (inputs.length === 0) return 0
+
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      const { error } = await supabase
+        .from("exchange_rates")
+        .insert(inputs.map((input) => ({ ...input, source, user_id: userId })))
+
+      if (error) throw error
+      return inputs.length
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["exchange-rates"] })
+  })
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["exchange-rates"] })
+  })
+
+  return {
+    homeCurrency,
+    rates: rates ?? [],
+    converter,
+    isLoading: homeCurrencyQuery.isLoading || ratesQuery.isLoading,
+    error: homeCurrencyQuery.error ?? ratesQuery.error,
+    setHomeCurrency: setHomeCurrencyMutation.mutateAsync,
+    addRates: addRatesMutation.mutateAsync,
+    deleteRate: deleteRateMutation.mutateAsync,
+    saving: setHomeCurrencyMutation.isPending || addRatesMutation.isPending
+  }
+}
@@ -0,0 +1,195 @@
+import type { ExchangeRate } from "@/src/shared/types/database"
+import type { WorkspaceType } from "@analytics/contracts"
+
+export const DEFAULT_HOME_CURRENCY = "USD"
+export const HOME_CURRENCY_PREFERENCE_KEY = "home_currency"
+
+/**
+ * Date columns that pick the rate for a priced row, first non-null wins. The AI query
+ * currency guide uses the same columns so SQL totals match the analytics screens.
+ */
+export const RATE_DATE_COLUMNS = {
+  media: ["start_date", "finish_date"],
+  food: ["visit_date"]
+} as const satisfies Record<WorkspaceType, readonly string[]>
+
+export function getRateDate<W extends WorkspaceType>(
+  workspace: W,
+  row: { [column in (typeof RATE_DATE_COLUMNS)[W][number]]: string | null }
+): string | null {
+  for (const column of RATE_DATE_COLUMNS[workspace] as readonly (keyof typeof row)[]) {
+    if (row[column]) return row[column]
+  }
+  return null
+}
+
+export type ExchangeRateInput = Pick<ExchangeRate, "from_currency" | "to_currency" | "rate" | "effective_date">
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+  KHR: "៛",
+  THB: "฿",
+  KRW: "₩",
+  INR: "₹",
+  VND: "₫"
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** Upper-cased ISO 4217 code, or null when the value is not a 3-letter code. */
+export function normalizeCurrencyCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase()
+  return code && /^[A-Z]{3}$/.test(code) ? code : null
+}
+
+export function formatMoney(amount: number, currency: string, fractionDigits = 2): string {
+  const symbol = CURRENCY_SYMBOLS[currency]
+  const value = amount.toFixed(fractionDigits)
+  return symbol ? `${symbol}${value}` : `${value} ${currency}`
+}
+
+export interface CurrencyConverter {
+  homeCurrency: string
+  /** Convert an amount to the home currency; null when no rate links the two currencies. */
+  convert: (amount: number, currency: string | null | undefined, date?: string | null) => number | null
+}
+
+interface DatedRate {
+  rate: number
+  effectiveDate: string
+}
+
+/**
+ * Pick the latest rate effective on or before the date, falling back to the
+ * earliest known rate when the date predates every stored rate.
+ */
+function pickRate(rates: DatedRate[], date: string | null | undefined): number | null {
+  if (rates.length === 0) return null
+  if (!date) return rates[rates.length - 1].rate
+
+  let candidate: DatedRate | null = null
+  for (const rate of rates) {
+    if (rate.effectiveDate <= date) candidate = rate
+    else break
+  }
+  return (candidate ?? rates[0]).rate
+}
+
+/**
+ * Build a converter from stored rates. Rates are used directly (foreign → home)
+ * or inverted (home → foreign); amounts without a currency are assumed to be in
+ * the home currency already.
+ */
+export function createCurrencyConverter(rates: ExchangeRate[], homeCurrency: string): CurrencyConverter {
+  const home = normalizeCurrencyCode(homeCurrency) ?? DEFAULT_HOME_CURRENCY
+  const ratesByCurrency = new Map<string, DatedRate[]>()
+
+  for (const rate of rates) {
+    const from = normalizeCurrencyCode(rate.from_currency)
+    const to = normalizeCurrencyCode(rate.to_currency)
+    if (!from || !to || !(rate.rate > 0)) continue
+
+    let foreign: string
+    let value: number
+    if (to === home && from !== home) {
+      foreign = from
+      value = rate.rate
+    } else if (from === home && to !== home) {
+      foreign = to
+      value = 1 / rate.rate
+    } else {
+      continue
+    }
+
+    const list = ratesByCurrency.get(foreign) ?? []
+    list.push({ rate: value, effectiveDate: rate.effective_date })
+    ratesByCurrency.set(foreign, list)
+  }
+
+  for (const list of ratesByCurrency.values()) {
+    list.sort((left, right) => left.effectiveDate.localeCompare(right.effectiveDate))
+  }
+
+  return {
+    homeCurrency: home,
+    convert(amount, currency, date) {
+      const code = normalizeCurrencyCode(currency)
+      if (!code || code === home) return amount
+      const rate = pickRate(ratesByCurrency.get(code) ?? [], date?.slice(0, 10))
+      return rate == null ? null : amount * rate
+    }
+  }
+}
+
+const COLUMN_ALIASES: Record<keyof ExchangeRateInput, string[]> = {
+  from_currency: ["from_currency", "from", "base", "currency"],
+  to_currency: ["to_currency", "to", "quote", "target"],
+  rate: ["rate", "value"],
+  effective_date: ["effective_date", "date"]
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim())
+}
+
+/**
+ * Parse exchange rates from CSV. With a header row columns may appear in any order;
+ * without one the order is `from,to,rate,date`. The date and target currency are
+ * optional and default to the given values.
+ */
+export function parseExchangeRatesCsv(
+  text: string,
+  defaults: { toCurrency: string; effectiveDate: string }
+): { rates: ExchangeRateInput[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+  const rates: ExchangeRateInput[] = []
+  const errors: string[] = []
+  if (lines.length === 0) return { rates, errors }
+
+  const firstCells = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase())
+  const hasHeader = firstCells.some((cell) => COLUMN_ALIASES.rate.includes(cell))
+  const columnIndex = (field: keyof ExchangeRateInput, fallback: number) =>
+    hasHeader ? firstCells.findIndex((cell) => COLUMN_ALIASES[field].includes(cell)) : fallback
+
+  const fromIndex = columnIndex("from_currency", 0)
+  const toIndex = columnIndex("to_currency", 1)
+  const rateIndex = columnIndex("rate", 2)
+  const dateIndex = columnIndex("effective_date", 3)
+
+  if (fromIndex < 0 || rateIndex < 0) {
+    return { rates, errors: ["CSV header must include from_currency and rate columns"] }
+  }
+
+  lines.slice(hasHeader ? 1 : 0).forEach((line, offset) => {
+    const lineNumber = offset + (hasHeader ? 2 : 1)
+    const cells = splitCsvLine(line)
+    const from = normalizeCurrencyCode(cells[fromIndex])
+    const to = normalizeCurrencyCode(toIndex >= 0 ? cells[toIndex] : undefined) ?? defaults.toCurrency
+    const rate = Number(cells[rateIndex])
+    const date = (dateIndex >= 0 ? cells[dateIndex] : "") || defaults.effectiveDate
+
+    if (!from) {
+      errors.push(`Line ${lineNumber}: invalid currency code "${cells[fromIndex] ?? ""}"`)
+      return
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`)
+      return
+    }
+    if (!DATE_PATTERN.test(date)) {
+      errors.push(`Line ${lineNumber}: date must use YYYY-MM-DD`)
+      return
+    }
+    if (from === to) {
+      errors.push(`Line ${lineNumber}: ${from} cannot be converted to itself`)
+      return
+    }
+
+    rates.push({ from_currency: from, to_currency: to, rate, effective_date: date })
+  })
+
+  return { rates, errors }
+}
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { normalizeCurrencyCode, parseExchangeRatesCsv } from "@/src/features/currency/lib/currency"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+function todayDateKey(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+export function CurrencySettingsScreen() {
+  const { palette } = useAppTheme()
+  const { homeCurrency, rates, isLoading, setHomeCurrency, addRates, deleteRate, saving } = useCurrencySettings()
+
+  const [homeDraft, setHomeDraft] = useState(homeCurrency)
+  const [fromCurrency, setFromCurrency] = useState("")
+  const [rateValue, setRateValue] = useState("")
+  const [effectiveDate, setEffectiveDate] = useState(todayDateKey())
+  const [csvText, setCsvText] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    setHomeDraft(homeCurrency)
+  }, [homeCurrency])
+
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function run(action: () => Promise<string>) {
+    setMessage(null)
+    setErrors([])
+    try {
+      setMessage(await action())
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : "Something went wrong"])
+    }
+  }
+
+  function saveHomeCurrency() {
+    void run(async () => `Home currency set to ${await setHomeCurrency(homeDraft)}`)
+  }
+
+  function addManualRate() {
+    void run(async () => {
+      const from = normalizeCurrencyCode(fromCurrency)
+      const rate = Number(rateValue)
+      if (!from) throw new Error("Currency must be a 3-letter code such as EUR")
+      if (from === homeCurrency) throw new Error(`${from} is already the home currency`)
+      if (!Number.isFinite(rate) || rate <= 0) throw new Error("Rate must be a positive number")
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) throw new Error("Date must use YYYY-MM-DD")
+
+      await addRates({
+        rates: [{ from_currency: from, to_currency: homeCurrency, rate, effective_date: effectiveDate }],
+        source: "manual"
+      })
+      setFromCurrency("")
+      setRateValue("")
+      return `Saved 1 ${from} = ${rate} ${homeCurrency}`
+    })
+  }
+
+  function importCsv() {
+    const parsed = parseExchangeRatesCsv(csvText, { toCurrency: homeCurrency, effectiveDate: todayDateKey() })
+    void run(async () => {
+      const imported = await addRates({ rates: parsed.rates, source: "csv" })
+      if (imported > 0) setCsvText("")
+      return `Imported ${imported} rate${imported === 1 ? "" : "s"}`
+    }).then(() => {
+      if (parsed.errors.length > 0) setErrors((prev) => [...prev, ...parsed.errors])
+    })
+  }
+
+  return (
+    <ScreenScrollView>
+      <View style={{ gap: 4 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 34, fontWeight: "700", letterSpacing: -0.6 }}>
+          Currency
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          Analytics convert spending to your home currency using the rates stored here.
+        </Text>
+      </View>
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {errors.map((error) => (
+        <Text key={error} selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text>
+      ))}
+
+      <GroupedSection title="Home Currency">
+        <View style={styles.form}>
+          <TextInput
+            style={inputStyle}
+            value={homeDraft}
+            onChangeText={setHomeDraft}
+            autoCapitalize="characters"
+            maxLength={3}
+            placeholder="USD"
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable style={[styles.button, { backgroundColor: palette.primary }]} onPress={saveHomeCurrency} disabled={saving}>
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Save</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Add Rate" footer={`1 unit of the currency equals the rate in ${homeCurrency}.`}>
+        <View style={styles.form}>
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              value={fromCurrency}
+              onChangeText={setFromCurrency}
+              autoCapitalize="characters"
+              maxLength={3}
+              placeholder="Currency (e.g. JPY)"
+              placeholderTextColor={palette.textMuted}
+            />
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              value={rateValue}
+              onChangeText={setRateValue}
+              keyboardType="decimal-pad"
+              placeholder={`Rate in ${homeCurrency}`}
+              placeholderTextColor={palette.textMuted}
+            />
+          </View>
+          <TextInput
+            style={inputStyle}
+            value={effectiveDate}
+            onChangeText={setEffectiveDate}
+            placeholder="Effective date (YYYY-MM-DD)"
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable style={[styles.button, { backgroundColor: palette.primary }]} onPress={addManualRate} disabled={saving}>
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Add Rate</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Import CSV" footer={`Columns: from_currency,to_currency,rate,effective_date. Missing targets default to ${homeCurrency}, missing dates to today.`}>
+        <View style={styles.form}>
+          <TextInput
+            style={[inputStyle, styles.csvInput]}
+            value={csvText}
+            onChangeText={setCsvText}
+            multiline
+            autoCapitalize="none"
+            placeholder={"from_currency,to_currency,rate,effective_date\nJPY,USD,0.0067,2026-01-01"}
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable
+            style={[styles.button, { backgroundColor: palette.primary }]}
+            onPress={importCsv}
+            disabled={saving || !csvText.trim()}
+          >
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Import</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Stored Rates">
+        {isLoading ? (
+          <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+        ) : rates.length === 0 ? (
+          <SettingsRow title="No rates yet" subtitle="Spending in other currencies is excluded from totals until a rate exists." />
+        ) : (
+          rates.map((rate) => (
+            <SettingsRow
+              key={rate.id}
+              title={`1 ${rate.from_currency} = ${rate.rate} ${rate.to_currency}`}
+              subtitle={`From ${rate.effective_date} • ${rate.source}`}
+              accessory={
+                <Pressable onPress={() => void run(async () => {
+                  await deleteRate(rate.id)
+                  return "Rate deleted"
+                })}>
+                  <Text style={{ color: palette.danger, fontWeight: "600" }}>Delete</Text>
+                </Pressable>
+              }
+            />
+          ))
+        )}
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  form: { padding: 16, gap: 10 },
+  row: { flexDirection: "row", gap: 10 },
+  flex: { flex: 1 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  csvInput: { minHeight: 110, textAlignVertical: "top" },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react"
+import { Pressable, Text, TextInput, View } from "react-native"
+import { useCustomFieldDefinitions } from "@/src/features/custom-fields/hooks/useCustomFieldDefinitions"
+import {
+  coerceCustomFieldValue,
+  formatCustomFieldValue,
+  setCustomFieldValue
+} from "@/src/features/custom-fields/lib/custom-fields"
+import { NativeDateField } from "@/src/shared/components/native/native-date-field"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+  CustomFieldWorkspace
+} from "@/src/shared/types/database"
+
+interface CustomFieldsEditorProps {
+  workspace: CustomFieldWorkspace
+  values: CustomFieldValues
+  onChange: (values: CustomFieldValues) => void
+}
+
+type Palette = ReturnType<typeof useAppTheme>["palette"]
+
+/** One input per custom field the user has defined for the workspace, typed by the definition. */
+export function CustomFieldsEditor({ workspace, values, onChange }: CustomFieldsEditorProps) {
+  const { palette } = useAppTheme()
+  const { data: definitions, isLoading } = useCustomFieldDefinitions(workspace)
+
+  if (isLoading) return null
+
+  if (!definitions || definitions.length === 0) {
+    return (
+      <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+        No custom fields yet. Add them from Profile → Custom Fields.
+      </Text>
+    )
+  }
+
+  // Values whose definition was deleted are kept on the entry but not editable here
+  return (
+    <View style={{ gap: 14 }}>
+      {definitions.map((definition) => (
+        <View key={definition.id} style={{ gap: 6 }}>
+          <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>{definition.label}</Text>
+          <CustomFieldInput
+            palette={palette}
+            definition={definition}
+            value={values[definition.key] ?? null}
+            onChange={(value) => onChange(setCustomFieldValue(values, definition.key, value))}
+          />
+        </View>
+      ))}
+    </View>
+  )
+}
+
+function CustomFieldInput({
+  palette,
+  definition,
+  value,
+  onChange
+}: {
+  palette: Palette
+  definition: CustomFieldDefinition
+  value: CustomFieldValue | null
+  onChange: (value: CustomFieldValue | null) => void
+}) {
+  switch (definition.field_type) {
+    case "boolean":
+      return (
+        <ChoiceChips
+          palette={palette}
+          options={["Yes", "No"]}
+          selected={value === null ? null : formatCustomFieldValue(value)}
+          onSelect={(option) => onChange(option === null ? null : option === "Yes")}
+        />
+      )
+    case "select":
+      return (
+        <ChoiceChips
+          palette={palette}
+          options={definition.options ?? []}
+          selected={typeof value === "string" ? value : null}
+          onSelect={onChange}
+        />
+      )
+    case "date":
+      return (
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+          <View style={{ flex: 1 }}>
+            <NativeDateField
+              label={definition.label}
+              value={typeof value === "string" ? value : ""}
+              onChange={(next) => onChange(coerceCustomFieldValue(definition, next))}
+            />
+          </View>
+          {value !== null ? (
+            <Pressable onPress={() => onChange(null)}>
+              <Text style={{ color: palette.danger, fontWeight: "600" }}>Clear</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      )
+    default:
+      return <TextFieldInput palette={palette} definition={definition} value={value} onChange={onChange} />
+  }
+}
+
+/** Keeps the typed text locally so "4." or trailing spaces survive until the value is complete. */
+function TextFieldInput({
+  palette,
+  definition,
+  value,
+  onChange
+}: {
+  palette: Palette
+  definition: CustomFieldDefinition
+  value: CustomFieldValue | null
+  onChange: (value: CustomFieldValue | null) => void
+}) {
+  const [text, setText] = useState(formatCustomFieldValue(value))
+
+  useEffect(() => {
+    setText((current) => (coerceCustomFieldValue(definition, current) === value ? current : formatCustomFieldValue(value)))
+  }, [definition, value])
+
+  return (
+    <TextInput
+      value={text}
+      onChangeText={(next) => {
+        setText(next)
+        onChange(coerceCustomFieldValue(definition, next))
+      }}
+      keyboardType={definition.field_type === "number" ? "decimal-pad" : "default"}
+      placeholder={definition.field_type === "number" ? "0" : definition.label}
+      placeholderTextColor={palette.textMuted}
+      style={{
+        minHeight: 44,
+        borderRadius: 14,
+        borderCurve: "continuous",
+        borderWidth: 1,
+        borderColor: palette.border,
+        backgroundColor: palette.surfaceMuted,
+        color: palette.text,
+        paddingHorizontal: 12,
+        fontSize: 15
+      }}
+    />
+  )
+}
+
+/** Tapping the selected chip again clears the value. */
+function ChoiceChips({
+  palette,
+  options,
+  selected,
+  onSelect
+}: {
+  palette: Palette
+  options: string[]
+  selected: string | null
+  onSelect: (value: string | null) => void
+}) {
+  return (
+    <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+      {options.map((option) => {
+        const active = option === selected
+        return (
+          <Pressable
+            key={option}
+            onPress={() => onSelect(active ? null : option)}
+            style={{
+              borderWidth: 1,
+              borderColor: active ? palette.primary : palette.border,
+              borderRadius: 999,
+              paddingHorizontal: 12,
+              paddingVertical: 7,
+              backgroundColor: active ? palette.primary : palette.surface
+            }}
+          >
+            <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 13, fontWeight: "600" }}>
+              {option}
+            </Text>
+          </Pressable>
+        )
+      })}
+    </View>
+  )
+}
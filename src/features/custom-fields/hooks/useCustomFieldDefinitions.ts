@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { sortCustomFieldDefinitions, toCustomFieldKey } from "@/src/features/custom-fields/lib/custom-fields"
+import { supabase } from "@/src/shared/api/supabase"
+import type { CustomFieldDefinition, CustomFieldWorkspace } from "@/src/shared/types/database"
+
+export type CustomFieldDefinitionInput = Pick<CustomFieldDefinition, "label" | "field_type" | "options">
+
+export function useCustomFieldDefinitions(workspace: CustomFieldWorkspace) {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["custom-field-definitions", workspace] })
+
+  const query = useQuery({
+    queryKey: ["custom-field-definitions", workspace],
+    queryFn: async (): Promise<CustomFieldDefinition[]> => {
+      const { data, error } = await supabase
+        .from("custom_field_definitions")
+        .select("*")
+        .eq("workspace", workspace)
+        .order("sort_order", { ascending: true })
+
+      if (error) throw error
+      return sortCustomFieldDefinitions((data ?? []) as CustomFieldDefinition[])
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CustomFieldDefinitionInput) => {
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      const label = input.label.trim()
+      const key = toCustomFieldKey(label)
+      if (!key) throw new Error("Field name must contain letters or numbers")
+
+      const existing = query.data ?? []
+      if (existing.some((definition) => definition.key === key)) {
+        throw new Error(`A field named "${label}" already exists`)
+      }
+      if (input.field_type === "select" && (input.options ?? []).length === 0) {
+        throw new Error("Select fields need at least one option")
+      }
+
+      const { data, error } = await supabase
+        .from("custom_field_definitions")
+        .insert({
+          user_id: userId,
+          workspace,
+          key,
+          label,
+          field_type: input.field_type,
+          options: input.field_type === "select" ? input.options : null,
+          sort_order: existing.reduce((max, definition) => Math.max(max, definition.sort_order + 1), 0)
+        })
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as CustomFieldDefinition
+    },
+    onSuccess: invalidate
+  })
+
+  // The key is deliberately not editable: stored values and saved AI queries refer to it
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<Pick<CustomFieldDefinition, "label" | "options" | "sort_order">> }) => {
+      const { error } = await supabase
+        .from("custom_field_definitions")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("custom_field_definitions").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createDefinition: createMutation.mutateAsync,
+    updateDefinition: updateMutation.mutateAsync,
+    deleteDefinition: deleteMutation.mutateAsync,
+    saving: createMutation.isPending || updateMutation.isPending || deleteMutation.isPending
+  }
+}
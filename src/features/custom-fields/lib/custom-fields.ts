@@ -0,0 +1,155 @@
+import type {
+  CustomFieldDefinition,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+  JsonValue
+} from "@/src/shared/types/database"
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Select" },
+  { value: "boolean", label: "Yes / No" }
+]
+
+/** Selected display values per field key; a field with no selection does not filter. */
+export type CustomFieldFilters = Record<string, string[]>
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** "Recommended by" -> "recommended_by"; the key is what SQL and stored values use. */
+export function toCustomFieldKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40)
+}
+
+export function parseCustomFieldOptions(text: string): string[] {
+  const seen = new Set<string>()
+  const options: string[] = []
+  for (const part of text.split(",")) {
+    const option = part.trim()
+    if (!option || seen.has(option.toLowerCase())) continue
+    seen.add(option.toLowerCase())
+    options.push(option)
+  }
+  return options
+}
+
+function isCustomFieldValue(value: unknown): value is CustomFieldValue {
+  return typeof value === "string" || typeof value === "boolean" || (typeof value === "number" && Number.isFinite(value))
+}
+
+/** Drops anything that is not a scalar value, so untyped JSON from the database is safe to read. */
+export function parseCustomFieldValues(raw: JsonValue | CustomFieldValues | null | undefined): CustomFieldValues {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {}
+
+  const values: CustomFieldValues = {}
+  for (const [key, value] of Object.entries(raw)) {
+    if (isCustomFieldValue(value)) values[key] = value
+  }
+  return values
+}
+
+/**
+ * Converts raw input into the definition's type. Returns null for empty or invalid input,
+ * which removes the value rather than storing something the filters and SQL cannot compare.
+ */
+export function coerceCustomFieldValue(
+  definition: Pick<CustomFieldDefinition, "field_type" | "options">,
+  raw: string | boolean | null
+): CustomFieldValue | null {
+  if (raw === null) return null
+
+  switch (definition.field_type) {
+    case "boolean":
+      if (typeof raw === "boolean") return raw
+      if (/^(true|yes|y|1)$/i.test(raw.trim())) return true
+      if (/^(false|no|n|0)$/i.test(raw.trim())) return false
+      return null
+    case "number": {
+      const text = String(raw).trim()
+      if (!text) return null
+      const value = Number(text)
+      return Number.isFinite(value) ? value : null
+    }
+    case "date": {
+      const text = String(raw).trim()
+      return DATE_PATTERN.test(text) ? text : null
+    }
+    case "select": {
+      const text = String(raw).trim()
+      return (definition.options ?? []).find((option) => option.toLowerCase() === text.toLowerCase()) ?? null
+    }
+    default: {
+      const text = String(raw).trim()
+      return text || null
+    }
+  }
+}
+
+export function setCustomFieldValue(
+  values: CustomFieldValues,
+  key: string,
+  value: CustomFieldValue | null
+): CustomFieldValues {
+  const next = { ...values }
+  if (value === null) {
+    delete next[key]
+  } else {
+    next[key] = value
+  }
+  return next
+}
+
+export function formatCustomFieldValue(value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "boolean") return value ? "Yes" : "No"
+  return String(value)
+}
+
+export function matchesCustomFieldFilters(
+  values: JsonValue | CustomFieldValues | null | undefined,
+  filters: CustomFieldFilters
+): boolean {
+  const parsed = parseCustomFieldValues(values)
+  return Object.entries(filters).every(([key, selected]) => {
+    if (selected.length === 0) return true
+    const value = parsed[key]
+    return value !== undefined && selected.includes(formatCustomFieldValue(value))
+  })
+}
+
+/** Distinct display values per field key; numbers sort numerically, everything else alphabetically. */
+export function extractCustomFieldOptions(
+  entries: { custom_fields: JsonValue | CustomFieldValues | null }[]
+): Record<string, string[]> {
+  const byKey = new Map<string, Map<string, CustomFieldValue>>()
+
+  for (const entry of entries) {
+    for (const [key, value] of Object.entries(parseCustomFieldValues(entry.custom_fields))) {
+      const values = byKey.get(key) ?? new Map<string, CustomFieldValue>()
+      values.set(formatCustomFieldValue(value), value)
+      byKey.set(key, values)
+    }
+  }
+
+  const options: Record<string, string[]> = {}
+  for (const [key, values] of byKey) {
+    options[key] = Array.from(values.entries())
+      .sort(([leftLabel, left], [rightLabel, right]) =>
+        typeof left === "number" && typeof right === "number" ? left - right : leftLabel.localeCompare(rightLabel)
+      )
+      .map(([label]) => label)
+  }
+  return options
+}
+
+export function sortCustomFieldDefinitions<T extends Pick<CustomFieldDefinition, "sort_order" | "label">>(definitions: T[]): T[] {
+  return [...definitions].sort((left, right) => left.sort_order - right.sort_order || left.label.localeCompare(right.label))
+}
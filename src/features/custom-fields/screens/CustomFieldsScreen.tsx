@@ -0,0 +1,180 @@
+import { useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { useCustomFieldDefinitions } from "@/src/features/custom-fields/hooks/useCustomFieldDefinitions"
+import { CUSTOM_FIELD_TYPES, parseCustomFieldOptions } from "@/src/features/custom-fields/lib/custom-fields"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { NativeSegmentedControl } from "@/src/shared/components/native/native-segmented-control"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { CustomFieldDefinition, CustomFieldType, CustomFieldWorkspace } from "@/src/shared/types/database"
+
+function describeDefinition(definition: CustomFieldDefinition): string {
+  const type = CUSTOM_FIELD_TYPES.find((item) => item.value === definition.field_type)?.label ?? definition.field_type
+  const options = definition.field_type === "select" && definition.options?.length ? ` • ${definition.options.join(", ")}` : ""
+  return `${type} • ${definition.key}${options}`
+}
+
+export function CustomFieldsScreen() {
+  const { palette } = useAppTheme()
+  const [workspace, setWorkspace] = useState<CustomFieldWorkspace>("media")
+  const { data: definitions, isLoading, createDefinition, updateDefinition, deleteDefinition, saving } =
+    useCustomFieldDefinitions(workspace)
+
+  const [label, setLabel] = useState("")
+  const [fieldType, setFieldType] = useState<CustomFieldType>("text")
+  const [optionsText, setOptionsText] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+  const fields = definitions ?? []
+
+  async function run(action: () => Promise<string>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong")
+    }
+  }
+
+  function addField() {
+    void run(async () => {
+      const created = await createDefinition({
+        label,
+        field_type: fieldType,
+        options: fieldType === "select" ? parseCustomFieldOptions(optionsText) : null
+      })
+      setLabel("")
+      setOptionsText("")
+      return `Added "${created.label}"`
+    })
+  }
+
+  // Swaps sort orders with the neighbour; both rows are rewritten so gaps from deletions heal
+  function moveUp(index: number) {
+    const current = fields[index]
+    const previous = fields[index - 1]
+    if (!current || !previous) return
+    void run(async () => {
+      await updateDefinition({ id: current.id, patch: { sort_order: index - 1 } })
+      await updateDefinition({ id: previous.id, patch: { sort_order: index } })
+      return `Moved "${current.label}" up`
+    })
+  }
+
+  return (
+    <ScreenScrollView>
+      <View style={{ gap: 4 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 34, fontWeight: "700", letterSpacing: -0.6 }}>
+          Custom Fields
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          Track anything the built-in fields miss. Fields appear in the entry editors, analytics filters and the assistant.
+        </Text>
+      </View>
+
+      <NativeSegmentedControl
+        value={workspace}
+        onChange={setWorkspace}
+        options={[
+          { value: "media", label: "Media" },
+          { value: "food", label: "Food" }
+        ]}
+      />
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <GroupedSection title="Add Field" footer="The key is derived from the name and cannot change later; renaming is safe.">
+        <View style={styles.form}>
+          <TextInput
+            style={inputStyle}
+            value={label}
+            onChangeText={setLabel}
+            placeholder={workspace === "media" ? "e.g. Watched with" : "e.g. Spiciness"}
+            placeholderTextColor={palette.textMuted}
+          />
+          <View style={styles.chips}>
+            {CUSTOM_FIELD_TYPES.map((type) => {
+              const active = type.value === fieldType
+              return (
+                <Pressable
+                  key={type.value}
+                  onPress={() => setFieldType(type.value)}
+                  style={[styles.chip, { borderColor: palette.border, backgroundColor: active ? palette.primary : palette.surface }]}
+                >
+                  <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 13, fontWeight: "600" }}>
+                    {type.label}
+                  </Text>
+                </Pressable>
+              )
+            })}
+          </View>
+          {fieldType === "select" ? (
+            <TextInput
+              style={inputStyle}
+              value={optionsText}
+              onChangeText={setOptionsText}
+              placeholder="Options, separated by commas"
+              placeholderTextColor={palette.textMuted}
+            />
+          ) : null}
+          <Pressable
+            style={[styles.button, { backgroundColor: palette.primary }]}
+            onPress={addField}
+            disabled={saving || !label.trim()}
+          >
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Add Field</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title={workspace === "media" ? "Media Fields" : "Food Fields"}>
+        {isLoading ? (
+          <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+        ) : fields.length === 0 ? (
+          <SettingsRow title="No fields yet" subtitle="Fields you add here show up on every entry in this workspace." />
+        ) : (
+          fields.map((definition, index) => (
+            <SettingsRow
+              key={definition.id}
+              title={definition.label}
+              subtitle={describeDefinition(definition)}
+              accessory={
+                <View style={styles.actions}>
+                  {index > 0 ? (
+                    <Pressable onPress={() => moveUp(index)} disabled={saving}>
+                      <Text style={{ color: palette.primary, fontWeight: "600" }}>Up</Text>
+                    </Pressable>
+                  ) : null}
+                  <Pressable
+                    disabled={saving}
+                    onPress={() => void run(async () => {
+                      await deleteDefinition(definition.id)
+                      return `Deleted "${definition.label}". Existing values stay on entries.`
+                    })}
+                  >
+                    <Text style={{ color: palette.danger, fontWeight: "600" }}>Delete</Text>
+                  </Pressable>
+                </View>
+              }
+            />
+          ))
+        )}
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  form: { padding: 16, gap: 10 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 12, paddingVertical: 7 },
+  actions: { flexDirection: "row", gap: 14 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
@@ -0,0 +1,313 @@
+import { Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import {
+  computeBillBreakdown,
+  defaultBillSplit,
+  formatSplitPerson,
+  getBillSplitError,
+  getSplitPeople
+} from "@/src/features/food/lib/food-bill-split"
+import { SegmentedSwitch } from "@/src/shared/components/workspace/SegmentedSwitch"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { FoodBillSplit, FoodExtrasSplit, FoodItem, FoodSplitMode } from "@/src/shared/types/database"
+
+interface FoodBillSplitEditorProps {
+  partySize: string
+  companions: string
+  split: FoodBillSplit | null
+  items: FoodItem[]
+  totalPrice: number | null
+  currency: string
+  onPartySizeChange: (value: string) => void
+  onCompanionsChange: (value: string) => void
+  onSplitChange: (split: FoodBillSplit | null) => void
+}
+
+function toAmountOrNull(value: string): number | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const parsed = Number(trimmed)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+function parseNames(value: string): string[] | null {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return names.length > 0 ? names : null
+}
+
+/** Party, payer and how the bill was shared, with a live per-person preview. */
+export function FoodBillSplitEditor({
+  partySize,
+  companions,
+  split,
+  items,
+  totalPrice,
+  currency,
+  onPartySizeChange,
+  onCompanionsChange,
+  onSplitChange
+}: FoodBillSplitEditorProps) {
+  const { palette } = useAppTheme()
+  const companionNames = parseNames(companions)
+  const people = getSplitPeople({ companions: companionNames })
+  const visit = {
+    total_price: totalPrice,
+    currency,
+    visit_date: "",
+    items_ordered: items,
+    party_size: toAmountOrNull(partySize),
+    companions: companionNames,
+    bill_split: split
+  }
+  const breakdown = computeBillBreakdown(visit)
+  const splitError = getBillSplitError(visit)
+  const money = (amount: number) => (currency.trim() ? formatMoney(amount, currency.trim().toUpperCase()) : amount.toFixed(2))
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  function update(patch: Partial<FoodBillSplit>) {
+    if (split) onSplitChange({ ...split, ...patch })
+  }
+
+  function toggleItemPerson(index: number, person: string) {
+    if (!split) return
+    const key = String(index)
+    const current = split.item_shares?.[key] ?? []
+    const next = current.includes(person) ? current.filter((item) => item !== person) : [...current, person]
+    update({ item_shares: { ...(split.item_shares ?? {}), [key]: next } })
+  }
+
+  function setCustomAmount(person: string, value: string) {
+    if (!split) return
+    const amounts = { ...(split.custom_amounts ?? {}) }
+    const amount = toAmountOrNull(value)
+    if (amount == null) delete amounts[person]
+    else amounts[person] = amount
+    update({ custom_amounts: Object.keys(amounts).length > 0 ? amounts : null })
+  }
+
+  function setPaidAmount(person: string, value: string) {
+    if (!split) return
+    const amounts = { ...(split.paid_amounts ?? {}) }
+    const amount = toAmountOrNull(value)
+    if (amount == null) delete amounts[person]
+    else amounts[person] = amount
+    update({ paid_amounts: Object.keys(amounts).length > 0 ? amounts : null })
+  }
+
+  function setPayer(payer: string) {
+    if (!split) return
+    // The payer's part is whatever the others leave uncovered, so they have no amount of their own
+    const amounts = { ...(split.paid_amounts ?? {}) }
+    delete amounts[payer]
+    update({ payer, paid_amounts: Object.keys(amounts).length > 0 ? amounts : null })
+  }
+
+  return (
+    <View style={styles.root}>
+      <View style={styles.row}>
+        <TextInput
+          style={[inputStyle, styles.half]}
+          value={partySize}
+          onChangeText={onPartySizeChange}
+          placeholder="Party size"
+          placeholderTextColor={palette.textMuted}
+          keyboardType="number-pad"
+        />
+        <TextInput
+          style={[inputStyle, styles.half]}
+          value={companions}
+          onChangeText={onCompanionsChange}
+          placeholder="Companions (comma separated)"
+          placeholderTextColor={palette.textMuted}
+        />
+      </View>
+
+      {!split ? (
+        <Pressable style={[styles.button, { borderColor: palette.border, backgroundColor: palette.surface }]} onPress={() => onSplitChange(defaultBillSplit())}>
+          <Text style={{ color: palette.text }}>Split the Bill</Text>
+        </Pressable>
+      ) : (
+        <>
+          <SegmentedSwitch<FoodSplitMode>
+            value={split.mode}
+            onChange={(mode) => update({ mode })}
+            options={[
+              { value: "equal", label: "equal" },
+              { value: "itemized", label: "itemized" },
+              { value: "custom", label: "custom" }
+            ]}
+          />
+
+          <ChipRow
+            label={split.paid_amounts ? "Paid the rest" : "Paid by"}
+            options={people}
+            selected={[split.payer]}
+            onToggle={setPayer}
+          />
+          {people
+            .filter((person) => person !== split.payer)
+            .map((person) => (
+              <View key={`paid-${person}`} style={styles.row}>
+                <Text style={[styles.half, { color: palette.text, alignSelf: "center" }]}>{formatSplitPerson(person)} paid</Text>
+                <TextInput
+                  style={[inputStyle, styles.half]}
+                  value={split.paid_amounts?.[person] != null ? String(split.paid_amounts[person]) : ""}
+                  onChangeText={(value) => setPaidAmount(person, value)}
+                  placeholder="Amount, if they chipped in"
+                  placeholderTextColor={palette.textMuted}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, styles.half]}
+              value={split.tax != null ? String(split.tax) : ""}
+              onChangeText={(value) => update({ tax: toAmountOrNull(value) })}
+              placeholder="Tax (in total)"
+              placeholderTextColor={palette.textMuted}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[inputStyle, styles.half]}
+              value={split.tip != null ? String(split.tip) : ""}
+              onChangeText={(value) => update({ tip: toAmountOrNull(value) })}
+              placeholder="Tip (in total)"
+              placeholderTextColor={palette.textMuted}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <ChipRow
+            label="Tax and tip"
+            options={["proportional", "equal"]}
+            selected={[split.extras_split]}
+            onToggle={(value) => update({ extras_split: value as FoodExtrasSplit })}
+          />
+
+          {split.mode === "itemized" ? (
+            items.length === 0 ? (
+              <Text style={{ color: palette.textMuted, fontSize: 12 }}>Add items on the items tab to assign them.</Text>
+            ) : (
+              items.map((item, index) =>
+                item.price == null ? null : (
+                  <ChipRow
+                    key={`split-item-${index}`}
+                    label={`${item.name || "Item"} • ${money(item.price)}`}
+                    options={people}
+                    selected={split.item_shares?.[String(index)] ?? []}
+                    onToggle={(person) => toggleItemPerson(index, person)}
+                  />
+                )
+              )
+            )
+          ) : null}
+
+          {split.mode === "custom"
+            ? people.map((person) => (
+                <View key={`custom-${person}`} style={styles.row}>
+                  <Text style={[styles.half, { color: palette.text, alignSelf: "center" }]}>{formatSplitPerson(person)}</Text>
+                  <TextInput
+                    style={[inputStyle, styles.half]}
+                    value={split.custom_amounts?.[person] != null ? String(split.custom_amounts[person]) : ""}
+                    onChangeText={(value) => setCustomAmount(person, value)}
+                    placeholder="Amount before tax and tip"
+                    placeholderTextColor={palette.textMuted}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))
+            : null}
+
+          <Pressable style={[styles.button, { borderColor: palette.border, backgroundColor: palette.surface }]} onPress={() => onSplitChange(null)}>
+            <Text style={{ color: palette.danger }}>Remove Split</Text>
+          </Pressable>
+        </>
+      )}
+
+      <View style={[styles.preview, { borderColor: palette.border, backgroundColor: palette.surface }]}>
+        <Text style={{ color: palette.text, fontWeight: "700", fontSize: 13 }}>Per Person</Text>
+        {splitError ? <Text style={{ color: palette.danger, fontSize: 12 }}>{splitError}</Text> : null}
+        {!breakdown ? (
+          <Text style={{ color: palette.textMuted, fontSize: 12 }}>Enter a total price or item prices to see each share.</Text>
+        ) : (
+          <>
+            {breakdown.shares.map((share) => (
+              <View key={share.person} style={styles.previewRow}>
+                <Text style={{ color: palette.text, fontSize: 13 }}>
+                  {formatSplitPerson(share.person)}
+                  {share.paid > 0 ? ` (paid ${money(share.paid)})` : ""}
+                </Text>
+                <Text style={{ color: palette.textMuted, fontSize: 13 }}>{money(share.total)}</Text>
+              </View>
+            ))}
+            {breakdown.seats > breakdown.shares.length ? (
+              <View style={styles.previewRow}>
+                <Text style={{ color: palette.text, fontSize: 13 }}>
+                  {breakdown.seats - breakdown.shares.length} unnamed
+                </Text>
+                <Text style={{ color: palette.textMuted, fontSize: 13 }}>{money(breakdown.unnamedShare)}</Text>
+              </View>
+            ) : null}
+          </>
+        )}
+      </View>
+    </View>
+  )
+}
+
+function ChipRow({
+  label,
+  options,
+  selected,
+  onToggle
+}: {
+  label: string
+  options: string[]
+  selected: string[]
+  onToggle: (value: string) => void
+}) {
+  const { palette } = useAppTheme()
+
+  return (
+    <View style={{ gap: 6 }}>
+      <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>{label}</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6 }}>
+        {options.map((option) => {
+          const active = selected.includes(option)
+          return (
+            <Pressable
+              key={option}
+              onPress={() => onToggle(option)}
+              style={{
+                borderWidth: 1,
+                borderColor: active ? palette.primary : palette.border,
+                borderRadius: 999,
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                backgroundColor: active ? palette.primary : palette.surfaceMuted
+              }}
+            >
+              <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "600" }}>
+                {formatSplitPerson(option)}
+              </Text>
+            </Pressable>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  root: { gap: 10 },
+  row: { flexDirection: "row", gap: 8 },
+  half: { flex: 1 },
+  input: { borderWidth: 1, borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderWidth: 1, borderRadius: 10, paddingVertical: 11, alignItems: "center" },
+  preview: { borderWidth: 1, borderRadius: 10, padding: 10, gap: 6 },
+  previewRow: { flexDirection: "row", justifyContent: "space-between", gap: 8 }
+})
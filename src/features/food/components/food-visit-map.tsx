@@ -0,0 +1,208 @@
+import { useMemo, useState } from "react"
+import { Pressable, StyleSheet, Text, View } from "react-native"
+import { DateRangeRow, MultiSelectChips } from "@/src/features/analytics/components/FilterChips"
+import {
+  applyFoodFilters,
+  defaultFoodFilters,
+  extractFoodFilterOptions,
+  type FoodFilterState
+} from "@/src/features/analytics/lib/filters"
+import {
+  clusterMapPoints,
+  computeMapBounds,
+  getClusterColor,
+  getMapLegend,
+  getMappableVisits,
+  rankCuisines,
+  type FoodMapBounds,
+  type FoodMapCluster,
+  type FoodMapColorMode
+} from "@/src/features/food/lib/food-map"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { FoodEntry } from "@/src/shared/types/database"
+
+interface FoodVisitMapProps {
+  entries: FoodEntry[]
+  onOpenEntry: (entry: FoodEntry) => void
+}
+
+const MAP_HEIGHT = 360
+const GRID_LINES = 4
+const PIN_SIZE = 22
+const CLUSTER_SIZE = 34
+
+function toggle(value: string, values: string[]): string[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+}
+
+/**
+ * Vector map of visits: pins are projected onto a plain grid, so it works offline and without a
+ * map service. Tapping a cluster zooms into it; tapping a single visit opens it.
+ */
+export function FoodVisitMap({ entries, onOpenEntry }: FoodVisitMapProps) {
+  const { palette } = useAppTheme()
+  const [filters, setFilters] = useState<FoodFilterState>(defaultFoodFilters)
+  const [colorMode, setColorMode] = useState<FoodMapColorMode>("rating")
+  const [zoomBounds, setZoomBounds] = useState<FoodMapBounds | null>(null)
+  const [stackedCluster, setStackedCluster] = useState<FoodMapCluster | null>(null)
+  const [width, setWidth] = useState(0)
+
+  const options = useMemo(() => extractFoodFilterOptions(entries), [entries])
+  const points = useMemo(() => getMappableVisits(applyFoodFilters(entries, filters)), [entries, filters])
+  const rankedCuisines = useMemo(() => rankCuisines(points), [points])
+  const fullBounds = useMemo(() => computeMapBounds(points), [points])
+  const bounds = zoomBounds ?? fullBounds
+  const clusters = useMemo(
+    () => (bounds && width > 0 ? clusterMapPoints(points, bounds, width, MAP_HEIGHT) : []),
+    [points, bounds, width]
+  )
+  const unmappedCount = applyFoodFilters(entries, filters).length - points.length
+
+  function updateFilters(next: FoodFilterState) {
+    setFilters(next)
+    setZoomBounds(null)
+    setStackedCluster(null)
+  }
+
+  function openCluster(cluster: FoodMapCluster) {
+    if (cluster.points.length === 1) {
+      onOpenEntry(cluster.points[0].entry)
+      return
+    }
+
+    const clusterBounds = computeMapBounds(cluster.points)
+    const samePlace = cluster.points.every(
+      (point) => point.latitude === cluster.points[0].latitude && point.longitude === cluster.points[0].longitude
+    )
+    // Zooming cannot separate visits logged at the same coordinates, so list them instead
+    if (samePlace || !clusterBounds) {
+      setStackedCluster(cluster)
+      return
+    }
+    setStackedCluster(null)
+    setZoomBounds(clusterBounds)
+  }
+
+  return (
+    <View style={styles.root}>
+      <View style={styles.filterBlock}>
+        <DateRangeRow
+          from={filters.dateFrom}
+          to={filters.dateTo}
+          onFromChange={(dateFrom) => updateFilters({ ...filters, dateFrom })}
+          onToChange={(dateTo) => updateFilters({ ...filters, dateTo })}
+        />
+        <MultiSelectChips label="Cuisine" options={options.cuisineTypes} selected={filters.cuisineTypes} onToggle={(value) => updateFilters({ ...filters, cuisineTypes: toggle(value, filters.cuisineTypes) })} />
+        <MultiSelectChips label="Place Type" options={options.categories} selected={filters.categories} onToggle={(value) => updateFilters({ ...filters, categories: toggle(value, filters.categories) })} />
+        <MultiSelectChips label="Price" options={options.priceLevels} selected={filters.priceLevels} onToggle={(value) => updateFilters({ ...filters, priceLevels: toggle(value, filters.priceLevels) })} />
+        <MultiSelectChips label="City" options={options.cities} selected={filters.cities} onToggle={(value) => updateFilters({ ...filters, cities: toggle(value, filters.cities) })} />
+        <MultiSelectChips
+          label="Color By"
+          options={["rating", "cuisine"]}
+          selected={[colorMode]}
+          onToggle={(value) => setColorMode(value as FoodMapColorMode)}
+        />
+      </View>
+
+      <View
+        style={[styles.map, { backgroundColor: palette.surfaceMuted, borderColor: palette.border }]}
+        onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {Array.from({ length: GRID_LINES - 1 }, (_, index) => (
+          <View key={`h-${index}`} style={[styles.gridLineHorizontal, { top: ((index + 1) * MAP_HEIGHT) / GRID_LINES, backgroundColor: palette.border }]} />
+        ))}
+        {Array.from({ length: GRID_LINES - 1 }, (_, index) => (
+          <View key={`v-${index}`} style={[styles.gridLineVertical, { left: `${((index + 1) * 100) / GRID_LINES}%`, backgroundColor: palette.border }]} />
+        ))}
+
+        {clusters.map((cluster) => {
+          const size = cluster.points.length > 1 ? CLUSTER_SIZE : PIN_SIZE
+          return (
+            <Pressable
+              key={cluster.id}
+              onPress={() => openCluster(cluster)}
+              style={[
+                styles.pin,
+                {
+                  width: size,
+                  height: size,
+                  borderRadius: size / 2,
+                  left: cluster.x - size / 2,
+                  top: cluster.y - size / 2,
+                  backgroundColor: getClusterColor(cluster.points, colorMode, rankedCuisines),
+                  borderColor: palette.surface
+                }
+              ]}
+            >
+              {cluster.points.length > 1 ? <Text style={styles.pinText}>{cluster.points.length}</Text> : null}
+            </Pressable>
+          )
+        })}
+
+        {points.length === 0 ? (
+          <View style={styles.emptyOverlay}>
+            <Text style={{ color: palette.textMuted, fontSize: 13 }}>No visits with coordinates in this view.</Text>
+          </View>
+        ) : null}
+
+        {zoomBounds ? (
+          <Pressable
+            style={[styles.resetButton, { backgroundColor: palette.surface, borderColor: palette.border }]}
+            onPress={() => {
+              setZoomBounds(null)
+              setStackedCluster(null)
+            }}
+          >
+            <Text style={{ color: palette.text, fontSize: 12, fontWeight: "700" }}>Show All</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      <View style={styles.legend}>
+        {getMapLegend(colorMode, rankedCuisines).map((item) => (
+          <View key={item.label} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: item.color }]} />
+            <Text style={{ color: palette.textMuted, fontSize: 11 }}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={{ color: palette.textMuted, fontSize: 12 }}>
+        {points.length} {points.length === 1 ? "visit" : "visits"} on the map
+        {unmappedCount > 0 ? ` • ${unmappedCount} without coordinates (use Autofill From Map URL)` : ""}
+      </Text>
+
+      {stackedCluster ? (
+        <View style={[styles.stack, { backgroundColor: palette.surface, borderColor: palette.border }]}>
+          {stackedCluster.points.map((point) => (
+            <Pressable key={point.entry.id} style={[styles.stackRow, { borderColor: palette.border }]} onPress={() => onOpenEntry(point.entry)}>
+              <Text style={{ color: palette.text, fontWeight: "700" }}>
+                {point.entry.branch ? `${point.entry.name} - ${point.entry.branch}` : point.entry.name}
+              </Text>
+              <Text style={{ color: palette.textMuted, fontSize: 12 }}>
+                {point.entry.visit_date} • Rating {point.entry.overall_rating ?? "-"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  root: { gap: 12 },
+  filterBlock: { gap: 8 },
+  map: { height: MAP_HEIGHT, borderWidth: 1, borderRadius: 12, overflow: "hidden" },
+  gridLineHorizontal: { position: "absolute", left: 0, right: 0, height: StyleSheet.hairlineWidth },
+  gridLineVertical: { position: "absolute", top: 0, bottom: 0, width: StyleSheet.hairlineWidth },
+  pin: { position: "absolute", borderWidth: 2, alignItems: "center", justifyContent: "center" },
+  pinText: { color: "#fff", fontSize: 11, fontWeight: "700" },
+  emptyOverlay: { ...StyleSheet.absoluteFillObject, alignItems: "center", justifyContent: "center" },
+  resetButton: { position: "absolute", top: 8, right: 8, borderWidth: 1, borderRadius: 999, paddingHorizontal: 10, paddingVertical: 6 },
+  legend: { flexDirection: "row", flexWrap: "wrap", gap: 10 },
+  legendItem: { flexDirection: "row", alignItems: "center", gap: 4 },
+  legendDot: { width: 10, height: 10, borderRadius: 5 },
+  stack: { borderWidth: 1, borderRadius: 10, padding: 8, gap: 6 },
+  stackRow: { borderBottomWidth: 1, paddingBottom: 6, gap: 2 }
+})
@@ -0,0 +1,237 @@
+import { useMemo, useState } from "react"
+import { Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native"
+import {
+  explainFoodRecommendation,
+  parseRecommendationOrigin,
+  recommendFoodPlaces
+} from "@/src/features/food/lib/food-recommender"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { FoodEntry } from "@/src/shared/types/database"
+
+interface FoodWhereToEatModalProps {
+  visible: boolean
+  entries: FoodEntry[]
+  onClose: () => void
+  onOpenEntry: (entry: FoodEntry) => void
+  onLogVisit: (entry: FoodEntry) => void
+}
+
+const DISTANCE_OPTIONS: Array<{ label: string; km: number | null }> = [
+  { label: "Any", km: null },
+  { label: "1 km", km: 1 },
+  { label: "3 km", km: 3 },
+  { label: "10 km", km: 10 }
+]
+
+const BUDGET_OPTIONS: Array<{ label: string; level: number | null }> = [
+  { label: "Any", level: null },
+  { label: "$", level: 1 },
+  { label: "$$", level: 2 },
+  { label: "$$$", level: 3 },
+  { label: "$$$$", level: 4 }
+]
+
+// Only the most common cuisines are offered so the row stays one or two lines
+const MAX_CUISINE_OPTIONS = 12
+
+/** Ranks places from our own visits around a spot or city, scored on-device so it works offline. */
+export function FoodWhereToEatModal({ visible, entries, onClose, onOpenEntry, onLogVisit }: FoodWhereToEatModalProps) {
+  const { palette } = useAppTheme()
+  const [origin, setOrigin] = useState("")
+  const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null)
+  const [maxPriceLevel, setMaxPriceLevel] = useState<number | null>(null)
+  const [diningType, setDiningType] = useState<string | null>(null)
+  const [cuisines, setCuisines] = useState<string[]>([])
+
+  const options = useMemo(() => {
+    const cuisineCounts = new Map<string, number>()
+    const diningTypes = new Set<string>()
+    for (const entry of entries) {
+      if (entry.dining_type?.trim()) diningTypes.add(entry.dining_type.trim())
+      for (const cuisine of entry.cuisine_type ?? []) cuisineCounts.set(cuisine, (cuisineCounts.get(cuisine) ?? 0) + 1)
+    }
+    return {
+      cuisines: [...cuisineCounts.entries()]
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .slice(0, MAX_CUISINE_OPTIONS)
+        .map(([cuisine]) => cuisine),
+      diningTypes: [...diningTypes].sort()
+    }
+  }, [entries])
+
+  const parsedOrigin = parseRecommendationOrigin(origin)
+  const recommendations = useMemo(
+    () => recommendFoodPlaces(entries, { ...parsedOrigin, maxDistanceKm, maxPriceLevel, diningType, cuisines }),
+    [entries, parsedOrigin.latitude, parsedOrigin.longitude, parsedOrigin.city, maxDistanceKm, maxPriceLevel, diningType, cuisines]
+  )
+  const hasCoordinates = parsedOrigin.latitude != null
+
+  function toggleCuisine(cuisine: string) {
+    setCuisines((prev) => (prev.includes(cuisine) ? prev.filter((item) => item !== cuisine) : [...prev, cuisine]))
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: palette.overlay, justifyContent: "center", padding: 16 }}>
+        <View
+          style={{
+            borderWidth: 1,
+            borderColor: palette.border,
+            borderRadius: 24,
+            borderCurve: "continuous",
+            backgroundColor: palette.surface,
+            padding: 18,
+            gap: 12,
+            maxHeight: "90%"
+          }}
+        >
+          <Text style={{ color: palette.text, fontSize: 20, fontWeight: "700" }}>Where Should We Eat</Text>
+
+          <ScrollView contentContainerStyle={{ gap: 12 }}>
+            <TextInput
+              value={origin}
+              onChangeText={setOrigin}
+              placeholder="City, or lat, lng, or a maps link"
+              placeholderTextColor={palette.textMuted}
+              autoCapitalize="none"
+              style={{
+                borderWidth: 1,
+                borderColor: palette.border,
+                borderRadius: 10,
+                paddingHorizontal: 12,
+                paddingVertical: 10,
+                color: palette.text,
+                backgroundColor: palette.surfaceMuted
+              }}
+            />
+
+            {hasCoordinates ? (
+              <ChipRow
+                label="Within"
+                options={DISTANCE_OPTIONS.map((option) => option.label)}
+                selected={[DISTANCE_OPTIONS.find((option) => option.km === maxDistanceKm)?.label ?? "Any"]}
+                onToggle={(label) => setMaxDistanceKm(DISTANCE_OPTIONS.find((option) => option.label === label)?.km ?? null)}
+              />
+            ) : null}
+            <ChipRow
+              label="Budget"
+              options={BUDGET_OPTIONS.map((option) => option.label)}
+              selected={[BUDGET_OPTIONS.find((option) => option.level === maxPriceLevel)?.label ?? "Any"]}
+              onToggle={(label) => setMaxPriceLevel(BUDGET_OPTIONS.find((option) => option.label === label)?.level ?? null)}
+            />
+            {options.diningTypes.length > 0 ? (
+              <ChipRow
+                label="Dining"
+                options={options.diningTypes}
+                selected={diningType ? [diningType] : []}
+                onToggle={(value) => setDiningType((prev) => (prev === value ? null : value))}
+              />
+            ) : null}
+            {options.cuisines.length > 0 ? (
+              <ChipRow label="Cuisine" options={options.cuisines} selected={cuisines} onToggle={toggleCuisine} />
+            ) : null}
+
+            {recommendations.length === 0 ? (
+              <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+                No past places fit. Try another city or widen the distance.
+              </Text>
+            ) : (
+              recommendations.map((recommendation) => {
+                const visit = recommendation.latestVisit
+                return (
+                  <View
+                    key={recommendation.key}
+                    style={{ borderWidth: 1, borderColor: palette.border, borderRadius: 12, padding: 12, gap: 6 }}
+                  >
+                    <View style={{ flexDirection: "row", justifyContent: "space-between", gap: 8 }}>
+                      <Text selectable style={{ color: palette.text, fontSize: 16, fontWeight: "700", flex: 1 }}>
+                        {visit.branch ? `${visit.name} - ${visit.branch}` : visit.name}
+                      </Text>
+                      <Text style={{ color: palette.primary, fontWeight: "700" }}>{recommendation.score}</Text>
+                    </View>
+                    <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
+                      {[visit.city, `${recommendation.visitCount} ${recommendation.visitCount === 1 ? "visit" : "visits"}`]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </Text>
+                    <Text selectable style={{ color: palette.text, fontSize: 13 }}>
+                      {explainFoodRecommendation(recommendation) || "No strong reasons either way"}
+                    </Text>
+                    <View style={{ flexDirection: "row", gap: 8 }}>
+                      <DialogButton label="Details" onPress={() => onOpenEntry(visit)} />
+                      <DialogButton label="Log Visit" filled onPress={() => onLogVisit(visit)} />
+                    </View>
+                  </View>
+                )
+              })
+            )}
+          </ScrollView>
+
+          <DialogButton label="Close" onPress={onClose} />
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+function ChipRow({
+  label,
+  options,
+  selected,
+  onToggle
+}: {
+  label: string
+  options: string[]
+  selected: string[]
+  onToggle: (value: string) => void
+}) {
+  const { palette } = useAppTheme()
+
+  return (
+    <View style={{ gap: 6 }}>
+      <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>{label}</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6 }}>
+        {options.map((option) => {
+          const active = selected.includes(option)
+          return (
+            <Pressable
+              key={option}
+              onPress={() => onToggle(option)}
+              style={{
+                borderWidth: 1,
+                borderColor: active ? palette.primary : palette.border,
+                borderRadius: 999,
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                backgroundColor: active ? palette.primary : palette.surfaceMuted
+              }}
+            >
+              <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "600" }}>{option}</Text>
+            </Pressable>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+function DialogButton({ label, onPress, filled = false }: { label: string; onPress: () => void; filled?: boolean }) {
+  const { palette } = useAppTheme()
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={{
+        flex: 1,
+        borderWidth: 1,
+        borderColor: filled ? palette.primary : palette.border,
+        borderRadius: 12,
+        paddingVertical: 10,
+        alignItems: "center",
+        backgroundColor: filled ? palette.primary : "transparent"
+      }}
+    >
+      <Text style={{ color: filled ? palette.primaryText : palette.text, fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  )
+}
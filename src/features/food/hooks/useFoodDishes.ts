@@ -0,0 +1,189 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  buildVisitDishDrafts,
+  findDishByName,
+  latestDishPrice,
+  mergeDishPhotos,
+  normalizeDishName
+} from "@/src/features/food/lib/food-dishes"
+import { supabase } from "@/src/shared/api/supabase"
+import type { FoodDish, FoodEntry, FoodVisitDish } from "@/src/shared/types/database"
+
+async function fetchDishes(): Promise<FoodDish[]> {
+  const { data, error } = await supabase.from("food_dishes").select("*").order("name", { ascending: true })
+  if (error) throw error
+  return (data ?? []) as FoodDish[]
+}
+
+async function fetchVisitDishes(): Promise<FoodVisitDish[]> {
+  const { data, error } = await supabase.from("food_visit_dishes").select("*").order("visit_date", { ascending: false })
+  if (error) throw error
+  return (data ?? []) as FoodVisitDish[]
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: authData } = await supabase.auth.getUser()
+  const userId = authData.user?.id
+  if (!userId) throw new Error("Not authenticated")
+  return userId
+}
+
+/** Recomputes the stored latest price of each dish from its remaining orders. */
+async function refreshLatestPrices(dishIds: string[]): Promise<void> {
+  if (dishIds.length === 0) return
+
+  const { data, error } = await supabase.from("food_visit_dishes").select("*").in("dish_id", dishIds)
+  if (error) throw error
+  const links = (data ?? []) as FoodVisitDish[]
+
+  for (const dishId of dishIds) {
+    const { error: updateError } = await supabase
+      .from("food_dishes")
+      .update({ ...latestDishPrice(links.filter((link) => link.dish_id === dishId)), updated_at: new Date().toISOString() })
+      .eq("id", dishId)
+    if (updateError) throw updateError
+  }
+}
+
+/**
+ * Replaces the visit's dish links with its current items, adding dishes the place's catalogue
+ * does not have yet. Returns the number of dishes linked.
+ */
+async function syncVisit(entry: FoodEntry, userId: string): Promise<number> {
+  const { data: previousData, error: previousError } = await supabase
+    .from("food_visit_dishes")
+    .select("dish_id")
+    .eq("food_entry_id", entry.id)
+  if (previousError) throw previousError
+  const affected = new Set((previousData ?? []).map((link) => link.dish_id as string))
+
+  const { error: deleteError } = await supabase.from("food_visit_dishes").delete().eq("food_entry_id", entry.id)
+  if (deleteError) throw deleteError
+
+  const drafts = entry.place_id ? buildVisitDishDrafts(entry) : []
+  if (!entry.place_id || drafts.length === 0) {
+    await refreshLatestPrices([...affected])
+    return 0
+  }
+
+  const { data: dishData, error: dishError } = await supabase.from("food_dishes").select("*").eq("place_id", entry.place_id)
+  if (dishError) throw dishError
+  const dishes = (dishData ?? []) as FoodDish[]
+
+  const links: Array<Omit<FoodVisitDish, "id" | "created_at">> = []
+  for (const draft of drafts) {
+    let dish = findDishByName(dishes, entry.place_id, draft.normalizedName)
+
+    if (!dish) {
+      const { data, error } = await supabase
+        .from("food_dishes")
+        .insert({
+          user_id: userId,
+          place_id: entry.place_id,
+          name: draft.name,
+          normalized_name: draft.normalizedName,
+          category: draft.category,
+          latest_price: null,
+          latest_price_currency: null,
+          latest_price_date: null,
+          photo_urls: draft.imageUrl ? [draft.imageUrl] : null
+        })
+        .select("*")
+        .single()
+      if (error) throw error
+      dish = data as FoodDish
+      dishes.push(dish)
+    } else {
+      const photos = mergeDishPhotos(dish.photo_urls, draft.imageUrl)
+      const category = dish.category ?? draft.category
+      if (photos !== dish.photo_urls || category !== dish.category) {
+        const { error } = await supabase
+          .from("food_dishes")
+          .update({ photo_urls: photos, category, updated_at: new Date().toISOString() })
+          .eq("id", dish.id)
+        if (error) throw error
+      }
+    }
+
+    affected.add(dish.id)
+    links.push({
+      user_id: userId,
+      food_entry_id: entry.id,
+      dish_id: dish.id,
+      visit_date: entry.visit_date,
+      price: draft.price,
+      currency: draft.currency,
+      rating: draft.rating
+    })
+  }
+
+  const { error: insertError } = await supabase.from("food_visit_dishes").insert(links)
+  if (insertError) throw insertError
+
+  await refreshLatestPrices([...affected])
+  return links.length
+}
+
+export function useFoodDishes() {
+  const queryClient = useQueryClient()
+  const invalidate = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["food-dishes"] }),
+      queryClient.invalidateQueries({ queryKey: ["food-visit-dishes"] })
+    ])
+
+  const query = useQuery({
+    queryKey: ["food-dishes"],
+    queryFn: fetchDishes
+  })
+
+  const visitDishesQuery = useQuery({
+    queryKey: ["food-visit-dishes"],
+    queryFn: fetchVisitDishes
+  })
+
+  const syncVisitsMutation = useMutation({
+    mutationFn: async (entries: FoodEntry[]) => {
+      const userId = await requireUserId()
+      let linked = 0
+      for (const entry of entries) linked += await syncVisit(entry, userId)
+      return linked
+    },
+    onSuccess: invalidate
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ dish, patch }: { dish: FoodDish; patch: Partial<Pick<FoodDish, "name" | "category" | "photo_urls">> }) => {
+      const name = (patch.name ?? dish.name).trim()
+      if (!name) throw new Error("Dish name is required")
+
+      const { data, error } = await supabase
+        .from("food_dishes")
+        .update({ ...patch, name, normalized_name: normalizeDishName(name), updated_at: new Date().toISOString() })
+        .eq("id", dish.id)
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as FoodDish
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("food_dishes").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    visitDishes: visitDishesQuery.data ?? [],
+    syncVisits: syncVisitsMutation.mutateAsync,
+    updateDish: updateMutation.mutateAsync,
+    deleteDish: deleteMutation.mutateAsync,
+    saving: syncVisitsMutation.isPending || updateMutation.isPending || deleteMutation.isPending
+  }
+}
@@ -0,0 +1,185 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  buildPlaceKey,
+  findMatchingPlace,
+  placeFieldsFromEntry,
+  visitFieldsFromPlace,
+  type FoodPlaceFields
+} from "@/src/features/food/lib/food-places"
+import { backendFetch } from "@/src/shared/api/backend"
+import { supabase } from "@/src/shared/api/supabase"
+import type { FoodEntry, FoodPlace } from "@/src/shared/types/database"
+import type { FoodPlaceMergeRequest, FoodPlaceMergeResponse } from "@analytics/contracts"
+
+async function fetchPlaces(): Promise<FoodPlace[]> {
+  const { data, error } = await supabase.from("food_places").select("*").order("name", { ascending: true })
+  if (error) throw error
+  return (data ?? []) as FoodPlace[]
+}
+
+async function requireUserId(): Promise<string> {
+  const { data: authData } = await supabase.auth.getUser()
+  const userId = authData.user?.id
+  if (!userId) throw new Error("Not authenticated")
+  return userId
+}
+
+/** Fields the matched place is missing but the visit knows, e.g. coordinates from a later maps autofill. */
+function missingPlaceFields(place: FoodPlace, fields: FoodPlaceFields): Partial<FoodPlace> {
+  const patch: Partial<FoodPlace> = {}
+  for (const key of ["address", "google_place_id", "google_maps_url", "latitude", "longitude", "neighborhood", "city", "country"] as const) {
+    if (place[key] == null && fields[key] != null) Object.assign(patch, { [key]: fields[key] })
+  }
+  if (patch.address) patch.normalized_key = buildPlaceKey(place.name, place.branch, patch.address)
+  return patch
+}
+
+async function findOrCreatePlace(places: FoodPlace[], fields: FoodPlaceFields, userId: string): Promise<FoodPlace> {
+  const match = findMatchingPlace(places, fields)
+  if (match) {
+    const patch = missingPlaceFields(match, fields)
+    if (Object.keys(patch).length === 0) return match
+
+    const { data, error } = await supabase
+      .from("food_places")
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq("id", match.id)
+      .select("*")
+      .single()
+
+    if (error) throw error
+    return data as FoodPlace
+  }
+
+  const { data, error } = await supabase
+    .from("food_places")
+    .insert({ ...fields, user_id: userId, normalized_key: buildPlaceKey(fields.name, fields.branch, fields.address) })
+    .select("*")
+    .single()
+
+  if (error) throw error
+  return data as FoodPlace
+}
+
+export function useFoodPlaces() {
+  const queryClient = useQueryClient()
+  const invalidate = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["food-places"] }),
+      queryClient.invalidateQueries({ queryKey: ["food-entries"] }),
+      queryClient.invalidateQueries({ queryKey: ["food-dishes"] }),
+      queryClient.invalidateQueries({ queryKey: ["food-visit-dishes"] })
+    ])
+
+  const query = useQuery({
+    queryKey: ["food-places"],
+    queryFn: fetchPlaces
+  })
+
+  const resolveMutation = useMutation({
+    mutationFn: async (fields: FoodPlaceFields) => {
+      const userId = await requireUserId()
+      // Read the table rather than the cache so places saved elsewhere since the last fetch are
+      // matched; two saves racing each other can still both insert, and the duplicates list merges them
+      return findOrCreatePlace(await fetchPlaces(), fields, userId)
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["food-places"] })
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ place, patch }: { place: FoodPlace; patch: Partial<FoodPlaceFields> }) => {
+      const name = (patch.name ?? place.name).trim()
+      if (!name) throw new Error("Place name is required")
+      const next = { ...place, ...patch, name }
+
+      const { data, error } = await supabase
+        .from("food_places")
+        .update({
+          ...patch,
+          name,
+          normalized_key: buildPlaceKey(next.name, next.branch, next.address),
+          updated_at: new Date().toISOString()
+        })
+        .eq("id", place.id)
+        .select("*")
+        .single()
+
+      if (error) throw error
+      const updated = data as FoodPlace
+
+      const { error: visitsError } = await supabase
+        .from("food_entries")
+        .update(visitFieldsFromPlace(updated))
+        .eq("place_id", place.id)
+
+      if (visitsError) throw visitsError
+      return updated
+    },
+    onSuccess: invalidate
+  })
+
+  const mergeMutation = useMutation({
+    // The server merges in one transaction, so a failure part-way cannot strand visits or dishes
+    mutationFn: async ({ target, sources }: { target: FoodPlace; sources: FoodPlace[] }) => {
+      const request: FoodPlaceMergeRequest = { targetId: target.id, sourceIds: sources.map((place) => place.id) }
+      const response = await backendFetch<FoodPlaceMergeResponse>("/api/food/places/merge", {
+        method: "POST",
+        body: JSON.stringify(request)
+      })
+      return response.movedVisits
+    },
+    onSuccess: invalidate
+  })
+
+  const linkVisitsMutation = useMutation({
+    mutationFn: async (entries: FoodEntry[]) => {
+      const userId = await requireUserId()
+      const places = await fetchPlaces()
+      let linked = 0
+
+      for (const entry of entries) {
+        if (entry.place_id) continue
+        const place = await findOrCreatePlace(places, placeFieldsFromEntry(entry), userId)
+        const index = places.findIndex((item) => item.id === place.id)
+        if (index === -1) places.push(place)
+        else places[index] = place
+
+        const { error } = await supabase.from("food_entries").update({ place_id: place.id }).eq("id", entry.id)
+        if (error) throw error
+        linked += 1
+      }
+      return linked
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: unlinkError } = await supabase.from("food_entries").update({ place_id: null }).eq("place_id", id)
+      if (unlinkError) throw unlinkError
+
+      // Dishes belong to exactly one place; their order links go with them
+      const { error: dishesError } = await supabase.from("food_dishes").delete().eq("place_id", id)
+      if (dishesError) throw dishesError
+
+      const { error } = await supabase.from("food_places").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    resolvePlace: resolveMutation.mutateAsync,
+    updatePlace: updateMutation.mutateAsync,
+    mergePlaces: mergeMutation.mutateAsync,
+    linkVisits: linkVisitsMutation.mutateAsync,
+    deletePlace: deleteMutation.mutateAsync,
+    saving:
+      resolveMutation.isPending ||
+      updateMutation.isPending ||
+      mergeMutation.isPending ||
+      linkVisitsMutation.isPending ||
+      deleteMutation.isPending
+  }
+}
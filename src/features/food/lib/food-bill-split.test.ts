@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test"
+import { createCurrencyConverter } from "@/src/features/currency/lib/currency"
+import {
+  computeBillBreakdown,
+  computeFoodBalances,
+  defaultBillSplit,
+  getBillSplitError,
+  type SplittableVisit
+} from "@/src/features/food/lib/food-bill-split"
+import type { FoodBillSplit, FoodItem } from "@/src/shared/types/database"
+
+const converter = createCurrencyConverter([], "USD")
+
+function item(name: string, price: number): FoodItem {
+  return { name, price, image_url: null, category: null }
+}
+
+function visit(overrides: Partial<SplittableVisit> = {}, split: Partial<FoodBillSplit> | null = {}): SplittableVisit {
+  return {
+    total_price: 90,
+    currency: "USD",
+    visit_date: "2026-10-19",
+    items_ordered: null,
+    party_size: null,
+    companions: ["Sam", "Ana"],
+    bill_split: split ? { ...defaultBillSplit(), ...split } : null,
+    ...overrides
+  }
+}
+
+function summarize(target: SplittableVisit) {
+  return computeBillBreakdown(target)?.shares.map((share) => [share.person, share.total, share.paid])
+}
+
+describe("computeBillBreakdown", () => {
+  test("an equal split puts the whole bill on the payer", () => {
+    expect(summarize(visit())).toEqual([
+      ["me", 30, 90],
+      ["Sam", 30, 0],
+      ["Ana", 30, 0]
+    ])
+  })
+
+  test("several people can pay, with the payer covering the rest", () => {
+    expect(summarize(visit({}, { payer: "Ana", paid_amounts: { me: 25, Sam: 50 } }))).toEqual([
+      ["me", 30, 25],
+      ["Sam", 30, 50],
+      ["Ana", 30, 15]
+    ])
+  })
+
+  test("the payer matches a companion regardless of case", () => {
+    expect(summarize(visit({}, { payer: "SAM" }))?.map(([person, , paid]) => [person, paid])).toEqual([
+      ["me", 0],
+      ["Sam", 90],
+      ["Ana", 0]
+    ])
+  })
+
+  test("custom amounts leave the rest to the people without one and spread tax by food", () => {
+    const breakdown = computeBillBreakdown(visit({ total_price: 110 }, { mode: "custom", tax: 10, custom_amounts: { me: 20 } }))
+    expect(breakdown?.shares.map((share) => [share.person, share.food, share.tax, share.total])).toEqual([
+      ["me", 20, 2, 22],
+      ["Sam", 40, 4, 44],
+      ["Ana", 40, 4, 44]
+    ])
+  })
+
+  test("custom amounts beyond the bill are scaled down instead of leaving negative shares", () => {
+    const breakdown = computeBillBreakdown(visit({ total_price: 100 }, { mode: "custom", custom_amounts: { me: 80, Sam: 60 } }))
+    expect(breakdown?.shares.map((share) => share.food)).toEqual([
+      expect.closeTo(400 / 7, 6),
+      expect.closeTo(300 / 7, 6),
+      0
+    ])
+  })
+
+  test("assigned items beyond the bill are scaled down the same way", () => {
+    const breakdown = computeBillBreakdown(
+      visit(
+        { total_price: 100, companions: ["Sam"], items_ordered: [item("Steak", 80), item("Wine", 40)] },
+        { mode: "itemized", item_shares: { "0": ["me"], "1": ["Sam"] } }
+      )
+    )
+    expect(breakdown?.shares.map((share) => share.food)).toEqual([expect.closeTo(200 / 3, 6), expect.closeTo(100 / 3, 6)])
+  })
+
+  test("payments beyond the bill are scaled down to it", () => {
+    expect(summarize(visit({}, { paid_amounts: { Sam: 120, Ana: 60 } }))?.map(([, , paid]) => paid)).toEqual([0, 60, 30])
+  })
+
+  test("unnamed seats share the bill but are not counted as paying", () => {
+    const breakdown = computeBillBreakdown(visit({ total_price: 80, party_size: 4, companions: ["Sam"] }))
+    expect(breakdown?.shares.map((share) => [share.person, share.total, share.paid])).toEqual([
+      ["me", 20, 80],
+      ["Sam", 20, 0]
+    ])
+    expect(breakdown?.unnamedShare).toBe(40)
+  })
+})
+
+describe("getBillSplitError", () => {
+  test("accepts splits that fit the bill", () => {
+    expect(getBillSplitError(visit())).toBeNull()
+    expect(getBillSplitError(visit({}, { mode: "custom", custom_amounts: { me: 45, Sam: 45 } }))).toBeNull()
+    expect(getBillSplitError(visit({}, { paid_amounts: { Sam: 90 } }))).toBeNull()
+    expect(getBillSplitError(visit({}, null))).toBeNull()
+  })
+
+  test("rejects custom amounts over the bill before tax and tip", () => {
+    expect(getBillSplitError(visit({ total_price: 100 }, { mode: "custom", tax: 20, custom_amounts: { me: 50, Sam: 40 } }))).toBe(
+      "Custom amounts add up to more than the bill before tax and tip"
+    )
+  })
+
+  test("ignores amounts of people no longer at the table", () => {
+    expect(getBillSplitError(visit({}, { mode: "custom", custom_amounts: { me: 40, Dara: 500 } }))).toBeNull()
+  })
+
+  test("rejects assigned items over the bill", () => {
+    expect(
+      getBillSplitError(
+        visit({ total_price: 50, items_ordered: [item("Steak", 80)] }, { mode: "itemized", item_shares: { "0": ["Sam"] } })
+      )
+    ).toBe("Assigned items add up to more than the bill before tax and tip")
+  })
+
+  test("rejects payments over the bill", () => {
+    expect(getBillSplitError(visit({}, { paid_amounts: { Sam: 60, Ana: 40 } }))).toBe("Payments add up to more than the bill")
+  })
+})
+
+describe("computeFoodBalances", () => {
+  test("nets visits and settles debts largest first", () => {
+    const balances = computeFoodBalances([visit({}, { payer: "Ana", paid_amounts: { Sam: 50 } })], converter)
+    expect(balances.balances).toEqual({ me: -30, Sam: 20, Ana: 10 })
+    expect(balances.settlements).toEqual([
+      { from: "me", to: "Sam", amount: 20 },
+      { from: "me", to: "Ana", amount: 10 }
+    ])
+  })
+
+  test("treats names that differ only in case as one person", () => {
+    const balances = computeFoodBalances(
+      [
+        visit({ total_price: 60, companions: ["Sam"] }),
+        visit({ total_price: 40, companions: ["sam"] }, { payer: "sam" })
+      ],
+      converter
+    )
+    expect(balances.balances).toEqual({ me: 10, Sam: -10 })
+    expect(balances.settlements).toEqual([{ from: "Sam", to: "me", amount: 10 }])
+  })
+
+  test("payers are owed only the named people's part when seats are unnamed", () => {
+    const balances = computeFoodBalances([visit({ total_price: 80, party_size: 4, companions: ["Sam"] })], converter)
+    expect(balances.balances).toEqual({ me: 20, Sam: -20 })
+  })
+
+  test("skips unsplit visits and counts ones it cannot convert", () => {
+    const balances = computeFoodBalances([visit({}, null), visit({ currency: "EUR" })], converter)
+    expect(balances.balances).toEqual({})
+    expect(balances.unconvertedCount).toBe(1)
+  })
+})
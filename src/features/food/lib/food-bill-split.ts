@@ -0,0 +1,296 @@
+import type { CurrencyConverter } from "@/src/features/currency/lib/currency"
+import type { FoodBillSplit, FoodEntry } from "@/src/shared/types/database"
+
+/** The user in `payer`, `paid_amounts`, `item_shares` and `custom_amounts`; everyone else is a companion's name. */
+export const FOOD_SPLIT_ME = "me"
+
+export type SplittableVisit = Pick<
+  FoodEntry,
+  "total_price" | "currency" | "visit_date" | "items_ordered" | "party_size" | "companions" | "bill_split"
+>
+
+export interface FoodBillShare {
+  person: string
+  /** Food before tax and tip. */
+  food: number
+  tax: number
+  tip: number
+  total: number
+  /** What they put toward the whole bill. */
+  paid: number
+}
+
+export interface FoodBillBreakdown {
+  total: number
+  subtotal: number
+  tax: number
+  tip: number
+  seats: number
+  /** Named people, me first. */
+  shares: FoodBillShare[]
+  /** Combined share of seats without a name; nobody is tracked as owing it. */
+  unnamedShare: number
+  myShare: number
+}
+
+export interface FoodDebt {
+  from: string
+  to: string
+  amount: number
+}
+
+export interface FoodBalances {
+  /** Home currency; positive means the person is owed money. */
+  balances: Record<string, number>
+  /** Payments that settle every balance, largest debts first. */
+  settlements: FoodDebt[]
+  /** Split visits left out because their currency could not be converted. */
+  unconvertedCount: number
+}
+
+// Balances within a cent are treated as settled
+const SETTLED_EPSILON = 0.005
+
+export function formatSplitPerson(person: string): string {
+  return person === FOOD_SPLIT_ME ? "Me" : person
+}
+
+export function describeDebt(debt: FoodDebt): string {
+  if (debt.from === FOOD_SPLIT_ME) return `You owe ${debt.to}`
+  if (debt.to === FOOD_SPLIT_ME) return `${debt.from} owes you`
+  return `${debt.from} owes ${debt.to}`
+}
+
+export function defaultBillSplit(): FoodBillSplit {
+  return {
+    mode: "equal",
+    payer: FOOD_SPLIT_ME,
+    paid_amounts: null,
+    tax: null,
+    tip: null,
+    extras_split: "proportional",
+    item_shares: null,
+    custom_amounts: null
+  }
+}
+
+/** Me and the named companions, without blanks or repeats. */
+export function getSplitPeople(visit: Pick<FoodEntry, "companions">): string[] {
+  const people = [FOOD_SPLIT_ME]
+  for (const companion of visit.companions ?? []) {
+    const name = companion.trim()
+    if (name && !people.some((person) => person.toLowerCase() === name.toLowerCase())) people.push(name)
+  }
+  return people
+}
+
+/** Item shares are keyed by item position, so later items move up when one is removed. */
+export function removeSplitItem(split: FoodBillSplit, index: number): FoodBillSplit {
+  if (!split.item_shares) return split
+  const itemShares: Record<string, string[]> = {}
+  for (const [key, people] of Object.entries(split.item_shares)) {
+    const position = Number(key)
+    if (position === index) continue
+    itemShares[String(position > index ? position - 1 : position)] = people
+  }
+  return { ...split, item_shares: Object.keys(itemShares).length > 0 ? itemShares : null }
+}
+
+function sumItems(visit: SplittableVisit): number {
+  return (visit.items_ordered ?? []).reduce((sum, item) => sum + (item.price ?? 0), 0)
+}
+
+function spreadEvenly(amounts: number[], seatIndexes: number[], amount: number) {
+  if (seatIndexes.length === 0) return
+  const each = amount / seatIndexes.length
+  for (const index of seatIndexes) amounts[index] += each
+}
+
+/** Amounts of the people at the table; names dropped from the companions no longer count. */
+function sumAmounts(amounts: Record<string, number> | null, people: string[]): number {
+  return people.reduce((sum, person) => {
+    const amount = amounts?.[person]
+    return sum + (amount != null && Number.isFinite(amount) ? Math.max(0, amount) : 0)
+  }, 0)
+}
+
+function billTotals(visit: SplittableVisit, split: FoodBillSplit) {
+  const tax = Math.max(0, split.tax ?? 0)
+  const tip = Math.max(0, split.tip ?? 0)
+  const total = visit.total_price ?? sumItems(visit) + tax + tip
+  return { tax, tip, total, subtotal: Math.max(0, total - tax - tip) }
+}
+
+/**
+ * Why the split does not fit the bill, or null when it does. Amounts that exceed it would
+ * leave someone with a negative share, so `computeBillBreakdown` scales them down instead.
+ */
+export function getBillSplitError(visit: SplittableVisit): string | null {
+  const split = visit.bill_split
+  if (!split) return null
+  const { total, subtotal } = billTotals(visit, split)
+  if (!(total > 0)) return null
+
+  const people = getSplitPeople(visit)
+  // A cent of slack so amounts typed to two decimals are not rejected for rounding
+  if (split.mode === "custom" && sumAmounts(split.custom_amounts, people) > subtotal + 0.01) {
+    return "Custom amounts add up to more than the bill before tax and tip"
+  }
+  if (split.mode === "itemized") {
+    const assigned = (visit.items_ordered ?? []).reduce((sum, item, index) => {
+      const shared = (split.item_shares?.[String(index)] ?? []).some((person) => people.includes(person))
+      return sum + (shared ? Math.max(0, item.price ?? 0) : 0)
+    }, 0)
+    if (assigned > subtotal + 0.01) return "Assigned items add up to more than the bill before tax and tip"
+  }
+  if (sumAmounts(split.paid_amounts, people) > total + 0.01) return "Payments add up to more than the bill"
+  return null
+}
+
+/**
+ * Each person's part of the bill. `total_price` is the whole bill including tax and tip;
+ * without it the items plus tax and tip are used. Visits without a split are shared evenly
+ * over the party, so a solo visit is all mine.
+ */
+export function computeBillBreakdown(visit: SplittableVisit): FoodBillBreakdown | null {
+  const split = visit.bill_split ?? defaultBillSplit()
+  const { tax, tip, total, subtotal } = billTotals(visit, split)
+  if (!(total > 0)) return null
+
+  const people = getSplitPeople(visit)
+  const seats = Math.max(visit.party_size ?? people.length, people.length)
+  const allSeats = Array.from({ length: seats }, (_, index) => index)
+  const food = new Array<number>(seats).fill(0)
+
+  if (split.mode === "itemized") {
+    // Unassigned items and any gap between the items and the bill are shared by everyone;
+    // assigned items beyond the bill are scaled down to fit it (see getBillSplitError)
+    const assigned: Array<{ sharers: number[]; price: number }> = []
+    ;(visit.items_ordered ?? []).forEach((item, index) => {
+      if (item.price == null) return
+      const sharers = (split.item_shares?.[String(index)] ?? [])
+        .map((person) => people.indexOf(person))
+        .filter((seat) => seat !== -1)
+      if (sharers.length > 0) assigned.push({ sharers, price: Math.max(0, item.price) })
+    })
+    const assignedTotal = assigned.reduce((sum, item) => sum + item.price, 0)
+    const scale = assignedTotal > subtotal ? subtotal / assignedTotal : 1
+    for (const item of assigned) spreadEvenly(food, item.sharers, item.price * scale)
+    spreadEvenly(food, allSeats, subtotal - assignedTotal * scale)
+  } else if (split.mode === "custom") {
+    // The rest of the bill falls on seats without an amount, or everyone when all have one;
+    // amounts beyond the bill are scaled down to fit it (see getBillSplitError)
+    const amounts = new Array<number | null>(seats).fill(null)
+    for (const [seat, person] of people.entries()) {
+      const amount = split.custom_amounts?.[person]
+      if (amount != null && Number.isFinite(amount)) amounts[seat] = Math.max(0, amount)
+    }
+    const customTotal = amounts.reduce<number>((sum, amount) => sum + (amount ?? 0), 0)
+    const scale = customTotal > subtotal ? subtotal / customTotal : 1
+    const open = allSeats.filter((seat) => amounts[seat] == null)
+    for (const seat of allSeats) food[seat] = (amounts[seat] ?? 0) * scale
+    spreadEvenly(food, open.length > 0 ? open : allSeats, subtotal - customTotal * scale)
+  } else {
+    spreadEvenly(food, allSeats, subtotal)
+  }
+
+  const foodTotal = food.reduce((sum, amount) => sum + amount, 0)
+  const extraShare = (seat: number, amount: number) =>
+    split.extras_split === "equal" || foodTotal <= 0 ? amount / seats : (amount * food[seat]) / foodTotal
+
+  const seatTotals = allSeats.map((seat) => food[seat] + extraShare(seat, tax) + extraShare(seat, tip))
+  const unnamedShare = seatTotals.slice(people.length).reduce((sum, amount) => sum + amount, 0)
+
+  // The payer covers what the others' payments leave open; payments beyond the bill are scaled down
+  const paid = people.map((person) => {
+    const amount = split.paid_amounts?.[person]
+    return amount != null && Number.isFinite(amount) ? Math.max(0, amount) : 0
+  })
+  const paidTotal = paid.reduce((sum, amount) => sum + amount, 0)
+  const paidScale = paidTotal > total ? total / paidTotal : 1
+  const payerSeat = people.findIndex((person) => person.toLowerCase() === split.payer.toLowerCase())
+  const payments = paid.map((amount, seat) => amount * paidScale + (seat === payerSeat ? total - paidTotal * paidScale : 0))
+
+  const shares = people.map((person, seat) => ({
+    person,
+    food: food[seat],
+    tax: extraShare(seat, tax),
+    tip: extraShare(seat, tip),
+    total: seatTotals[seat],
+    paid: payments[seat]
+  }))
+
+  return {
+    total,
+    subtotal,
+    tax,
+    tip,
+    seats,
+    shares,
+    unnamedShare,
+    myShare: seatTotals[0]
+  }
+}
+
+/** My part of the visit in its own currency, or null when it has no price. */
+export function getMyVisitCost(visit: SplittableVisit): number | null {
+  return computeBillBreakdown(visit)?.myShare ?? null
+}
+
+/**
+ * Running balance across split visits in the home currency, and the payments that settle it.
+ * Only visits with a recorded split count; an unsplit shared meal is assumed to be settled.
+ */
+export function computeFoodBalances(visits: SplittableVisit[], converter: CurrencyConverter): FoodBalances {
+  // Keyed by lowercased name like getSplitPeople, shown as first written
+  const totals = new Map<string, { person: string; amount: number }>()
+  let unconvertedCount = 0
+
+  for (const visit of visits) {
+    if (!visit.bill_split) continue
+    const breakdown = computeBillBreakdown(visit)
+    if (!breakdown || breakdown.shares.length < 2) continue
+
+    const rate = converter.convert(1, visit.currency, visit.visit_date)
+    if (rate == null) {
+      unconvertedCount += 1
+      continue
+    }
+    // Unnamed seats are not tracked, so payers are only owed by the named people, each in
+    // proportion to what they paid
+    const namedPart = (breakdown.total - breakdown.unnamedShare) / breakdown.total
+    for (const share of breakdown.shares) {
+      const key = share.person.toLowerCase()
+      const current = totals.get(key) ?? { person: share.person, amount: 0 }
+      current.amount += (share.paid * namedPart - share.total) * rate
+      totals.set(key, current)
+    }
+  }
+
+  const balances: Record<string, number> = {}
+  for (const { person, amount } of totals.values()) balances[person] = amount
+
+  const creditors = Object.entries(balances)
+    .filter(([, amount]) => amount > SETTLED_EPSILON)
+    .map(([person, amount]) => ({ person, amount }))
+    .sort((left, right) => right.amount - left.amount)
+  const debtors = Object.entries(balances)
+    .filter(([, amount]) => amount < -SETTLED_EPSILON)
+    .map(([person, amount]) => ({ person, amount: -amount }))
+    .sort((left, right) => right.amount - left.amount)
+
+  const settlements: FoodDebt[] = []
+  let creditorIndex = 0
+  for (const debtor of debtors) {
+    while (debtor.amount > SETTLED_EPSILON && creditorIndex < creditors.length) {
+      const creditor = creditors[creditorIndex]
+      const amount = Math.min(debtor.amount, creditor.amount)
+      settlements.push({ from: debtor.person, to: creditor.person, amount })
+      debtor.amount -= amount
+      creditor.amount -= amount
+      if (creditor.amount <= SETTLED_EPSILON) creditorIndex += 1
+    }
+  }
+
+  return { balances, settlements, unconvertedCount }
+}
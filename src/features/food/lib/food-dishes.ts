@@ -0,0 +1,150 @@
+import { normalizePlaceText } from "@/src/features/food/lib/food-places"
+import type { FoodDish, FoodEntry, FoodItem, FoodVisitDish } from "@/src/shared/types/database"
+
+/** A dish as ordered on one visit, before it is matched to the place's catalogue. */
+export interface FoodVisitDishDraft {
+  name: string
+  normalizedName: string
+  category: string | null
+  price: number | null
+  currency: string | null
+  rating: number | null
+  imageUrl: string | null
+}
+
+export interface FoodDishOrder {
+  link: FoodVisitDish
+  /** Missing when the visit is not loaded. */
+  entry: FoodEntry | null
+}
+
+export interface FoodDishPriceChange {
+  date: string
+  previousDate: string
+  currency: string | null
+  previousPrice: number
+  price: number
+  change: number
+  /** Null when the previous price was 0. */
+  changePercent: number | null
+}
+
+export interface FoodDishSummary {
+  orderCount: number
+  averageRating: number | null
+  firstOrdered: string | null
+  lastOrdered: string | null
+  latestPrice: number | null
+  latestCurrency: string | null
+  /** Oldest first; only consecutive orders in the same currency are compared. */
+  priceChanges: FoodDishPriceChange[]
+}
+
+export function normalizeDishName(name: string | null | undefined): string {
+  return normalizePlaceText(name)
+}
+
+/**
+ * The visit's items as dish drafts, one per dish name. Repeats of a dish keep the first row,
+ * which is the one the item editor shows first.
+ */
+export function buildVisitDishDrafts(
+  entry: Pick<FoodEntry, "items_ordered" | "currency">
+): FoodVisitDishDraft[] {
+  const drafts = new Map<string, FoodVisitDishDraft>()
+  for (const item of entry.items_ordered ?? []) {
+    const normalizedName = normalizeDishName(item.name)
+    if (!normalizedName || drafts.has(normalizedName)) continue
+    drafts.set(normalizedName, {
+      name: item.name.trim(),
+      normalizedName,
+      category: itemCategory(item),
+      price: item.price,
+      currency: entry.currency?.trim().toUpperCase() || null,
+      rating: item.rating ?? null,
+      imageUrl: item.image_url
+    })
+  }
+  return [...drafts.values()]
+}
+
+function itemCategory(item: FoodItem): string | null {
+  return item.categories?.[0]?.trim() || item.category?.trim() || null
+}
+
+export function findDishByName(dishes: FoodDish[], placeId: string, normalizedName: string): FoodDish | null {
+  return dishes.find((dish) => dish.place_id === placeId && dish.normalized_name === normalizedName) ?? null
+}
+
+/** Photo list with the visit's photo appended once. */
+export function mergeDishPhotos(photos: string[] | null, imageUrl: string | null): string[] | null {
+  if (!imageUrl || photos?.includes(imageUrl)) return photos
+  return [...(photos ?? []), imageUrl]
+}
+
+/** Price and currency of the newest order that recorded a price, or nulls. */
+export function latestDishPrice(
+  links: Array<Pick<FoodVisitDish, "visit_date" | "price" | "currency">>
+): Pick<FoodDish, "latest_price" | "latest_price_currency" | "latest_price_date"> {
+  const latest = links
+    .filter((link) => link.price != null)
+    .sort((left, right) => right.visit_date.localeCompare(left.visit_date))[0]
+  return {
+    latest_price: latest?.price ?? null,
+    latest_price_currency: latest?.currency ?? null,
+    latest_price_date: latest?.visit_date ?? null
+  }
+}
+
+/** Every order of a dish with its visit, newest first. */
+export function getDishOrders(links: FoodVisitDish[], entries: FoodEntry[], dishId: string): FoodDishOrder[] {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  return links
+    .filter((link) => link.dish_id === dishId)
+    .sort((left, right) => right.visit_date.localeCompare(left.visit_date) || right.created_at.localeCompare(left.created_at))
+    .map((link) => ({ link, entry: entriesById.get(link.food_entry_id) ?? null }))
+}
+
+export function summarizeDishOrders(orders: FoodDishOrder[]): FoodDishSummary {
+  const chronological = [...orders].reverse()
+  const ratings = orders.map((order) => order.link.rating).filter((rating): rating is number => rating != null)
+  const latest = latestDishPrice(orders.map((order) => order.link))
+
+  const priceChanges: FoodDishPriceChange[] = []
+  let previous: FoodVisitDish | null = null
+  for (const { link } of chronological) {
+    if (link.price == null) continue
+    if (previous && previous.price != null && previous.currency === link.currency && previous.price !== link.price) {
+      priceChanges.push({
+        date: link.visit_date,
+        previousDate: previous.visit_date,
+        currency: link.currency,
+        previousPrice: previous.price,
+        price: link.price,
+        change: link.price - previous.price,
+        changePercent: previous.price === 0 ? null : ((link.price - previous.price) / previous.price) * 100
+      })
+    }
+    previous = link
+  }
+
+  return {
+    orderCount: orders.length,
+    averageRating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+    firstOrdered: chronological[0]?.link.visit_date ?? null,
+    lastOrdered: orders[0]?.link.visit_date ?? null,
+    latestPrice: latest.latest_price,
+    latestCurrency: latest.latest_price_currency,
+    priceChanges
+  }
+}
+
+/** Dishes of a place, most ordered first. */
+export function getPlaceDishes(dishes: FoodDish[], links: FoodVisitDish[], placeId: string): Array<{ dish: FoodDish; orderCount: number }> {
+  const counts = new Map<string, number>()
+  for (const link of links) counts.set(link.dish_id, (counts.get(link.dish_id) ?? 0) + 1)
+  return dishes
+    .filter((dish) => dish.place_id === placeId)
+    .map((dish) => ({ dish, orderCount: counts.get(dish.id) ?? 0 }))
+    .sort((left, right) => right.orderCount - left.orderCount || left.dish.name.localeCompare(right.dish.name))
+}
@@ -0,0 +1,200 @@
+import { describe, expect, test } from "bun:test"
+import {
+  clusterMapPoints,
+  computeMapBounds,
+  getClusterColor,
+  getMapLegend,
+  getMappableVisits,
+  rankCuisines,
+  type FoodMapPoint
+} from "@/src/features/food/lib/food-map"
+import type { FoodEntry } from "@/src/shared/types/database"
+
+const WIDTH = 400
+const HEIGHT = 400
+const UNRATED = "#64748b"
+
+function foodEntry(overrides: Partial<FoodEntry> & Pick<FoodEntry, "id">): FoodEntry {
+  return {
+    user_id: "user",
+    place_id: null,
+    name: overrides.id,
+    branch: null,
+    visit_date: "2026-10-19",
+    category: null,
+    address: null,
+    google_maps_url: null,
+    latitude: null,
+    longitude: null,
+    neighborhood: null,
+    city: null,
+    country: null,
+    instagram_handle: null,
+    website_url: null,
+    items_ordered: null,
+    favorite_item: null,
+    overall_rating: null,
+    food_rating: null,
+    ambiance_rating: null,
+    service_rating: null,
+    value_rating: null,
+    total_price: null,
+    currency: null,
+    price_level: null,
+    cuisine_type: null,
+    dining_type: null,
+    tags: null,
+    would_return: null,
+    party_size: null,
+    companions: null,
+    bill_split: null,
+    notes: null,
+    custom_fields: null,
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides
+  }
+}
+
+function point(id: string, latitude: number, longitude: number, overrides: Partial<FoodEntry> = {}): FoodMapPoint {
+  return { entry: foodEntry({ id, latitude, longitude, ...overrides }), latitude, longitude }
+}
+
+describe("getMappableVisits", () => {
+  test("skips visits without coordinates and treats (0, 0) as missing", () => {
+    const points = getMappableVisits([
+      foodEntry({ id: "soho", latitude: 51.513, longitude: -0.131 }),
+      foodEntry({ id: "no-location" }),
+      foodEntry({ id: "null-island", latitude: 0, longitude: 0 }),
+      foodEntry({ id: "out-of-range", latitude: 95, longitude: 10 })
+    ])
+
+    expect(points.map((item) => item.entry.id)).toEqual(["soho"])
+  })
+})
+
+describe("computeMapBounds", () => {
+  test("returns null without points", () => {
+    expect(computeMapBounds([])).toBeNull()
+  })
+
+  test("gives a single pin a padded minimum area centred on it", () => {
+    const bounds = computeMapBounds([{ latitude: 51.5, longitude: -0.1 }])
+
+    expect(bounds).not.toBeNull()
+    expect(bounds!.minLatitude).toBeCloseTo(51.494, 6)
+    expect(bounds!.maxLatitude).toBeCloseTo(51.506, 6)
+    expect(bounds!.minLongitude).toBeCloseTo(-0.106, 6)
+    expect(bounds!.maxLongitude).toBeCloseTo(-0.094, 6)
+  })
+
+  test("pads the span of several pins and clamps to the Mercator limits", () => {
+    const bounds = computeMapBounds([
+      { latitude: 84, longitude: 10 },
+      { latitude: 44, longitude: 30 }
+    ])
+
+    expect(bounds).toEqual({ minLatitude: 40, maxLatitude: 85, minLongitude: 8, maxLongitude: 32 })
+  })
+})
+
+describe("clusterMapPoints", () => {
+  // Two places a few hundred metres apart in London and one in Paris
+  const soho = point("soho", 51.513, -0.131)
+  const covent = point("covent", 51.512, -0.124)
+  const paris = point("paris", 48.857, 2.352)
+
+  test("merges nearby pins when zoomed out", () => {
+    const bounds = computeMapBounds([soho, covent, paris])!
+    const clusters = clusterMapPoints([soho, covent, paris], bounds, WIDTH, HEIGHT)
+
+    expect(clusters.map((cluster) => cluster.id).sort()).toEqual(["covent:soho", "paris"])
+    const london = clusters.find((cluster) => cluster.id === "covent:soho")!
+    expect(london.latitude).toBeCloseTo(51.5125, 6)
+    expect(london.longitude).toBeCloseTo(-0.1275, 6)
+  })
+
+  test("separates the same pins when zoomed in and drops pins outside the view", () => {
+    const bounds = computeMapBounds([soho, covent])!
+    const clusters = clusterMapPoints([soho, covent, paris], bounds, WIDTH, HEIGHT)
+
+    expect(clusters.map((cluster) => cluster.id).sort()).toEqual(["covent", "soho"])
+    for (const cluster of clusters) {
+      expect(cluster.x).toBeGreaterThanOrEqual(0)
+      expect(cluster.x).toBeLessThanOrEqual(WIDTH)
+      expect(cluster.y).toBeGreaterThanOrEqual(0)
+      expect(cluster.y).toBeLessThanOrEqual(HEIGHT)
+    }
+  })
+
+  test("a larger radius merges pins that stay apart at the default", () => {
+    const bounds = computeMapBounds([soho, covent])!
+
+    expect(clusterMapPoints([soho, covent], bounds, WIDTH, HEIGHT)).toHaveLength(2)
+    expect(clusterMapPoints([soho, covent], bounds, WIDTH, HEIGHT, WIDTH)).toHaveLength(1)
+  })
+
+  test("keeps repeat visits at the same coordinates in one cluster at any zoom", () => {
+    const first = point("first", 51.513, -0.131)
+    const second = point("second", 51.513, -0.131)
+    const clusters = clusterMapPoints([second, first], computeMapBounds([first, second])!, WIDTH, HEIGHT)
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].id).toBe("first:second")
+    expect(clusters[0].x).toBeCloseTo(WIDTH / 2, 6)
+    expect(clusters[0].y).toBeCloseTo(HEIGHT / 2, 1)
+  })
+})
+
+describe("getClusterColor", () => {
+  test("buckets the average rating, with the bucket minimum inclusive", () => {
+    const rated = (rating: number | null) => [point(`rated-${rating}`, 51.5, -0.1, { overall_rating: rating })]
+
+    expect(getClusterColor(rated(9), "rating", [])).toBe("#16a34a")
+    expect(getClusterColor(rated(8), "rating", [])).toBe("#16a34a")
+    expect(getClusterColor(rated(6), "rating", [])).toBe("#65a30d")
+    expect(getClusterColor(rated(5.9), "rating", [])).toBe("#d97706")
+    expect(getClusterColor(rated(3), "rating", [])).toBe("#dc2626")
+    expect(getClusterColor(rated(null), "rating", [])).toBe(UNRATED)
+  })
+
+  test("averages only the rated visits of a cluster", () => {
+    const cluster = [
+      point("great", 51.5, -0.1, { overall_rating: 9 }),
+      point("poor", 51.5, -0.1, { overall_rating: 5 }),
+      point("unrated", 51.5, -0.1)
+    ]
+
+    expect(getClusterColor(cluster, "rating", [])).toBe("#65a30d")
+  })
+
+  test("colours by the dominant first-listed cuisine in ranked order", () => {
+    const points = [
+      point("a", 51.5, -0.1, { cuisine_type: ["Thai", "Vegan"] }),
+      point("b", 51.5, -0.1, { cuisine_type: ["Thai"] }),
+      point("c", 51.5, -0.1, { cuisine_type: ["Italian"] }),
+      point("d", 51.5, -0.1, { cuisine_type: ["Vegan"] })
+    ]
+    const ranked = rankCuisines(points)
+
+    expect(ranked).toEqual(["Thai", "Italian", "Vegan"])
+    expect(getClusterColor(points, "cuisine", ranked)).toBe("#2563eb")
+    expect(getClusterColor([points[2]], "cuisine", ranked)).toBe("#db2777")
+    expect(getClusterColor([point("none", 51.5, -0.1)], "cuisine", ranked)).toBe(UNRATED)
+  })
+
+  test("cuisines beyond the palette share the other colour", () => {
+    const cuisines = ["A", "B", "C", "D", "E", "F", "G", "H", "I"]
+    const points = cuisines.map((cuisine) => point(cuisine, 51.5, -0.1, { cuisine_type: [cuisine] }))
+    const ranked = rankCuisines(points)
+
+    expect(ranked).toHaveLength(8)
+    expect(ranked).not.toContain("I")
+    expect(getClusterColor([points[8]], "cuisine", ranked)).toBe(UNRATED)
+    expect(getMapLegend("cuisine", ranked).at(-1)).toEqual({ label: "other", color: UNRATED })
+  })
+
+  test("the rating legend lists every bucket and unrated", () => {
+    expect(getMapLegend("rating", []).map((item) => item.label)).toEqual(["8+", "6-8", "4-6", "under 4", "unrated"])
+  })
+})
@@ -0,0 +1,217 @@
+import type { FoodEntry } from "@/src/shared/types/database"
+
+export type FoodMapColorMode = "rating" | "cuisine"
+
+export interface FoodMapBounds {
+  minLatitude: number
+  maxLatitude: number
+  minLongitude: number
+  maxLongitude: number
+}
+
+export interface FoodMapPoint {
+  entry: FoodEntry
+  latitude: number
+  longitude: number
+}
+
+export interface FoodMapCluster {
+  /** Stable across renders for the same members. */
+  id: string
+  /** Pixel position of the cluster centre inside the map view. */
+  x: number
+  y: number
+  latitude: number
+  longitude: number
+  points: FoodMapPoint[]
+}
+
+export interface FoodMapLegendItem {
+  label: string
+  color: string
+}
+
+// Pins within this many pixels of a cluster's first pin are drawn as one
+export const DEFAULT_CLUSTER_RADIUS_PX = 28
+// A single place (or visits at identical coordinates) still gets a visible area around it
+const MIN_SPAN_DEGREES = 0.01
+const BOUNDS_PADDING_RATIO = 0.1
+
+const RATING_COLORS: Array<{ min: number; color: string; label: string }> = [
+  { min: 8, color: "#16a34a", label: "8+" },
+  { min: 6, color: "#65a30d", label: "6-8" },
+  { min: 4, color: "#d97706", label: "4-6" },
+  { min: 0, color: "#dc2626", label: "under 4" }
+]
+const UNRATED_COLOR = "#64748b"
+const CUISINE_COLORS = ["#2563eb", "#db2777", "#0d9488", "#9333ea", "#ea580c", "#0891b2", "#ca8a04", "#4f46e5"]
+
+function isValidCoordinate(latitude: number | null, longitude: number | null): boolean {
+  return (
+    latitude != null &&
+    longitude != null &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    !(latitude === 0 && longitude === 0)
+  )
+}
+
+/** Visits with usable coordinates; (0, 0) is treated as a missing location. */
+export function getMappableVisits(entries: FoodEntry[]): FoodMapPoint[] {
+  const points: FoodMapPoint[] = []
+  for (const entry of entries) {
+    if (!isValidCoordinate(entry.latitude, entry.longitude)) continue
+    points.push({ entry, latitude: entry.latitude as number, longitude: entry.longitude as number })
+  }
+  return points
+}
+
+export function computeMapBounds(points: Array<Pick<FoodMapPoint, "latitude" | "longitude">>): FoodMapBounds | null {
+  if (points.length === 0) return null
+
+  let minLatitude = Infinity
+  let maxLatitude = -Infinity
+  let minLongitude = Infinity
+  let maxLongitude = -Infinity
+  for (const point of points) {
+    minLatitude = Math.min(minLatitude, point.latitude)
+    maxLatitude = Math.max(maxLatitude, point.latitude)
+    minLongitude = Math.min(minLongitude, point.longitude)
+    maxLongitude = Math.max(maxLongitude, point.longitude)
+  }
+
+  const latitudePadding = Math.max(maxLatitude - minLatitude, MIN_SPAN_DEGREES) * BOUNDS_PADDING_RATIO
+  const longitudePadding = Math.max(maxLongitude - minLongitude, MIN_SPAN_DEGREES) * BOUNDS_PADDING_RATIO
+  const latitudeCentre = (minLatitude + maxLatitude) / 2
+  const longitudeCentre = (minLongitude + maxLongitude) / 2
+  const latitudeHalf = Math.max(maxLatitude - minLatitude, MIN_SPAN_DEGREES) / 2 + latitudePadding
+  const longitudeHalf = Math.max(maxLongitude - minLongitude, MIN_SPAN_DEGREES) / 2 + longitudePadding
+
+  return {
+    minLatitude: Math.max(-85, latitudeCentre - latitudeHalf),
+    maxLatitude: Math.min(85, latitudeCentre + latitudeHalf),
+    minLongitude: Math.max(-180, longitudeCentre - longitudeHalf),
+    maxLongitude: Math.min(180, longitudeCentre + longitudeHalf)
+  }
+}
+
+function mercatorY(latitude: number): number {
+  const radians = (latitude * Math.PI) / 180
+  return Math.log(Math.tan(Math.PI / 4 + radians / 2))
+}
+
+/**
+ * Pixel position of a coordinate in a `width` x `height` view showing `bounds`. Web Mercator,
+ * scaled uniformly and centred so shapes are not stretched when the view's aspect differs.
+ */
+export function projectToMap(
+  bounds: FoodMapBounds,
+  latitude: number,
+  longitude: number,
+  width: number,
+  height: number
+): { x: number; y: number } {
+  const spanX = ((bounds.maxLongitude - bounds.minLongitude) * Math.PI) / 180
+  const top = mercatorY(bounds.maxLatitude)
+  const spanY = top - mercatorY(bounds.minLatitude)
+  const scale = Math.min(width / spanX, height / spanY)
+  const offsetX = (width - spanX * scale) / 2
+  const offsetY = (height - spanY * scale) / 2
+
+  return {
+    x: offsetX + (((longitude - bounds.minLongitude) * Math.PI) / 180) * scale,
+    y: offsetY + (top - mercatorY(latitude)) * scale
+  }
+}
+
+/** Greedy clustering in screen space: each pin joins the first cluster whose centre is within `radius` pixels. */
+export function clusterMapPoints(
+  points: FoodMapPoint[],
+  bounds: FoodMapBounds,
+  width: number,
+  height: number,
+  radius = DEFAULT_CLUSTER_RADIUS_PX
+): FoodMapCluster[] {
+  const clusters: Array<{ x: number; y: number; points: FoodMapPoint[] }> = []
+  const ordered = [...points].sort(
+    (left, right) => left.latitude - right.latitude || left.longitude - right.longitude || left.entry.id.localeCompare(right.entry.id)
+  )
+
+  for (const point of ordered) {
+    const { x, y } = projectToMap(bounds, point.latitude, point.longitude, width, height)
+    if (x < 0 || y < 0 || x > width || y > height) continue
+    const cluster = clusters.find((item) => Math.hypot(item.x - x, item.y - y) <= radius)
+    if (cluster) cluster.points.push(point)
+    else clusters.push({ x, y, points: [point] })
+  }
+
+  return clusters.map((cluster) => {
+    const latitude = cluster.points.reduce((sum, point) => sum + point.latitude, 0) / cluster.points.length
+    const longitude = cluster.points.reduce((sum, point) => sum + point.longitude, 0) / cluster.points.length
+    const centre = projectToMap(bounds, latitude, longitude, width, height)
+    return {
+      id: cluster.points.map((point) => point.entry.id).sort().join(":"),
+      x: centre.x,
+      y: centre.y,
+      latitude,
+      longitude,
+      points: cluster.points
+    }
+  })
+}
+
+function averageRating(points: FoodMapPoint[]): number | null {
+  const ratings = points.map((point) => point.entry.overall_rating).filter((rating): rating is number => rating != null)
+  return ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null
+}
+
+/** Most common first-listed cuisine among the points. */
+function dominantCuisine(points: FoodMapPoint[]): string | null {
+  const counts = new Map<string, number>()
+  for (const point of points) {
+    const cuisine = point.entry.cuisine_type?.[0]?.trim()
+    if (cuisine) counts.set(cuisine, (counts.get(cuisine) ?? 0) + 1)
+  }
+  let best: string | null = null
+  for (const [cuisine, count] of counts) {
+    if (best == null || count > (counts.get(best) ?? 0) || (count === counts.get(best) && cuisine < best)) best = cuisine
+  }
+  return best
+}
+
+/** Cuisines ranked by visits; each gets a fixed colour, the rest share the "other" colour. */
+export function rankCuisines(points: FoodMapPoint[]): string[] {
+  const counts = new Map<string, number>()
+  for (const point of points) {
+    const cuisine = point.entry.cuisine_type?.[0]?.trim()
+    if (cuisine) counts.set(cuisine, (counts.get(cuisine) ?? 0) + 1)
+  }
+  return [...counts.entries()]
+    .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+    .slice(0, CUISINE_COLORS.length)
+    .map(([cuisine]) => cuisine)
+}
+
+export function getClusterColor(points: FoodMapPoint[], mode: FoodMapColorMode, rankedCuisines: string[]): string {
+  if (mode === "rating") {
+    const rating = averageRating(points)
+    if (rating == null) return UNRATED_COLOR
+    return RATING_COLORS.find((bucket) => rating >= bucket.min)?.color ?? UNRATED_COLOR
+  }
+
+  const cuisine = dominantCuisine(points)
+  const index = cuisine ? rankedCuisines.indexOf(cuisine) : -1
+  return index === -1 ? UNRATED_COLOR : CUISINE_COLORS[index]
+}
+
+export function getMapLegend(mode: FoodMapColorMode, rankedCuisines: string[]): FoodMapLegendItem[] {
+  if (mode === "rating") {
+    return [...RATING_COLORS.map((bucket) => ({ label: bucket.label, color: bucket.color })), { label: "unrated", color: UNRATED_COLOR }]
+  }
+  return [
+    ...rankedCuisines.map((cuisine, index) => ({ label: cuisine, color: CUISINE_COLORS[index] })),
+    { label: "other", color: UNRATED_COLOR }
+  ]
+}
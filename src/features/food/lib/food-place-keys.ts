@@ -0,0 +1,54 @@
+// Place matching shared by the app and the API routes. Stored `normalized_key`s come from
+// buildPlaceKey, so both sides must build and compare them with this module.
+
+/** The fields that identify a place when matching a visit against saved places. */
+export interface FoodPlaceIdentity {
+  name: string
+  branch: string | null
+  address: string | null
+  google_place_id: string | null
+}
+
+/** Lowercase, accent- and punctuation-free, single-spaced text for place comparisons. */
+export function normalizePlaceText(value: string | null | undefined): string {
+  return (value ?? "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+}
+
+export function normalizePlaceName(name: string, branch: string | null | undefined): string {
+  return normalizePlaceText(branch ? `${name} ${branch}` : name)
+}
+
+/** Dedupe key for places without a Google place id: normalized name (with branch) and address. */
+export function buildPlaceKey(name: string, branch: string | null | undefined, address: string | null | undefined): string {
+  return `${normalizePlaceName(name, branch)}|${normalizePlaceText(address)}`
+}
+
+/**
+ * Existing place for a visit: same Google place id, then same name and address, then same name
+ * when either side has no address (visits logged without one should not split a place).
+ */
+export function findMatchingPlace<T extends FoodPlaceIdentity & { normalized_key: string }>(
+  places: T[],
+  fields: FoodPlaceIdentity
+): T | null {
+  if (fields.google_place_id) {
+    const byGoogleId = places.find((place) => place.google_place_id === fields.google_place_id)
+    if (byGoogleId) return byGoogleId
+  }
+
+  const key = buildPlaceKey(fields.name, fields.branch, fields.address)
+  const byKey = places.find((place) => place.normalized_key === key)
+  if (byKey) return byKey
+
+  const name = normalizePlaceName(fields.name, fields.branch)
+  const sameName = places.filter((place) => normalizePlaceName(place.name, place.branch) === name)
+  const hasAddress = Boolean(normalizePlaceText(fields.address))
+  const candidates = sameName.filter((place) => !hasAddress || !normalizePlaceText(place.address))
+  return candidates.length === 1 ? candidates[0] : null
+}
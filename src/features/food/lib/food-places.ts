@@ -0,0 +1,219 @@
+import type { CurrencyConverter } from "@/src/features/currency/lib/currency"
+import { normalizePlaceName, normalizePlaceText } from "@/src/features/food/lib/food-place-keys"
+import type { FoodEntry, FoodPlace } from "@/src/shared/types/database"
+
+export { buildPlaceKey, findMatchingPlace, normalizePlaceText } from "@/src/features/food/lib/food-place-keys"
+
+/** Location fields a visit copies from its place. */
+export type FoodPlaceFields = Pick<
+  FoodPlace,
+  | "name"
+  | "branch"
+  | "address"
+  | "google_place_id"
+  | "google_maps_url"
+  | "latitude"
+  | "longitude"
+  | "neighborhood"
+  | "city"
+  | "country"
+>
+
+export interface FoodPlaceMerge {
+  /** Places emptied by the merge. */
+  deletePlaceIds: string[]
+  /** Target fields that were blank and are filled from the merged places. */
+  targetPatch: Partial<FoodPlaceFields>
+}
+
+export interface FoodPlaceSummary {
+  visitCount: number
+  firstVisit: string | null
+  lastVisit: string | null
+  averageOverall: number | null
+  averageFood: number | null
+  averageAmbiance: number | null
+  averageService: number | null
+  averageValue: number | null
+  wouldReturnCount: number
+  /** Home-currency spend per visit date, oldest first; visits without a convertible price are left out. */
+  spendTrend: { date: string; amount: number }[]
+  averageSpend: number | null
+}
+
+// Names this close (edits per character) are offered as likely duplicates
+const DUPLICATE_NAME_DISTANCE_RATIO = 0.2
+
+export function placeFieldsFromEntry(entry: Pick<FoodEntry, keyof Omit<FoodPlaceFields, "google_place_id">>): FoodPlaceFields {
+  return {
+    name: entry.name.trim(),
+    branch: entry.branch?.trim() || null,
+    address: entry.address?.trim() || null,
+    google_place_id: null,
+    google_maps_url: entry.google_maps_url?.trim() || null,
+    latitude: entry.latitude,
+    longitude: entry.longitude,
+    neighborhood: entry.neighborhood?.trim() || null,
+    city: entry.city?.trim() || null,
+    country: entry.country?.trim() || null
+  }
+}
+
+/** The columns a linked visit copies from its place, so search, filters and AI queries keep working. */
+export function visitFieldsFromPlace(place: FoodPlace): Partial<FoodEntry> {
+  return {
+    place_id: place.id,
+    name: place.name,
+    branch: place.branch,
+    address: place.address,
+    google_maps_url: place.google_maps_url,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    neighborhood: place.neighborhood,
+    city: place.city,
+    country: place.country
+  }
+}
+
+/** Grouping key for visits: the place when linked, otherwise the normalized name. */
+export function getVisitPlaceKey(entry: Pick<FoodEntry, "place_id" | "name" | "branch">): string {
+  return entry.place_id ?? `name:${normalizePlaceName(entry.name, entry.branch)}`
+}
+
+export function formatPlaceName(place: Pick<FoodPlace, "name" | "branch">): string {
+  return place.branch ? `${place.name} - ${place.branch}` : place.name
+}
+
+export function getPlaceVisits(entries: FoodEntry[], placeId: string): FoodEntry[] {
+  return entries
+    .filter((entry) => entry.place_id === placeId)
+    .sort((left, right) => right.visit_date.localeCompare(left.visit_date))
+}
+
+export function countVisitsByPlace(entries: FoodEntry[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const entry of entries) {
+    if (!entry.place_id) continue
+    counts.set(entry.place_id, (counts.get(entry.place_id) ?? 0) + 1)
+  }
+  return counts
+}
+
+function editDistance(left: string, right: string): number {
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i]
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[right.length]
+}
+
+function isLikelyDuplicate(left: FoodPlace, right: FoodPlace): boolean {
+  if (left.google_place_id && right.google_place_id && left.google_place_id !== right.google_place_id) return false
+  const leftCity = normalizePlaceText(left.city)
+  const rightCity = normalizePlaceText(right.city)
+  if (leftCity && rightCity && leftCity !== rightCity) return false
+
+  const leftName = normalizePlaceName(left.name, left.branch)
+  const rightName = normalizePlaceName(right.name, right.branch)
+  if (leftName === rightName) return true
+
+  const longest = Math.max(leftName.length, rightName.length)
+  return longest >= 5 && editDistance(leftName, rightName) <= Math.floor(longest * DUPLICATE_NAME_DISTANCE_RATIO)
+}
+
+/** Groups of places that look like the same restaurant (same or near-identical name in the same city). */
+export function findDuplicatePlaceGroups(places: FoodPlace[]): FoodPlace[][] {
+  const groups: FoodPlace[][] = []
+  const grouped = new Set<string>()
+
+  for (const place of places) {
+    if (grouped.has(place.id)) continue
+    const group = [place]
+    for (const other of places) {
+      if (other.id === place.id || grouped.has(other.id)) continue
+      if (group.some((member) => isLikelyDuplicate(member, other))) group.push(other)
+    }
+    if (group.length > 1) {
+      for (const member of group) grouped.add(member.id)
+      groups.push(group)
+    }
+  }
+  return groups
+}
+
+/** The places `target` absorbs and the blank target fields they fill. */
+export function planPlaceMerge(target: FoodPlace, sources: FoodPlace[]): FoodPlaceMerge {
+  const sourceIds = new Set(sources.filter((source) => source.id !== target.id).map((source) => source.id))
+  const targetPatch: Partial<FoodPlaceFields> = {}
+  // Name and branch are the place's identity and are never taken from a merged duplicate
+  const fillable: Array<Exclude<keyof FoodPlaceFields, "name" | "branch">> = [
+    "address",
+    "google_place_id",
+    "google_maps_url",
+    "latitude",
+    "longitude",
+    "neighborhood",
+    "city",
+    "country"
+  ]
+
+  for (const source of sources) {
+    if (!sourceIds.has(source.id)) continue
+    for (const field of fillable) {
+      if (target[field] == null && targetPatch[field] == null && source[field] != null) {
+        Object.assign(targetPatch, { [field]: source[field] })
+      }
+    }
+  }
+
+  return {
+    deletePlaceIds: [...sourceIds],
+    targetPatch
+  }
+}
+
+function average(values: Array<number | null>): number | null {
+  const rated = values.filter((value): value is number => value != null && value > 0)
+  return rated.length > 0 ? rated.reduce((sum, value) => sum + value, 0) / rated.length : null
+}
+
+function visitTotal(entry: FoodEntry): number | null {
+  if (entry.total_price != null) return entry.total_price
+  const items = entry.items_ordered ?? []
+  return items.length > 0 ? items.reduce((sum, item) => sum + (item.price ?? 0), 0) : null
+}
+
+export function summarizePlaceVisits(visits: FoodEntry[], converter: CurrencyConverter): FoodPlaceSummary {
+  const chronological = [...visits].sort((left, right) => left.visit_date.localeCompare(right.visit_date))
+  const spendTrend: { date: string; amount: number }[] = []
+
+  for (const visit of chronological) {
+    const total = visitTotal(visit)
+    if (total == null || total <= 0) continue
+    const amount = converter.convert(total, visit.currency, visit.visit_date)
+    if (amount == null) continue
+    const last = spendTrend[spendTrend.length - 1]
+    if (last?.date === visit.visit_date) last.amount += amount
+    else spendTrend.push({ date: visit.visit_date, amount })
+  }
+
+  return {
+    visitCount: visits.length,
+    firstVisit: chronological[0]?.visit_date ?? null,
+    lastVisit: chronological[chronological.length - 1]?.visit_date ?? null,
+    averageOverall: average(visits.map((visit) => visit.overall_rating)),
+    averageFood: average(visits.map((visit) => visit.food_rating)),
+    averageAmbiance: average(visits.map((visit) => visit.ambiance_rating)),
+    averageService: average(visits.map((visit) => visit.service_rating)),
+    averageValue: average(visits.map((visit) => visit.value_rating)),
+    wouldReturnCount: visits.filter((visit) => visit.would_return === true).length,
+    spendTrend,
+    averageSpend:
+      spendTrend.length > 0 ? spendTrend.reduce((sum, point) => sum + point.amount, 0) / spendTrend.length : null
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, expect, test } from "bun:test"
+import {
+  distanceKm,
+  explainFoodRecommendation,
+  parsePriceLevel,
+  parseRecommendationOrigin,
+  recommendFoodPlaces,
+  type FoodRecommendationRequest,
+  type RecommendableVisit
+} from "@/src/features/food/lib/food-recommender"
+
+const TODAY = "2026-10-19"
+const ORIGIN = { latitude: 51.5, longitude: -0.1 }
+
+function visit(overrides: Partial<RecommendableVisit> & Pick<RecommendableVisit, "id" | "name">): RecommendableVisit {
+  return {
+    place_id: null,
+    branch: null,
+    city: null,
+    neighborhood: null,
+    latitude: null,
+    longitude: null,
+    visit_date: TODAY,
+    overall_rating: null,
+    would_return: null,
+    price_level: null,
+    dining_type: null,
+    cuisine_type: null,
+    ...overrides
+  }
+}
+
+function recommend(visits: RecommendableVisit[], request: FoodRecommendationRequest = {}) {
+  return recommendFoodPlaces(visits, { today: TODAY, ...request })
+}
+
+function reason(visits: RecommendableVisit[], request: FoodRecommendationRequest, factor: string) {
+  return recommend(visits, request)[0]?.reasons.find((item) => item.factor === factor)
+}
+
+describe("distanceKm", () => {
+  test("measures great-circle distance", () => {
+    expect(distanceKm(0, 0, 0, 1)).toBeCloseTo(111.19, 1)
+    expect(distanceKm(51.5, -0.1, 51.5, -0.1)).toBe(0)
+  })
+})
+
+describe("parsePriceLevel", () => {
+  test("reads Google levels, digits and currency symbols", () => {
+    expect(parsePriceLevel("PRICE_LEVEL_MODERATE")).toBe(2)
+    expect(parsePriceLevel("3")).toBe(3)
+    expect(parsePriceLevel("€ €")).toBe(2)
+    expect(parsePriceLevel("$$$$$")).toBe(4)
+    expect(parsePriceLevel("cheap")).toBeNull()
+    expect(parsePriceLevel(null)).toBeNull()
+  })
+})
+
+describe("parseRecommendationOrigin", () => {
+  test("reads coordinates, maps URLs and city names", () => {
+    expect(parseRecommendationOrigin("51.5, -0.1")).toEqual({ latitude: 51.5, longitude: -0.1, city: null })
+    expect(parseRecommendationOrigin("https://www.google.com/maps/@48.85,2.35,15z")).toEqual({
+      latitude: 48.85,
+      longitude: 2.35,
+      city: null
+    })
+    expect(parseRecommendationOrigin(" Lisbon ")).toEqual({ latitude: null, longitude: null, city: "Lisbon" })
+    expect(parseRecommendationOrigin("95, 10")).toEqual({ latitude: null, longitude: null, city: "95, 10" })
+  })
+})
+
+describe("recommendFoodPlaces", () => {
+  test("ranks nearer places first and drops ones beyond the maximum distance", () => {
+    const visits = [
+      visit({ id: "far", name: "Far", latitude: 51.6, longitude: -0.1 }),
+      visit({ id: "near", name: "Near", latitude: 51.505, longitude: -0.1 })
+    ]
+
+    const ranked = recommend(visits, ORIGIN)
+    expect(ranked.map((item) => item.latestVisit.id)).toEqual(["near", "far"])
+    expect(ranked[0].distanceKm).toBeCloseTo(0.556, 2)
+    expect(ranked[0].reasons[0]).toEqual({ factor: "distance", score: expect.closeTo(1 / (1 + 0.556 / 2), 2), detail: "556 m away" })
+    expect(ranked[1].reasons[0].detail).toBe("11.1 km away")
+
+    expect(recommend(visits, { ...ORIGIN, maxDistanceKm: 5 }).map((item) => item.latestVisit.id)).toEqual(["near"])
+  })
+
+  test("places without coordinates stay in but score nothing for distance", () => {
+    const [unknown] = recommend([visit({ id: "unknown", name: "Unknown" })], { ...ORIGIN, maxDistanceKm: 1 })
+    expect(unknown.distanceKm).toBeNull()
+    expect(unknown.reasons.find((item) => item.factor === "distance")).toEqual({
+      factor: "distance",
+      score: 0,
+      detail: "Distance unknown (no coordinates saved)"
+    })
+  })
+
+  test("without coordinates a city limits the candidates, ignoring case and accents", () => {
+    const visits = [
+      visit({ id: "sp", name: "Padaria", city: "São Paulo" }),
+      visit({ id: "rio", name: "Quiosque", city: "Rio de Janeiro" }),
+      visit({ id: "none", name: "Nowhere" })
+    ]
+
+    const ranked = recommend(visits, { city: " sao paulo " })
+    expect(ranked.map((item) => item.latestVisit.id)).toEqual(["sp"])
+    expect(ranked[0].reasons.find((item) => item.factor === "distance")).toEqual({ factor: "distance", score: 1, detail: "In São Paulo" })
+  })
+
+  test("coordinates take precedence over the city", () => {
+    const visits = [visit({ id: "elsewhere", name: "Elsewhere", city: "Paris", latitude: 51.505, longitude: -0.1 })]
+    expect(recommend(visits, { ...ORIGIN, city: "London" }).map((item) => item.latestVisit.id)).toEqual(["elsewhere"])
+  })
+
+  test("scores the budget by how far the price level is over it", () => {
+    const budget = (price_level: string | null) => reason([visit({ id: "place", name: "Place", price_level })], { maxPriceLevel: 2 }, "budget")
+
+    expect(budget("$$")).toEqual({ factor: "budget", score: 1, detail: "Within budget ($$)" })
+    expect(budget("PRICE_LEVEL_EXPENSIVE")).toEqual({ factor: "budget", score: 0.5, detail: "Over budget ($$$)" })
+    expect(budget("4")).toEqual({ factor: "budget", score: 0, detail: "Over budget ($$$$)" })
+    expect(budget(null)).toBeUndefined()
+  })
+
+  test("a place over budget ranks below an otherwise equal one within it", () => {
+    const visits = [
+      visit({ id: "pricey", name: "Pricey", price_level: "$$$$" }),
+      visit({ id: "cheap", name: "Cheap", price_level: "$" })
+    ]
+    expect(recommend(visits, { maxPriceLevel: 2 }).map((item) => item.latestVisit.id)).toEqual(["cheap", "pricey"])
+  })
+
+  test("matches any wanted cuisine across the place's visits, ignoring case", () => {
+    const visits = [
+      visit({ id: "ramen", name: "Ramen Bar", place_id: "ramen", cuisine_type: ["japanese"] }),
+      visit({ id: "ramen-again", name: "Ramen Bar", place_id: "ramen", cuisine_type: ["Noodles"], visit_date: "2026-09-01" }),
+      visit({ id: "tacos", name: "Taqueria", place_id: "tacos", cuisine_type: ["Mexican"] })
+    ]
+
+    const ranked = recommend(visits, { cuisines: ["Thai", "noodles"] })
+    expect(ranked.map((item) => item.placeId)).toEqual(["ramen", "tacos"])
+    expect(ranked[0].reasons.find((item) => item.factor === "cuisine")).toEqual({ factor: "cuisine", score: 1, detail: "Serves noodles" })
+    expect(ranked[1].reasons.find((item) => item.factor === "cuisine")).toEqual({
+      factor: "cuisine",
+      score: 0,
+      detail: "None of the cuisines you want"
+    })
+  })
+
+  test("groups visits per place and describes it by the latest one", () => {
+    const visits = [
+      visit({ id: "old", name: "Cafe", place_id: "cafe", visit_date: "2026-07-21", overall_rating: 6 }),
+      visit({ id: "new", name: "Cafe", place_id: "cafe", visit_date: "2026-09-19", overall_rating: 9 })
+    ]
+
+    const [cafe] = recommend(visits)
+    expect(cafe.latestVisit.id).toBe("new")
+    expect(cafe.visitCount).toBe(2)
+    expect(cafe.averageRating).toBe(7.5)
+    expect(explainFoodRecommendation(cafe)).toBe("Rated 7.5 over 2 visits • Last visit 4 weeks ago")
+  })
+
+  test("breaks score ties by distance, then by name", () => {
+    const byDistance = recommend(
+      [
+        visit({ id: "farther", name: "A farther", latitude: 51.50099, longitude: -0.1 }),
+        visit({ id: "closer", name: "B closer", latitude: 51.5009, longitude: -0.1 })
+      ],
+      ORIGIN
+    )
+    expect(byDistance[0].score).toBe(byDistance[1].score)
+    expect(byDistance.map((item) => item.latestVisit.id)).toEqual(["closer", "farther"])
+
+    const byName = recommend([visit({ id: "b", name: "Bistro" }), visit({ id: "a", name: "Alehouse" })])
+    expect(byName[0].score).toBe(byName[1].score)
+    expect(byName.map((item) => item.latestVisit.id)).toEqual(["a", "b"])
+  })
+
+  test("returns at most the limit", () => {
+    const visits = Array.from({ length: 8 }, (_, index) => visit({ id: `place-${index}`, name: `Place ${index}` }))
+    expect(recommend(visits)).toHaveLength(5)
+    expect(recommend(visits, { limit: 2 })).toHaveLength(2)
+  })
+})
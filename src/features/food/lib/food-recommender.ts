@@ -0,0 +1,299 @@
+import { getVisitPlaceKey, normalizePlaceText } from "@/src/features/food/lib/food-places"
+import type { FoodEntry } from "@/src/shared/types/database"
+import type { FoodRecommendationFactor, FoodRecommendationReason } from "@analytics/contracts"
+
+/** Fields the recommender reads; server rows and client entries both satisfy it. */
+export type RecommendableVisit = Pick<
+  FoodEntry,
+  | "id"
+  | "place_id"
+  | "name"
+  | "branch"
+  | "city"
+  | "neighborhood"
+  | "latitude"
+  | "longitude"
+  | "visit_date"
+  | "overall_rating"
+  | "would_return"
+  | "price_level"
+  | "dining_type"
+  | "cuisine_type"
+>
+
+export interface FoodRecommendationRequest {
+  /** Where we are; with coordinates, places are ranked by distance, otherwise a city limits the candidates. */
+  latitude?: number | null
+  longitude?: number | null
+  city?: string | null
+  /** Places farther than this are left out; ignored for places without coordinates. */
+  maxDistanceKm?: number | null
+  /** Highest acceptable price level, 1 (cheap) to 4 (very expensive). */
+  maxPriceLevel?: number | null
+  diningType?: string | null
+  cuisines?: string[]
+  /** YYYY-MM-DD used for "time since last visit"; defaults to today. */
+  today?: string
+  limit?: number
+}
+
+export interface FoodRecommendation<T extends RecommendableVisit = RecommendableVisit> {
+  key: string
+  placeId: string | null
+  /** Most recent visit; its location fields describe the place. */
+  latestVisit: T
+  visitCount: number
+  lastVisitDate: string
+  distanceKm: number | null
+  averageRating: number | null
+  priceLevel: number | null
+  /** 0-100, the weighted average of the factors that apply. */
+  score: number
+  /** Applicable factors, biggest weighted contribution first. */
+  reasons: FoodRecommendationReason[]
+}
+
+const DEFAULT_LIMIT = 5
+// Distance score halves at this many kilometres
+const DISTANCE_HALF_SCORE_KM = 2
+// A place reaches the full "time since last visit" score after this many days
+const RECENCY_FULL_SCORE_DAYS = 90
+const EARTH_RADIUS_KM = 6371
+
+const FACTOR_WEIGHTS: Record<FoodRecommendationFactor, number> = {
+  distance: 0.3,
+  rating: 0.25,
+  wouldReturn: 0.15,
+  recency: 0.1,
+  budget: 0.1,
+  diningType: 0.05,
+  cuisine: 0.05
+}
+
+const GOOGLE_PRICE_LEVELS: Record<string, number> = {
+  price_level_free: 0,
+  price_level_inexpensive: 1,
+  price_level_moderate: 2,
+  price_level_expensive: 3,
+  price_level_very_expensive: 4
+}
+
+const PRICE_LEVEL_LABELS = ["free", "$", "$$", "$$$", "$$$$"]
+
+/**
+ * Price level as 0-4 from the free-text column: Google's PRICE_LEVEL_* values, a digit,
+ * or a run of currency symbols such as "$$".
+ */
+export function parsePriceLevel(value: string | null | undefined): number | null {
+  const text = value?.trim()
+  if (!text) return null
+
+  const google = GOOGLE_PRICE_LEVELS[text.toLowerCase()]
+  if (google != null) return google
+
+  const digit = text.match(/^[0-4]$/)
+  if (digit) return Number(digit[0])
+
+  const symbols = text.match(/[$€£¥₩₹฿៛]/g)
+  if (symbols && symbols.length === text.replace(/\s/g, "").length) return Math.min(symbols.length, 4)
+
+  return null
+}
+
+export function distanceKm(fromLatitude: number, fromLongitude: number, toLatitude: number, toLongitude: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const latitudeDelta = toRadians(toLatitude - fromLatitude)
+  const longitudeDelta = toRadians(toLongitude - fromLongitude)
+  const a =
+    Math.sin(latitudeDelta / 2) ** 2 +
+    Math.cos(toRadians(fromLatitude)) * Math.cos(toRadians(toLatitude)) * Math.sin(longitudeDelta / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Origin typed by the user: "lat, lng", a maps URL containing "@lat,lng", or otherwise a city name.
+ */
+export function parseRecommendationOrigin(
+  text: string
+): Pick<FoodRecommendationRequest, "latitude" | "longitude" | "city"> {
+  const trimmed = text.trim()
+  const match = trimmed.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/) ?? trimmed.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/)
+  if (match) {
+    const latitude = Number(match[1])
+    const longitude = Number(match[2])
+    if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) return { latitude, longitude, city: null }
+  }
+  return { latitude: null, longitude: null, city: trimmed || null }
+}
+
+function hasCoordinates(latitude: number | null | undefined, longitude: number | null | undefined): boolean {
+  return latitude != null && longitude != null && Number.isFinite(latitude) && Number.isFinite(longitude) && !(latitude === 0 && longitude === 0)
+}
+
+function daysBetween(from: string, to: string): number {
+  const milliseconds = new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime() - new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime()
+  return Math.max(0, Math.round(milliseconds / 86_400_000))
+}
+
+function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m away` : `${km.toFixed(1)} km away`
+}
+
+function formatElapsed(days: number): string {
+  if (days === 0) return "today"
+  if (days < 14) return `${days} ${days === 1 ? "day" : "days"} ago`
+  if (days < 60) return `${Math.round(days / 7)} weeks ago`
+  if (days < 730) return `${Math.round(days / 30)} months ago`
+  return `${Math.round(days / 365)} years ago`
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Visits grouped per place (canonical place when linked, otherwise by name), newest first. */
+function groupVisits<T extends RecommendableVisit>(visits: T[]): T[][] {
+  const groups = new Map<string, T[]>()
+  for (const visit of visits) {
+    const key = getVisitPlaceKey(visit)
+    const group = groups.get(key)
+    if (group) group.push(visit)
+    else groups.set(key, [visit])
+  }
+  return [...groups.values()].map((group) => [...group].sort((left, right) => right.visit_date.localeCompare(left.visit_date)))
+}
+
+function scorePlace<T extends RecommendableVisit>(
+  visits: T[],
+  request: FoodRecommendationRequest,
+  today: string
+): FoodRecommendation<T> | null {
+  const latest = visits[0]
+  const located = visits.find((visit) => hasCoordinates(visit.latitude, visit.longitude))
+  const hasOrigin = hasCoordinates(request.latitude, request.longitude)
+  const reasons: FoodRecommendationReason[] = []
+
+  let distance: number | null = null
+  if (hasOrigin && located) {
+    distance = distanceKm(request.latitude as number, request.longitude as number, located.latitude as number, located.longitude as number)
+    if (request.maxDistanceKm != null && distance > request.maxDistanceKm) return null
+    reasons.push({ factor: "distance", score: 1 / (1 + distance / DISTANCE_HALF_SCORE_KM), detail: formatDistance(distance) })
+  } else if (request.city?.trim()) {
+    const city = normalizePlaceText(request.city)
+    if (!visits.some((visit) => normalizePlaceText(visit.city) === city)) return null
+    reasons.push({ factor: "distance", score: 1, detail: `In ${latest.city ?? request.city.trim()}` })
+  } else if (hasOrigin) {
+    reasons.push({ factor: "distance", score: 0, detail: "Distance unknown (no coordinates saved)" })
+  }
+
+  const ratings = visits.map((visit) => visit.overall_rating).filter((rating): rating is number => rating != null)
+  const averageRating = ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null
+  if (averageRating != null) {
+    reasons.push({
+      factor: "rating",
+      score: Math.min(1, Math.max(0, averageRating / 10)),
+      detail: `Rated ${averageRating.toFixed(1)} over ${ratings.length} ${ratings.length === 1 ? "visit" : "visits"}`
+    })
+  }
+
+  const wouldReturn = visits.find((visit) => visit.would_return != null)?.would_return ?? null
+  if (wouldReturn != null) {
+    reasons.push({
+      factor: "wouldReturn",
+      score: wouldReturn ? 1 : 0,
+      detail: wouldReturn ? "You said you'd go back" : "You said you wouldn't go back"
+    })
+  }
+
+  const daysSince = daysBetween(latest.visit_date, today)
+  reasons.push({
+    factor: "recency",
+    score: Math.min(1, daysSince / RECENCY_FULL_SCORE_DAYS),
+    detail: `Last visit ${formatElapsed(daysSince)}`
+  })
+
+  const priceLevel = visits.map((visit) => parsePriceLevel(visit.price_level)).find((level) => level != null) ?? null
+  if (request.maxPriceLevel != null && priceLevel != null) {
+    const over = priceLevel - request.maxPriceLevel
+    reasons.push({
+      factor: "budget",
+      score: over <= 0 ? 1 : Math.max(0, 1 - over / 2),
+      detail: over <= 0 ? `Within budget (${PRICE_LEVEL_LABELS[priceLevel]})` : `Over budget (${PRICE_LEVEL_LABELS[priceLevel]})`
+    })
+  }
+
+  const diningType = normalizePlaceText(request.diningType)
+  if (diningType) {
+    const matches = visits.some((visit) => normalizePlaceText(visit.dining_type) === diningType)
+    reasons.push({
+      factor: "diningType",
+      score: matches ? 1 : 0,
+      detail: matches ? `Good for ${request.diningType?.trim()}` : `Not logged as ${request.diningType?.trim()}`
+    })
+  }
+
+  const wanted = (request.cuisines ?? []).map(normalizePlaceText).filter(Boolean)
+  if (wanted.length > 0) {
+    const served = new Set(visits.flatMap((visit) => (visit.cuisine_type ?? []).map(normalizePlaceText)))
+    const matched = (request.cuisines ?? []).filter((cuisine) => served.has(normalizePlaceText(cuisine)))
+    reasons.push({
+      factor: "cuisine",
+      score: matched.length > 0 ? 1 : 0,
+      detail: matched.length > 0 ? `Serves ${matched.join(", ")}` : "None of the cuisines you want"
+    })
+  }
+
+  const totalWeight = reasons.reduce((sum, reason) => sum + FACTOR_WEIGHTS[reason.factor], 0)
+  const weighted = reasons.reduce((sum, reason) => sum + FACTOR_WEIGHTS[reason.factor] * reason.score, 0)
+  reasons.sort(
+    (left, right) =>
+      FACTOR_WEIGHTS[right.factor] * right.score - FACTOR_WEIGHTS[left.factor] * left.score ||
+      FACTOR_WEIGHTS[right.factor] - FACTOR_WEIGHTS[left.factor]
+  )
+
+  return {
+    key: getVisitPlaceKey(latest),
+    placeId: latest.place_id,
+    latestVisit: latest,
+    visitCount: visits.length,
+    lastVisitDate: latest.visit_date,
+    distanceKm: distance,
+    averageRating,
+    priceLevel,
+    score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) : 0,
+    reasons
+  }
+}
+
+/**
+ * Ranks places from past visits for "where should we eat". Each factor scores 0-1 and the
+ * result is their weighted average over the factors that apply to the request and the place,
+ * so a missing preference or an unrated place is not penalised.
+ */
+export function recommendFoodPlaces<T extends RecommendableVisit>(
+  visits: T[],
+  request: FoodRecommendationRequest = {}
+): FoodRecommendation<T>[] {
+  const today = request.today ?? todayIso()
+  const limit = request.limit ?? DEFAULT_LIMIT
+
+  return groupVisits(visits)
+    .map((group) => scorePlace(group, request, today))
+    .filter((recommendation): recommendation is FoodRecommendation<T> => recommendation != null)
+    .sort(
+      (left, right) =>
+        right.score - left.score ||
+        (left.distanceKm ?? Infinity) - (right.distanceKm ?? Infinity) ||
+        left.latestVisit.name.localeCompare(right.latestVisit.name)
+    )
+    .slice(0, limit)
+}
+
+/** One-line summary of the strongest reasons for a pick. */
+export function explainFoodRecommendation(recommendation: FoodRecommendation, maxReasons = 3): string {
+  return recommendation.reasons
+    .filter((reason) => reason.score > 0)
+    .slice(0, maxReasons)
+    .map((reason) => reason.detail)
+    .join(" • ")
+}
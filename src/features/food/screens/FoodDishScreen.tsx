@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from "react"
+import { ActivityIndicator, Image, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native"
+import { Stack, useLocalSearchParams, useRouter } from "expo-router"
+import * as ImagePicker from "expo-image-picker"
+import { KPIGrid } from "@/src/features/analytics/components/KPIGrid"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import { useFoodDishes } from "@/src/features/food/hooks/useFoodDishes"
+import { useFoodEntries } from "@/src/features/food/hooks/useFoodEntries"
+import { useFoodPlaces } from "@/src/features/food/hooks/useFoodPlaces"
+import { getDishOrders, summarizeDishOrders } from "@/src/features/food/lib/food-dishes"
+import { formatPlaceName } from "@/src/features/food/lib/food-places"
+import { uploadAssetToBackend } from "@/src/shared/api/upload"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+function formatPrice(price: number | null, currency: string | null): string {
+  if (price == null) return "-"
+  return currency ? formatMoney(price, currency) : String(price)
+}
+
+export function FoodDishScreen() {
+  const { palette } = useAppTheme()
+  const router = useRouter()
+  const params = useLocalSearchParams<{ id?: string | string[] }>()
+  const dishId = Array.isArray(params.id) ? params.id[0] : params.id
+  const { data: entries } = useFoodEntries()
+  const { data: places } = useFoodPlaces()
+  const { data: dishes, visitDishes, isLoading, updateDish, deleteDish, saving } = useFoodDishes()
+
+  const dish = (dishes ?? []).find((item) => item.id === dishId) ?? null
+  const place = (places ?? []).find((item) => item.id === dish?.place_id) ?? null
+  const orders = useMemo(() => (dishId ? getDishOrders(visitDishes, entries ?? [], dishId) : []), [visitDishes, entries, dishId])
+  const summary = useMemo(() => summarizeDishOrders(orders), [orders])
+
+  const [name, setName] = useState("")
+  const [category, setCategory] = useState("")
+  const [uploading, setUploading] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setName(dish?.name ?? "")
+    setCategory(dish?.category ?? "")
+  }, [dish?.name, dish?.category])
+
+  if (isLoading) {
+    return (
+      <ScreenScrollView>
+        <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+      </ScreenScrollView>
+    )
+  }
+
+  if (!dish) {
+    return (
+      <ScreenScrollView>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          This dish no longer exists.
+        </Text>
+      </ScreenScrollView>
+    )
+  }
+
+  const current = dish
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function run(action: () => Promise<string | null>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update dish")
+    }
+  }
+
+  function saveDetails() {
+    void run(async () => {
+      await updateDish({ dish: current, patch: { name: name.trim(), category: category.trim() || null } })
+      return "Dish saved"
+    })
+  }
+
+  async function addPhoto() {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: false,
+      quality: 0.9
+    })
+    if (result.canceled || !result.assets.length) return
+    const asset = result.assets[0]
+
+    setUploading(true)
+    await run(async () => {
+      try {
+        const uploaded = await uploadAssetToBackend({
+          uri: asset.uri,
+          fileName: asset.fileName,
+          mimeType: asset.mimeType,
+          title: current.name
+        })
+        await updateDish({ dish: current, patch: { photo_urls: [...(current.photo_urls ?? []), uploaded.url] } })
+        return "Photo added"
+      } finally {
+        setUploading(false)
+      }
+    })
+  }
+
+  function removePhoto(url: string) {
+    void run(async () => {
+      const remaining = (current.photo_urls ?? []).filter((item) => item !== url)
+      await updateDish({ dish: current, patch: { photo_urls: remaining.length > 0 ? remaining : null } })
+      return "Photo removed"
+    })
+  }
+
+  function removeDish() {
+    void run(async () => {
+      await deleteDish(current.id)
+      router.back()
+      return null
+    })
+  }
+
+  return (
+    <ScreenScrollView>
+      <Stack.Screen options={{ title: current.name }} />
+
+      <View style={{ gap: 6 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 24, fontWeight: "700", letterSpacing: -0.4 }}>
+          {current.name}
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+          {[current.category, place ? formatPlaceName(place) : null].filter(Boolean).join(" • ") || "No category"}
+        </Text>
+        {place ? (
+          <Pressable onPress={() => router.push(`/food/places/${place.id}`)}>
+            <Text style={{ color: palette.primary, fontWeight: "600" }}>Open Place</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <KPIGrid
+        rows={[
+          { label: "times ordered", value: String(summary.orderCount) },
+          { label: "avg rating", value: summary.averageRating == null ? "-" : summary.averageRating.toFixed(1) },
+          { label: "latest price", value: formatPrice(summary.latestPrice, summary.latestCurrency) },
+          { label: "last ordered", value: summary.lastOrdered ?? "-" }
+        ]}
+      />
+
+      <ScrollView horizontal contentContainerStyle={styles.photos} showsHorizontalScrollIndicator={false}>
+        {(current.photo_urls ?? []).map((url) => (
+          <Pressable key={url} onLongPress={() => removePhoto(url)}>
+            <Image source={{ uri: url }} style={styles.photo} />
+          </Pressable>
+        ))}
+        <Pressable
+          style={[styles.photo, styles.addPhoto, { borderColor: palette.border, backgroundColor: palette.surface }]}
+          onPress={() => void addPhoto()}
+          disabled={uploading}
+        >
+          <Text style={{ color: palette.textMuted, fontSize: 12 }}>{uploading ? "Uploading..." : "Add Photo"}</Text>
+        </Pressable>
+      </ScrollView>
+
+      <GroupedSection title="Price Changes" footer="Orders in different currencies are not compared.">
+        {summary.priceChanges.length === 0 ? (
+          <SettingsRow title="No price changes recorded" />
+        ) : (
+          [...summary.priceChanges].reverse().map((change) => (
+            <SettingsRow
+              key={`${change.previousDate}-${change.date}`}
+              title={change.date}
+              subtitle={`${formatPrice(change.previousPrice, change.currency)} on ${change.previousDate}`}
+              value={`${formatPrice(change.price, change.currency)}${
+                change.changePercent != null ? ` (${change.change > 0 ? "+" : ""}${change.changePercent.toFixed(0)}%)` : ""
+              }`}
+            />
+          ))
+        )}
+      </GroupedSection>
+
+      <GroupedSection title="Every Order">
+        {orders.length === 0 ? (
+          <SettingsRow title="Not ordered on any visit" />
+        ) : (
+          orders.map(({ link, entry }) => (
+            <SettingsRow
+              key={link.id}
+              title={link.visit_date}
+              subtitle={[
+                link.rating != null ? `Rated ${link.rating}` : "Not rated",
+                entry?.overall_rating != null ? `visit ${entry.overall_rating}` : null
+              ]
+                .filter(Boolean)
+                .join(" • ")}
+              value={link.price != null ? formatPrice(link.price, link.currency) : undefined}
+            />
+          ))
+        )}
+      </GroupedSection>
+
+      <GroupedSection title="Details" footer="Visits name the dish in their items; renaming here does not edit past visits.">
+        <View style={styles.form}>
+          <TextInput style={inputStyle} value={name} onChangeText={setName} placeholder="Name" placeholderTextColor={palette.textMuted} />
+          <TextInput style={inputStyle} value={category} onChangeText={setCategory} placeholder="Category" placeholderTextColor={palette.textMuted} />
+          <Pressable style={[styles.button, { backgroundColor: palette.primary }]} onPress={saveDetails} disabled={saving || !name.trim()}>
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Save</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Danger Zone" footer="Removes the dish and its order history; visits keep their items.">
+        <SettingsRow title="Delete Dish" destructive onPress={removeDish} />
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  form: { padding: 16, gap: 10 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" },
+  photos: { gap: 8 },
+  photo: { width: 96, height: 96, borderRadius: 10 },
+  addPhoto: { borderWidth: 1, borderStyle: "dashed", alignItems: "center", justifyContent: "center" }
+})
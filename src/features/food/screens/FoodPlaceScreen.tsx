@@ -0,0 +1,233 @@
+import { useEffect, useMemo, useState } from "react"
+import { ActivityIndicator, Linking, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { Stack, useLocalSearchParams, useRouter } from "expo-router"
+import { KPIGrid } from "@/src/features/analytics/components/KPIGrid"
+import { SimpleBarList } from "@/src/features/analytics/components/SimpleBarList"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { formatMoney } from "@/src/features/currency/lib/currency"
+import { useFoodDishes } from "@/src/features/food/hooks/useFoodDishes"
+import { useFoodEntries } from "@/src/features/food/hooks/useFoodEntries"
+import { useFoodPlaces } from "@/src/features/food/hooks/useFoodPlaces"
+import { getPlaceDishes } from "@/src/features/food/lib/food-dishes"
+import { formatPlaceName, getPlaceVisits, summarizePlaceVisits } from "@/src/features/food/lib/food-places"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+// The spend bar list shows at most this many visit dates, newest last
+const SPEND_TREND_POINTS = 12
+
+function formatAverage(value: number | null): string {
+  return value == null ? "-" : value.toFixed(1)
+}
+
+export function FoodPlaceScreen() {
+  const { palette } = useAppTheme()
+  const router = useRouter()
+  const params = useLocalSearchParams<{ id?: string | string[] }>()
+  const placeId = Array.isArray(params.id) ? params.id[0] : params.id
+  const { converter } = useCurrencySettings()
+  const { data: entries } = useFoodEntries()
+  const { data: places, isLoading, updatePlace, deletePlace, saving } = useFoodPlaces()
+  const { data: dishes, visitDishes, syncVisits, saving: syncingDishes } = useFoodDishes()
+
+  const place = (places ?? []).find((item) => item.id === placeId) ?? null
+  const visits = useMemo(() => (placeId ? getPlaceVisits(entries ?? [], placeId) : []), [entries, placeId])
+  const summary = useMemo(() => summarizePlaceVisits(visits, converter), [visits, converter])
+  const menu = useMemo(() => (placeId ? getPlaceDishes(dishes ?? [], visitDishes, placeId) : []), [dishes, visitDishes, placeId])
+  // Visits logged before the dish catalogue existed still only have their items list
+  const unsyncedVisits = useMemo(() => {
+    const synced = new Set(visitDishes.map((link) => link.food_entry_id))
+    return visits.filter((visit) => (visit.items_ordered ?? []).length > 0 && !synced.has(visit.id))
+  }, [visits, visitDishes])
+
+  const [name, setName] = useState("")
+  const [branch, setBranch] = useState("")
+  const [address, setAddress] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setName(place?.name ?? "")
+    setBranch(place?.branch ?? "")
+    setAddress(place?.address ?? "")
+  }, [place?.name, place?.branch, place?.address])
+
+  if (isLoading) {
+    return (
+      <ScreenScrollView>
+        <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+      </ScreenScrollView>
+    )
+  }
+
+  if (!place) {
+    return (
+      <ScreenScrollView>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          This place no longer exists.
+        </Text>
+      </ScreenScrollView>
+    )
+  }
+
+  const current = place
+  const home = converter.homeCurrency
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function run(action: () => Promise<string | null>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update place")
+    }
+  }
+
+  function saveDetails() {
+    void run(async () => {
+      await updatePlace({
+        place: current,
+        patch: { name: name.trim(), branch: branch.trim() || null, address: address.trim() || null }
+      })
+      return "Place saved; its visits were updated too"
+    })
+  }
+
+  function buildMenu() {
+    void run(async () => `Linked ${await syncVisits(unsyncedVisits)} dishes from ${unsyncedVisits.length} visits`)
+  }
+
+  function removePlace() {
+    void run(async () => {
+      await deletePlace(current.id)
+      router.back()
+      return null
+    })
+  }
+
+  return (
+    <ScreenScrollView>
+      <Stack.Screen options={{ title: formatPlaceName(current) }} />
+
+      <View style={{ gap: 6 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 24, fontWeight: "700", letterSpacing: -0.4 }}>
+          {formatPlaceName(current)}
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+          {[current.address, [current.neighborhood, current.city, current.country].filter(Boolean).join(", ")]
+            .filter(Boolean)
+            .join("\n") || "No address"}
+        </Text>
+        {current.google_maps_url ? (
+          <Pressable onPress={() => Linking.openURL(current.google_maps_url as string)}>
+            <Text style={{ color: palette.primary, fontWeight: "600" }}>Open in Maps</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <KPIGrid
+        rows={[
+          { label: "visits", value: String(summary.visitCount) },
+          { label: "avg rating", value: formatAverage(summary.averageOverall) },
+          { label: "avg spend", value: summary.averageSpend == null ? "-" : formatMoney(summary.averageSpend, home) },
+          { label: "would return", value: `${summary.wouldReturnCount} of ${summary.visitCount}` },
+          { label: "avg food", value: formatAverage(summary.averageFood) },
+          { label: "avg ambiance", value: formatAverage(summary.averageAmbiance) },
+          { label: "avg service", value: formatAverage(summary.averageService) },
+          { label: "avg value", value: formatAverage(summary.averageValue) }
+        ]}
+      />
+
+      <SimpleBarList
+        title="Spend by Visit"
+        rows={summary.spendTrend.slice(-SPEND_TREND_POINTS).map((point) => ({ label: point.date, value: point.amount }))}
+        formatValue={(value) => formatMoney(value, home, 0)}
+      />
+
+      <GroupedSection title="Menu" footer="Dishes come from the items logged on each visit.">
+        {unsyncedVisits.length > 0 ? (
+          <SettingsRow
+            title={`Add dishes from ${unsyncedVisits.length} earlier ${unsyncedVisits.length === 1 ? "visit" : "visits"}`}
+            onPress={syncingDishes ? undefined : buildMenu}
+          />
+        ) : null}
+        {menu.length === 0 ? (
+          <SettingsRow title="No dishes yet" />
+        ) : (
+          menu.map(({ dish, orderCount }) => (
+            <SettingsRow
+              key={dish.id}
+              title={dish.name}
+              subtitle={[`${orderCount} ${orderCount === 1 ? "order" : "orders"}`, dish.category].filter(Boolean).join(" • ")}
+              value={
+                dish.latest_price != null
+                  ? formatMoney(dish.latest_price, dish.latest_price_currency ?? home)
+                  : undefined
+              }
+              onPress={() => router.push(`/food/dishes/${dish.id}`)}
+            />
+          ))
+        )}
+      </GroupedSection>
+
+      <GroupedSection
+        title="Visits"
+        footer={summary.firstVisit ? `First visit ${summary.firstVisit}, last visit ${summary.lastVisit}.` : undefined}
+      >
+        {visits.length === 0 ? (
+          <SettingsRow title="No visits linked" />
+        ) : (
+          visits.map((visit) => (
+            <SettingsRow
+              key={visit.id}
+              title={visit.visit_date}
+              subtitle={[
+                visit.overall_rating != null ? `Rating ${visit.overall_rating}` : null,
+                visit.favorite_item ? `Favorite: ${visit.favorite_item}` : null
+              ]
+                .filter(Boolean)
+                .join(" • ")}
+              value={
+                visit.total_price != null
+                  ? formatMoney(visit.total_price, visit.currency?.trim().toUpperCase() || home)
+                  : undefined
+              }
+            />
+          ))
+        )}
+      </GroupedSection>
+
+      <GroupedSection title="Details" footer="Changes are copied to every visit of this place.">
+        <View style={styles.form}>
+          <TextInput style={inputStyle} value={name} onChangeText={setName} placeholder="Name" placeholderTextColor={palette.textMuted} />
+          <TextInput style={inputStyle} value={branch} onChangeText={setBranch} placeholder="Branch" placeholderTextColor={palette.textMuted} />
+          <TextInput style={inputStyle} value={address} onChangeText={setAddress} placeholder="Address" placeholderTextColor={palette.textMuted} />
+          <Pressable
+            style={[styles.button, { backgroundColor: palette.primary }]}
+            onPress={saveDetails}
+            disabled={saving || !name.trim()}
+          >
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Save</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Danger Zone" footer="Visits stay in your diary and become unlinked. The place's dishes are removed.">
+        <SettingsRow title="Delete Place" destructive onPress={removePlace} />
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  form: { padding: 16, gap: 10 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
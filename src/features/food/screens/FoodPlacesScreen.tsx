@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { useRouter } from "expo-router"
+import { useFoodEntries } from "@/src/features/food/hooks/useFoodEntries"
+import { useFoodPlaces } from "@/src/features/food/hooks/useFoodPlaces"
+import {
+  countVisitsByPlace,
+  findDuplicatePlaceGroups,
+  formatPlaceName,
+  normalizePlaceText
+} from "@/src/features/food/lib/food-places"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { FoodPlace } from "@/src/shared/types/database"
+
+export function FoodPlacesScreen() {
+  const { palette } = useAppTheme()
+  const router = useRouter()
+  const { data: entries } = useFoodEntries()
+  const { data: places, isLoading, mergePlaces, linkVisits, saving } = useFoodPlaces()
+
+  const [search, setSearch] = useState("")
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const allPlaces = places ?? []
+  const allEntries = entries ?? []
+  const visitCounts = useMemo(() => countVisitsByPlace(allEntries), [allEntries])
+  const unlinked = useMemo(() => allEntries.filter((entry) => !entry.place_id), [allEntries])
+  const duplicateGroups = useMemo(() => findDuplicatePlaceGroups(allPlaces), [allPlaces])
+  const selected = allPlaces.filter((place) => selectedIds.has(place.id))
+
+  const visiblePlaces = useMemo(() => {
+    const query = normalizePlaceText(search)
+    const filtered = query
+      ? allPlaces.filter((place) =>
+          normalizePlaceText(`${formatPlaceName(place)} ${place.city ?? ""} ${place.neighborhood ?? ""}`).includes(query)
+        )
+      : allPlaces
+    return [...filtered].sort(
+      (left, right) => (visitCounts.get(right.id) ?? 0) - (visitCounts.get(left.id) ?? 0) || left.name.localeCompare(right.name)
+    )
+  }, [allPlaces, search, visitCounts])
+
+  async function run(action: () => Promise<string>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update places")
+    }
+  }
+
+  function merge(target: FoodPlace, group: FoodPlace[]) {
+    void run(async () => {
+      const moved = await mergePlaces({ target, sources: group.filter((place) => place.id !== target.id) })
+      setSelectedIds(new Set())
+      return `Merged into "${formatPlaceName(target)}" (${moved} visits moved)`
+    })
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  function describe(place: FoodPlace): string {
+    const visits = visitCounts.get(place.id) ?? 0
+    return [`${visits} ${visits === 1 ? "visit" : "visits"}`, place.address ?? place.city].filter(Boolean).join(" • ")
+  }
+
+  return (
+    <ScreenScrollView>
+      <View style={{ gap: 4 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 34, fontWeight: "700", letterSpacing: -0.6 }}>
+          Places
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          Every restaurant once, with all of its visits. Merge duplicates left by typos or missing addresses.
+        </Text>
+      </View>
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      {unlinked.length > 0 ? (
+        <GroupedSection footer="Visits logged before places existed are matched to a place by name and address, or get a new one.">
+          <SettingsRow
+            title={`Link ${unlinked.length} unlinked ${unlinked.length === 1 ? "visit" : "visits"}`}
+            onPress={saving ? undefined : () => void run(async () => `Linked ${await linkVisits(unlinked)} visits`)}
+          />
+        </GroupedSection>
+      ) : null}
+
+      {selected.length >= 2 ? (
+        <GroupedSection title="Merge Selected" footer="Choose the place to keep; the others' visits move to it.">
+          {selected.map((place) => (
+            <SettingsRow
+              key={place.id}
+              title={formatPlaceName(place)}
+              subtitle={describe(place)}
+              accessory={
+                <Pressable disabled={saving} onPress={() => merge(place, selected)}>
+                  <Text style={{ color: palette.primary, fontWeight: "600" }}>Keep</Text>
+                </Pressable>
+              }
+            />
+          ))}
+        </GroupedSection>
+      ) : null}
+
+      {duplicateGroups.map((group) => (
+        <GroupedSection
+          key={group.map((place) => place.id).join(":")}
+          title="Possible Duplicates"
+          footer="Same or near-identical names in the same city."
+        >
+          {group.map((place) => (
+            <SettingsRow
+              key={place.id}
+              title={formatPlaceName(place)}
+              subtitle={describe(place)}
+              accessory={
+                <Pressable disabled={saving} onPress={() => merge(place, group)}>
+                  <Text style={{ color: palette.primary, fontWeight: "600" }}>Keep</Text>
+                </Pressable>
+              }
+            />
+          ))}
+        </GroupedSection>
+      ))}
+
+      <TextInput
+        style={[styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]}
+        value={search}
+        onChangeText={setSearch}
+        placeholder="Search places"
+        placeholderTextColor={palette.textMuted}
+      />
+
+      <GroupedSection title="All Places" footer="Select two or more places to merge them by hand.">
+        {isLoading ? (
+          <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+        ) : visiblePlaces.length === 0 ? (
+          <Text selectable style={{ color: palette.textMuted, fontSize: 14, padding: 16 }}>
+            No places yet.
+          </Text>
+        ) : (
+          visiblePlaces.map((place) => (
+            <SettingsRow
+              key={place.id}
+              title={formatPlaceName(place)}
+              subtitle={describe(place)}
+              onPress={() => router.push(`/food/places/${place.id}`)}
+              accessory={
+                <Pressable onPress={() => toggleSelected(place.id)}>
+                  <Text style={{ color: palette.primary, fontWeight: "600" }}>
+                    {selectedIds.has(place.id) ? "Selected" : "Select"}
+                  </Text>
+                </Pressable>
+              }
+            />
+          ))
+        )}
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 }
+})
@@ -16,16 +16,33 @@ import { useRouter } from "expo-router"
 import * as Clipboard from "expo-clipboard"
 import * as ImagePicker from "expo-image-picker"
 import { FoodAnalyticsPanel } from "@/src/features/analytics/components/FoodAnalyticsPanel"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { CustomFieldsEditor } from "@/src/features/custom-fields/components/custom-fields-editor"
+import { parseCustomFieldValues } from "@/src/features/custom-fields/lib/custom-fields"
+import { FoodBillSplitEditor } from "@/src/features/food/components/food-bill-split-editor"
+import { FoodVisitMap } from "@/src/features/food/components/food-visit-map"
+import { FoodWhereToEatModal } from "@/src/features/food/components/food-where-to-eat-modal"
+import { useFoodDishes } from "@/src/features/food/hooks/useFoodDishes"
 import { useFoodEntries } from "@/src/features/food/hooks/useFoodEntries"
+import { useFoodPlaces } from "@/src/features/food/hooks/useFoodPlaces"
+import { getBillSplitError, getMyVisitCost, removeSplitItem, type SplittableVisit } from "@/src/features/food/lib/food-bill-split"
+import { findDishByName, normalizeDishName } from "@/src/features/food/lib/food-dishes"
+import { normalizePlaceText, type FoodPlaceFields } from "@/src/features/food/lib/food-places"
 import { NativeDateField } from "@/src/shared/components/native/native-date-field"
 import { SegmentedSwitch } from "@/src/shared/components/workspace/SegmentedSwitch"
 import { WorkspaceHeader } from "@/src/shared/components/workspace/WorkspaceHeader"
 import { backendFetch } from "@/src/shared/api/backend"
 import { uploadAssetToBackend } from "@/src/shared/api/upload"
 import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
-import type { FoodEntry, FoodEntryImage, FoodItem } from "@/src/shared/types/database"
+import type { MapsExistingPlace } from "@analytics/contracts"
+import type { CustomFieldValues, FoodBillSplit, FoodEntry, FoodEntryImage, FoodItem } from "@/src/shared/types/database"
 
 interface FoodFormState {
+  /** Place picked from a suggestion or matched by maps autofill; re-resolved on save. */
+  placeId: string | null
+  googlePlaceId: string | null
+  latitude: number | null
+  longitude: number | null
   name: string
   branch: string
   visitDate: string
@@ -51,7 +68,11 @@ interface FoodFormState {
   priceLevel: string
   diningType: string
   wouldReturn: "" | "yes" | "no"
+  partySize: string
+  companions: string
+  billSplit: FoodBillSplit | null
   notes: string
+  customFields: CustomFieldValues
 }
 
 interface PlaceDetailsResponse {
@@ -64,6 +85,10 @@ interface PlaceDetailsResponse {
   country?: string | null
   googleMapsUrl?: string
   photos?: string[] | null
+  googlePlaceId?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  existingPlace?: MapsExistingPlace | null
 }
 
 interface QueuedImage {
@@ -81,9 +106,9 @@ interface CalendarCell {
   isToday: boolean
 }
 
-type FormTab = "general" | "location" | "items" | "ratings" | "notes"
+type FormTab = "general" | "location" | "items" | "ratings" | "split" | "notes"
 type DetailTab = "overview" | "details" | "notes"
-type FoodWorkspaceMode = "diary" | "analytics"
+type FoodWorkspaceMode = "diary" | "map" | "analytics"
 
 const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"]
 
@@ -120,14 +145,15 @@ function parseItemsText(value: string): FoodItem[] | null {
 
   const items: FoodItem[] = []
   for (const line of lines) {
-    const [namePart, pricePart, categoryPart, imagePart] = line.split("|").map((piece) => piece?.trim() ?? "")
+    const [namePart, pricePart, categoryPart, imagePart, ratingPart] = line.split("|").map((piece) => piece?.trim() ?? "")
     if (!namePart) continue
     items.push({
       name: namePart,
       price: toNumberOrNull(pricePart),
       image_url: imagePart || null,
       category: categoryPart || null,
-      categories: categoryPart ? [categoryPart] : null
+      categories: categoryPart ? [categoryPart] : null,
+      rating: toNumberOrNull(ratingPart ?? "")
     })
   }
 
@@ -141,7 +167,9 @@ function itemsToText(items: FoodItem[] | null | undefined): string {
       const pricePart = item.price != null ? String(item.price) : ""
       const categoryPart = item.category ?? ""
       const imagePart = item.image_url ?? ""
-      return [item.name, pricePart, categoryPart, imagePart].join("|")
+      const parts = [item.name, pricePart, categoryPart, imagePart]
+      if (item.rating != null) parts.push(String(item.rating))
+      return parts.join("|")
     })
     .join("\n")
 }
@@ -153,6 +181,10 @@ function formatVisitDate(date: string): string {
 
 function buildFormFromEntry(entry: FoodEntry, visitDateOverride?: string): FoodFormState {
   return {
+    placeId: entry.place_id,
+    googlePlaceId: null,
+    latitude: entry.latitude,
+    longitude: entry.longitude,
     name: entry.name,
     branch: entry.branch ?? "",
     visitDate: visitDateOverride ?? entry.visit_date,
@@ -178,12 +210,20 @@ function buildFormFromEntry(entry: FoodEntry, visitDateOverride?: string): FoodF
     priceLevel: entry.price_level ?? "",
     diningType: entry.dining_type ?? "",
     wouldReturn: entry.would_return === true ? "yes" : entry.would_return === false ? "no" : "",
-    notes: entry.notes ?? ""
+    partySize: entry.party_size != null ? String(entry.party_size) : "",
+    companions: toCsv(entry.companions),
+    billSplit: entry.bill_split,
+    notes: entry.notes ?? "",
+    customFields: parseCustomFieldValues(entry.custom_fields)
   }
 }
 
-function createDefaultForm(initialDate?: string): FoodFormState {
+function createDefaultForm(initialDate?: string, currency = "USD"): FoodFormState {
   return {
+    placeId: null,
+    googlePlaceId: null,
+    latitude: null,
+    longitude: null,
     name: "",
     branch: "",
     visitDate: initialDate ?? toDateKey(new Date()),
@@ -205,11 +245,15 @@ function createDefaultForm(initialDate?: string): FoodFormState {
     serviceRating: "",
     valueRating: "",
     totalPrice: "",
-    currency: "USD",
+    currency,
     priceLevel: "",
     diningType: "",
     wouldReturn: "",
-    notes: ""
+    partySize: "",
+    companions: "",
+    billSplit: null,
+    notes: "",
+    customFields: {}
   }
 }
 
@@ -294,6 +338,9 @@ export function FoodScreen() {
     addingImage,
     updating
   } = useFoodEntries()
+  const { homeCurrency } = useCurrencySettings()
+  const { data: places, resolvePlace } = useFoodPlaces()
+  const { data: dishes, syncVisits } = useFoodDishes()
 
   const today = new Date()
   const [currentYear, setCurrentYear] = useState(today.getFullYear())
@@ -301,6 +348,7 @@ export function FoodScreen() {
   const [selectedDate, setSelectedDate] = useState<string | null>(null)
   const [search, setSearch] = useState("")
   const [workspaceMode, setWorkspaceMode] = useState<FoodWorkspaceMode>("diary")
+  const [whereToEatOpen, setWhereToEatOpen] = useState(false)
 
   const [modalOpen, setModalOpen] = useState(false)
   const [formTab, setFormTab] = useState<FormTab>("general")
@@ -407,6 +455,7 @@ export function FoodScreen() {
   function removeDraftItem(index: number) {
     const next = draftItems.filter((_, currentIndex) => currentIndex !== index)
     setDraftItems(next)
+    setFormState((prev) => (prev?.billSplit ? { ...prev, billSplit: removeSplitItem(prev.billSplit, index) } : prev))
   }
 
   function goToPreviousMonth() {
@@ -480,7 +529,7 @@ export function FoodScreen() {
     setEditingEntry(null)
     setEntryImages([])
     setQueuedImages([])
-    setFormState(createDefaultForm(initialDate))
+    setFormState(createDefaultForm(initialDate, homeCurrency))
     setModalOpen(true)
     setFormTab("general")
     setMessage(null)
@@ -502,6 +551,9 @@ export function FoodScreen() {
       if (!prev) return prev
       return {
         ...prev,
+        placeId: entry.place_id,
+        latitude: entry.latitude ?? prev.latitude,
+        longitude: entry.longitude ?? prev.longitude,
         name: entry.name,
         branch: entry.branch ?? "",
         category: entry.category ?? prev.category,
@@ -531,11 +583,17 @@ export function FoodScreen() {
         body: JSON.stringify({ url: formState.googleMapsUrl.trim() })
       })
 
+      const existingPlace = response.existingPlace ?? null
       setFormState((prev) => {
         if (!prev) return prev
         return {
           ...prev,
-          name: response.name?.trim() ? response.name : prev.name,
+          placeId: existingPlace?.id ?? prev.placeId,
+          googlePlaceId: response.googlePlaceId ?? prev.googlePlaceId,
+          latitude: response.latitude ?? prev.latitude,
+          longitude: response.longitude ?? prev.longitude,
+          branch: existingPlace?.branch ?? prev.branch,
+          name: existingPlace ? existingPlace.name : response.name?.trim() ? response.name : prev.name,
           address: response.address?.trim() ? response.address : prev.address,
           websiteUrl: response.website?.trim() ? response.website : prev.websiteUrl,
           priceLevel: response.priceLevel?.trim() ? response.priceLevel : prev.priceLevel,
@@ -572,7 +630,7 @@ export function FoodScreen() {
         }
       }
 
-      setMessage("Place details autofilled")
+      setMessage(existingPlace ? `Matched saved place "${existingPlace.name}"` : "Place details autofilled")
     } catch (e) {
       setMessage(e instanceof Error ? e.message : "Failed to parse map URL")
     } finally {
@@ -712,9 +770,12 @@ export function FoodScreen() {
       return
     }
 
+    const partySize = toNumberOrNull(formState.partySize)
     const payload: Partial<FoodEntry> = {
       name,
       branch: formState.branch.trim() || null,
+      latitude: formState.latitude,
+      longitude: formState.longitude,
       visit_date: formState.visitDate.trim() || toDateKey(new Date()),
       category: formState.category.trim() || null,
       address: formState.address.trim() || null,
@@ -738,16 +799,29 @@ export function FoodScreen() {
       price_level: formState.priceLevel.trim() || null,
       dining_type: formState.diningType.trim() || null,
       would_return: formState.wouldReturn === "yes" ? true : formState.wouldReturn === "no" ? false : null,
-      notes: formState.notes.trim() || null
+      party_size: partySize != null ? Math.max(1, Math.round(partySize)) : null,
+      companions: parseCsv(formState.companions),
+      bill_split: formState.billSplit,
+      notes: formState.notes.trim() || null,
+      custom_fields: Object.keys(formState.customFields).length > 0 ? formState.customFields : null
+    }
+
+    const splitError = getBillSplitError(payload as SplittableVisit)
+    if (splitError) {
+      setMessage(splitError)
+      return
     }
 
     setSaving(true)
     setMessage(null)
     try {
+      payload.place_id = await resolveFormPlace(formState, payload)
       if (editingEntry) {
         await updateEntry({ id: editingEntry.id, payload })
+        await syncVisits([{ ...editingEntry, ...payload }])
       } else {
         const created = await createEntry(payload as Partial<FoodEntry> & { name: string })
+        await syncVisits([{ ...created, ...payload }])
         if (queuedImages.length > 0) {
           for (const queued of queuedImages) {
             await addEntryImage({
@@ -770,6 +844,27 @@ export function FoodScreen() {
     }
   }
 
+  /** Keeps the picked place while the name still matches it, otherwise finds or creates one. */
+  async function resolveFormPlace(form: FoodFormState, payload: Partial<FoodEntry>): Promise<string> {
+    const picked = (places ?? []).find((place) => place.id === form.placeId)
+    if (picked && normalizePlaceText(picked.name) === normalizePlaceText(payload.name)) return picked.id
+
+    const fields: FoodPlaceFields = {
+      name: payload.name ?? "",
+      branch: payload.branch ?? null,
+      address: payload.address ?? null,
+      google_place_id: form.googlePlaceId,
+      google_maps_url: payload.google_maps_url ?? null,
+      latitude: payload.latitude ?? null,
+      longitude: payload.longitude ?? null,
+      neighborhood: payload.neighborhood ?? null,
+      city: payload.city ?? null,
+      country: payload.country ?? null
+    }
+    const place = await resolvePlace(fields)
+    return place.id
+  }
+
   async function handleDeleteEntry(id: string) {
     try {
       await deleteEntry(id)
@@ -791,6 +886,18 @@ export function FoodScreen() {
           >
             <Text style={{ color: palette.text, fontWeight: "700", fontSize: 12 }}>AI</Text>
           </Pressable>
+          <Pressable
+            style={[styles.workspaceAction, { borderColor: palette.border, backgroundColor: palette.surface }]}
+            onPress={() => router.push("/food/places")}
+          >
+            <Text style={{ color: palette.text, fontWeight: "700", fontSize: 12 }}>Places</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.workspaceAction, { borderColor: palette.border, backgroundColor: palette.surface }]}
+            onPress={() => setWhereToEatOpen(true)}
+          >
+            <Text style={{ color: palette.text, fontWeight: "700", fontSize: 12 }}>Suggest</Text>
+          </Pressable>
           <Pressable
             style={[styles.workspaceAction, { borderColor: palette.border, backgroundColor: palette.surface }]}
             onPress={() => openCreate(selectedDate ?? undefined)}
@@ -803,6 +910,7 @@ export function FoodScreen() {
           onChange={setWorkspaceMode}
           options={[
             { value: "diary", label: "diary" },
+            { value: "map", label: "map" },
             { value: "analytics", label: "analytics" }
           ]}
         />
@@ -918,12 +1026,30 @@ export function FoodScreen() {
             ))
           )}
         </ScrollView>
+      ) : workspaceMode === "map" ? (
+        <ScrollView contentContainerStyle={styles.analyticsContent}>
+          <FoodVisitMap entries={data ?? []} onOpenEntry={openDetails} />
+        </ScrollView>
       ) : (
         <ScrollView contentContainerStyle={styles.analyticsContent}>
           <FoodAnalyticsPanel entries={data ?? []} />
         </ScrollView>
       )}
 
+      <FoodWhereToEatModal
+        visible={whereToEatOpen}
+        entries={data ?? []}
+        onClose={() => setWhereToEatOpen(false)}
+        onOpenEntry={(entry) => {
+          setWhereToEatOpen(false)
+          void openDetails(entry)
+        }}
+        onLogVisit={(entry) => {
+          setWhereToEatOpen(false)
+          openDuplicate(entry)
+        }}
+      />
+
       <Modal visible={modalOpen && Boolean(formState)} animationType="slide" onRequestClose={closeFormModal}>
         <SafeAreaView style={[styles.modalContainer, { backgroundColor: palette.background }]}>
           <View style={styles.modalHeader}>
@@ -934,7 +1060,7 @@ export function FoodScreen() {
           </View>
 
           <View style={styles.tabRow}>
-            {(["general", "location", "items", "ratings", "notes"] as FormTab[]).map((tab) => (
+            {(["general", "location", "items", "ratings", "split", "notes"] as FormTab[]).map((tab) => (
               <Pressable
                 key={tab}
                 style={[
@@ -1003,7 +1129,7 @@ export function FoodScreen() {
                     style={[styles.input, themedInput(palette), styles.itemsInput]}
                     value={formState.itemsText}
                     onChangeText={(value) => setFormState((prev) => (prev ? { ...prev, itemsText: value } : prev))}
-                    placeholder="Items ordered (one line each): name|price|category|imageUrl"
+                    placeholder="Items ordered (one line each): name|price|category|imageUrl|rating"
                     placeholderTextColor={palette.textMuted}
                     multiline
                     textAlignVertical="top"
@@ -1046,6 +1172,14 @@ export function FoodScreen() {
                               placeholderTextColor={palette.textMuted}
                             />
                           </View>
+                          <TextInput
+                            style={[styles.input, themedInput(palette)]}
+                            value={item.rating != null ? String(item.rating) : ""}
+                            onChangeText={(value) => updateDraftItem(index, { rating: toNumberOrNull(value) })}
+                            placeholder="Dish rating"
+                            placeholderTextColor={palette.textMuted}
+                            keyboardType="decimal-pad"
+                          />
                           <TextInput
                             style={[styles.input, themedInput(palette)]}
                             value={item.image_url ?? ""}
@@ -1107,18 +1241,40 @@ export function FoodScreen() {
                 </>
               ) : null}
 
-              {formTab === "notes" ? (
-                <TextInput
-                  style={[styles.input, themedInput(palette), styles.notesInput]}
-                  value={formState.notes}
-                  onChangeText={(value) => setFormState((prev) => (prev ? { ...prev, notes: value } : prev))}
-                  placeholder="Notes"
-                  placeholderTextColor={palette.textMuted}
-                  multiline
-                  textAlignVertical="top"
+              {formTab === "split" ? (
+                <FoodBillSplitEditor
+                  partySize={formState.partySize}
+                  companions={formState.companions}
+                  split={formState.billSplit}
+                  items={draftItems}
+                  totalPrice={toNumberOrNull(formState.totalPrice)}
+                  currency={formState.currency}
+                  onPartySizeChange={(partySize) => setFormState((prev) => (prev ? { ...prev, partySize } : prev))}
+                  onCompanionsChange={(companions) => setFormState((prev) => (prev ? { ...prev, companions } : prev))}
+                  onSplitChange={(billSplit) => setFormState((prev) => (prev ? { ...prev, billSplit } : prev))}
                 />
               ) : null}
 
+              {formTab === "notes" ? (
+                <>
+                  <TextInput
+                    style={[styles.input, themedInput(palette), styles.notesInput]}
+                    value={formState.notes}
+                    onChangeText={(value) => setFormState((prev) => (prev ? { ...prev, notes: value } : prev))}
+                    placeholder="Notes"
+                    placeholderTextColor={palette.textMuted}
+                    multiline
+                    textAlignVertical="top"
+                  />
+                  <Text style={[styles.sectionLabel, { color: palette.text }]}>Custom Fields</Text>
+                  <CustomFieldsEditor
+                    workspace="food"
+                    values={formState.customFields}
+                    onChange={(customFields) => setFormState((prev) => (prev ? { ...prev, customFields } : prev))}
+                  />
+                </>
+              ) : null}
+
               {editingEntry && entryImages.length > 0 ? (
                 <View style={[styles.imagesBlock, { borderColor: palette.border, backgroundColor: palette.surface }]}>
                   <Text style={[styles.sectionLabel, { color: palette.text }]}>Saved Photos</Text>
@@ -1215,7 +1371,24 @@ export function FoodScreen() {
                   <Text style={{ color: palette.textMuted }}>Cuisine: {(detailEntry.cuisine_type ?? []).join(", ") || "-"}</Text>
                   <Text style={{ color: palette.textMuted }}>Rating: {detailEntry.overall_rating ?? "-"}</Text>
                   <Text style={{ color: palette.textMuted }}>Total: ${foodTotal(detailEntry).toFixed(2)}</Text>
+                  {detailEntry.bill_split || (detailEntry.party_size ?? 1) > 1 ? (
+                    <Text style={{ color: palette.textMuted }}>
+                      My Share: ${(getMyVisitCost(detailEntry) ?? 0).toFixed(2)}
+                      {detailEntry.companions?.length ? ` • With ${detailEntry.companions.join(", ")}` : ""}
+                    </Text>
+                  ) : null}
                   <Text style={{ color: palette.textMuted }}>Would Return: {detailEntry.would_return == null ? "-" : detailEntry.would_return ? "Yes" : "No"}</Text>
+                  {detailEntry.place_id ? (
+                    <Pressable
+                      style={[styles.secondaryButton, themedBorder(palette)]}
+                      onPress={() => {
+                        setDetailsOpen(false)
+                        router.push(`/food/places/${detailEntry.place_id}`)
+                      }}
+                    >
+                      <Text style={{ color: palette.text }}>All Visits to This Place</Text>
+                    </Pressable>
+                  ) : null}
                 </View>
               ) : null}
 
@@ -1250,18 +1423,34 @@ export function FoodScreen() {
                       <Text style={{ color: palette.text }}>Copy Maps URL</Text>
                     </Pressable>
                   </View>
-                  {(detailEntry.items_ordered ?? []).map((item, index) => (
-                    <View key={`${item.name}-${index}`} style={[styles.itemRow, { borderColor: palette.border }]}>
-                      {item.image_url ? <Image source={{ uri: item.image_url }} style={styles.itemDetailThumb} /> : null}
-                      <View style={{ flex: 1 }}>
-                        <Text style={{ color: palette.text }}>{item.name}</Text>
-                        <Text style={{ color: palette.textMuted, fontSize: 12 }}>
-                          Category: {(item.categories?.length ? item.categories.join(", ") : item.category) ?? "-"}
-                        </Text>
-                      </View>
-                      <Text style={{ color: palette.textMuted }}>${item.price ?? 0}</Text>
-                    </View>
-                  ))}
+                  {(detailEntry.items_ordered ?? []).map((item, index) => {
+                    const dish = detailEntry.place_id
+                      ? findDishByName(dishes ?? [], detailEntry.place_id, normalizeDishName(item.name))
+                      : null
+                    return (
+                      <Pressable
+                        key={`${item.name}-${index}`}
+                        style={[styles.itemRow, { borderColor: palette.border }]}
+                        disabled={!dish}
+                        onPress={() => {
+                          if (!dish) return
+                          setDetailsOpen(false)
+                          router.push(`/food/dishes/${dish.id}`)
+                        }}
+                      >
+                        {item.image_url ? <Image source={{ uri: item.image_url }} style={styles.itemDetailThumb} /> : null}
+                        <View style={{ flex: 1 }}>
+                          <Text style={{ color: palette.text }}>{item.name}</Text>
+                          <Text style={{ color: palette.textMuted, fontSize: 12 }}>
+                            Category: {(item.categories?.length ? item.categories.join(", ") : item.category) ?? "-"}
+                            {item.rating != null ? ` • Rating ${item.rating}` : ""}
+                          </Text>
+                        </View>
+                        <Text style={{ color: palette.textMuted }}>${item.price ?? 0}</Text>
+                        {dish ? <Text style={{ color: palette.primary, fontSize: 12 }}>History</Text> : null}
+                      </Pressable>
+                    )
+                  })}
                 </View>
               ) : null}
 
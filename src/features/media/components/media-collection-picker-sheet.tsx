@@ -0,0 +1,115 @@
+import { useState } from "react"
+import { Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native"
+import { SafeAreaView } from "react-native-safe-area-context"
+import { useMediaCollections } from "@/src/features/media/hooks/useMediaCollections"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+interface MediaCollectionPickerSheetProps {
+  visible: boolean
+  entryIds: string[]
+  onClose: () => void
+  onAdded: (message: string) => void
+}
+
+/** Adds the batch selection to an existing collection or to a new one created on the spot. */
+export function MediaCollectionPickerSheet({ visible, entryIds, onClose, onAdded }: MediaCollectionPickerSheetProps) {
+  const { palette } = useAppTheme()
+  const { data: collections, createCollection, addEntries, saving } = useMediaCollections()
+  const [newName, setNewName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  async function addTo(collectionId: string, name: string) {
+    setError(null)
+    try {
+      const added = await addEntries({ collectionId, entryIds })
+      const skipped = entryIds.length - added
+      onAdded(
+        `Added ${added} ${added === 1 ? "entry" : "entries"} to ${name}` +
+          (skipped > 0 ? ` (${skipped} already there)` : "")
+      )
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add to collection")
+    }
+  }
+
+  async function createAndAdd() {
+    setError(null)
+    try {
+      const created = await createCollection({ name: newName, description: null, cover_url: null })
+      setNewName("")
+      await addTo(created.id, created.name)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create collection")
+    }
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={{ flex: 1, backgroundColor: palette.background }}>
+        <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", padding: 16 }}>
+          <Text style={{ color: palette.text, fontSize: 22, fontWeight: "700" }}>Add to Collection</Text>
+          <Pressable onPress={onClose}>
+            <Text style={{ color: palette.primary, fontSize: 16, fontWeight: "600" }}>Close</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView contentInsetAdjustmentBehavior="automatic" contentContainerStyle={{ padding: 16, gap: 16, paddingBottom: 32 }}>
+          <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+            {entryIds.length} selected {entryIds.length === 1 ? "entry" : "entries"} will be appended in their current order.
+          </Text>
+          {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+          <GroupedSection title="Collections">
+            {(collections ?? []).length === 0 ? (
+              <SettingsRow title="No collections yet" subtitle="Create one below." />
+            ) : (
+              (collections ?? []).map((collection) => (
+                <SettingsRow
+                  key={collection.id}
+                  title={collection.name}
+                  value={`${collection.items.length}`}
+                  onPress={saving ? undefined : () => void addTo(collection.id, collection.name)}
+                />
+              ))
+            )}
+          </GroupedSection>
+
+          <GroupedSection title="New Collection">
+            <View style={{ padding: 16, gap: 10 }}>
+              <TextInput
+                value={newName}
+                onChangeText={setNewName}
+                placeholder="Name (e.g. Watch with Mom)"
+                placeholderTextColor={palette.textMuted}
+                style={{
+                  borderRadius: 10,
+                  borderWidth: 1,
+                  borderColor: palette.border,
+                  backgroundColor: palette.surface,
+                  color: palette.text,
+                  paddingHorizontal: 12,
+                  paddingVertical: 10
+                }}
+              />
+              <Pressable
+                disabled={saving || !newName.trim()}
+                onPress={() => void createAndAdd()}
+                style={{
+                  borderRadius: 10,
+                  paddingVertical: 12,
+                  alignItems: "center",
+                  backgroundColor: palette.primary,
+                  opacity: saving || !newName.trim() ? 0.6 : 1
+                }}
+              >
+                <Text style={{ color: palette.primaryText, fontWeight: "700" }}>Create & Add</Text>
+              </Pressable>
+            </View>
+          </GroupedSection>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  )
+}
@@ -1,7 +1,7 @@
 import type { ComponentProps, ReactNode } from "react"
 import { useEffect, useState } from "react"
 import type { ColorValue } from "react-native"
-import { ActivityIndicator, InputAccessoryView, Keyboard, PanResponder, Pressable, Text, TextInput, View } from "react-native"
+import { ActivityIndicator, InputAccessoryView, Keyboard, PanResponder, Pressable, Switch, Text, TextInput, View } from "react-native"
 import Ionicons from "@expo/vector-icons/Ionicons"
 import { BlurView } from "expo-blur"
 import { Image } from "expo-image"
@@ -10,21 +10,29 @@ import { GroupedSection } from "@/src/shared/components/native/grouped-section"
 import { NativeDateField } from "@/src/shared/components/native/native-date-field"
 import { NativeSegmentedControl } from "@/src/shared/components/native/native-segmented-control"
 import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { CustomFieldsEditor } from "@/src/features/custom-fields/components/custom-fields-editor"
+import { MediaPlaySessionsSection } from "@/src/features/media/components/media-play-sessions-section"
+import { MediaNextInSeriesSection, MediaRelationsSection } from "@/src/features/media/components/media-relations-section"
+import { MediaViewingsSection } from "@/src/features/media/components/media-viewings-section"
 import { backendFetch } from "@/src/shared/api/backend"
 import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
 import type { MediaStatusHistory } from "@/src/shared/types/database"
 import {
   MEDIA_EDITOR_TABS,
+  MEDIA_PRIORITY_OPTIONS,
   MEDIA_STATUS_OPTIONS,
   deriveTimeTakenLabel,
   formatEditorDateTime,
   getSuggestedEpisodeNumber,
+  parseSeasonNumber,
   toEpisodeDateInputValue,
   toNumberOrNull,
   type MediaEditorDraft,
   type MediaEditorTab
 } from "@/src/features/media/lib/media-editor"
-import { formatRatingStars, formatRelativeDate } from "@/src/features/media/lib/media-formatters"
+import { formatRatingStars, formatRelativeDate, statusBucket } from "@/src/features/media/lib/media-formatters"
+import { isPodcastMedium } from "@/src/features/media/lib/media-podcast"
+import { PROGRESS_UNITS, formatProgress, resolveProgressUnit } from "@/src/features/media/lib/media-progress"
 import type { MetadataSearchResponse } from "@analytics/contracts"
 
 interface MediaEditorContentProps {
@@ -35,8 +43,10 @@ interface MediaEditorContentProps {
   saving: boolean
   uploadingPoster: boolean
   fetchingMetadata: boolean
+  fetchingEpisodes: boolean
   historyLoading: boolean
   isPersisted: boolean
+  entryId?: string | null
   statusHistory: MediaStatusHistory[]
   showDelete?: boolean
   saveLabel?: string
@@ -45,8 +55,10 @@ interface MediaEditorContentProps {
   onSave: () => void
   onDelete?: () => void
   onUploadPoster: () => void
-  onFetchMetadata: (paramsOverride?: { title?: string; imdb_id?: string }) => void
+  onFetchMetadata: (paramsOverride?: { title?: string; imdb_id?: string; isbn?: string }) => void
+  onFetchEpisodes: () => void
   onAddEpisode: (episode: number) => void
+  onToggleEpisodeWatched: (episode: number) => void
   onFinishedToday: () => void
   onUpdateEpisodeDate: (index: number, watchedAt: string) => void
   onDeleteEpisode: (index: number) => void
@@ -60,8 +72,10 @@ export function MediaEditorContent({
   saving,
   uploadingPoster,
   fetchingMetadata,
+  fetchingEpisodes,
   historyLoading,
   isPersisted,
+  entryId = null,
   statusHistory,
   showDelete = false,
   saveLabel = "Save Changes",
@@ -71,7 +85,9 @@ export function MediaEditorContent({
   onDelete,
   onUploadPoster,
   onFetchMetadata,
+  onFetchEpisodes,
   onAddEpisode,
+  onToggleEpisodeWatched,
   onFinishedToday,
   onUpdateEpisodeDate,
   onDeleteEpisode
@@ -141,7 +157,9 @@ export function MediaEditorContent({
     const timer = setTimeout(async () => {
       setMetadataSearchLoading(true)
       try {
-        const response = await backendFetch<MetadataSearchResponse>(`/api/metadata/search?q=${encodeURIComponent(query)}`)
+        const params = new URLSearchParams({ q: query })
+        if (draft.medium.trim()) params.set("medium", draft.medium.trim())
+        const response = await backendFetch<MetadataSearchResponse>(`/api/metadata/search?${params.toString()}`)
         if (!active) return
         setMetadataSearchResults(response.results ?? [])
       } catch {
@@ -158,15 +176,23 @@ export function MediaEditorContent({
       active = false
       clearTimeout(timer)
     }
-  }, [draft.title])
+  }, [draft.title, draft.medium])
 
   const messageColor = messageTone === "danger" ? palette.danger : palette.primary
   const ratingValue = toNumberOrNull(draft.myRating)
   const ratingStars = formatRatingStars(ratingValue)
+  const progressUnit = resolveProgressUnit({ progress_unit: draft.progressUnit || null, medium: draft.medium })
   const derivedTimeTaken = deriveTimeTakenLabel(draft.startDate, draft.finishDate)
   const totalEpisodes = toNumberOrNull(draft.episodes)
   const pendingEpisode = toNumberOrNull(episodeDraft)
   const canAddEpisode = Boolean(pendingEpisode && pendingEpisode > 0 && (!totalEpisodes || pendingEpisode <= totalEpisodes))
+  const seasonNumber = parseSeasonNumber(draft.season)
+  const isPodcast = isPodcastMedium(draft.medium)
+  // Podcast feeds list newest first; seasons read in order
+  const seasonEpisodes = isPodcast
+    ? draft.episodeMetadata?.source === "rss" ? [...draft.episodeMetadata.episodes].reverse() : []
+    : draft.episodeMetadata?.season === seasonNumber ? draft.episodeMetadata.episodes : []
+  const loggedEpisodes = new Set(draft.episodeHistoryDraft.map((record) => record.episode))
   const sortedEpisodeHistory = draft.episodeHistoryDraft
     .map((record, originalIndex) => ({ record, originalIndex }))
     .sort((left, right) => {
@@ -319,14 +345,14 @@ export function MediaEditorContent({
                     onPress={() => {
                       setMetadataSearchResults([])
                       onDraftChange({ title: result.title })
-                      onFetchMetadata({ title: result.title, imdb_id: result.imdb_id ?? undefined })
+                      onFetchMetadata({ title: result.title, imdb_id: result.imdb_id ?? undefined, isbn: result.isbn ?? undefined })
                     }}
                   >
                     <Text selectable style={{ color: palette.text, fontSize: 15, fontWeight: "700" }}>
                       {result.title}
                     </Text>
                     <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
-                      {result.year ?? "-"} • {result.media_type.toUpperCase()}
+                      {[result.year ?? "-", result.media_type.toUpperCase(), (result.authors ?? result.platforms)?.slice(0, 2).join(", ")].filter(Boolean).join(" • ")}
                     </Text>
                   </Pressable>
                 ))}
@@ -378,6 +404,39 @@ export function MediaEditorContent({
               </View>
             </FieldShell>
 
+            {statusBucket(draft.status) === "planned" ? (
+              <>
+                <Divider color={palette.border} />
+                <FieldShell>
+                  <FieldLabel label="Watchlist Priority" />
+                  <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                    {MEDIA_PRIORITY_OPTIONS.map((option) => {
+                      const selected = (toNumberOrNull(draft.priority) ?? 3) === option.value
+                      return (
+                        <Pressable
+                          key={option.value}
+                          onPress={() => onDraftChange({ priority: String(option.value) })}
+                          style={{
+                            borderWidth: 1,
+                            borderColor: selected ? palette.primary : palette.border,
+                            backgroundColor: selected ? palette.primary : palette.surfaceMuted,
+                            borderRadius: 999,
+                            borderCurve: "continuous",
+                            paddingHorizontal: 12,
+                            paddingVertical: 8
+                          }}
+                        >
+                          <Text selectable style={{ color: selected ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "700" }}>
+                            {option.label}
+                          </Text>
+                        </Pressable>
+                      )
+                    })}
+                  </View>
+                </FieldShell>
+              </>
+            ) : null}
+
             <Divider color={palette.border} />
 
             <FieldShell>
@@ -421,6 +480,12 @@ export function MediaEditorContent({
             </FieldShell>
           </GroupedSection>
 
+          <MediaNextInSeriesSection
+            entryId={isPersisted ? entryId : null}
+            finished={draft.status === "Finished"}
+            cardStyle={editorCardStyle}
+          />
+
           <GroupedSection title="DATES & PROGRESS" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
             <View style={{ paddingHorizontal: 16, paddingTop: 14, paddingBottom: 6, gap: 12 }}>
               <View style={{ flexDirection: "row", gap: 10 }}>
@@ -433,32 +498,93 @@ export function MediaEditorContent({
               </View>
 
               <View style={{ gap: 8 }}>
-                <FieldLabel label="Episodes Watched" />
-                <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
-                  <InlineInput
-                    palette={palette}
-                    resolvedTheme={resolvedTheme}
-                    inputAccessoryViewID={keyboardAccessoryId}
-                    placeholder="0"
-                    value={draft.episodesWatched}
-                    onChangeText={(value) => onDraftChange({ episodesWatched: value })}
-                    keyboardType="numeric"
-                  />
-                  <Text selectable style={{ color: palette.textMuted, fontSize: 22, fontWeight: "700" }}>
-                    /
-                  </Text>
-                  <InlineInput
-                    palette={palette}
-                    resolvedTheme={resolvedTheme}
-                    inputAccessoryViewID={keyboardAccessoryId}
-                    placeholder="1"
-                    value={draft.episodes}
-                    onChangeText={(value) => onDraftChange({ episodes: value })}
-                    keyboardType="numeric"
-                  />
+                <FieldLabel label="Progress Unit" />
+                <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+                  {PROGRESS_UNITS.map((unit) => {
+                    const selected = progressUnit === unit.value
+                    return (
+                      <Pressable
+                        key={unit.value}
+                        onPress={() => onDraftChange({ progressUnit: unit.value })}
+                        style={{
+                          borderWidth: 1,
+                          borderColor: selected ? palette.primary : palette.border,
+                          backgroundColor: selected ? palette.primary : palette.surfaceMuted,
+                          borderRadius: 999,
+                          borderCurve: "continuous",
+                          paddingHorizontal: 12,
+                          paddingVertical: 8
+                        }}
+                      >
+                        <Text selectable style={{ color: selected ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "700" }}>
+                          {unit.label}
+                        </Text>
+                      </Pressable>
+                    )
+                  })}
                 </View>
               </View>
 
+              {progressUnit === "episodes" ? (
+                <View style={{ gap: 8 }}>
+                  <FieldLabel label="Episodes Watched" />
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                    <InlineInput
+                      palette={palette}
+                      resolvedTheme={resolvedTheme}
+                      inputAccessoryViewID={keyboardAccessoryId}
+                      placeholder="0"
+                      value={draft.episodesWatched}
+                      onChangeText={(value) => onDraftChange({ episodesWatched: value })}
+                      keyboardType="numeric"
+                    />
+                    <Text selectable style={{ color: palette.textMuted, fontSize: 22, fontWeight: "700" }}>
+                      /
+                    </Text>
+                    <InlineInput
+                      palette={palette}
+                      resolvedTheme={resolvedTheme}
+                      inputAccessoryViewID={keyboardAccessoryId}
+                      placeholder="1"
+                      value={draft.episodes}
+                      onChangeText={(value) => onDraftChange({ episodes: value })}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                </View>
+              ) : (
+                <View style={{ gap: 8 }}>
+                  <FieldLabel label={progressUnit === "percent" ? "Percent Complete" : "Progress"} />
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                    <InlineInput
+                      palette={palette}
+                      resolvedTheme={resolvedTheme}
+                      inputAccessoryViewID={keyboardAccessoryId}
+                      placeholder="0"
+                      value={draft.progressCurrent}
+                      onChangeText={(value) => onDraftChange({ progressCurrent: value })}
+                      keyboardType="numeric"
+                    />
+                    {progressUnit !== "percent" ? (
+                      <>
+                        <Text selectable style={{ color: palette.textMuted, fontSize: 22, fontWeight: "700" }}>
+                          /
+                        </Text>
+                        <InlineInput
+                          palette={palette}
+                          resolvedTheme={resolvedTheme}
+                          inputAccessoryViewID={keyboardAccessoryId}
+                          placeholder="Total"
+                          value={draft.progressTotal}
+                          onChangeText={(value) => onDraftChange({ progressTotal: value })}
+                          keyboardType="numeric"
+                        />
+                      </>
+                    ) : null}
+                  </View>
+                </View>
+              )}
+
               <View style={{ gap: 8 }}>
                 <FieldLabel label="My Rating" />
                 <View
@@ -509,22 +635,40 @@ export function MediaEditorContent({
             </FieldShell>
           </GroupedSection>
 
-          <GroupedSection title="NOTES" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+          <GroupedSection
+            title="REVIEW"
+            footer="Reviews marked as spoilers stay hidden in lists until revealed."
+            titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }}
+            cardStyle={editorCardStyle}
+          >
             <FieldShell>
               <TextInput
-                editable={false}
                 multiline
                 textAlignVertical="top"
-                placeholder="Notes are not yet supported for the main entry."
+                inputAccessoryViewID={keyboardAccessoryId}
+                placeholder="What did you think?"
                 placeholderTextColor={palette.textMuted}
+                value={draft.review}
+                onChangeText={(value) => onDraftChange({ review: value })}
                 style={{
-                  color: palette.textMuted,
+                  color: palette.text,
                   fontSize: 15,
                   minHeight: 120,
                   padding: 0
                 }}
               />
             </FieldShell>
+            <Divider color={palette.border} />
+            <FieldShell>
+              <View style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", gap: 12 }}>
+                <FieldLabel label="Contains Spoilers" />
+                <Switch
+                  value={draft.reviewHasSpoilers}
+                  disabled={!draft.review.trim()}
+                  onValueChange={(value) => onDraftChange({ reviewHasSpoilers: value })}
+                />
+              </View>
+            </FieldShell>
           </GroupedSection>
         </>
       ) : null}
@@ -588,6 +732,20 @@ export function MediaEditorContent({
               />
             </FieldShell>
             <Divider color={palette.border} />
+            <FieldShell>
+              <FieldLabel label="Currency" />
+              <FieldInput
+                palette={palette}
+                resolvedTheme={resolvedTheme}
+                inputAccessoryViewID={keyboardAccessoryId}
+                placeholder="e.g. EUR (blank = home currency)"
+                value={draft.currency}
+                onChangeText={(value) => onDraftChange({ currency: value.toUpperCase() })}
+                autoCapitalize="characters"
+                maxLength={3}
+              />
+            </FieldShell>
+            <Divider color={palette.border} />
             <FieldShell>
               <FieldLabel label="Average Rating (IMDb/External)" />
               <FieldInput
@@ -604,7 +762,7 @@ export function MediaEditorContent({
 
           <GroupedSection
             title="CATALOGING"
-            footer="Separate multiple genres with commas."
+            footer="Separate multiple genres or tags with commas."
             titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }}
             cardStyle={editorCardStyle}
           >
@@ -631,12 +789,120 @@ export function MediaEditorContent({
                 onChangeText={(value) => onDraftChange({ genre: value })}
               />
             </FieldShell>
+            <Divider color={palette.border} />
+            <FieldShell>
+              <FieldLabel label="Tags" />
+              <FieldInput
+                palette={palette}
+                resolvedTheme={resolvedTheme}
+                inputAccessoryViewID={keyboardAccessoryId}
+                placeholder="comfort watch, with friends"
+                value={draft.tags}
+                onChangeText={(value) => onDraftChange({ tags: value })}
+                autoCapitalize="none"
+              />
+            </FieldShell>
+          </GroupedSection>
+
+          <GroupedSection title="CUSTOM FIELDS" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+            <View style={{ padding: 16 }}>
+              <CustomFieldsEditor
+                workspace="media"
+                values={draft.customFields}
+                onChange={(customFields) => onDraftChange({ customFields })}
+              />
+            </View>
+          </GroupedSection>
+
+          <GroupedSection title="FRANCHISE" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+            <View style={{ padding: 16 }}>
+              <MediaRelationsSection entryId={isPersisted ? entryId : null} />
+            </View>
           </GroupedSection>
         </>
       ) : null}
 
       {tab === "episodes" ? (
         <>
+          <GroupedSection
+            title={isPodcast ? "FEED EPISODES" : `SEASON ${seasonNumber} EPISODES`}
+            titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }}
+            cardStyle={editorCardStyle}
+          >
+            <View style={{ padding: 16, gap: 12 }}>
+              {isPodcast ? (
+                <View style={{ gap: 8 }}>
+                  <FieldLabel label="RSS Feed URL" />
+                  <FieldInput
+                    palette={palette}
+                    resolvedTheme={resolvedTheme}
+                    inputAccessoryViewID={keyboardAccessoryId}
+                    placeholder="https://feeds.example.com/show.xml"
+                    value={draft.feedUrl}
+                    onChangeText={(value) => onDraftChange({ feedUrl: value })}
+                    autoCapitalize="none"
+                  />
+                </View>
+              ) : null}
+
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+                <Text selectable style={{ flex: 1, color: palette.textMuted, fontSize: 13 }}>
+                  {seasonEpisodes.length > 0
+                    ? `${seasonEpisodes.filter((item) => loggedEpisodes.has(item.episode)).length} of ${seasonEpisodes.length} ${isPodcast ? "listened" : "watched"} • ${draft.episodeMetadata?.source.toUpperCase()}`
+                    : isPodcast
+                      ? "Load episodes, publish dates and durations from the feed."
+                      : "Load titles, air dates and runtimes for this season."}
+                </Text>
+                <View style={{ width: 120 }}>
+                  <ActionButton
+                    palette={palette}
+                    label={fetchingEpisodes ? "Loading..." : seasonEpisodes.length > 0 ? "Refresh" : isPodcast ? "Load Feed" : "Load Episodes"}
+                    disabled={fetchingEpisodes}
+                    onPress={onFetchEpisodes}
+                  />
+                </View>
+              </View>
+
+              {seasonEpisodes.map((item) => {
+                const watched = loggedEpisodes.has(item.episode)
+                const details = [
+                  item.air_date,
+                  item.runtime_minutes ? `${item.runtime_minutes}m` : null,
+                  item.rating ? `★ ${item.rating.toFixed(1)}` : null
+                ].filter(Boolean).join(" • ")
+
+                return (
+                  <Pressable
+                    key={item.episode}
+                    onPress={() => onToggleEpisodeWatched(item.episode)}
+                    style={({ pressed }) => ({
+                      flexDirection: "row",
+                      alignItems: "center",
+                      gap: 12,
+                      opacity: pressed ? 0.7 : 1
+                    })}
+                  >
+                    <Ionicons
+                      name={watched ? "checkmark-circle" : "ellipse-outline"}
+                      size={26}
+                      color={watched ? palette.primary : palette.textMuted}
+                    />
+                    <View style={{ flex: 1, gap: 2 }}>
+                      <Text selectable numberOfLines={1} style={{ color: palette.text, fontSize: 15, fontWeight: "600" }}>
+                        {item.episode}. {item.title ?? `Episode ${item.episode}`}
+                      </Text>
+                      {details ? (
+                        <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
+                          {details}
+                        </Text>
+                      ) : null}
+                    </View>
+                  </Pressable>
+                )
+              })}
+            </View>
+          </GroupedSection>
+
           <GroupedSection title="EPISODE WATCH HISTORY" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
             <View style={{ padding: 16, gap: 14 }}>
               <View style={{ gap: 10 }}>
@@ -779,60 +1045,96 @@ export function MediaEditorContent({
       ) : null}
 
       {tab === "history" ? (
-        <GroupedSection title="STATUS HISTORY" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
-          <View style={{ padding: 16, gap: 12 }}>
-            {!isPersisted ? (
-              <View
-                style={{
-                  borderWidth: 1,
-                  borderColor: palette.border,
-                  borderRadius: 20,
-                  borderCurve: "continuous",
-                  backgroundColor: palette.surfaceMuted,
-                  paddingHorizontal: 18,
-                  paddingVertical: 24,
-                  gap: 6
-                }}
-              >
-                <Text selectable style={{ color: palette.text, fontSize: 17, fontWeight: "700" }}>
-                  Save the entry first
-                </Text>
-                <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
-                  Status history will appear here after the entry exists and statuses change.
-                </Text>
+        <>
+          {draft.medium.trim().toLowerCase() === "game" ? (
+            <GroupedSection title="PLAY SESSIONS" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+              <View style={{ padding: 16 }}>
+                <MediaPlaySessionsSection entryId={isPersisted ? entryId : null} defaultPlatform={draft.platform} />
               </View>
-            ) : historyLoading ? (
-              <ActivityIndicator color={palette.primary} />
-            ) : statusHistory.length === 0 ? (
-              <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
-                No history found.
-              </Text>
-            ) : (
-              statusHistory.map((historyItem) => (
+            </GroupedSection>
+          ) : null}
+
+          <GroupedSection title="REWATCHES" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+            <View style={{ padding: 16 }}>
+              <MediaViewingsSection entryId={isPersisted ? entryId : null} defaultPlatform={draft.platform} />
+            </View>
+          </GroupedSection>
+
+          {draft.progressHistoryDraft.length > 0 ? (
+            <GroupedSection title="PROGRESS LOG" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+              <View style={{ padding: 16, gap: 10 }}>
+                {[...draft.progressHistoryDraft].reverse().map((record, index) => (
+                  <View
+                    key={`${record.recorded_at}-${index}`}
+                    style={{ flexDirection: "row", alignItems: "center", justifyContent: "space-between", gap: 12 }}
+                  >
+                    <Text selectable style={{ color: palette.text, fontSize: 15, fontWeight: "600" }}>
+                      {formatProgress({ unit: record.unit, current: record.value, total: null })}
+                    </Text>
+                    <Text selectable style={{ color: palette.textMuted, fontSize: 13 }}>
+                      {formatEditorDateTime(record.recorded_at)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </GroupedSection>
+          ) : null}
+
+          <GroupedSection title="STATUS HISTORY" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={editorCardStyle}>
+            <View style={{ padding: 16, gap: 12 }}>
+              {!isPersisted ? (
                 <View
-                  key={historyItem.id}
                   style={{
                     borderWidth: 1,
                     borderColor: palette.border,
-                    borderRadius: 18,
+                    borderRadius: 20,
                     borderCurve: "continuous",
-                    backgroundColor: palette.surface,
-                    paddingHorizontal: 14,
-                    paddingVertical: 12,
-                    gap: 4
+                    backgroundColor: palette.surfaceMuted,
+                    paddingHorizontal: 18,
+                    paddingVertical: 24,
+                    gap: 6
                   }}
                 >
-                  <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: "700" }}>
-                    {historyItem.old_status ?? "None"} {"->"} {historyItem.new_status}
+                  <Text selectable style={{ color: palette.text, fontSize: 17, fontWeight: "700" }}>
+                    Save the entry first
                   </Text>
-                  <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
-                    {formatEditorDateTime(historyItem.changed_at)}
+                  <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+                    Status history will appear here after the entry exists and statuses change.
                   </Text>
                 </View>
-              ))
-            )}
-          </View>
-        </GroupedSection>
+              ) : historyLoading ? (
+                <ActivityIndicator color={palette.primary} />
+              ) : statusHistory.length === 0 ? (
+                <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+                  No history found.
+                </Text>
+              ) : (
+                statusHistory.map((historyItem) => (
+                  <View
+                    key={historyItem.id}
+                    style={{
+                      borderWidth: 1,
+                      borderColor: palette.border,
+                      borderRadius: 18,
+                      borderCurve: "continuous",
+                      backgroundColor: palette.surface,
+                      paddingHorizontal: 14,
+                      paddingVertical: 12,
+                      gap: 4
+                    }}
+                  >
+                    <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: "700" }}>
+                      {historyItem.old_status ?? "None"} {"->"} {historyItem.new_status}
+                    </Text>
+                    <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
+                      {formatEditorDateTime(historyItem.changed_at)}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </GroupedSection>
+        </>
       ) : null}
 
       <View style={{ gap: 10, paddingTop: 4 }}>
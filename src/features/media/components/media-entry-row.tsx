@@ -1,3 +1,4 @@
+import { useState } from "react"
 import { Pressable, Text, View } from "react-native"
 import { Ionicons } from "@expo/vector-icons"
 import { Image } from "expo-image"
@@ -21,6 +22,7 @@ export function MediaEntryRow({
   onPress
 }: MediaEntryRowProps) {
   const monthDay = toMonthDay(entry.finish_date ?? entry.start_date)
+  const [spoilerRevealed, setSpoilerRevealed] = useState(false)
 
   return (
     <Pressable
@@ -82,10 +84,22 @@ export function MediaEntryRow({
         <View style={{ flexDirection: "row", alignItems: "center", flexWrap: "wrap", gap: 6 }}>
           {entry.medium ? <RowTag label={entry.medium} palette={palette} /> : null}
           {entry.status ? <RowTag label={entry.status} palette={palette} tone={entry.status === "Finished" ? "success" : "default"} /> : null}
+          {(entry.tags ?? []).map((tag) => <RowTag key={tag} label={`#${tag}`} palette={palette} />)}
         </View>
         <Text selectable style={{ color: palette.textMuted, fontSize: 12, fontWeight: "500" }}>
           {formatRatingStars(entry.my_rating)} {entry.my_rating != null ? entry.my_rating.toFixed(1) : "-"}
         </Text>
+        {entry.review ? (
+          entry.review_has_spoilers && !spoilerRevealed ? (
+            <Pressable onPress={() => setSpoilerRevealed(true)} hitSlop={6}>
+              <Text style={{ color: palette.primary, fontSize: 12, fontWeight: "600" }}>Review contains spoilers · Tap to reveal</Text>
+            </Pressable>
+          ) : (
+            <Text selectable numberOfLines={2} style={{ color: palette.text, fontSize: 13 }}>
+              {entry.review}
+            </Text>
+          )
+        ) : null}
       </View>
 
       {selectMode ? (
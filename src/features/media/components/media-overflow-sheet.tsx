@@ -13,7 +13,10 @@ interface MediaOverflowSheetProps {
   onClose: () => void
   onPickRandomPlanned: () => void
   onBatchFetchMetadata: () => void
+  onRefreshFeeds: () => void
   onOpenImport: () => void
+  onOpenSubscriptions: () => void
+  onOpenCollections: () => void
   onToggleSelectMode: () => void
   onSetSortKey: (key: SortKey) => void
   onToggleSortDirection: () => void
@@ -27,7 +30,10 @@ export function MediaOverflowSheet({
   onClose,
   onPickRandomPlanned,
   onBatchFetchMetadata,
+  onRefreshFeeds,
   onOpenImport,
+  onOpenSubscriptions,
+  onOpenCollections,
   onToggleSelectMode,
   onSetSortKey,
   onToggleSortDirection
@@ -51,7 +57,10 @@ export function MediaOverflowSheet({
       sortDescending ? "Descending order" : "Ascending order",
       "Watch This",
       "Batch Metadata",
+      "Refresh Podcast Feeds",
       "Import CSV / TSV / TXT",
+      "Subscriptions",
+      "Collections",
       selectMode ? "Leave Select Mode" : "Enter Select Mode",
       "Cancel"
     ]
@@ -84,9 +93,18 @@ export function MediaOverflowSheet({
             onBatchFetchMetadata()
             break
           case 6:
-            onOpenImport()
+            onRefreshFeeds()
             break
           case 7:
+            onOpenImport()
+            break
+          case 8:
+            onOpenSubscriptions()
+            break
+          case 9:
+            onOpenCollections()
+            break
+          case 10:
             onToggleSelectMode()
             break
           default:
@@ -99,8 +117,11 @@ export function MediaOverflowSheet({
     isIos,
     onBatchFetchMetadata,
     onClose,
+    onOpenCollections,
     onOpenImport,
+    onOpenSubscriptions,
     onPickRandomPlanned,
+    onRefreshFeeds,
     onSetSortKey,
     onToggleSelectMode,
     onToggleSortDirection,
@@ -156,9 +177,12 @@ export function MediaOverflowSheet({
           </GroupedSection>
 
           <GroupedSection title="Tools">
-            <SettingsRow title="Watch This" subtitle="Pick a random item from your planned list" onPress={onPickRandomPlanned} />
+            <SettingsRow title="Watch This" subtitle="Weighted pick from your planned list" onPress={onPickRandomPlanned} />
             <SettingsRow title="Batch Metadata" subtitle="Refresh missing metadata across visible items" onPress={onBatchFetchMetadata} />
+            <SettingsRow title="Refresh Podcast Feeds" subtitle="Pull new episodes from every podcast's RSS feed" onPress={onRefreshFeeds} />
             <SettingsRow title="Import CSV / TSV / TXT" subtitle="Open the import workspace in a sheet" onPress={onOpenImport} />
+            <SettingsRow title="Subscriptions" subtitle="Track platform costs for cost-per-hour analytics" onPress={onOpenSubscriptions} />
+            <SettingsRow title="Collections" subtitle="Curated, ordered lists like marathons or award slates" onPress={onOpenCollections} />
             <SettingsRow
               title={selectMode ? "Leave Select Mode" : "Enter Select Mode"}
               subtitle="Batch edit, finish, fetch, or delete selected entries"
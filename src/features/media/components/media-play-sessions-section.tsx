@@ -0,0 +1,237 @@
+import { useState } from "react"
+import { Pressable, Text, TextInput, View } from "react-native"
+import { useMediaPlaySessions, type MediaPlaySessionInput } from "@/src/features/media/hooks/useMediaPlaySessions"
+import { toNumberOrNull } from "@/src/features/media/lib/media-editor"
+import { NativeDateField } from "@/src/shared/components/native/native-date-field"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { MediaPlaySession } from "@/src/shared/types/database"
+
+interface MediaPlaySessionsSectionProps {
+  entryId: string | null
+  defaultPlatform: string
+}
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function formatHours(minutes: number): string {
+  const hours = minutes / 60
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(1)} h`
+}
+
+/** Hours played per day for a game; their total is the game's playtime in analytics. */
+export function MediaPlaySessionsSection({ entryId, defaultPlatform }: MediaPlaySessionsSectionProps) {
+  const { palette } = useAppTheme()
+  const { data, createSession, updateSession, deleteSession, saving } = useMediaPlaySessions()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [playedOn, setPlayedOn] = useState(todayIsoDate())
+  const [hours, setHours] = useState("")
+  const [platform, setPlatform] = useState("")
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  if (!entryId) {
+    return (
+      <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+        Save the entry first to log play sessions.
+      </Text>
+    )
+  }
+
+  const sessions = (data ?? []).filter((session) => session.media_entry_id === entryId)
+  const totalMinutes = sessions.reduce((sum, session) => sum + session.duration_minutes, 0)
+  const inputStyle = {
+    minHeight: 44,
+    borderRadius: 14,
+    borderCurve: "continuous" as const,
+    borderWidth: 1,
+    borderColor: palette.border,
+    backgroundColor: palette.surfaceMuted,
+    color: palette.text,
+    paddingHorizontal: 12,
+    fontSize: 15
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setPlayedOn(todayIsoDate())
+    setHours("")
+    setPlatform("")
+    setNotes("")
+  }
+
+  function editSession(session: MediaPlaySession) {
+    setError(null)
+    setEditingId(session.id)
+    setPlayedOn(session.played_on)
+    setHours(String(Math.round((session.duration_minutes / 60) * 100) / 100))
+    setPlatform(session.platform ?? "")
+    setNotes(session.notes ?? "")
+  }
+
+  async function submit() {
+    if (!entryId) return
+    setError(null)
+    const parsedHours = toNumberOrNull(hours)
+    if (parsedHours == null || parsedHours <= 0) {
+      setError("Hours played must be greater than 0")
+      return
+    }
+    if (!playedOn) {
+      setError("Pick the day you played")
+      return
+    }
+
+    const payload: MediaPlaySessionInput = {
+      played_on: playedOn,
+      duration_minutes: Math.round(parsedHours * 60),
+      platform: platform.trim() || defaultPlatform.trim() || null,
+      notes: notes.trim() || null
+    }
+
+    try {
+      if (editingId) {
+        await updateSession({ id: editingId, patch: payload })
+      } else {
+        await createSession({ mediaEntryId: entryId, payload })
+      }
+      resetForm()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save session")
+    }
+  }
+
+  async function remove(id: string) {
+    setError(null)
+    try {
+      await deleteSession(id)
+      if (editingId === id) resetForm()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete session")
+    }
+  }
+
+  return (
+    <View style={{ gap: 12 }}>
+      {sessions.length === 0 ? (
+        <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+          No play sessions yet.
+        </Text>
+      ) : (
+        <>
+          <Text selectable style={{ color: palette.text, fontSize: 15, fontWeight: "700" }}>
+            {formatHours(totalMinutes)} across {sessions.length} {sessions.length === 1 ? "session" : "sessions"}
+          </Text>
+          {sessions.map((session) => {
+            const details = [session.played_on, formatHours(session.duration_minutes), session.platform].filter(Boolean).join(" • ")
+
+            return (
+              <View
+                key={session.id}
+                style={{
+                  borderWidth: 1,
+                  borderColor: editingId === session.id ? palette.primary : palette.border,
+                  borderRadius: 18,
+                  borderCurve: "continuous",
+                  backgroundColor: palette.surface,
+                  paddingHorizontal: 14,
+                  paddingVertical: 12,
+                  gap: 4
+                }}
+              >
+                <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: "700" }}>
+                  {details}
+                </Text>
+                {session.notes ? (
+                  <Text selectable style={{ color: palette.text, fontSize: 13 }}>
+                    {session.notes}
+                  </Text>
+                ) : null}
+                <View style={{ flexDirection: "row", gap: 16, paddingTop: 4 }}>
+                  <Pressable onPress={() => editSession(session)}>
+                    <Text style={{ color: palette.primary, fontWeight: "600" }}>Edit</Text>
+                  </Pressable>
+                  <Pressable onPress={() => void remove(session.id)}>
+                    <Text style={{ color: palette.danger, fontWeight: "600" }}>Delete</Text>
+                  </Pressable>
+                </View>
+              </View>
+            )
+          })}
+        </>
+      )}
+
+      <View style={{ gap: 10 }}>
+        <NativeDateField label="Played On" value={playedOn} onChange={setPlayedOn} />
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <TextInput
+            style={[inputStyle, { flex: 1 }]}
+            value={hours}
+            onChangeText={setHours}
+            keyboardType="decimal-pad"
+            placeholder="Hours played"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={[inputStyle, { flex: 1 }]}
+            value={platform}
+            onChangeText={setPlatform}
+            placeholder={defaultPlatform || "Platform"}
+            placeholderTextColor={palette.textMuted}
+          />
+        </View>
+        <TextInput
+          style={[inputStyle, { minHeight: 64, paddingTop: 10, textAlignVertical: "top" }]}
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+          placeholder="Notes"
+          placeholderTextColor={palette.textMuted}
+        />
+        {error ? (
+          <Text selectable style={{ color: palette.danger, fontSize: 13 }}>
+            {error}
+          </Text>
+        ) : null}
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <Pressable
+            disabled={saving}
+            onPress={() => void submit()}
+            style={({ pressed }) => ({
+              flex: 1,
+              minHeight: 44,
+              borderRadius: 16,
+              borderCurve: "continuous",
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: palette.primary,
+              opacity: saving ? 0.6 : pressed ? 0.82 : 1
+            })}
+          >
+            <Text style={{ color: palette.primaryText, fontSize: 14, fontWeight: "700" }}>
+              {editingId ? "Update Session" : "Log Session"}
+            </Text>
+          </Pressable>
+          {editingId ? (
+            <Pressable
+              onPress={resetForm}
+              style={({ pressed }) => ({
+                flex: 1,
+                minHeight: 44,
+                borderRadius: 16,
+                borderCurve: "continuous",
+                alignItems: "center",
+                justifyContent: "center",
+                backgroundColor: palette.surfaceMuted,
+                opacity: pressed ? 0.82 : 1
+              })}
+            >
+              <Text style={{ color: palette.primary, fontSize: 14, fontWeight: "700" }}>Cancel</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,334 @@
+import { useState } from "react"
+import { Pressable, Text, TextInput, View, type StyleProp, type ViewStyle } from "react-native"
+import type { FranchiseResponse } from "@analytics/contracts"
+import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
+import { useMediaRelations } from "@/src/features/media/hooks/useMediaRelations"
+import {
+  MEDIA_RELATION_TYPES,
+  buildFranchiseTimeline,
+  getEntryRelations,
+  getNextInSeries,
+  suggestAdaptations,
+  suggestRelationsFromFranchise,
+  type MediaRelationDraft,
+  type MediaRelationSuggestion
+} from "@/src/features/media/lib/media-relations"
+import { backendFetch } from "@/src/shared/api/backend"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { MediaEntry, MediaRelationType } from "@/src/shared/types/database"
+
+type Palette = ReturnType<typeof useAppTheme>["palette"]
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function describeEntry(entry: MediaEntry): string {
+  return [entry.medium, entry.season, entry.status].filter(Boolean).join(" • ")
+}
+
+/** Franchise timeline, typed links to other entries and TMDB-backed suggestions for one saved entry. */
+export function MediaRelationsSection({ entryId }: { entryId: string | null }) {
+  const { palette } = useAppTheme()
+  const { data: entries } = useMediaEntries()
+  const { data: relations, createRelations, deleteRelation, saving } = useMediaRelations()
+  const [relationType, setRelationType] = useState<MediaRelationType>("sequel_of")
+  const [search, setSearch] = useState("")
+  const [franchise, setFranchise] = useState<FranchiseResponse | null>(null)
+  const [lookingUp, setLookingUp] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const entry = (entries ?? []).find((item) => item.id === entryId) ?? null
+  if (!entryId || !entry) {
+    return (
+      <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+        Save the entry first to link sequels, seasons and adaptations.
+      </Text>
+    )
+  }
+
+  const current = entry
+  const allEntries = entries ?? []
+  const allRelations = relations ?? []
+  const timeline = buildFranchiseTimeline(current.id, allEntries, allRelations)
+  const linked = getEntryRelations(current.id, allRelations, allEntries)
+  const franchiseSuggestions = franchise ? suggestRelationsFromFranchise(franchise, allEntries, allRelations) : []
+  const suggestions = [...franchiseSuggestions, ...suggestAdaptations(current, allEntries, allRelations)]
+  const entriesById = new Map(allEntries.map((item) => [item.id, item]))
+  const query = search.trim().toLowerCase()
+  const candidates = query
+    ? allEntries.filter((item) => item.id !== current.id && item.title.toLowerCase().includes(query)).slice(0, 6)
+    : []
+
+  async function run(action: () => Promise<string | null>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update relations")
+    }
+  }
+
+  function link(drafts: MediaRelationDraft[]) {
+    void run(async () => {
+      const added = await createRelations(drafts)
+      setSearch("")
+      return `Linked ${added} ${added === 1 ? "entry" : "entries"}`
+    })
+  }
+
+  function lookUpFranchise() {
+    setLookingUp(true)
+    void run(async () => {
+      const params = new URLSearchParams({ title: current.title })
+      if (current.imdb_id) params.set("imdb_id", current.imdb_id)
+      if (current.medium === "Movie") params.set("type", "movie")
+      if (current.medium === "TV Show") params.set("type", "series")
+
+      try {
+        const response = await backendFetch<FranchiseResponse>(`/api/metadata/franchise?${params.toString()}`)
+        setFranchise(response)
+        const found = suggestRelationsFromFranchise(response, allEntries, allRelations).length
+        return found > 0
+          ? `${response.name}: ${found} link${found === 1 ? "" : "s"} to suggest`
+          : `${response.name}: your library has no unlinked parts`
+      } finally {
+        setLookingUp(false)
+      }
+    })
+  }
+
+  return (
+    <View style={{ gap: 14 }}>
+      {timeline.length > 1 ? (
+        <View style={{ gap: 8 }}>
+          <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>Timeline</Text>
+          {timeline.map((item, index) => (
+            <View key={item.id} style={{ flexDirection: "row", gap: 10, alignItems: "center" }}>
+              <View
+                style={{
+                  width: 24,
+                  height: 24,
+                  borderRadius: 12,
+                  alignItems: "center",
+                  justifyContent: "center",
+                  backgroundColor: item.id === current.id ? palette.primary : palette.surfaceMuted
+                }}
+              >
+                <Text style={{ color: item.id === current.id ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "700" }}>
+                  {index + 1}
+                </Text>
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: item.id === current.id ? "700" : "600" }}>
+                  {item.title}
+                </Text>
+                <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>{describeEntry(item)}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {linked.length > 0 ? (
+        <View style={{ gap: 8 }}>
+          <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>Links</Text>
+          {linked.map((view) => (
+            <View key={view.relation.id} style={{ flexDirection: "row", alignItems: "center", gap: 12 }}>
+              <Text selectable style={{ flex: 1, color: palette.text, fontSize: 14 }}>
+                {view.label} <Text style={{ fontWeight: "700" }}>{view.other.title}</Text>
+              </Text>
+              <Pressable
+                disabled={saving}
+                onPress={() => void run(async () => {
+                  await deleteRelation(view.relation.id)
+                  return null
+                })}
+              >
+                <Text style={{ color: palette.danger, fontWeight: "600" }}>Remove</Text>
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      {suggestions.length > 0 ? (
+        <View style={{ gap: 8 }}>
+          <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>Suggested</Text>
+          {suggestions.map((suggestion) => (
+            <SuggestionRow
+              key={`${suggestion.from_entry_id}-${suggestion.to_entry_id}`}
+              palette={palette}
+              suggestion={suggestion}
+              entriesById={entriesById}
+              disabled={saving}
+              onLink={() => link([suggestion])}
+            />
+          ))}
+          {suggestions.length > 1 ? (
+            <Pressable disabled={saving} onPress={() => link(suggestions)}>
+              <Text style={{ color: palette.primary, fontSize: 13, fontWeight: "700" }}>Link All</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      ) : null}
+
+      <View style={{ gap: 8 }}>
+        <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>This entry is…</Text>
+        <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
+          {MEDIA_RELATION_TYPES.map((option) => {
+            const active = option.value === relationType
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => setRelationType(option.value)}
+                style={{
+                  borderWidth: 1,
+                  borderColor: active ? palette.primary : palette.border,
+                  borderRadius: 999,
+                  paddingHorizontal: 12,
+                  paddingVertical: 7,
+                  backgroundColor: active ? palette.primary : palette.surface
+                }}
+              >
+                <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 13, fontWeight: "600" }}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            )
+          })}
+        </View>
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder="Search your library"
+          placeholderTextColor={palette.textMuted}
+          style={{
+            minHeight: 44,
+            borderRadius: 14,
+            borderCurve: "continuous",
+            borderWidth: 1,
+            borderColor: palette.border,
+            backgroundColor: palette.surfaceMuted,
+            color: palette.text,
+            paddingHorizontal: 12,
+            fontSize: 15
+          }}
+        />
+        {candidates.map((candidate) => (
+          <Pressable
+            key={candidate.id}
+            disabled={saving}
+            onPress={() => link([{ from_entry_id: current.id, to_entry_id: candidate.id, relation_type: relationType }])}
+            style={({ pressed }) => ({ paddingVertical: 6, opacity: pressed ? 0.6 : 1 })}
+          >
+            <Text style={{ color: palette.text, fontSize: 14, fontWeight: "600" }}>{candidate.title}</Text>
+            <Text style={{ color: palette.textMuted, fontSize: 12 }}>{describeEntry(candidate)}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Pressable disabled={lookingUp} onPress={lookUpFranchise}>
+        <Text style={{ color: palette.primary, fontSize: 13, fontWeight: "700", opacity: lookingUp ? 0.6 : 1 }}>
+          {lookingUp ? "Looking up…" : "Suggest from TMDB"}
+        </Text>
+      </Pressable>
+
+      {message ? <Text selectable style={{ color: palette.textMuted, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+    </View>
+  )
+}
+
+function SuggestionRow({
+  palette,
+  suggestion,
+  entriesById,
+  disabled,
+  onLink
+}: {
+  palette: Palette
+  suggestion: MediaRelationSuggestion
+  entriesById: Map<string, MediaEntry>
+  disabled: boolean
+  onLink: () => void
+}) {
+  const from = entriesById.get(suggestion.from_entry_id)
+  const to = entriesById.get(suggestion.to_entry_id)
+  const label = MEDIA_RELATION_TYPES.find((option) => option.value === suggestion.relation_type)?.label ?? suggestion.relation_type
+
+  return (
+    <View style={{ flexDirection: "row", alignItems: "center", gap: 12 }}>
+      <View style={{ flex: 1, gap: 2 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 14 }}>
+          <Text style={{ fontWeight: "700" }}>{from?.title ?? "?"}</Text> {label.toLowerCase()}{" "}
+          <Text style={{ fontWeight: "700" }}>{to?.title ?? "?"}</Text>
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>{suggestion.reason}</Text>
+      </View>
+      <Pressable disabled={disabled} onPress={onLink}>
+        <Text style={{ color: palette.primary, fontWeight: "700" }}>Link</Text>
+      </Pressable>
+    </View>
+  )
+}
+
+/**
+ * Unfinished sequels and next seasons of a finished entry, each with a one-tap start.
+ * Renders nothing until the entry is saved as Finished and has a linked follow-up.
+ */
+export function MediaNextInSeriesSection({
+  entryId,
+  finished,
+  cardStyle
+}: {
+  entryId: string | null
+  finished: boolean
+  cardStyle?: StyleProp<ViewStyle>
+}) {
+  const { palette } = useAppTheme()
+  const { data: entries, updateEntry } = useMediaEntries()
+  const { data: relations } = useMediaRelations()
+  const [startedId, setStartedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!entryId || !finished) return null
+  const next = getNextInSeries(entryId, entries ?? [], relations ?? [])
+  if (next.length === 0) return null
+
+  async function start(entry: MediaEntry) {
+    setError(null)
+    try {
+      await updateEntry({ id: entry.id, payload: { status: "Watching", start_date: entry.start_date ?? todayIsoDate() } })
+      setStartedId(entry.id)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to start entry")
+    }
+  }
+
+  return (
+    <GroupedSection title="NEXT IN SERIES" titleStyle={{ fontSize: 12, fontWeight: "800", letterSpacing: 0.8 }} cardStyle={cardStyle}>
+      <View style={{ padding: 16, gap: 10 }}>
+        {next.map((entry) => (
+          <View key={entry.id} style={{ flexDirection: "row", alignItems: "center", gap: 12 }}>
+            <View style={{ flex: 1 }}>
+              <Text selectable style={{ color: palette.text, fontSize: 15, fontWeight: "700" }}>{entry.title}</Text>
+              <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>{describeEntry(entry)}</Text>
+            </View>
+            {entry.status === "Watching" ? (
+              <Text style={{ color: palette.success, fontWeight: "700" }}>{startedId === entry.id ? "Started" : "Watching"}</Text>
+            ) : (
+              <Pressable onPress={() => void start(entry)}>
+                <Text style={{ color: palette.primary, fontWeight: "700" }}>Start</Text>
+              </Pressable>
+            )}
+          </View>
+        ))}
+        {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+      </View>
+    </GroupedSection>
+  )
+}
@@ -9,6 +9,7 @@ interface MediaSelectionToolbarProps {
   onBatchEdit: () => void
   onBatchFetch: () => void
   onBatchFinish: () => void
+  onAddToCollection: () => void
   onBatchDelete: () => void
 }
 
@@ -18,6 +19,7 @@ export function MediaSelectionToolbar({
   onBatchEdit,
   onBatchFetch,
   onBatchFinish,
+  onAddToCollection,
   onBatchDelete
 }: MediaSelectionToolbarProps) {
   const { palette, resolvedTheme } = useAppTheme()
@@ -68,6 +70,7 @@ export function MediaSelectionToolbar({
             <ToolbarAction label="Batch Edit" disabled={disabled} palette={palette} onPress={onBatchEdit} />
             <ToolbarAction label="Batch Fetch" disabled={disabled} palette={palette} onPress={onBatchFetch} />
             <ToolbarAction label="Finish" disabled={disabled} palette={palette} onPress={onBatchFinish} />
+            <ToolbarAction label="Add to Collection" disabled={disabled} palette={palette} onPress={onAddToCollection} />
             <ToolbarAction label="Delete" disabled={disabled} destructive palette={palette} onPress={onBatchDelete} />
           </View>
         </View>
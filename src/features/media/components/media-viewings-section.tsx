@@ -0,0 +1,249 @@
+import { useState } from "react"
+import { Pressable, Text, TextInput, View } from "react-native"
+import { useMediaViewings, type MediaViewingInput } from "@/src/features/media/hooks/useMediaViewings"
+import { toNumberOrNull } from "@/src/features/media/lib/media-editor"
+import { NativeDateField } from "@/src/shared/components/native/native-date-field"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { MediaViewing } from "@/src/shared/types/database"
+
+interface MediaViewingsSectionProps {
+  entryId: string | null
+  defaultPlatform: string
+}
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/** Rewatches of an entry; the entry's own dates and rating stay the first viewing. */
+export function MediaViewingsSection({ entryId, defaultPlatform }: MediaViewingsSectionProps) {
+  const { palette } = useAppTheme()
+  const { data, createViewing, updateViewing, deleteViewing, saving } = useMediaViewings()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [startDate, setStartDate] = useState(todayIsoDate())
+  const [finishDate, setFinishDate] = useState("")
+  const [rating, setRating] = useState("")
+  const [platform, setPlatform] = useState("")
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  if (!entryId) {
+    return (
+      <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+        Save the entry first to log rewatches.
+      </Text>
+    )
+  }
+
+  const viewings = (data ?? []).filter((viewing) => viewing.media_entry_id === entryId)
+  const inputStyle = {
+    minHeight: 44,
+    borderRadius: 14,
+    borderCurve: "continuous" as const,
+    borderWidth: 1,
+    borderColor: palette.border,
+    backgroundColor: palette.surfaceMuted,
+    color: palette.text,
+    paddingHorizontal: 12,
+    fontSize: 15
+  }
+
+  function resetForm() {
+    setEditingId(null)
+    setStartDate(todayIsoDate())
+    setFinishDate("")
+    setRating("")
+    setPlatform("")
+    setNotes("")
+  }
+
+  function editViewing(viewing: MediaViewing) {
+    setError(null)
+    setEditingId(viewing.id)
+    setStartDate(viewing.start_date ?? todayIsoDate())
+    setFinishDate(viewing.finish_date ?? "")
+    setRating(viewing.rating != null ? String(viewing.rating) : "")
+    setPlatform(viewing.platform ?? "")
+    setNotes(viewing.notes ?? "")
+  }
+
+  async function submit() {
+    if (!entryId) return
+    setError(null)
+    const parsedRating = toNumberOrNull(rating)
+    if (rating.trim() && (parsedRating == null || parsedRating < 0 || parsedRating > 10)) {
+      setError("Rating must be between 0 and 10")
+      return
+    }
+    if (finishDate && finishDate < startDate) {
+      setError("Finish date must be after the start date")
+      return
+    }
+
+    const payload: MediaViewingInput = {
+      start_date: startDate || null,
+      finish_date: finishDate || null,
+      rating: parsedRating,
+      platform: platform.trim() || defaultPlatform.trim() || null,
+      notes: notes.trim() || null
+    }
+
+    try {
+      if (editingId) {
+        await updateViewing({ id: editingId, patch: payload })
+      } else {
+        await createViewing({ mediaEntryId: entryId, payload })
+      }
+      resetForm()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save viewing")
+    }
+  }
+
+  async function remove(id: string) {
+    setError(null)
+    try {
+      await deleteViewing(id)
+      if (editingId === id) resetForm()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete viewing")
+    }
+  }
+
+  return (
+    <View style={{ gap: 12 }}>
+      {viewings.length === 0 ? (
+        <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+          No rewatches yet.
+        </Text>
+      ) : (
+        viewings.map((viewing, index) => {
+          const details = [
+            viewing.finish_date ? `${viewing.start_date ?? "?"} → ${viewing.finish_date}` : `Started ${viewing.start_date ?? "?"}`,
+            viewing.rating != null ? `★ ${viewing.rating}` : null,
+            viewing.platform
+          ].filter(Boolean).join(" • ")
+
+          return (
+            <View
+              key={viewing.id}
+              style={{
+                borderWidth: 1,
+                borderColor: editingId === viewing.id ? palette.primary : palette.border,
+                borderRadius: 18,
+                borderCurve: "continuous",
+                backgroundColor: palette.surface,
+                paddingHorizontal: 14,
+                paddingVertical: 12,
+                gap: 4
+              }}
+            >
+              <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: "700" }}>
+                Rewatch {viewings.length - index}
+              </Text>
+              <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
+                {details}
+              </Text>
+              {viewing.notes ? (
+                <Text selectable style={{ color: palette.text, fontSize: 13 }}>
+                  {viewing.notes}
+                </Text>
+              ) : null}
+              <View style={{ flexDirection: "row", gap: 16, paddingTop: 4 }}>
+                <Pressable onPress={() => editViewing(viewing)}>
+                  <Text style={{ color: palette.primary, fontWeight: "600" }}>Edit</Text>
+                </Pressable>
+                <Pressable onPress={() => void remove(viewing.id)}>
+                  <Text style={{ color: palette.danger, fontWeight: "600" }}>Delete</Text>
+                </Pressable>
+              </View>
+            </View>
+          )
+        })
+      )}
+
+      <View style={{ gap: 10 }}>
+        <NativeDateField label="Rewatch Started" value={startDate} onChange={setStartDate} />
+        {finishDate ? (
+          <View style={{ gap: 6 }}>
+            <NativeDateField label="Rewatch Finished" value={finishDate} onChange={setFinishDate} />
+            <Pressable onPress={() => setFinishDate("")}>
+              <Text style={{ color: palette.primary, fontSize: 13, fontWeight: "600" }}>Still watching</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <Pressable onPress={() => setFinishDate(todayIsoDate())}>
+            <Text style={{ color: palette.primary, fontSize: 13, fontWeight: "600" }}>Set finish date</Text>
+          </Pressable>
+        )}
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <TextInput
+            style={[inputStyle, { flex: 1 }]}
+            value={rating}
+            onChangeText={setRating}
+            keyboardType="decimal-pad"
+            placeholder="Rating (0-10)"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={[inputStyle, { flex: 1 }]}
+            value={platform}
+            onChangeText={setPlatform}
+            placeholder={defaultPlatform || "Platform"}
+            placeholderTextColor={palette.textMuted}
+          />
+        </View>
+        <TextInput
+          style={[inputStyle, { minHeight: 64, paddingTop: 10, textAlignVertical: "top" }]}
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+          placeholder="Notes"
+          placeholderTextColor={palette.textMuted}
+        />
+        {error ? (
+          <Text selectable style={{ color: palette.danger, fontSize: 13 }}>
+            {error}
+          </Text>
+        ) : null}
+        <View style={{ flexDirection: "row", gap: 10 }}>
+          <Pressable
+            disabled={saving}
+            onPress={() => void submit()}
+            style={({ pressed }) => ({
+              flex: 1,
+              minHeight: 44,
+              borderRadius: 16,
+              borderCurve: "continuous",
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: palette.primary,
+              opacity: saving ? 0.6 : pressed ? 0.82 : 1
+            })}
+          >
+            <Text style={{ color: palette.primaryText, fontSize: 14, fontWeight: "700" }}>
+              {editingId ? "Update Rewatch" : "Log Rewatch"}
+            </Text>
+          </Pressable>
+          {editingId ? (
+            <Pressable
+              onPress={resetForm}
+              style={({ pressed }) => ({
+                flex: 1,
+                minHeight: 44,
+                borderRadius: 16,
+                borderCurve: "continuous",
+                alignItems: "center",
+                justifyContent: "center",
+                backgroundColor: palette.surfaceMuted,
+                opacity: pressed ? 0.82 : 1
+              })}
+            >
+              <Text style={{ color: palette.primary, fontSize: 14, fontWeight: "700" }}>Cancel</Text>
+            </Pressable>
+          ) : null}
+        </View>
+      </View>
+    </View>
+  )
+}
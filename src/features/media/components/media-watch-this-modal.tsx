@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ActivityIndicator, Modal, Pressable, ScrollView, Text, View } from "react-native"
+import { statusBucket } from "@/src/features/media/lib/media-formatters"
+import {
+  DEFAULT_WATCH_PICKER_CONSTRAINTS,
+  pickWatchCandidate,
+  scoreWatchCandidates,
+  type WatchPick,
+  type WatchPickerConstraints
+} from "@/src/features/media/lib/media-picker"
+import { backendFetch } from "@/src/shared/api/backend"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { MediaEntry } from "@/src/shared/types/database"
+
+interface MediaWatchThisModalProps {
+  visible: boolean
+  entries: MediaEntry[]
+  onClose: () => void
+  onOpenEntry: (entry: MediaEntry) => void
+}
+
+const TIME_OPTIONS: Array<{ label: string; minutes: number | null }> = [
+  { label: "Any", minutes: null },
+  { label: "30 min", minutes: 30 },
+  { label: "1 h", minutes: 60 },
+  { label: "1.5 h", minutes: 90 },
+  { label: "2 h", minutes: 120 },
+  { label: "3 h", minutes: 180 }
+]
+
+// Only the most common planned genres are offered so the mood row stays one or two lines
+const MAX_MOOD_OPTIONS = 12
+
+/** Weighted pick from the planned list, with its reasons and constraints to reroll against. */
+export function MediaWatchThisModal({ visible, entries, onClose, onOpenEntry }: MediaWatchThisModalProps) {
+  const { palette } = useAppTheme()
+  const [constraints, setConstraints] = useState<WatchPickerConstraints>(DEFAULT_WATCH_PICKER_CONSTRAINTS)
+  const [pick, setPick] = useState<WatchPick | null>(null)
+  const [synopsis, setSynopsis] = useState("")
+  const [synopsisLoading, setSynopsisLoading] = useState(false)
+  // Bumped on every pick so a slow synopsis for an earlier pick cannot overwrite the current one
+  const synopsisRequestRef = useRef(0)
+
+  const options = useMemo(() => {
+    const genreCounts = new Map<string, number>()
+    const mediums = new Set<string>()
+    for (const entry of entries) {
+      if (statusBucket(entry.status) !== "planned") continue
+      if (entry.medium) mediums.add(entry.medium)
+      for (const genre of entry.genre ?? []) genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1)
+    }
+    return {
+      genres: [...genreCounts.entries()]
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .slice(0, MAX_MOOD_OPTIONS)
+        .map(([genre]) => genre),
+      mediums: [...mediums].sort()
+    }
+  }, [entries])
+
+  useEffect(() => {
+    if (!visible) return
+    setConstraints(DEFAULT_WATCH_PICKER_CONSTRAINTS)
+    roll(DEFAULT_WATCH_PICKER_CONSTRAINTS)
+    // Rolling only on open; entry refetches while the modal is up should not swap the pick
+  }, [visible])
+
+  function roll(next: WatchPickerConstraints) {
+    let candidates = scoreWatchCandidates(entries, next)
+    // Every fitting title has been shown this session: start the cycle over
+    if (candidates.length === 0 && next.excludeIds.length > 0) {
+      next = { ...next, excludeIds: [] }
+      candidates = scoreWatchCandidates(entries, next)
+    }
+
+    const result = pickWatchCandidate(candidates, next)
+    setPick(result)
+    if (result) {
+      setConstraints({ ...next, excludeIds: [...next.excludeIds, result.candidate.entry.id] })
+      void loadSynopsis(result.candidate.entry)
+    } else {
+      synopsisRequestRef.current += 1
+      setConstraints(next)
+      setSynopsis("")
+      setSynopsisLoading(false)
+    }
+  }
+
+  function updateConstraints(patch: Partial<WatchPickerConstraints>) {
+    roll({ ...constraints, ...patch, excludeIds: [] })
+  }
+
+  function toggleValue(values: string[], value: string): string[] {
+    return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+  }
+
+  async function loadSynopsis(entry: MediaEntry) {
+    const request = ++synopsisRequestRef.current
+    setSynopsisLoading(true)
+    setSynopsis("")
+    try {
+      const params = new URLSearchParams()
+      params.set("source", "tmdb")
+      if (entry.imdb_id) params.set("imdb_id", entry.imdb_id)
+      if (entry.title) params.set("title", entry.title)
+      if (entry.medium) params.set("medium", entry.medium)
+      if (entry.medium === "Movie") params.set("type", "movie")
+      if (entry.medium === "TV Show") params.set("type", "series")
+      const metadata = await backendFetch<Record<string, unknown>>(`/api/metadata?${params.toString()}`)
+      if (request !== synopsisRequestRef.current) return
+      setSynopsis(typeof metadata.plot === "string" ? metadata.plot : "No synopsis available.")
+    } catch {
+      if (request !== synopsisRequestRef.current) return
+      setSynopsis("Could not load synopsis.")
+    } finally {
+      if (request === synopsisRequestRef.current) setSynopsisLoading(false)
+    }
+  }
+
+  const entry = pick?.candidate.entry ?? null
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={{ flex: 1, backgroundColor: palette.overlay, justifyContent: "center", padding: 16 }}>
+        <View
+          style={{
+            borderWidth: 1,
+            borderColor: palette.border,
+            borderRadius: 24,
+            borderCurve: "continuous",
+            backgroundColor: palette.surface,
+            padding: 18,
+            gap: 12,
+            maxHeight: "90%"
+          }}
+        >
+          <Text style={{ color: palette.text, fontSize: 20, fontWeight: "700" }}>Watch This</Text>
+
+          <ScrollView contentContainerStyle={{ gap: 12 }}>
+            {entry && pick ? (
+              <View style={{ gap: 6 }}>
+                <Text selectable style={{ color: palette.text, fontSize: 17, fontWeight: "700" }}>{entry.title}</Text>
+                <Text selectable style={{ color: palette.textMuted, fontSize: 12 }}>
+                  {[entry.medium ?? entry.type, pick.candidate.sittingMinutes ? `${pick.candidate.sittingMinutes} min` : null]
+                    .filter(Boolean)
+                    .join(" • ") || "-"}
+                </Text>
+                {pick.reasons.map((reason) => (
+                  <Text key={reason} selectable style={{ color: palette.text, fontSize: 13 }}>
+                    • {reason}
+                  </Text>
+                ))}
+                {synopsisLoading ? (
+                  <ActivityIndicator color={palette.primary} />
+                ) : (
+                  <Text selectable style={{ color: palette.textMuted, fontSize: 13 }}>{synopsis || "No synopsis available."}</Text>
+                )}
+              </View>
+            ) : (
+              <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>
+                Nothing on your list fits these filters.
+              </Text>
+            )}
+
+            <ChipRow
+              label="I have"
+              options={TIME_OPTIONS.map((option) => option.label)}
+              selected={[TIME_OPTIONS.find((option) => option.minutes === constraints.availableMinutes)?.label ?? "Any"]}
+              onToggle={(label) =>
+                updateConstraints({ availableMinutes: TIME_OPTIONS.find((option) => option.label === label)?.minutes ?? null })
+              }
+            />
+            {options.genres.length > 0 ? (
+              <ChipRow
+                label="Mood"
+                options={options.genres}
+                selected={constraints.genres}
+                onToggle={(genre) => updateConstraints({ genres: toggleValue(constraints.genres, genre) })}
+              />
+            ) : null}
+            {options.mediums.length > 1 ? (
+              <ChipRow
+                label="Medium"
+                options={options.mediums}
+                selected={constraints.mediums}
+                onToggle={(medium) => updateConstraints({ mediums: toggleValue(constraints.mediums, medium) })}
+              />
+            ) : null}
+          </ScrollView>
+
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            <DialogButton label="Close" onPress={onClose} />
+            <DialogButton label="Reroll" onPress={() => roll(constraints)} />
+            <DialogButton
+              label="Open"
+              filled
+              disabled={!entry}
+              onPress={() => {
+                if (entry) onOpenEntry(entry)
+              }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+function ChipRow({
+  label,
+  options,
+  selected,
+  onToggle
+}: {
+  label: string
+  options: string[]
+  selected: string[]
+  onToggle: (value: string) => void
+}) {
+  const { palette } = useAppTheme()
+
+  return (
+    <View style={{ gap: 6 }}>
+      <Text style={{ color: palette.textMuted, fontSize: 12, fontWeight: "700" }}>{label}</Text>
+      <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 6 }}>
+        {options.map((option) => {
+          const active = selected.includes(option)
+          return (
+            <Pressable
+              key={option}
+              onPress={() => onToggle(option)}
+              style={{
+                borderWidth: 1,
+                borderColor: active ? palette.primary : palette.border,
+                borderRadius: 999,
+                paddingHorizontal: 10,
+                paddingVertical: 6,
+                backgroundColor: active ? palette.primary : palette.surfaceMuted
+              }}
+            >
+              <Text style={{ color: active ? palette.primaryText : palette.text, fontSize: 12, fontWeight: "600" }}>{option}</Text>
+            </Pressable>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+function DialogButton({
+  label,
+  onPress,
+  filled = false,
+  disabled = false
+}: {
+  label: string
+  onPress: () => void
+  filled?: boolean
+  disabled?: boolean
+}) {
+  const { palette } = useAppTheme()
+
+  return (
+    <Pressable
+      disabled={disabled}
+      onPress={onPress}
+      style={{
+        flex: 1,
+        borderWidth: 1,
+        borderColor: filled ? palette.primary : palette.border,
+        borderRadius: 12,
+        paddingVertical: 12,
+        alignItems: "center",
+        backgroundColor: filled ? palette.primary : "transparent",
+        opacity: disabled ? 0.5 : 1
+      }}
+    >
+      <Text style={{ color: filled ? palette.primaryText : palette.text, fontWeight: "700" }}>{label}</Text>
+    </Pressable>
+  )
+}
@@ -4,19 +4,31 @@ import { Image } from "expo-image"
 import type { MediaEntry } from "@/src/shared/types/database"
 import type { ThemePalette } from "@/src/shared/theme/ThemeProvider"
 import { formatRelativeDate, formatShortDate, progressPercent } from "@/src/features/media/lib/media-formatters"
+import {
+  PROGRESS_STEP,
+  formatProgress,
+  getEntryProgress,
+  isReadingUnit,
+  type ProgressUnit
+} from "@/src/features/media/lib/media-progress"
 
 interface MediaWatchingShelfProps {
   entries: MediaEntry[]
   palette: ThemePalette
   onOpenEntry: (entry: MediaEntry) => void
-  onAddEpisode: (entry: MediaEntry) => void
+  onStepProgress: (entry: MediaEntry, direction: 1 | -1) => void
+}
+
+function stepLabel(unit: ProgressUnit): string {
+  if (unit === "episodes") return "Episode"
+  return formatProgress({ unit, current: PROGRESS_STEP[unit], total: null })
 }
 
 export function MediaWatchingShelf({
   entries,
   palette,
   onOpenEntry,
-  onAddEpisode
+  onStepProgress
 }: MediaWatchingShelfProps) {
   if (entries.length === 0) return null
 
@@ -34,6 +46,8 @@ export function MediaWatchingShelf({
       <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 14, paddingRight: 16 }}>
         {entries.map((entry) => {
           const progress = progressPercent(entry)
+          const entryProgress = getEntryProgress(entry)
+          const showProgressLabel = entryProgress.unit !== "episodes" || entryProgress.total != null
           return (
             <View
               key={entry.id}
@@ -74,9 +88,7 @@ export function MediaWatchingShelf({
                   <View style={{ flexDirection: "row", flexWrap: "wrap", gap: 8 }}>
                     {entry.medium ? <MetaCapsule label={entry.medium} palette={palette} /> : null}
                     {entry.season ? <MetaCapsule label={entry.season} palette={palette} /> : null}
-                    {entry.episodes ? (
-                      <MetaCapsule label={`${entry.episodes_watched ?? 0}/${entry.episodes} eps`} palette={palette} />
-                    ) : null}
+                    {showProgressLabel ? <MetaCapsule label={formatProgress(entryProgress)} palette={palette} /> : null}
                   </View>
 
                   <View style={{ gap: 4 }}>
@@ -84,7 +96,7 @@ export function MediaWatchingShelf({
                       {entry.title}
                     </Text>
                     <Text selectable style={{ color: palette.textMuted, fontSize: 13, fontWeight: "500" }}>
-                      Last watched {formatRelativeDate(entry.last_watched_at ?? entry.updated_at)}
+                      {isReadingUnit(entryProgress.unit) ? "Last read" : "Last watched"} {formatRelativeDate(entry.last_watched_at ?? entry.updated_at)}
                     </Text>
                   </View>
 
@@ -123,21 +135,41 @@ export function MediaWatchingShelf({
                   <Text selectable style={{ color: palette.textMuted, fontSize: 13, fontWeight: "500" }}>
                     Started {formatShortDate(entry.start_date ?? entry.updated_at)}
                   </Text>
-                  <Pressable
-                    onPress={() => onAddEpisode(entry)}
-                    style={({ pressed }) => ({
-                      paddingHorizontal: 14,
-                      paddingVertical: 8,
-                      borderRadius: 999,
-                      borderCurve: "continuous",
-                      backgroundColor: palette.primary,
-                      opacity: pressed ? 0.75 : 1
-                    })}
-                  >
-                    <Text selectable style={{ color: palette.primaryText, fontSize: 13, fontWeight: "700" }}>
-                      + Episode
-                    </Text>
-                  </Pressable>
+                  <View style={{ flexDirection: "row", gap: 8 }}>
+                    {entryProgress.unit !== "episodes" ? (
+                      <Pressable
+                        disabled={entryProgress.current <= 0}
+                        onPress={() => onStepProgress(entry, -1)}
+                        style={({ pressed }) => ({
+                          paddingHorizontal: 12,
+                          paddingVertical: 8,
+                          borderRadius: 999,
+                          borderCurve: "continuous",
+                          backgroundColor: palette.surfaceMuted,
+                          opacity: entryProgress.current <= 0 ? 0.4 : pressed ? 0.75 : 1
+                        })}
+                      >
+                        <Text selectable style={{ color: palette.text, fontSize: 13, fontWeight: "700" }}>
+                          −
+                        </Text>
+                      </Pressable>
+                    ) : null}
+                    <Pressable
+                      onPress={() => onStepProgress(entry, 1)}
+                      style={({ pressed }) => ({
+                        paddingHorizontal: 14,
+                        paddingVertical: 8,
+                        borderRadius: 999,
+                        borderCurve: "continuous",
+                        backgroundColor: palette.primary,
+                        opacity: pressed ? 0.75 : 1
+                      })}
+                    >
+                      <Text selectable style={{ color: palette.primaryText, fontSize: 13, fontWeight: "700" }}>
+                        + {stepLabel(entryProgress.unit)}
+                      </Text>
+                    </Pressable>
+                  </View>
                 </View>
               </View>
             </View>
@@ -0,0 +1,163 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  groupCollectionItems,
+  planCollectionAppend,
+  type MediaCollectionPositionUpdate,
+  type MediaCollectionWithItems
+} from "@/src/features/media/lib/media-collections"
+import { supabase } from "@/src/shared/api/supabase"
+import type { MediaCollection, MediaCollectionItem } from "@/src/shared/types/database"
+
+export type MediaCollectionInput = Pick<MediaCollection, "name" | "description" | "cover_url">
+
+export function useMediaCollections() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["media-collections"] })
+
+  const query = useQuery({
+    queryKey: ["media-collections"],
+    queryFn: async (): Promise<MediaCollectionWithItems[]> => {
+      const [collectionsResult, itemsResult] = await Promise.all([
+        supabase.from("media_collections").select("*").order("name", { ascending: true }),
+        supabase.from("media_collection_items").select("*").order("position", { ascending: true })
+      ])
+
+      if (collectionsResult.error) throw collectionsResult.error
+      if (itemsResult.error) throw itemsResult.error
+      return groupCollectionItems(
+        (collectionsResult.data ?? []) as MediaCollection[],
+        (itemsResult.data ?? []) as MediaCollectionItem[]
+      )
+    }
+  })
+
+  async function requireUserId(): Promise<string> {
+    const { data: authData } = await supabase.auth.getUser()
+    const userId = authData.user?.id
+    if (!userId) throw new Error("Not authenticated")
+    return userId
+  }
+
+  // Names double as analytics filter values, so they are kept unique per user
+  function assertUniqueName(name: string, exceptId?: string) {
+    const taken = (query.data ?? []).some(
+      (collection) => collection.id !== exceptId && collection.name.toLowerCase() === name.toLowerCase()
+    )
+    if (taken) throw new Error(`A collection named "${name}" already exists`)
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (input: MediaCollectionInput) => {
+      const userId = await requireUserId()
+      const name = input.name.trim()
+      if (!name) throw new Error("Collection name is required")
+      assertUniqueName(name)
+
+      const { data, error } = await supabase
+        .from("media_collections")
+        .insert({
+          user_id: userId,
+          name,
+          description: input.description?.trim() || null,
+          cover_url: input.cover_url?.trim() || null
+        })
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as MediaCollection
+    },
+    onSuccess: invalidate
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<MediaCollectionInput> }) => {
+      if (patch.name !== undefined) {
+        if (!patch.name.trim()) throw new Error("Collection name is required")
+        assertUniqueName(patch.name.trim(), id)
+      }
+
+      const { error } = await supabase
+        .from("media_collections")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: itemsError } = await supabase.from("media_collection_items").delete().eq("collection_id", id)
+      if (itemsError) throw itemsError
+
+      const { error } = await supabase.from("media_collections").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const addEntriesMutation = useMutation({
+    mutationFn: async ({ collectionId, entryIds }: { collectionId: string; entryIds: string[] }) => {
+      // Read current members from the table rather than the cache so a just-created collection works too
+      const { data: existing, error: existingError } = await supabase
+        .from("media_collection_items")
+        .select("media_entry_id, position")
+        .eq("collection_id", collectionId)
+
+      if (existingError) throw existingError
+
+      const rows = planCollectionAppend((existing ?? []) as Pick<MediaCollectionItem, "media_entry_id" | "position">[], entryIds)
+      if (rows.length === 0) return 0
+
+      const userId = await requireUserId()
+      const { error } = await supabase
+        .from("media_collection_items")
+        .insert(rows.map((row) => ({ ...row, collection_id: collectionId, user_id: userId })))
+
+      if (error) throw error
+      return rows.length
+    },
+    onSuccess: invalidate
+  })
+
+  const removeItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase.from("media_collection_items").delete().eq("id", itemId)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const reorderMutation = useMutation({
+    mutationFn: async (updates: MediaCollectionPositionUpdate[]) => {
+      for (const update of updates) {
+        const { error } = await supabase
+          .from("media_collection_items")
+          .update({ position: update.position })
+          .eq("id", update.id)
+
+        if (error) throw error
+      }
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createCollection: createMutation.mutateAsync,
+    updateCollection: updateMutation.mutateAsync,
+    deleteCollection: deleteMutation.mutateAsync,
+    addEntries: addEntriesMutation.mutateAsync,
+    removeItem: removeItemMutation.mutateAsync,
+    reorderItems: reorderMutation.mutateAsync,
+    saving:
+      createMutation.isPending ||
+      updateMutation.isPending ||
+      deleteMutation.isPending ||
+      addEntriesMutation.isPending ||
+      removeItemMutation.isPending ||
+      reorderMutation.isPending
+  }
+}
@@ -17,7 +17,6 @@ export function useMediaEntries(options: UseMediaEntriesOptions = {}) {
       const { data, error } = await supabase
         .from("media_entries")
         .select("*")
-        .neq("medium", "Book")
         .order("created_at", { ascending: false })
 
       if (error) throw error
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/src/shared/api/supabase"
+import type { MediaPlaySession } from "@/src/shared/types/database"
+
+export type MediaPlaySessionInput = Pick<MediaPlaySession, "played_on" | "duration_minutes" | "platform" | "notes">
+
+export function useMediaPlaySessions() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["media-play-sessions"] })
+
+  const query = useQuery({
+    queryKey: ["media-play-sessions"],
+    queryFn: async (): Promise<MediaPlaySession[]> => {
+      const { data, error } = await supabase
+        .from("media_play_sessions")
+        .select("*")
+        .order("played_on", { ascending: false })
+
+      if (error) throw error
+      return (data ?? []) as MediaPlaySession[]
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async ({ mediaEntryId, payload }: { mediaEntryId: string; payload: MediaPlaySessionInput }) => {
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      const { data, error } = await supabase
+        .from("media_play_sessions")
+        .insert({ ...payload, media_entry_id: mediaEntryId, user_id: userId })
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as MediaPlaySession
+    },
+    onSuccess: invalidate
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<MediaPlaySessionInput> }) => {
+      const { error } = await supabase
+        .from("media_play_sessions")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("media_play_sessions").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createSession: createMutation.mutateAsync,
+    updateSession: updateMutation.mutateAsync,
+    deleteSession: deleteMutation.mutateAsync,
+    saving: createMutation.isPending || updateMutation.isPending || deleteMutation.isPending
+  }
+}
@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { validateRelation, type MediaRelationDraft } from "@/src/features/media/lib/media-relations"
+import { supabase } from "@/src/shared/api/supabase"
+import type { MediaRelation } from "@/src/shared/types/database"
+
+export function useMediaRelations() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["media-relations"] })
+
+  const query = useQuery({
+    queryKey: ["media-relations"],
+    queryFn: async (): Promise<MediaRelation[]> => {
+      const { data, error } = await supabase
+        .from("media_relations")
+        .select("*")
+        .order("created_at", { ascending: true })
+
+      if (error) throw error
+      return (data ?? []) as MediaRelation[]
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (drafts: MediaRelationDraft[]) => {
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      // Validate each draft against the stored relations and the drafts before it in the same batch
+      const accepted: MediaRelationDraft[] = []
+      for (const draft of drafts) {
+        validateRelation(draft, [...(query.data ?? []), ...accepted])
+        accepted.push(draft)
+      }
+      if (accepted.length === 0) return 0
+
+      const { error } = await supabase
+        .from("media_relations")
+        .insert(
+          accepted.map((draft) => ({
+            from_entry_id: draft.from_entry_id,
+            to_entry_id: draft.to_entry_id,
+            relation_type: draft.relation_type,
+            user_id: userId
+          }))
+        )
+
+      if (error) throw error
+      return accepted.length
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("media_relations").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createRelations: createMutation.mutateAsync,
+    deleteRelation: deleteMutation.mutateAsync,
+    saving: createMutation.isPending || deleteMutation.isPending
+  }
+}
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/src/shared/api/supabase"
+import type { MediaViewing } from "@/src/shared/types/database"
+
+export type MediaViewingInput = Pick<MediaViewing, "start_date" | "finish_date" | "rating" | "platform" | "notes">
+
+export function useMediaViewings() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["media-viewings"] })
+
+  const query = useQuery({
+    queryKey: ["media-viewings"],
+    queryFn: async (): Promise<MediaViewing[]> => {
+      const { data, error } = await supabase
+        .from("media_viewings")
+        .select("*")
+        .order("start_date", { ascending: false, nullsFirst: false })
+
+      if (error) throw error
+      return (data ?? []) as MediaViewing[]
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async ({ mediaEntryId, payload }: { mediaEntryId: string; payload: MediaViewingInput }) => {
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      const { data, error } = await supabase
+        .from("media_viewings")
+        .insert({ ...payload, media_entry_id: mediaEntryId, user_id: userId })
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as MediaViewing
+    },
+    onSuccess: invalidate
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<MediaViewingInput> }) => {
+      const { error } = await supabase
+        .from("media_viewings")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("media_viewings").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createViewing: createMutation.mutateAsync,
+    updateViewing: updateMutation.mutateAsync,
+    deleteViewing: deleteMutation.mutateAsync,
+    saving: createMutation.isPending || updateMutation.isPending || deleteMutation.isPending
+  }
+}
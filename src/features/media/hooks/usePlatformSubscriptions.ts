@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/src/shared/api/supabase"
+import type { PlatformSubscription } from "@/src/shared/types/database"
+
+export type PlatformSubscriptionInput = Pick<
+  PlatformSubscription,
+  "platform" | "price" | "currency" | "billing_cycle" | "start_date" | "cancel_date"
+>
+
+export function usePlatformSubscriptions() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["platform-subscriptions"] })
+
+  const query = useQuery({
+    queryKey: ["platform-subscriptions"],
+    queryFn: async (): Promise<PlatformSubscription[]> => {
+      const { data, error } = await supabase
+        .from("platform_subscriptions")
+        .select("*")
+        .order("platform", { ascending: true })
+        .order("start_date", { ascending: false })
+
+      if (error) throw error
+      return (data ?? []) as PlatformSubscription[]
+    }
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: PlatformSubscriptionInput) => {
+      const { data: authData } = await supabase.auth.getUser()
+      const userId = authData.user?.id
+      if (!userId) throw new Error("Not authenticated")
+
+      const { data, error } = await supabase
+        .from("platform_subscriptions")
+        .insert({ ...payload, user_id: userId })
+        .select("*")
+        .single()
+
+      if (error) throw error
+      return data as PlatformSubscription
+    },
+    onSuccess: invalidate
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, patch }: { id: string; patch: Partial<PlatformSubscriptionInput> }) => {
+      const { error } = await supabase
+        .from("platform_subscriptions")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", id)
+
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("platform_subscriptions").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: invalidate
+  })
+
+  return {
+    ...query,
+    createSubscription: createMutation.mutateAsync,
+    updateSubscription: updateMutation.mutateAsync,
+    deleteSubscription: deleteMutation.mutateAsync,
+    saving: createMutation.isPending || updateMutation.isPending
+  }
+}
@@ -0,0 +1,112 @@
+import type { MediaCollection, MediaCollectionItem, MediaEntry } from "@/src/shared/types/database"
+
+export interface MediaCollectionWithItems extends MediaCollection {
+  /** Sorted by `position`. */
+  items: MediaCollectionItem[]
+}
+
+export interface MediaCollectionProgress {
+  finished: number
+  total: number
+}
+
+export interface MediaCollectionPositionUpdate {
+  id: string
+  position: number
+}
+
+function byPosition(left: MediaCollectionItem, right: MediaCollectionItem): number {
+  return left.position - right.position || left.created_at.localeCompare(right.created_at)
+}
+
+export function groupCollectionItems(
+  collections: MediaCollection[],
+  items: MediaCollectionItem[]
+): MediaCollectionWithItems[] {
+  const byCollection = new Map<string, MediaCollectionItem[]>()
+  for (const item of items) {
+    const current = byCollection.get(item.collection_id) ?? []
+    current.push(item)
+    byCollection.set(item.collection_id, current)
+  }
+
+  return collections.map((collection) => ({
+    ...collection,
+    items: [...(byCollection.get(collection.id) ?? [])].sort(byPosition)
+  }))
+}
+
+/** Entries in collection order; items whose entry was deleted are skipped. */
+export function getCollectionEntries(collection: MediaCollectionWithItems, entries: MediaEntry[]): MediaEntry[] {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  return collection.items
+    .map((item) => entriesById.get(item.media_entry_id))
+    .filter((entry): entry is MediaEntry => Boolean(entry))
+}
+
+export function getCollectionProgress(entries: MediaEntry[]): MediaCollectionProgress {
+  return {
+    finished: entries.filter((entry) => entry.status === "Finished").length,
+    total: entries.length
+  }
+}
+
+export function formatCollectionProgress(progress: MediaCollectionProgress): string {
+  return `${progress.finished} of ${progress.total} finished`
+}
+
+export function getCollectionCover(collection: MediaCollection, entries: MediaEntry[]): string | null {
+  return collection.cover_url ?? entries.find((entry) => entry.poster_url)?.poster_url ?? null
+}
+
+/** Rows to insert for `entryIds`, appended after the current last position; members already present are skipped. */
+export function planCollectionAppend(
+  items: Pick<MediaCollectionItem, "media_entry_id" | "position">[],
+  entryIds: string[]
+): { media_entry_id: string; position: number }[] {
+  const existing = new Set(items.map((item) => item.media_entry_id))
+  let position = items.reduce((max, item) => Math.max(max, item.position + 1), 0)
+  const rows: { media_entry_id: string; position: number }[] = []
+
+  for (const entryId of entryIds) {
+    if (existing.has(entryId)) continue
+    existing.add(entryId)
+    rows.push({ media_entry_id: entryId, position })
+    position += 1
+  }
+  return rows
+}
+
+/**
+ * Moves one item up or down and renumbers the collection from 0, returning only the items whose
+ * position changed so gaps left by removals are closed as a side effect.
+ */
+export function moveCollectionItem(
+  items: MediaCollectionItem[],
+  itemId: string,
+  direction: -1 | 1
+): MediaCollectionPositionUpdate[] {
+  const ordered = [...items].sort(byPosition)
+  const index = ordered.findIndex((item) => item.id === itemId)
+  const target = index + direction
+  if (index === -1 || target < 0 || target >= ordered.length) return []
+
+  const [moved] = ordered.splice(index, 1)
+  ordered.splice(target, 0, moved)
+
+  return ordered
+    .map((item, position) => ({ id: item.id, position, changed: item.position !== position }))
+    .filter((item) => item.changed)
+    .map(({ id, position }) => ({ id, position }))
+}
+
+/** Ids of entries that belong to any collection named in `names`. */
+export function getCollectionMemberIds(collections: MediaCollectionWithItems[], names: string[]): Set<string> {
+  const selected = new Set(names)
+  const ids = new Set<string>()
+  for (const collection of collections) {
+    if (!selected.has(collection.name)) continue
+    for (const item of collection.items) ids.add(item.media_entry_id)
+  }
+  return ids
+}
@@ -1,4 +1,12 @@
-import type { MediaEntry } from "@/src/shared/types/database"
+import type { EpisodeMetadata, MetadataSource, SeasonEpisodesResponse } from "@analytics/contracts"
+import { parseCustomFieldValues } from "@/src/features/custom-fields/lib/custom-fields"
+import {
+  appendProgressRecord,
+  parseProgressHistory,
+  resolveProgressUnit,
+  type MediaProgressRecord
+} from "@/src/features/media/lib/media-progress"
+import type { CustomFieldValues, MediaEntry } from "@/src/shared/types/database"
 
 export type MediaEditorTab = "general" | "advanced" | "episodes" | "history"
 
@@ -7,6 +15,14 @@ export interface MediaEpisodeHistoryRecord {
   watched_at: string
 }
 
+/** Episode list for one season as stored in `media_entries.episode_metadata`. */
+export interface MediaEpisodeMetadataCache {
+  season: number
+  source: MetadataSource
+  fetched_at: string
+  episodes: EpisodeMetadata[]
+}
+
 export interface MediaEditorDraft {
   title: string
   status: string
@@ -19,14 +35,28 @@ export interface MediaEditorDraft {
   myRating: string
   averageRating: string
   price: string
+  currency: string
+  /** "" means no explicit priority. */
+  priority: string
   length: string
   imdbId: string
   genre: string
   language: string
+  tags: string
+  review: string
+  reviewHasSpoilers: boolean
   startDate: string
   finishDate: string
   posterUrl: string
   episodeHistoryDraft: MediaEpisodeHistoryRecord[]
+  episodeMetadata: MediaEpisodeMetadataCache | null
+  feedUrl: string
+  /** Explicit progress unit; blank falls back to the medium's default. */
+  progressUnit: string
+  progressCurrent: string
+  progressTotal: string
+  progressHistoryDraft: MediaProgressRecord[]
+  customFields: CustomFieldValues
 }
 
 export type MediaMetadataConflictField =
@@ -39,6 +69,7 @@ export type MediaMetadataConflictField =
   | "genre"
   | "language"
   | "posterUrl"
+  | "progressTotal"
 
 export interface MediaMetadataConflict {
   field: MediaMetadataConflictField
@@ -62,6 +93,14 @@ export const MEDIA_EDITOR_TABS: Array<{ value: MediaEditorTab; label: string }>
 
 export const MEDIA_STATUS_OPTIONS = ["Watching", "Finished", "On Hold", "Dropped", "Plan to Watch"] as const
 
+export const MEDIA_PRIORITY_OPTIONS: Array<{ value: number; label: string }> = [
+  { value: 1, label: "Someday" },
+  { value: 2, label: "Low" },
+  { value: 3, label: "Normal" },
+  { value: 4, label: "High" },
+  { value: 5, label: "Next Up" }
+]
+
 function todayIsoDate(): string {
   return new Date().toISOString().slice(0, 10)
 }
@@ -102,6 +141,74 @@ export function parseEpisodeHistory(value: unknown): MediaEpisodeHistoryRecord[]
     })
 }
 
+function toNullableNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+function toNullableString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null
+}
+
+export function parseEpisodeMetadata(value: unknown): MediaEpisodeMetadataCache | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null
+  const record = value as { season?: unknown; source?: unknown; fetched_at?: unknown; episodes?: unknown }
+  if (typeof record.season !== "number" || !Array.isArray(record.episodes)) return null
+
+  const episodes = record.episodes
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .filter((item) => typeof item.episode === "number")
+    .map((item) => ({
+      episode: item.episode as number,
+      title: toNullableString(item.title),
+      air_date: toNullableString(item.air_date),
+      runtime_minutes: toNullableNumber(item.runtime_minutes),
+      rating: toNullableNumber(item.rating)
+    }))
+    .sort((left, right) => left.episode - right.episode)
+
+  return {
+    season: record.season,
+    source: record.source === "omdb" || record.source === "rss" ? record.source : "tmdb",
+    fetched_at: typeof record.fetched_at === "string" ? record.fetched_at : "",
+    episodes
+  }
+}
+
+/** Season number from free-text values such as "Season 2" or "2"; defaults to 1. */
+export function parseSeasonNumber(season: string | null | undefined): number {
+  const match = season?.match(/\d+/)
+  const parsed = match ? Number.parseInt(match[0], 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1
+}
+
+/**
+ * Watch time from cached episode runtimes: every logged episode plus episodes up to
+ * `episodes_watched` (all of them once finished). Episodes without a runtime use the
+ * season average. Null when there is no cache for the entry's season.
+ */
+export function getEpisodeWatchMinutes(entry: MediaEntry): number | null {
+  const cache = parseEpisodeMetadata(entry.episode_metadata)
+  if (!cache || cache.season !== parseSeasonNumber(entry.season)) return null
+
+  const runtimes = new Map<number, number>()
+  for (const item of cache.episodes) {
+    if (item.runtime_minutes && item.runtime_minutes > 0) runtimes.set(item.episode, item.runtime_minutes)
+  }
+  if (runtimes.size === 0) return null
+  const averageRuntime = Array.from(runtimes.values()).reduce((sum, value) => sum + value, 0) / runtimes.size
+
+  const watched = new Set(parseEpisodeHistory(entry.episode_history).map((item) => item.episode))
+  // Feed episodes are picked out individually, so only logged ones count until the podcast is finished
+  const watchedThrough = entry.status === "Finished"
+    ? Math.max(entry.episodes ?? 0, cache.episodes.length)
+    : cache.source === "rss" ? 0 : entry.episodes_watched ?? 0
+  for (let episode = 1; episode <= watchedThrough; episode += 1) watched.add(episode)
+
+  let minutes = 0
+  for (const episode of watched) minutes += runtimes.get(episode) ?? averageRuntime
+  return minutes
+}
+
 function getEpisodeProgressFallback(history: MediaEpisodeHistoryRecord[]): string {
   if (history.length === 0) return ""
   return String(Math.max(...history.map((item) => item.episode)))
@@ -121,14 +228,26 @@ export function buildMediaEditorDraft(entry?: MediaEntry | null): MediaEditorDra
       myRating: "",
       averageRating: "",
       price: "",
+      currency: "",
+      priority: "",
       length: "",
       imdbId: "",
       genre: "",
       language: "",
+      tags: "",
+      review: "",
+      reviewHasSpoilers: false,
       startDate: todayIsoDate(),
       finishDate: "",
       posterUrl: "",
-      episodeHistoryDraft: []
+      episodeHistoryDraft: [],
+      episodeMetadata: null,
+      feedUrl: "",
+      progressUnit: "",
+      progressCurrent: "",
+      progressTotal: "",
+      progressHistoryDraft: [],
+      customFields: {}
     }
   }
 
@@ -146,14 +265,26 @@ export function buildMediaEditorDraft(entry?: MediaEntry | null): MediaEditorDra
     myRating: entry.my_rating != null ? String(entry.my_rating) : "",
     averageRating: entry.average_rating != null ? String(entry.average_rating) : "",
     price: entry.price != null ? String(entry.price) : "",
+    currency: entry.currency ?? "",
+    priority: entry.priority != null ? String(entry.priority) : "",
     length: entry.length ?? "",
     imdbId: entry.imdb_id ?? "",
     genre: toCsvList(entry.genre),
     language: toCsvList(entry.language),
+    tags: toCsvList(entry.tags),
+    review: entry.review ?? "",
+    reviewHasSpoilers: entry.review_has_spoilers ?? false,
     startDate: entry.start_date ?? "",
     finishDate: entry.finish_date ?? "",
     posterUrl: entry.poster_url ?? "",
-    episodeHistoryDraft
+    episodeHistoryDraft,
+    episodeMetadata: parseEpisodeMetadata(entry.episode_metadata),
+    feedUrl: entry.feed_url ?? "",
+    progressUnit: entry.progress_unit ?? "",
+    progressCurrent: entry.progress_current != null ? String(entry.progress_current) : "",
+    progressTotal: entry.progress_total != null ? String(entry.progress_total) : "",
+    progressHistoryDraft: parseProgressHistory(entry.progress_history),
+    customFields: parseCustomFieldValues(entry.custom_fields)
   }
 }
 
@@ -178,6 +309,9 @@ export function buildMediaEntryPayloadFromDraft(draft: MediaEditorDraft): Partia
   const episodeHistory = draft.episodeHistoryDraft
   const historyMax = getEpisodeHistoryMax(episodeHistory)
   const manualEpisodesWatched = toNumberOrNull(draft.episodesWatched)
+  const progressUnit = resolveProgressUnit({ progress_unit: draft.progressUnit || null, medium: draft.medium })
+  const progressCurrent = toNumberOrNull(draft.progressCurrent)
+  const progressHistory = appendProgressRecord(draft.progressHistoryDraft, progressUnit, progressCurrent)
 
   return {
     title: draft.title.trim(),
@@ -191,14 +325,26 @@ export function buildMediaEntryPayloadFromDraft(draft: MediaEditorDraft): Partia
     my_rating: toNumberOrNull(draft.myRating),
     average_rating: toNumberOrNull(draft.averageRating),
     price: toNumberOrNull(draft.price),
+    currency: draft.currency.trim().toUpperCase() || null,
+    priority: toNumberOrNull(draft.priority),
     length: draft.length.trim() || null,
     imdb_id: draft.imdbId.trim() || null,
     genre: parseCsvList(draft.genre),
     language: parseCsvList(draft.language),
+    tags: parseCsvList(draft.tags),
+    review: draft.review.trim() || null,
+    review_has_spoilers: draft.review.trim() ? draft.reviewHasSpoilers : false,
     start_date: draft.startDate.trim() || null,
     finish_date: draft.finishDate.trim() || null,
     poster_url: draft.posterUrl.trim() || null,
     episode_history: episodeHistory.length > 0 ? (episodeHistory as unknown as MediaEntry["episode_history"]) : null,
+    episode_metadata: draft.episodeMetadata as unknown as MediaEntry["episode_metadata"],
+    feed_url: draft.feedUrl.trim() || null,
+    progress_unit: draft.progressUnit.trim() || null,
+    progress_current: progressCurrent,
+    progress_total: toNumberOrNull(draft.progressTotal),
+    progress_history: progressHistory.length > 0 ? (progressHistory as unknown as MediaEntry["progress_history"]) : null,
+    custom_fields: Object.keys(draft.customFields).length > 0 ? draft.customFields : null,
     last_watched_at: getLastWatchedAt(episodeHistory)
   }
 }
@@ -287,6 +433,43 @@ export function deleteEpisodeHistoryItem(draft: MediaEditorDraft, index: number)
   }
 }
 
+/** Cache a fetched season on the draft and fill the episode count when it is still blank. */
+export function applySeasonEpisodesToDraft(
+  draft: MediaEditorDraft,
+  response: SeasonEpisodesResponse,
+  fetchedAt: string = new Date().toISOString()
+): MediaEditorDraft {
+  return {
+    ...draft,
+    episodes: draft.episodes.trim() || response.episodes.length === 0 ? draft.episodes : String(response.episodes.length),
+    episodeMetadata: {
+      season: response.season,
+      source: response.source,
+      fetched_at: fetchedAt,
+      episodes: response.episodes
+    }
+  }
+}
+
+/** Checklist toggle: log the episode now, or remove every watch record for it. */
+export function toggleEpisodeWatchedInDraft(
+  draft: MediaEditorDraft,
+  episode: number,
+  watchedAt: string = new Date().toISOString()
+): MediaEditorDraft {
+  if (!draft.episodeHistoryDraft.some((item) => item.episode === episode)) {
+    return addEpisodeToDraft(draft, episode, watchedAt)
+  }
+
+  const nextHistory = draft.episodeHistoryDraft.filter((item) => item.episode !== episode)
+  const nextWatched = getEpisodeHistoryMax(nextHistory)
+  return {
+    ...draft,
+    episodesWatched: nextWatched > 0 ? String(nextWatched) : "",
+    episodeHistoryDraft: nextHistory
+  }
+}
+
 export function deriveTimeTakenLabel(startDate: string, finishDate: string): string {
   const start = startDate.trim()
   const finish = finishDate.trim()
@@ -361,6 +544,11 @@ export function buildMetadataSelectionFromDraft(
     return typeof value === "string" ? value : null
   })
   processField("posterUrl", "Poster URL", metadata.poster_url, draft.posterUrl, (value) => (typeof value === "string" ? value : null))
+  if (resolveProgressUnit({ progress_unit: draft.progressUnit || null, medium: draft.medium }) === "pages") {
+    processField("progressTotal", "Pages", metadata.page_count, draft.progressTotal, (value) =>
+      typeof value === "number" ? String(value) : null
+    )
+  }
 
   if (conflicts.length === 0) {
     return {
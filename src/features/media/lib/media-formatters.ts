@@ -1,3 +1,4 @@
+import { getEntryProgress } from "@/src/features/media/lib/media-progress"
 import type { MediaEntry } from "@/src/shared/types/database"
 
 export type SortKey = "title" | "rating" | "finish_date"
@@ -11,6 +12,8 @@ export function matchesSearch(entry: MediaEntry, query: string): boolean {
   if (entry.type?.toLowerCase().includes(lower)) return true
   if (entry.platform?.toLowerCase().includes(lower)) return true
   if (entry.genre?.some((item) => item.toLowerCase().includes(lower))) return true
+  if (entry.tags?.some((item) => item.toLowerCase().includes(lower))) return true
+  if (entry.review?.toLowerCase().includes(lower)) return true
   return false
 }
 
@@ -70,9 +73,9 @@ export function toMonthDay(value: string | null): { month: string; day: string }
 }
 
 export function progressPercent(entry: MediaEntry): number {
-  if (!entry.episodes || entry.episodes <= 0) return 0
-  const watched = entry.episodes_watched ?? 0
-  const ratio = watched / entry.episodes
+  const { current, total } = getEntryProgress(entry)
+  if (!total) return 0
+  const ratio = current / total
   return Math.max(0, Math.min(100, Math.round(ratio * 100)))
 }
 
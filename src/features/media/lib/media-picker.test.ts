@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test"
+import {
+  DEFAULT_WATCH_PICKER_CONSTRAINTS,
+  explainWatchPick,
+  pickWatchCandidate,
+  scoreWatchCandidates,
+  type WatchPickerCandidate,
+  type WatchPickerConstraints
+} from "@/src/features/media/lib/media-picker"
+import type { MediaEntry } from "@/src/shared/types/database"
+
+const NOW = new Date("2026-10-19T12:00:00Z")
+const RECENT = "2026-10-18T12:00:00Z"
+
+function entry(overrides: Partial<MediaEntry> & Pick<MediaEntry, "id" | "title">): MediaEntry {
+  return {
+    user_id: "user",
+    medium: "Movie",
+    type: null,
+    status: "Plan to Watch",
+    genre: null,
+    platform: null,
+    language: null,
+    start_date: null,
+    finish_date: null,
+    my_rating: null,
+    average_rating: null,
+    rating: null,
+    price: null,
+    currency: null,
+    priority: null,
+    custom_fields: null,
+    tags: null,
+    review: null,
+    review_has_spoilers: false,
+    length: null,
+    episodes: null,
+    episodes_watched: null,
+    episode_history: null,
+    episode_metadata: null,
+    feed_url: null,
+    last_watched_at: null,
+    progress_unit: null,
+    progress_current: null,
+    progress_total: null,
+    progress_history: null,
+    season: null,
+    time_taken: null,
+    poster_url: null,
+    imdb_id: null,
+    created_at: RECENT,
+    updated_at: RECENT,
+    ...overrides
+  }
+}
+
+function constraints(overrides: Partial<WatchPickerConstraints> = {}): WatchPickerConstraints {
+  return { ...DEFAULT_WATCH_PICKER_CONSTRAINTS, ...overrides }
+}
+
+function candidate(id: string, weight: number): WatchPickerCandidate {
+  return { entry: entry({ id, title: id }), sittingMinutes: null, weight, factors: [] }
+}
+
+describe("scoreWatchCandidates", () => {
+  test("only planned entries are candidates", () => {
+    const entries = [
+      entry({ id: "planned", title: "Planned" }),
+      entry({ id: "also-planned", title: "Also planned", status: "Planned" }),
+      entry({ id: "watching", title: "Watching", status: "Watching" }),
+      entry({ id: "finished", title: "Finished", status: "Finished" })
+    ]
+    expect(scoreWatchCandidates(entries, constraints(), NOW).map((item) => item.entry.id)).toEqual(["planned", "also-planned"])
+  })
+
+  test("a plain recent entry has the base weight", () => {
+    const [plain] = scoreWatchCandidates([entry({ id: "plain", title: "Plain" })], constraints(), NOW)
+    expect(plain.weight).toBe(1)
+    expect(plain.factors).toEqual([])
+  })
+
+  test("priority raises or lowers the weight by half per step", () => {
+    const scored = scoreWatchCandidates(
+      [entry({ id: "high", title: "High", priority: 5 }), entry({ id: "low", title: "Low", priority: 2 })],
+      constraints(),
+      NOW
+    )
+    expect(scored[0].factors).toEqual([{ label: "Priority 5 of 5", multiplier: 2.25 }])
+    expect(scored[1].weight).toBeCloseTo(1 / 1.5)
+  })
+
+  test("time on the list adds weight from a week on, capped at a year", () => {
+    const scored = scoreWatchCandidates(
+      [
+        entry({ id: "days", title: "Days", created_at: "2026-10-14T12:00:00Z" }),
+        entry({ id: "months", title: "Months", created_at: "2026-04-22T12:00:00Z" }),
+        entry({ id: "years", title: "Years", created_at: "2024-10-19T12:00:00Z" })
+      ],
+      constraints(),
+      NOW
+    )
+    expect(scored[0].factors).toEqual([])
+    expect(scored[1].factors).toEqual([{ label: "On your list for 6 months", multiplier: 2 }])
+    expect(scored[2].factors).toEqual([{ label: "On your list for 2 years", multiplier: 1 + 365 / 180 }])
+  })
+
+  test("the public rating scales the weight between 0.5 and 2", () => {
+    const [rated] = scoreWatchCandidates([entry({ id: "rated", title: "Rated", average_rating: 8 })], constraints(), NOW)
+    expect(rated.factors).toEqual([{ label: "Rated 8.0 publicly", multiplier: expect.closeTo(1.7) }])
+  })
+
+  test("a time budget drops longer sittings and prefers ones that fill it", () => {
+    const scored = scoreWatchCandidates(
+      [
+        entry({ id: "short", title: "Short", length: "30 min" }),
+        entry({ id: "fits", title: "Fits", length: "55 min" }),
+        entry({ id: "long", title: "Long", length: "2h" }),
+        entry({ id: "unknown", title: "Unknown" })
+      ],
+      constraints({ availableMinutes: 60 }),
+      NOW
+    )
+
+    expect(scored.map((item) => [item.entry.id, item.sittingMinutes])).toEqual([
+      ["short", 30],
+      ["fits", 55],
+      ["unknown", null]
+    ])
+    expect(scored[1].weight).toBeGreaterThan(scored[0].weight)
+    expect(scored[2].factors).toEqual([{ label: "Runtime unknown", multiplier: 0.6 }])
+  })
+
+  test("series are sized by the next episode's cached runtime", () => {
+    const show = entry({
+      id: "show",
+      title: "Show",
+      medium: "TV Show",
+      length: "45 min",
+      season: "Season 2",
+      episodes: 8,
+      episodes_watched: 2,
+      episode_metadata: {
+        season: 2,
+        episodes: [
+          { episode: 3, runtime_minutes: 58 },
+          { episode: 4, runtime_minutes: 41 }
+        ]
+      }
+    })
+
+    expect(scoreWatchCandidates([show], constraints({ availableMinutes: 50 }), NOW)).toEqual([])
+    const [fits] = scoreWatchCandidates([{ ...show, episodes_watched: 3 }], constraints({ availableMinutes: 50 }), NOW)
+    expect(fits.sittingMinutes).toBe(41)
+  })
+
+  test("filters by genre case-insensitively, medium and excluded ids", () => {
+    const entries = [
+      entry({ id: "comedy", title: "Comedy", genre: ["Comedy"] }),
+      entry({ id: "drama", title: "Drama", genre: ["Drama"] }),
+      entry({ id: "book", title: "Book", medium: "Book", genre: ["comedy "] })
+    ]
+
+    const ids = (next: Partial<WatchPickerConstraints>) =>
+      scoreWatchCandidates(entries, constraints(next), NOW).map((item) => item.entry.id)
+    expect(ids({ genres: [" COMEDY"] })).toEqual(["comedy", "book"])
+    expect(ids({ genres: ["comedy"], mediums: ["Movie"] })).toEqual(["comedy"])
+    expect(ids({ excludeIds: ["comedy", "drama"] })).toEqual(["book"])
+  })
+})
+
+describe("pickWatchCandidate", () => {
+  const candidates = [candidate("light", 1), candidate("heavy", 3)]
+
+  test("walks the cumulative weights with the injected random source", () => {
+    expect(pickWatchCandidate(candidates, constraints(), () => 0)?.candidate.entry.id).toBe("light")
+    expect(pickWatchCandidate(candidates, constraints(), () => 0.24)?.candidate.entry.id).toBe("light")
+    expect(pickWatchCandidate(candidates, constraints(), () => 0.25)?.candidate.entry.id).toBe("heavy")
+    expect(pickWatchCandidate(candidates, constraints(), () => 0.9999)?.candidate.entry.id).toBe("heavy")
+  })
+
+  test("reports the chance and the candidate count", () => {
+    const pick = pickWatchCandidate(candidates, constraints(), () => 0.5)
+    expect(pick?.probability).toBe(0.75)
+    expect(pick?.candidateCount).toBe(2)
+    expect(pick?.reasons).toEqual(["75% chance among 2 titles"])
+  })
+
+  test("returns null without candidates or weight", () => {
+    expect(pickWatchCandidate([], constraints(), () => 0.5)).toBeNull()
+    expect(pickWatchCandidate([candidate("zero", 0)], constraints(), () => 0.5)).toBeNull()
+  })
+})
+
+describe("explainWatchPick", () => {
+  test("lists matched genres, boosts, then penalties", () => {
+    const picked: WatchPickerCandidate = {
+      entry: entry({ id: "pick", title: "Pick", genre: ["Comedy", "Drama", "Romance"] }),
+      sittingMinutes: null,
+      weight: 1,
+      factors: [
+        { label: "Runtime unknown", multiplier: 0.6 },
+        { label: "On your list for 6 months", multiplier: 2 },
+        { label: "Priority 4 of 5", multiplier: 1.5 }
+      ]
+    }
+
+    expect(explainWatchPick(picked, constraints({ genres: ["drama", "comedy"] }), 0.123, 5)).toEqual([
+      "Matches Comedy, Drama",
+      "On your list for 6 months",
+      "Priority 4 of 5",
+      "Runtime unknown (less likely)",
+      "12% chance among 5 titles"
+    ])
+  })
+
+  test("says when the pick was the only fit", () => {
+    expect(explainWatchPick(candidate("only", 1), constraints(), 1, 1)).toEqual(["The only title that fits"])
+  })
+})
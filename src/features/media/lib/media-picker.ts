@@ -0,0 +1,215 @@
+import { parseEpisodeMetadata, parseSeasonNumber } from "@/src/features/media/lib/media-editor"
+import { statusBucket } from "@/src/features/media/lib/media-formatters"
+import { parseDurationToMinutes, resolveProgressUnit } from "@/src/features/media/lib/media-progress"
+import type { MediaEntry } from "@/src/shared/types/database"
+
+/** Hard filters for a pick; an empty list or null leaves that dimension open. */
+export interface WatchPickerConstraints {
+  /** "I have N minutes": titles whose next sitting is longer are left out. */
+  availableMinutes: number | null
+  /** Mood/genre filter; a title matches if it has any of them. */
+  genres: string[]
+  mediums: string[]
+  /** Titles already shown this session, so a reroll lands somewhere new. */
+  excludeIds: string[]
+}
+
+export interface WatchPickerFactor {
+  label: string
+  /** Multiplier applied to the base weight of 1. */
+  multiplier: number
+}
+
+export interface WatchPickerCandidate {
+  entry: MediaEntry
+  /** Minutes for the next sitting: the next episode for series, the whole title otherwise. */
+  sittingMinutes: number | null
+  weight: number
+  factors: WatchPickerFactor[]
+}
+
+export interface WatchPick {
+  candidate: WatchPickerCandidate
+  /** Share of the total weight, i.e. the chance this title had. */
+  probability: number
+  candidateCount: number
+  reasons: string[]
+}
+
+export const DEFAULT_WATCH_PICKER_CONSTRAINTS: WatchPickerConstraints = {
+  availableMinutes: null,
+  genres: [],
+  mediums: [],
+  excludeIds: []
+}
+
+export const DEFAULT_MEDIA_PRIORITY = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Waiting stops adding weight after a year so ancient entries cannot drown out everything else.
+const MAX_WAITING_DAYS = 365
+// Titles with no known runtime are still eligible for a time budget, just less likely.
+const UNKNOWN_RUNTIME_MULTIPLIER = 0.6
+
+function isEpisodic(entry: MediaEntry): boolean {
+  if (resolveProgressUnit(entry) !== "episodes") return false
+  return entry.medium === "TV Show" || (entry.episodes ?? 0) > 1
+}
+
+/**
+ * Minutes for the next sitting. Series use the next unwatched episode's cached runtime and
+ * otherwise treat `length` as per-episode; everything else uses the full `length`.
+ */
+export function getSittingMinutes(entry: MediaEntry): number | null {
+  const lengthMinutes = parseDurationToMinutes(entry.length)
+  if (!isEpisodic(entry)) return lengthMinutes && lengthMinutes > 0 ? lengthMinutes : null
+
+  const cache = parseEpisodeMetadata(entry.episode_metadata)
+  if (cache && cache.season === parseSeasonNumber(entry.season)) {
+    const nextEpisode = (entry.episodes_watched ?? 0) + 1
+    const runtime = cache.episodes.find((item) => item.episode === nextEpisode)?.runtime_minutes
+    if (runtime && runtime > 0) return runtime
+  }
+  return lengthMinutes && lengthMinutes > 0 ? lengthMinutes : null
+}
+
+function formatWaiting(days: number): string {
+  if (days < 60) return `${days} days`
+  const months = Math.floor(days / 30)
+  return months < 24 ? `${months} months` : `${Math.floor(months / 12)} years`
+}
+
+function matchesConstraints(entry: MediaEntry, sittingMinutes: number | null, constraints: WatchPickerConstraints): boolean {
+  if (constraints.excludeIds.includes(entry.id)) return false
+  if (constraints.mediums.length > 0 && (!entry.medium || !constraints.mediums.includes(entry.medium))) return false
+
+  if (constraints.genres.length > 0) {
+    const genres = (entry.genre ?? []).map((genre) => genre.toLowerCase().trim())
+    if (!constraints.genres.some((genre) => genres.includes(genre.toLowerCase().trim()))) return false
+  }
+
+  if (constraints.availableMinutes != null && sittingMinutes != null && sittingMinutes > constraints.availableMinutes) {
+    return false
+  }
+  return true
+}
+
+/**
+ * Planned entries that satisfy the constraints, each weighted by priority, time on the list,
+ * how well the next sitting fills the available minutes and the public average rating.
+ */
+export function scoreWatchCandidates(
+  entries: MediaEntry[],
+  constraints: WatchPickerConstraints,
+  now: Date = new Date()
+): WatchPickerCandidate[] {
+  const candidates: WatchPickerCandidate[] = []
+
+  for (const entry of entries) {
+    if (statusBucket(entry.status) !== "planned") continue
+    const sittingMinutes = getSittingMinutes(entry)
+    if (!matchesConstraints(entry, sittingMinutes, constraints)) continue
+
+    const factors: WatchPickerFactor[] = []
+
+    const priority = entry.priority ?? DEFAULT_MEDIA_PRIORITY
+    if (priority !== DEFAULT_MEDIA_PRIORITY) {
+      factors.push({ label: `Priority ${priority} of 5`, multiplier: Math.pow(1.5, priority - DEFAULT_MEDIA_PRIORITY) })
+    }
+
+    const addedAt = new Date(entry.created_at).getTime()
+    if (Number.isFinite(addedAt)) {
+      const days = Math.max(0, Math.floor((now.getTime() - addedAt) / DAY_MS))
+      if (days >= 7) {
+        factors.push({
+          label: `On your list for ${formatWaiting(days)}`,
+          multiplier: 1 + Math.min(days, MAX_WAITING_DAYS) / 180
+        })
+      }
+    }
+
+    if (constraints.availableMinutes != null) {
+      if (sittingMinutes == null) {
+        factors.push({ label: "Runtime unknown", multiplier: UNKNOWN_RUNTIME_MULTIPLIER })
+      } else {
+        // Titles that use most of the available time beat ones that would leave it half empty.
+        factors.push({
+          label: `${sittingMinutes} min fits your ${constraints.availableMinutes} min`,
+          multiplier: 1 + sittingMinutes / constraints.availableMinutes
+        })
+      }
+    }
+
+    if (entry.average_rating != null && entry.average_rating > 0) {
+      factors.push({
+        label: `Rated ${entry.average_rating.toFixed(1)} publicly`,
+        multiplier: 0.5 + Math.min(entry.average_rating, 10) / 10 * 1.5
+      })
+    }
+
+    const weight = factors.reduce((total, factor) => total * factor.multiplier, 1)
+    candidates.push({ entry, sittingMinutes, weight, factors })
+  }
+
+  return candidates
+}
+
+/** Weighted random choice; `random` is injectable so picks are reproducible. */
+export function pickWatchCandidate(
+  candidates: WatchPickerCandidate[],
+  constraints: WatchPickerConstraints,
+  random: () => number = Math.random
+): WatchPick | null {
+  const total = candidates.reduce((sum, candidate) => sum + candidate.weight, 0)
+  if (candidates.length === 0 || total <= 0) return null
+
+  let remaining = random() * total
+  let chosen = candidates[candidates.length - 1]
+  for (const candidate of candidates) {
+    remaining -= candidate.weight
+    if (remaining < 0) {
+      chosen = candidate
+      break
+    }
+  }
+
+  const probability = chosen.weight / total
+  return {
+    candidate: chosen,
+    probability,
+    candidateCount: candidates.length,
+    reasons: explainWatchPick(chosen, constraints, probability, candidates.length)
+  }
+}
+
+/** Human-readable reasons: matched filters first, then the factors that raised the odds most. */
+export function explainWatchPick(
+  candidate: WatchPickerCandidate,
+  constraints: WatchPickerConstraints,
+  probability: number,
+  candidateCount: number
+): string[] {
+  const reasons: string[] = []
+
+  if (constraints.genres.length > 0) {
+    const genres = (candidate.entry.genre ?? []).filter((genre) =>
+      constraints.genres.some((wanted) => wanted.toLowerCase().trim() === genre.toLowerCase().trim())
+    )
+    if (genres.length > 0) reasons.push(`Matches ${genres.join(", ")}`)
+  }
+
+  const ranked = [...candidate.factors].sort((left, right) => right.multiplier - left.multiplier)
+  for (const factor of ranked) {
+    if (factor.multiplier > 1) reasons.push(factor.label)
+  }
+  for (const factor of ranked) {
+    if (factor.multiplier < 1) reasons.push(`${factor.label} (less likely)`)
+  }
+
+  reasons.push(
+    candidateCount === 1
+      ? "The only title that fits"
+      : `${Math.round(probability * 100)}% chance among ${candidateCount} titles`
+  )
+  return reasons
+}
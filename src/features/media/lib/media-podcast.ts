@@ -0,0 +1,80 @@
+import type { MediaEditorDraft, MediaEpisodeMetadataCache } from "@/src/features/media/lib/media-editor"
+import type { MediaEntry } from "@/src/shared/types/database"
+import type { EpisodeMetadata, PodcastFeedResponse } from "@analytics/contracts"
+
+export function isPodcastMedium(medium: string | null | undefined): boolean {
+  return medium?.trim().toLowerCase() === "podcast"
+}
+
+function feedEpisodeKey(episode: EpisodeMetadata): string {
+  return `${episode.title ?? ""}|${episode.air_date ?? ""}`.toLowerCase()
+}
+
+/**
+ * Merge a fetched feed into the cached episode list. Known episodes keep their numbers so
+ * `episode_history` stays valid when old items drop off the feed; unseen ones are appended.
+ */
+export function mergeFeedEpisodes(
+  previous: MediaEpisodeMetadataCache | null,
+  response: PodcastFeedResponse,
+  fetchedAt: string = new Date().toISOString()
+): { cache: MediaEpisodeMetadataCache; newEpisodes: number } {
+  if (!previous || previous.source !== "rss") {
+    return {
+      cache: { season: response.season, source: "rss", fetched_at: fetchedAt, episodes: response.episodes },
+      newEpisodes: 0
+    }
+  }
+
+  const incomingByKey = new Map(response.episodes.map((episode) => [feedEpisodeKey(episode), episode]))
+  const episodes = previous.episodes.map((episode) => {
+    const incoming = incomingByKey.get(feedEpisodeKey(episode))
+    return incoming?.runtime_minutes ? { ...episode, runtime_minutes: incoming.runtime_minutes } : episode
+  })
+  const knownKeys = new Set(previous.episodes.map(feedEpisodeKey))
+  let nextNumber = previous.episodes.reduce((max, episode) => Math.max(max, episode.episode), 0)
+  let newEpisodes = 0
+
+  for (const incoming of response.episodes) {
+    if (knownKeys.has(feedEpisodeKey(incoming))) continue
+    nextNumber += 1
+    newEpisodes += 1
+    episodes.push({ ...incoming, episode: nextNumber })
+  }
+
+  return { cache: { season: previous.season, source: "rss", fetched_at: fetchedAt, episodes }, newEpisodes }
+}
+
+/** New episodes put a finished podcast back on the Watching shelf. */
+function nextFeedStatus(status: string | null, newEpisodes: number): string | null {
+  return newEpisodes > 0 && status === "Finished" ? "Watching" : status
+}
+
+export function applyFeedEpisodesToDraft(
+  draft: MediaEditorDraft,
+  response: PodcastFeedResponse,
+  fetchedAt: string = new Date().toISOString()
+): { draft: MediaEditorDraft; newEpisodes: number } {
+  const { cache, newEpisodes } = mergeFeedEpisodes(draft.episodeMetadata, response, fetchedAt)
+  return {
+    draft: {
+      ...draft,
+      episodes: String(cache.episodes.length),
+      episodeMetadata: cache,
+      status: nextFeedStatus(draft.status, newEpisodes) ?? draft.status
+    },
+    newEpisodes
+  }
+}
+
+export function buildFeedRefreshPayload(
+  entry: MediaEntry,
+  cache: MediaEpisodeMetadataCache,
+  newEpisodes: number
+): Partial<MediaEntry> {
+  return {
+    episodes: cache.episodes.length,
+    episode_metadata: cache as unknown as MediaEntry["episode_metadata"],
+    status: nextFeedStatus(entry.status, newEpisodes)
+  }
+}
@@ -0,0 +1,174 @@
+import type { MediaEntry } from "@/src/shared/types/database"
+
+export type ProgressUnit = "episodes" | "pages" | "chapters" | "percent" | "minutes"
+
+export const PROGRESS_UNITS: Array<{ value: ProgressUnit; label: string }> = [
+  { value: "episodes", label: "Episodes" },
+  { value: "pages", label: "Pages" },
+  { value: "chapters", label: "Chapters" },
+  { value: "percent", label: "Percent" },
+  { value: "minutes", label: "Minutes" }
+]
+
+/** Amount one tap on the shelf's increment controls moves progress. */
+export const PROGRESS_STEP: Record<ProgressUnit, number> = {
+  episodes: 1,
+  pages: 10,
+  chapters: 1,
+  percent: 5,
+  minutes: 15
+}
+
+const UNIT_SUFFIX: Record<ProgressUnit, string> = {
+  episodes: "eps",
+  pages: "pages",
+  chapters: "ch",
+  percent: "%",
+  minutes: "min"
+}
+
+// Used for reading time when a book has no length to scale pages against.
+export const READING_MINUTES_PER_PAGE = 2
+
+export interface MediaProgress {
+  unit: ProgressUnit
+  current: number
+  total: number | null
+}
+
+export interface MediaProgressRecord {
+  unit: ProgressUnit
+  value: number
+  recorded_at: string
+}
+
+function isProgressUnit(value: unknown): value is ProgressUnit {
+  return typeof value === "string" && PROGRESS_UNITS.some((unit) => unit.value === value)
+}
+
+export function defaultProgressUnit(medium: string | null | undefined): ProgressUnit {
+  const normalized = medium?.trim().toLowerCase()
+  if (normalized === "book") return "pages"
+  if (normalized === "audiobook") return "minutes"
+  return "episodes"
+}
+
+/** Stored unit, or the medium's default when none has been chosen yet. */
+export function resolveProgressUnit(entry: Pick<MediaEntry, "progress_unit" | "medium">): ProgressUnit {
+  return isProgressUnit(entry.progress_unit) ? entry.progress_unit : defaultProgressUnit(entry.medium)
+}
+
+export function isReadingUnit(unit: ProgressUnit): boolean {
+  return unit === "pages" || unit === "chapters"
+}
+
+export function getEntryProgress(entry: MediaEntry): MediaProgress {
+  const unit = resolveProgressUnit(entry)
+  if (unit === "episodes") {
+    return { unit, current: entry.episodes_watched ?? 0, total: entry.episodes && entry.episodes > 0 ? entry.episodes : null }
+  }
+
+  const total = unit === "percent" ? 100 : entry.progress_total && entry.progress_total > 0 ? entry.progress_total : null
+  return { unit, current: Math.max(0, entry.progress_current ?? 0), total }
+}
+
+export function formatProgress(progress: MediaProgress): string {
+  const suffix = UNIT_SUFFIX[progress.unit]
+  if (progress.unit === "percent") return `${Math.round(progress.current)}%`
+  return progress.total ? `${progress.current}/${progress.total} ${suffix}` : `${progress.current} ${suffix}`
+}
+
+export function parseProgressHistory(value: unknown): MediaProgressRecord[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .filter((item) => isProgressUnit(item.unit) && typeof item.value === "number" && typeof item.recorded_at === "string")
+    .map((item) => ({ unit: item.unit as ProgressUnit, value: item.value as number, recorded_at: item.recorded_at as string }))
+}
+
+/**
+ * Payload that moves non-episode progress one step forward or back, logs the new value
+ * and finishes the entry when the total is reached.
+ */
+export function buildProgressStepPayload(
+  entry: MediaEntry,
+  direction: 1 | -1,
+  recordedAt: string = new Date().toISOString()
+): Partial<MediaEntry> {
+  const progress = getEntryProgress(entry)
+  let next = Math.max(0, progress.current + direction * PROGRESS_STEP[progress.unit])
+  if (progress.total) next = Math.min(next, progress.total)
+
+  const history = [...parseProgressHistory(entry.progress_history), { unit: progress.unit, value: next, recorded_at: recordedAt }]
+  const payload: Partial<MediaEntry> = {
+    progress_unit: progress.unit,
+    progress_current: next,
+    progress_history: history as unknown as MediaEntry["progress_history"],
+    last_watched_at: recordedAt
+  }
+
+  if (progress.total && next >= progress.total) {
+    payload.status = "Finished"
+    payload.finish_date = entry.finish_date ?? recordedAt.slice(0, 10)
+  } else if (direction > 0 && entry.status !== "Watching") {
+    payload.status = "Watching"
+  }
+
+  return payload
+}
+
+/** Minutes from free-text lengths such as "2h 30m", "120 min" or "95". */
+export function parseDurationToMinutes(value: string | null): number | null {
+  if (!value) return null
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return null
+
+  const hourMinute = normalized.match(/(\d+)\s*h(?:ours?)?\s*(\d+)?\s*m?/)
+  if (hourMinute) {
+    const hours = Number(hourMinute[1])
+    const minutes = Number(hourMinute[2] ?? 0)
+    return hours * 60 + minutes
+  }
+
+  const minuteOnly = normalized.match(/(\d+)\s*m(?:in(?:ute)?s?)?/)
+  if (minuteOnly) {
+    return Number(minuteOnly[1])
+  }
+
+  const justNumber = Number(normalized)
+  if (Number.isFinite(justNumber)) return justNumber
+  return null
+}
+
+/**
+ * Time spent from non-episode progress. With a known length the progress fraction scales
+ * it; otherwise minutes count directly and pages use `READING_MINUTES_PER_PAGE`.
+ * Null for episode progress (handled by episode runtimes) or when nothing was logged.
+ */
+export function getProgressMinutes(entry: MediaEntry, lengthMinutes: number | null): number | null {
+  const progress = getEntryProgress(entry)
+  if (progress.unit === "episodes" || entry.progress_current == null) return null
+  if (entry.status === "Finished" && lengthMinutes && lengthMinutes > 0) return lengthMinutes
+
+  const current = entry.status === "Finished" && progress.total ? progress.total : progress.current
+  if (progress.total && lengthMinutes && lengthMinutes > 0) {
+    return (lengthMinutes * Math.min(current, progress.total)) / progress.total
+  }
+  if (progress.unit === "minutes") return current
+  if (progress.unit === "pages") return current * READING_MINUTES_PER_PAGE
+  return null
+}
+
+/** Log a progress value when it differs from the latest record. */
+export function appendProgressRecord(
+  history: MediaProgressRecord[],
+  unit: ProgressUnit,
+  value: number | null,
+  recordedAt: string = new Date().toISOString()
+): MediaProgressRecord[] {
+  if (unit === "episodes" || value == null) return history
+  const latest = history[history.length - 1]
+  if (latest && latest.unit === unit && latest.value === value) return history
+  return [...history, { unit, value, recorded_at: recordedAt }]
+}
@@ -0,0 +1,240 @@
+import type { FranchiseResponse } from "@analytics/contracts"
+import { parseSeasonNumber } from "@/src/features/media/lib/media-editor"
+import type { MediaEntry, MediaRelation, MediaRelationType } from "@/src/shared/types/database"
+
+export const MEDIA_RELATION_TYPES: { value: MediaRelationType; label: string; inverseLabel: string }[] = [
+  { value: "sequel_of", label: "Sequel of", inverseLabel: "Followed by" },
+  { value: "season_of", label: "Next season of", inverseLabel: "Continued by" },
+  { value: "adaptation_of", label: "Adaptation of", inverseLabel: "Adapted as" },
+  { value: "remake_of", label: "Remake of", inverseLabel: "Remade as" }
+]
+
+/** Relation types that continue a story, i.e. what "next in series" follows. */
+const SERIES_RELATION_TYPES = new Set<MediaRelationType>(["sequel_of", "season_of"])
+
+const SCREEN_MEDIUMS = new Set(["movie", "tv show"])
+const BOOK_MEDIUMS = new Set(["book", "audiobook"])
+
+export type MediaRelationDraft = Pick<MediaRelation, "from_entry_id" | "to_entry_id" | "relation_type">
+
+export interface MediaRelationSuggestion extends MediaRelationDraft {
+  reason: string
+}
+
+export interface MediaRelationView {
+  relation: MediaRelation
+  /** The entry on the other end of the relation. */
+  other: MediaEntry
+  /** Reads from the perspective of the entry being viewed, e.g. "Followed by". */
+  label: string
+}
+
+export function getRelationLabel(type: MediaRelationType, inverse = false): string {
+  const match = MEDIA_RELATION_TYPES.find((item) => item.value === type)
+  if (!match) return type
+  return inverse ? match.inverseLabel : match.label
+}
+
+export function normalizeFranchiseTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/^(the|a|an) /, "")
+    .trim()
+}
+
+function hasRelationBetween(relations: MediaRelationDraft[], leftId: string, rightId: string): boolean {
+  return relations.some(
+    (relation) =>
+      (relation.from_entry_id === leftId && relation.to_entry_id === rightId) ||
+      (relation.from_entry_id === rightId && relation.to_entry_id === leftId)
+  )
+}
+
+/** Relations touching `entryId`, labelled from its point of view; relations to deleted entries are dropped. */
+export function getEntryRelations(entryId: string, relations: MediaRelation[], entries: MediaEntry[]): MediaRelationView[] {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  const views: MediaRelationView[] = []
+
+  for (const relation of relations) {
+    const outgoing = relation.from_entry_id === entryId
+    if (!outgoing && relation.to_entry_id !== entryId) continue
+    const other = entriesById.get(outgoing ? relation.to_entry_id : relation.from_entry_id)
+    if (!other) continue
+    views.push({ relation, other, label: getRelationLabel(relation.relation_type, !outgoing) })
+  }
+  return views
+}
+
+/** Throws when a relation would point at itself or duplicate an existing link between the same two entries. */
+export function validateRelation(draft: MediaRelationDraft, relations: MediaRelationDraft[]): void {
+  if (draft.from_entry_id === draft.to_entry_id) throw new Error("An entry cannot be related to itself")
+  if (hasRelationBetween(relations, draft.from_entry_id, draft.to_entry_id)) {
+    throw new Error("These entries are already linked")
+  }
+}
+
+/**
+ * Matches TMDB franchise parts to library rows and links each matched row to the previous matched one:
+ * movies in a collection become sequel_of, seasons of a show become season_of. Parts the library lacks are
+ * skipped, so owning parts 1 and 3 links 3 to 1. Pairs that are already linked are left out.
+ */
+export function suggestRelationsFromFranchise(
+  franchise: FranchiseResponse,
+  entries: MediaEntry[],
+  relations: MediaRelationDraft[]
+): MediaRelationSuggestion[] {
+  const matched: { entry: MediaEntry; order: number }[] = []
+
+  if (franchise.kind === "seasons") {
+    const showTitle = normalizeFranchiseTitle(franchise.name)
+    const shows = entries.filter((entry) => normalizeFranchiseTitle(entry.title) === showTitle)
+    for (const part of franchise.parts) {
+      const entry = shows.find((candidate) => parseSeasonNumber(candidate.season) === part.season_number)
+      if (entry) matched.push({ entry, order: part.order })
+    }
+  } else {
+    const claimed = new Set<string>()
+    for (const part of franchise.parts) {
+      const title = normalizeFranchiseTitle(part.title)
+      const entry = entries.find(
+        (candidate) =>
+          !claimed.has(candidate.id) &&
+          normalizeFranchiseTitle(candidate.title) === title &&
+          (candidate.medium ? SCREEN_MEDIUMS.has(candidate.medium.toLowerCase()) : true)
+      )
+      if (!entry) continue
+      claimed.add(entry.id)
+      matched.push({ entry, order: part.order })
+    }
+  }
+
+  const relationType: MediaRelationType = franchise.kind === "seasons" ? "season_of" : "sequel_of"
+  const suggestions: MediaRelationSuggestion[] = []
+  matched.sort((left, right) => left.order - right.order)
+
+  for (let index = 1; index < matched.length; index += 1) {
+    const previous = matched[index - 1].entry
+    const current = matched[index].entry
+    if (hasRelationBetween(relations, current.id, previous.id)) continue
+    suggestions.push({
+      from_entry_id: current.id,
+      to_entry_id: previous.id,
+      relation_type: relationType,
+      reason: franchise.kind === "seasons"
+        ? `${franchise.name}: season ${parseSeasonNumber(current.season)} follows season ${parseSeasonNumber(previous.season)}`
+        : `${franchise.name}: "${current.title}" follows "${previous.title}"`
+    })
+  }
+  return suggestions
+}
+
+/** Book/screen pairs sharing a title, suggested without a network lookup. */
+export function suggestAdaptations(
+  entry: MediaEntry,
+  entries: MediaEntry[],
+  relations: MediaRelationDraft[]
+): MediaRelationSuggestion[] {
+  const title = normalizeFranchiseTitle(entry.title)
+  const medium = entry.medium?.toLowerCase() ?? ""
+  const isBook = BOOK_MEDIUMS.has(medium)
+  if (!isBook && !SCREEN_MEDIUMS.has(medium)) return []
+
+  return entries
+    .filter((candidate) => {
+      if (candidate.id === entry.id || normalizeFranchiseTitle(candidate.title) !== title) return false
+      const candidateMedium = candidate.medium?.toLowerCase() ?? ""
+      return isBook ? SCREEN_MEDIUMS.has(candidateMedium) : BOOK_MEDIUMS.has(candidateMedium)
+    })
+    .filter((candidate) => !hasRelationBetween(relations, entry.id, candidate.id))
+    .map((candidate) => {
+      const [screen, book] = isBook ? [candidate, entry] : [entry, candidate]
+      return {
+        from_entry_id: screen.id,
+        to_entry_id: book.id,
+        relation_type: "adaptation_of" as const,
+        reason: `The ${screen.medium?.toLowerCase()} shares its title with the ${book.medium?.toLowerCase()}`
+      }
+    })
+}
+
+function compareChronologically(left: MediaEntry, right: MediaEntry): number {
+  const leftDate = left.start_date ?? left.finish_date ?? left.created_at
+  const rightDate = right.start_date ?? right.finish_date ?? right.created_at
+  return leftDate.localeCompare(rightDate) || left.title.localeCompare(right.title)
+}
+
+/**
+ * Every entry connected to `entryId` through any relation, ordered so each entry comes after the one it
+ * follows (a sequel after its predecessor, a film after its book). Unordered neighbours and entries caught
+ * in a cycle fall back to their watch dates.
+ */
+export function buildFranchiseTimeline(entryId: string, entries: MediaEntry[], relations: MediaRelation[]): MediaEntry[] {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  if (!entriesById.has(entryId)) return []
+
+  const component = new Set<string>([entryId])
+  const queue = [entryId]
+  while (queue.length > 0) {
+    const current = queue.shift() as string
+    for (const relation of relations) {
+      const neighbour = relation.from_entry_id === current
+        ? relation.to_entry_id
+        : relation.to_entry_id === current
+          ? relation.from_entry_id
+          : null
+      if (!neighbour || component.has(neighbour) || !entriesById.has(neighbour)) continue
+      component.add(neighbour)
+      queue.push(neighbour)
+    }
+  }
+
+  // Kahn's algorithm over "to comes before from" edges, always taking the earliest ready entry.
+  const inDegree = new Map([...component].map((id) => [id, 0]))
+  const successors = new Map<string, string[]>()
+  for (const relation of relations) {
+    if (!component.has(relation.from_entry_id) || !component.has(relation.to_entry_id)) continue
+    inDegree.set(relation.from_entry_id, (inDegree.get(relation.from_entry_id) ?? 0) + 1)
+    successors.set(relation.to_entry_id, [...(successors.get(relation.to_entry_id) ?? []), relation.from_entry_id])
+  }
+
+  const ordered: MediaEntry[] = []
+  const remaining = new Set(component)
+  while (remaining.size > 0) {
+    const ready = [...remaining].filter((id) => inDegree.get(id) === 0)
+    const candidates = (ready.length > 0 ? ready : [...remaining])
+      .map((id) => entriesById.get(id) as MediaEntry)
+      .sort(compareChronologically)
+    const next = candidates[0]
+
+    ordered.push(next)
+    remaining.delete(next.id)
+    for (const successor of successors.get(next.id) ?? []) {
+      inDegree.set(successor, (inDegree.get(successor) ?? 1) - 1)
+    }
+  }
+  return ordered
+}
+
+/** Direct sequels and next seasons of `entryId` that are not finished yet. */
+export function getNextInSeries(entryId: string, entries: MediaEntry[], relations: MediaRelation[]): MediaEntry[] {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]))
+  return relations
+    .filter((relation) => relation.to_entry_id === entryId && SERIES_RELATION_TYPES.has(relation.relation_type))
+    .map((relation) => entriesById.get(relation.from_entry_id))
+    .filter((entry): entry is MediaEntry => Boolean(entry) && entry?.status !== "Finished")
+    .sort(compareChronologically)
+}
+
+/** What to watch after finishing `finishedIds` together, leaving out entries finished alongside. */
+export function getNextInSeriesAfter(finishedIds: string[], entries: MediaEntry[], relations: MediaRelation[]): MediaEntry[] {
+  const finished = new Set(finishedIds)
+  const next = new Map<string, MediaEntry>()
+  for (const id of finishedIds) {
+    for (const entry of getNextInSeries(id, entries, relations)) {
+      if (!finished.has(entry.id)) next.set(entry.id, entry)
+    }
+  }
+  return [...next.values()].sort(compareChronologically)
+}
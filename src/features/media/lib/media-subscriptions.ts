@@ -0,0 +1,105 @@
+import { parseEpisodeHistory } from "@/src/features/media/lib/media-editor"
+import type { BillingCycle, MediaEntry, PlatformSubscription } from "@/src/shared/types/database"
+
+export const BILLING_CYCLES: BillingCycle[] = ["weekly", "monthly", "yearly"]
+
+// Guards against runaway loops on bad start dates (e.g. year 0001 with a weekly cycle):
+// only the most recent periods are listed.
+const MAX_BILLING_PERIODS = 600
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface BillingPeriod {
+  subscriptionId: string
+  platform: string
+  /** Inclusive start date (YYYY-MM-DD). */
+  start: string
+  /** Exclusive end date (YYYY-MM-DD). */
+  end: string
+  price: number
+  currency: string | null
+}
+
+export function normalizePlatformKey(platform: string | null | undefined): string {
+  return platform?.trim().toLowerCase() ?? ""
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function parseDateKey(value: string): Date | null {
+  const parsed = new Date(`${value.slice(0, 10)}T00:00:00Z`)
+  return Number.isNaN(parsed.getTime()) ? null : parsed
+}
+
+/** Advance by one billing cycle, keeping the anchor day and clamping to short months. */
+function addCycle(anchor: Date, cycle: BillingCycle, count: number): Date {
+  if (cycle === "weekly") {
+    return new Date(anchor.getTime() + count * 7 * DAY_MS)
+  }
+
+  const months = cycle === "yearly" ? count * 12 : count
+  const year = anchor.getUTCFullYear()
+  const month = anchor.getUTCMonth() + months
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(anchor.getUTCDate(), lastDay)))
+}
+
+/** Index of the last cycle starting on or before `limit`, or -1 when the first starts after it. */
+function lastCycleIndex(anchor: Date, cycle: BillingCycle, limit: Date): number {
+  if (limit < anchor) return -1
+
+  const months = (limit.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + limit.getUTCMonth() - anchor.getUTCMonth()
+  const estimate =
+    cycle === "weekly"
+      ? Math.floor((limit.getTime() - anchor.getTime()) / (7 * DAY_MS))
+      : Math.floor(months / (cycle === "yearly" ? 12 : 1))
+
+  // Months and years can overshoot by one when the anchor day is later in the month than the limit
+  return addCycle(anchor, cycle, estimate) > limit ? estimate - 1 : estimate
+}
+
+/**
+ * Billing periods charged up to `today`. A period is billed when it starts before
+ * the cancel date (if any) and on or before today.
+ */
+export function listBillingPeriods(subscription: PlatformSubscription, today: string): BillingPeriod[] {
+  const anchor = parseDateKey(subscription.start_date)
+  const todayDate = parseDateKey(today)
+  if (!anchor || !todayDate || !(subscription.price >= 0)) return []
+
+  const cancelDate = subscription.cancel_date ? parseDateKey(subscription.cancel_date) : null
+  const dayBeforeCancel = cancelDate ? new Date(cancelDate.getTime() - DAY_MS) : null
+  const limit = dayBeforeCancel && dayBeforeCancel < todayDate ? dayBeforeCancel : todayDate
+
+  const cycle = BILLING_CYCLES.includes(subscription.billing_cycle) ? subscription.billing_cycle : "monthly"
+  const lastIndex = lastCycleIndex(anchor, cycle, limit)
+  const periods: BillingPeriod[] = []
+
+  for (let index = Math.max(0, lastIndex - MAX_BILLING_PERIODS + 1); index <= lastIndex; index += 1) {
+    periods.push({
+      subscriptionId: subscription.id,
+      platform: subscription.platform,
+      start: toDateKey(addCycle(anchor, cycle, index)),
+      end: toDateKey(addCycle(anchor, cycle, index + 1)),
+      price: subscription.price,
+      currency: subscription.currency
+    })
+  }
+
+  return periods
+}
+
+/** Dates on which an entry shows watch activity: start, finish, last watched and logged episodes. */
+export function getEntryActivityDates(entry: MediaEntry): string[] {
+  const dates = [entry.start_date, entry.finish_date, entry.last_watched_at]
+    .concat(parseEpisodeHistory(entry.episode_history).map((item) => item.watched_at))
+    .filter((value): value is string => typeof value === "string" && value.length >= 10)
+    .map((value) => value.slice(0, 10))
+
+  return Array.from(new Set(dates))
+}
+
+export function isDateInPeriod(date: string, period: Pick<BillingPeriod, "start" | "end">): boolean {
+  return date >= period.start && date < period.end
+}
@@ -7,14 +7,18 @@ import { MediaEditorContent } from "@/src/features/media/components/media-editor
 import { MediaMetadataConflictModal } from "@/src/features/media/components/media-metadata-conflict-modal"
 import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
 import { setPendingMediaFlashMessage } from "@/src/features/media/lib/media-flash-message"
+import { applyFeedEpisodesToDraft, isPodcastMedium } from "@/src/features/media/lib/media-podcast"
 import {
   addEpisodeToDraft,
   applyMetadataSelection,
+  applySeasonEpisodesToDraft,
   buildMediaEditorDraft,
   buildMediaEntryPayloadFromDraft,
   buildMetadataSelectionFromDraft,
   deleteEpisodeHistoryItem,
   markFinishedTodayInDraft,
+  parseSeasonNumber,
+  toggleEpisodeWatchedInDraft,
   updateEpisodeHistoryDate,
   type MediaEditorDraft,
   type MediaEditorTab,
@@ -24,6 +28,7 @@ import { backendFetch } from "@/src/shared/api/backend"
 import { uploadAssetToBackend } from "@/src/shared/api/upload"
 import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
 import type { MediaEntry, MediaStatusHistory } from "@/src/shared/types/database"
+import type { PodcastFeedResponse, SeasonEpisodesResponse } from "@analytics/contracts"
 
 function HeaderButton({
   color,
@@ -77,6 +82,7 @@ export function MediaAddScreen() {
   const [messageTone, setMessageTone] = useState<"default" | "danger">("default")
   const [uploadingPoster, setUploadingPoster] = useState(false)
   const [fetchingMetadata, setFetchingMetadata] = useState(false)
+  const [fetchingEpisodes, setFetchingEpisodes] = useState(false)
   const [pendingMetadata, setPendingMetadata] = useState<PendingMediaMetadataSelection | null>(null)
   const [statusHistory, setStatusHistory] = useState<MediaStatusHistory[]>([])
   const [historyLoading, setHistoryLoading] = useState(false)
@@ -184,7 +190,7 @@ export function MediaAddScreen() {
     }
   }
 
-  async function fetchMetadata(paramsOverride?: { title?: string; imdb_id?: string }) {
+  async function fetchMetadata(paramsOverride?: { title?: string; imdb_id?: string; isbn?: string }) {
     const titleParam = paramsOverride?.title ?? draft.title.trim()
     const imdbIdParam = paramsOverride?.imdb_id ?? draft.imdbId.trim()
     if (!titleParam && !imdbIdParam) {
@@ -198,6 +204,8 @@ export function MediaAddScreen() {
       const params = new URLSearchParams()
       if (titleParam) params.set("title", titleParam)
       if (imdbIdParam) params.set("imdb_id", imdbIdParam)
+      if (paramsOverride?.isbn) params.set("isbn", paramsOverride.isbn)
+      if (draft.medium.trim()) params.set("medium", draft.medium.trim())
       if (draft.medium === "Movie") params.set("type", "movie")
       if (draft.medium === "TV Show") params.set("type", "series")
       if (draft.season.trim()) params.set("season", draft.season.trim())
@@ -222,6 +230,57 @@ export function MediaAddScreen() {
     }
   }
 
+  async function fetchFeed() {
+    const feedUrl = draft.feedUrl.trim()
+    if (!feedUrl) {
+      setEditorMessage("Enter the podcast's RSS feed URL first", "danger")
+      return
+    }
+
+    setFetchingEpisodes(true)
+    setEditorMessage(null)
+    try {
+      const response = await backendFetch<PodcastFeedResponse>(`/api/metadata/feed?${new URLSearchParams({ url: feedUrl }).toString()}`)
+      setDraft((prev) => applyFeedEpisodesToDraft(prev, response).draft)
+      setEditorMessage(`Loaded ${response.episodes.length} episodes from the feed`)
+    } catch (error) {
+      setEditorMessage(error instanceof Error ? error.message : "Failed to load feed", "danger")
+    } finally {
+      setFetchingEpisodes(false)
+    }
+  }
+
+  async function fetchEpisodes() {
+    if (isPodcastMedium(draft.medium)) {
+      await fetchFeed()
+      return
+    }
+
+    const titleParam = draft.title.trim()
+    const imdbIdParam = draft.imdbId.trim()
+    if (!titleParam && !imdbIdParam) {
+      setEditorMessage("Enter a title or IMDb ID first", "danger")
+      return
+    }
+
+    setFetchingEpisodes(true)
+    setEditorMessage(null)
+    try {
+      const params = new URLSearchParams()
+      if (titleParam) params.set("title", titleParam)
+      if (imdbIdParam) params.set("imdb_id", imdbIdParam)
+      params.set("season", String(parseSeasonNumber(draft.season)))
+
+      const response = await backendFetch<SeasonEpisodesResponse>(`/api/metadata/episodes?${params.toString()}`)
+      setDraft((prev) => applySeasonEpisodesToDraft(prev, response))
+      setEditorMessage(`Loaded ${response.episodes.length} episodes for season ${response.season}`)
+    } catch (error) {
+      setEditorMessage(error instanceof Error ? error.message : "Failed to fetch episodes", "danger")
+    } finally {
+      setFetchingEpisodes(false)
+    }
+  }
+
   function toggleMetadataField(field: keyof PendingMediaMetadataSelection["selections"]) {
     setPendingMetadata((prev) =>
       prev
@@ -282,6 +341,10 @@ export function MediaAddScreen() {
     setEditorMessage(`Logged episode ${episode}`)
   }
 
+  function toggleEpisodeWatched(episode: number) {
+    setDraft((prev) => toggleEpisodeWatchedInDraft(prev, episode))
+  }
+
   function finishToday() {
     const nextDraft = markFinishedTodayInDraft(draft)
     if (!nextDraft) {
@@ -359,8 +422,10 @@ export function MediaAddScreen() {
           saving={saving}
           uploadingPoster={uploadingPoster}
           fetchingMetadata={fetchingMetadata}
+          fetchingEpisodes={fetchingEpisodes}
           historyLoading={historyLoading}
           isPersisted={Boolean(currentEntry)}
+          entryId={currentEntry?.id ?? null}
           statusHistory={statusHistory}
           showDelete={Boolean(currentEntry)}
           onTabChange={setTab}
@@ -377,7 +442,11 @@ export function MediaAddScreen() {
           onFetchMetadata={(params) => {
             void fetchMetadata(params)
           }}
+          onFetchEpisodes={() => {
+            void fetchEpisodes()
+          }}
           onAddEpisode={addEpisode}
+          onToggleEpisodeWatched={toggleEpisodeWatched}
           onFinishedToday={finishToday}
           onUpdateEpisodeDate={updateEpisodeDate}
           onDeleteEpisode={removeEpisode}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { Image } from "expo-image"
+import { Stack, useLocalSearchParams, useRouter } from "expo-router"
+import { useMediaCollections } from "@/src/features/media/hooks/useMediaCollections"
+import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
+import {
+  formatCollectionProgress,
+  getCollectionCover,
+  getCollectionEntries,
+  getCollectionProgress,
+  moveCollectionItem
+} from "@/src/features/media/lib/media-collections"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+export function MediaCollectionScreen() {
+  const { palette } = useAppTheme()
+  const router = useRouter()
+  const params = useLocalSearchParams<{ id?: string | string[] }>()
+  const collectionId = Array.isArray(params.id) ? params.id[0] : params.id
+  const { data: entries } = useMediaEntries()
+  const { data: collections, isLoading, updateCollection, deleteCollection, removeItem, reorderItems, saving } =
+    useMediaCollections()
+
+  const collection = (collections ?? []).find((item) => item.id === collectionId) ?? null
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [coverUrl, setCoverUrl] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setName(collection?.name ?? "")
+    setDescription(collection?.description ?? "")
+    setCoverUrl(collection?.cover_url ?? "")
+  }, [collection?.name, collection?.description, collection?.cover_url])
+
+  if (isLoading) {
+    return (
+      <ScreenScrollView>
+        <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+      </ScreenScrollView>
+    )
+  }
+
+  if (!collection) {
+    return (
+      <ScreenScrollView>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          This collection no longer exists.
+        </Text>
+      </ScreenScrollView>
+    )
+  }
+
+  const current = collection
+  const members = getCollectionEntries(current, entries ?? [])
+  const progress = getCollectionProgress(members)
+  const cover = getCollectionCover(current, members)
+  const itemsByEntryId = new Map(current.items.map((item) => [item.media_entry_id, item]))
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function run(action: () => Promise<string | null>) {
+    setMessage(null)
+    setError(null)
+    try {
+      setMessage(await action())
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update collection")
+    }
+  }
+
+  function saveDetails() {
+    void run(async () => {
+      await updateCollection({
+        id: current.id,
+        patch: { name: name.trim(), description: description.trim() || null, cover_url: coverUrl.trim() || null }
+      })
+      return "Collection saved"
+    })
+  }
+
+  function move(itemId: string, direction: -1 | 1) {
+    void run(async () => {
+      await reorderItems(moveCollectionItem(current.items, itemId, direction))
+      return null
+    })
+  }
+
+  function removeCollection() {
+    void run(async () => {
+      await deleteCollection(current.id)
+      router.back()
+      return null
+    })
+  }
+
+  return (
+    <ScreenScrollView>
+      <Stack.Screen options={{ title: current.name }} />
+
+      <View style={styles.hero}>
+        {cover ? (
+          <Image source={{ uri: cover }} style={styles.cover} contentFit="cover" />
+        ) : (
+          <View style={[styles.cover, { backgroundColor: palette.surfaceMuted }]} />
+        )}
+        <View style={{ flex: 1, gap: 6 }}>
+          <Text selectable style={{ color: palette.text, fontSize: 24, fontWeight: "700", letterSpacing: -0.4 }}>
+            {current.name}
+          </Text>
+          {current.description ? (
+            <Text selectable style={{ color: palette.textMuted, fontSize: 14 }}>{current.description}</Text>
+          ) : null}
+          <Text selectable style={{ color: palette.text, fontSize: 14, fontWeight: "600" }}>
+            {formatCollectionProgress(progress)}
+          </Text>
+        </View>
+      </View>
+
+      {message ? <Text selectable style={{ color: palette.success, fontSize: 13 }}>{message}</Text> : null}
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <GroupedSection title="Entries" footer="Add entries from select mode on the media list.">
+        {members.length === 0 ? (
+          <SettingsRow title="No entries yet" subtitle="Select entries on the media list and choose Add to Collection." />
+        ) : (
+          members.map((entry, index) => {
+            const item = itemsByEntryId.get(entry.id)
+            if (!item) return null
+
+            return (
+              <SettingsRow
+                key={item.id}
+                title={`${index + 1}. ${entry.title}`}
+                subtitle={[entry.medium, entry.status].filter(Boolean).join(" • ")}
+                accessory={
+                  <View style={styles.actions}>
+                    {index > 0 ? (
+                      <Pressable disabled={saving} onPress={() => move(item.id, -1)}>
+                        <Text style={{ color: palette.primary, fontWeight: "600" }}>Up</Text>
+                      </Pressable>
+                    ) : null}
+                    {index < members.length - 1 ? (
+                      <Pressable disabled={saving} onPress={() => move(item.id, 1)}>
+                        <Text style={{ color: palette.primary, fontWeight: "600" }}>Down</Text>
+                      </Pressable>
+                    ) : null}
+                    <Pressable
+                      disabled={saving}
+                      onPress={() => void run(async () => {
+                        await removeItem(item.id)
+                        return `Removed "${entry.title}"`
+                      })}
+                    >
+                      <Text style={{ color: palette.danger, fontWeight: "600" }}>Remove</Text>
+                    </Pressable>
+                  </View>
+                }
+              />
+            )
+          })
+        )}
+      </GroupedSection>
+
+      <GroupedSection title="Details">
+        <View style={styles.form}>
+          <TextInput
+            style={inputStyle}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={inputStyle}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Description"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={inputStyle}
+            value={coverUrl}
+            onChangeText={setCoverUrl}
+            autoCapitalize="none"
+            placeholder="Cover image URL (blank = first poster)"
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable
+            style={[styles.button, { backgroundColor: palette.primary }]}
+            onPress={saveDetails}
+            disabled={saving || !name.trim()}
+          >
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Save</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Danger Zone" footer="Entries stay in your library; only the collection is removed.">
+        <SettingsRow title="Delete Collection" destructive onPress={removeCollection} />
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  hero: { flexDirection: "row", gap: 16, alignItems: "center" },
+  cover: { width: 96, height: 140, borderRadius: 14 },
+  actions: { flexDirection: "row", gap: 14 },
+  form: { padding: 16, gap: 10 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
@@ -0,0 +1,156 @@
+import { useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { Image } from "expo-image"
+import { useRouter } from "expo-router"
+import { useMediaCollections } from "@/src/features/media/hooks/useMediaCollections"
+import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
+import {
+  formatCollectionProgress,
+  getCollectionCover,
+  getCollectionEntries,
+  getCollectionProgress
+} from "@/src/features/media/lib/media-collections"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+
+export function MediaCollectionsScreen() {
+  const { palette } = useAppTheme()
+  const router = useRouter()
+  const { data: entries } = useMediaEntries()
+  const { data: collections, isLoading, createCollection, saving } = useMediaCollections()
+
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [coverUrl, setCoverUrl] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function addCollection() {
+    setError(null)
+    try {
+      const created = await createCollection({ name, description, cover_url: coverUrl })
+      setName("")
+      setDescription("")
+      setCoverUrl("")
+      router.push(`/media/collections/${created.id}`)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create collection")
+    }
+  }
+
+  return (
+    <ScreenScrollView>
+      <View style={{ gap: 4 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 34, fontWeight: "700", letterSpacing: -0.6 }}>
+          Collections
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          Curated, ordered lists of entries. Add entries from select mode on the media list.
+        </Text>
+      </View>
+
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <GroupedSection title="Your Collections">
+        {isLoading ? (
+          <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+        ) : (collections ?? []).length === 0 ? (
+          <Text selectable style={{ color: palette.textMuted, fontSize: 14, padding: 16 }}>
+            No collections yet.
+          </Text>
+        ) : (
+          (collections ?? []).map((collection) => {
+            const members = getCollectionEntries(collection, entries ?? [])
+            const progress = getCollectionProgress(members)
+            const cover = getCollectionCover(collection, members)
+
+            return (
+              <Pressable
+                key={collection.id}
+                onPress={() => router.push(`/media/collections/${collection.id}`)}
+                style={({ pressed }) => [styles.row, { backgroundColor: pressed ? palette.surfaceMuted : "transparent" }]}
+              >
+                {cover ? (
+                  <Image source={{ uri: cover }} style={styles.cover} contentFit="cover" />
+                ) : (
+                  <View style={[styles.cover, { backgroundColor: palette.surfaceMuted }]} />
+                )}
+                <View style={{ flex: 1, gap: 4 }}>
+                  <Text selectable style={{ color: palette.text, fontSize: 16, fontWeight: "700" }}>
+                    {collection.name}
+                  </Text>
+                  {collection.description ? (
+                    <Text selectable numberOfLines={1} style={{ color: palette.textMuted, fontSize: 13 }}>
+                      {collection.description}
+                    </Text>
+                  ) : null}
+                  <Text selectable style={{ color: palette.textMuted, fontSize: 13 }}>
+                    {formatCollectionProgress(progress)}
+                  </Text>
+                  <View style={[styles.progressTrack, { backgroundColor: palette.surfaceMuted }]}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        {
+                          backgroundColor: palette.primary,
+                          width: `${progress.total > 0 ? Math.round((progress.finished / progress.total) * 100) : 0}%`
+                        }
+                      ]}
+                    />
+                  </View>
+                </View>
+              </Pressable>
+            )
+          })
+        )}
+      </GroupedSection>
+
+      <GroupedSection title="New Collection" footer="Without a cover URL the first entry's poster is used.">
+        <View style={styles.form}>
+          <TextInput
+            style={inputStyle}
+            value={name}
+            onChangeText={setName}
+            placeholder="Name (e.g. Ghibli marathon)"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={inputStyle}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="Description"
+            placeholderTextColor={palette.textMuted}
+          />
+          <TextInput
+            style={inputStyle}
+            value={coverUrl}
+            onChangeText={setCoverUrl}
+            autoCapitalize="none"
+            placeholder="Cover image URL"
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable
+            style={[styles.button, { backgroundColor: palette.primary }]}
+            onPress={() => void addCollection()}
+            disabled={saving || !name.trim()}
+          >
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Create Collection</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: "row", alignItems: "center", gap: 12, paddingHorizontal: 16, paddingVertical: 12 },
+  cover: { width: 56, height: 80, borderRadius: 10 },
+  progressTrack: { height: 6, borderRadius: 999, overflow: "hidden" },
+  progressFill: { height: 6, borderRadius: 999 },
+  form: { padding: 16, gap: 10 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
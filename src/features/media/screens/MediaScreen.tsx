@@ -17,6 +17,7 @@ import { SafeAreaView } from "react-native-safe-area-context"
 import * as DocumentPicker from "expo-document-picker"
 import * as FileSystem from "expo-file-system"
 import * as ImagePicker from "expo-image-picker"
+import { MediaCollectionPickerSheet } from "@/src/features/media/components/media-collection-picker-sheet"
 import { MediaEditorContent } from "@/src/features/media/components/media-editor-content"
 import { MediaEntryRow } from "@/src/features/media/components/media-entry-row"
 import { MediaFilterStrip } from "@/src/features/media/components/media-filter-strip"
@@ -24,25 +25,39 @@ import { MediaHeaderActions } from "@/src/features/media/components/media-header
 import { MediaMetadataConflictModal } from "@/src/features/media/components/media-metadata-conflict-modal"
 import { MediaOverflowSheet } from "@/src/features/media/components/media-overflow-sheet"
 import { MediaSelectionToolbar } from "@/src/features/media/components/media-selection-toolbar"
+import { MediaWatchThisModal } from "@/src/features/media/components/media-watch-this-modal"
 import { MediaWatchingShelf } from "@/src/features/media/components/media-watching-shelf"
 import { MediaAnalyticsPanel } from "@/src/features/analytics/components/MediaAnalyticsPanel"
 import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
+import { useMediaRelations } from "@/src/features/media/hooks/useMediaRelations"
 import { consumePendingMediaFlashMessage } from "@/src/features/media/lib/media-flash-message"
 import {
   addEpisodeToDraft,
   applyMetadataSelection,
+  applySeasonEpisodesToDraft,
   buildMediaEditorDraft,
   buildMediaEntryPayloadFromDraft,
   buildMetadataSelectionFromDraft,
   deleteEpisodeHistoryItem,
   markFinishedTodayInDraft,
   parseEpisodeHistory,
+  parseEpisodeMetadata,
+  parseSeasonNumber,
+  toggleEpisodeWatchedInDraft,
   updateEpisodeHistoryDate,
   type MediaEditorDraft,
   type MediaEditorTab,
   type MediaMetadataConflictField,
   type PendingMediaMetadataSelection
 } from "@/src/features/media/lib/media-editor"
+import {
+  applyFeedEpisodesToDraft,
+  buildFeedRefreshPayload,
+  isPodcastMedium,
+  mergeFeedEpisodes
+} from "@/src/features/media/lib/media-podcast"
+import { buildProgressStepPayload, resolveProgressUnit } from "@/src/features/media/lib/media-progress"
+import { getNextInSeriesAfter } from "@/src/features/media/lib/media-relations"
 import { NativeSegmentedControl } from "@/src/shared/components/native/native-segmented-control"
 import { GroupedSection } from "@/src/shared/components/native/grouped-section"
 import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
@@ -50,7 +65,13 @@ import { backendFetch } from "@/src/shared/api/backend"
 import { uploadAssetToBackend } from "@/src/shared/api/upload"
 import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
 import type { MediaEntry, MediaStatusHistory } from "@/src/shared/types/database"
-import type { CleanDataResponse, CleanedMediaEntry, MetadataResponse } from "@analytics/contracts"
+import type {
+  CleanDataResponse,
+  CleanedMediaEntry,
+  MetadataResponse,
+  PodcastFeedResponse,
+  SeasonEpisodesResponse
+} from "@analytics/contracts"
 
 type SortKey = "title" | "rating" | "finish_date"
 
@@ -111,6 +132,7 @@ function toCreatePayloadFromCleanedEntry(entry: CleanedMediaEntry): (Partial<Med
     my_rating: typeof entry.my_rating === "number" ? entry.my_rating : undefined,
     average_rating: typeof entry.average_rating === "number" ? entry.average_rating : undefined,
     price: typeof entry.price === "number" ? entry.price : undefined,
+    currency: typeof entry.currency === "string" && entry.currency.trim() ? entry.currency.trim().toUpperCase() : undefined,
     episodes: typeof entry.episodes === "number" ? entry.episodes : undefined,
     language: parseFlexibleList(entry.language) ?? undefined,
     genre: parseFlexibleList(entry.genre) ?? undefined,
@@ -215,6 +237,7 @@ export function MediaScreen() {
   const router = useRouter()
   const { palette } = useAppTheme()
   const { data, isLoading, error, createEntry, updateEntry, deleteEntry, getStatusHistory, refetch } = useMediaEntries()
+  const { data: relations } = useMediaRelations()
 
   const [search, setSearch] = useState("")
   const [workspaceMode, setWorkspaceMode] = useState<MediaWorkspaceMode>("diary")
@@ -234,6 +257,7 @@ export function MediaScreen() {
   const [selectMode, setSelectMode] = useState(false)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [batchEditOpen, setBatchEditOpen] = useState(false)
+  const [collectionPickerOpen, setCollectionPickerOpen] = useState(false)
   const [batchEditSaving, setBatchEditSaving] = useState(false)
   const [batchEditForm, setBatchEditForm] = useState({
     status: "",
@@ -254,14 +278,13 @@ export function MediaScreen() {
   const [formState, setFormState] = useState<MediaEditorDraft | null>(null)
   const [saving, setSaving] = useState(false)
   const [fetchingMetadata, setFetchingMetadata] = useState(false)
+  const [fetchingEpisodes, setFetchingEpisodes] = useState(false)
   const [uploadingPoster, setUploadingPoster] = useState(false)
   const [statusHistory, setStatusHistory] = useState<MediaStatusHistory[]>([])
   const [historyLoading, setHistoryLoading] = useState(false)
   const [pendingMetadata, setPendingMetadata] = useState<PendingMediaMetadataSelection | null>(null)
 
-  const [watchThisEntry, setWatchThisEntry] = useState<MediaEntry | null>(null)
-  const [watchThisSynopsis, setWatchThisSynopsis] = useState<string>("")
-  const [watchThisLoading, setWatchThisLoading] = useState(false)
+  const [watchThisOpen, setWatchThisOpen] = useState(false)
 
   const entries = data ?? []
 
@@ -463,6 +486,7 @@ export function MediaScreen() {
 
         const params = new URLSearchParams({ title: row.title, source: "tmdb" })
         if (row.imdb_id) params.set("imdb_id", row.imdb_id)
+        if (row.medium) params.set("medium", row.medium)
         if (row.medium === "Movie") params.set("type", "movie")
         if (row.medium === "TV Show") params.set("type", "series")
 
@@ -574,7 +598,7 @@ export function MediaScreen() {
     )
   }
 
-  async function fetchMetadataForForm(paramsOverride?: { title?: string; imdb_id?: string }) {
+  async function fetchMetadataForForm(paramsOverride?: { title?: string; imdb_id?: string; isbn?: string }) {
     if (!formState) return
 
     const titleParam = paramsOverride?.title ?? formState.title.trim()
@@ -590,6 +614,8 @@ export function MediaScreen() {
       const params = new URLSearchParams()
       if (titleParam) params.set("title", titleParam)
       if (imdbIdParam) params.set("imdb_id", imdbIdParam)
+      if (paramsOverride?.isbn) params.set("isbn", paramsOverride.isbn)
+      if (formState.medium.trim()) params.set("medium", formState.medium.trim())
       if (formState.medium === "Movie") params.set("type", "movie")
       if (formState.medium === "TV Show") params.set("type", "series")
       if (formState.season.trim()) params.set("season", formState.season.trim())
@@ -614,6 +640,62 @@ export function MediaScreen() {
     }
   }
 
+  async function fetchFeedForForm() {
+    if (!formState) return
+
+    const feedUrl = formState.feedUrl.trim()
+    if (!feedUrl) {
+      setMessage("Enter the podcast's RSS feed URL first")
+      return
+    }
+
+    setFetchingEpisodes(true)
+    setMessage(null)
+    try {
+      const response = await backendFetch<PodcastFeedResponse>(`/api/metadata/feed?${new URLSearchParams({ url: feedUrl }).toString()}`)
+      const fetchedAt = new Date().toISOString()
+      const { newEpisodes } = applyFeedEpisodesToDraft(formState, response, fetchedAt)
+      setFormState((prev) => (prev ? applyFeedEpisodesToDraft(prev, response, fetchedAt).draft : prev))
+      setMessage(newEpisodes > 0 ? `${newEpisodes} new episodes` : `Loaded ${response.episodes.length} episodes from the feed`)
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Failed to load feed")
+    } finally {
+      setFetchingEpisodes(false)
+    }
+  }
+
+  async function fetchEpisodesForForm() {
+    if (!formState) return
+    if (isPodcastMedium(formState.medium)) {
+      await fetchFeedForForm()
+      return
+    }
+
+    const titleParam = formState.title.trim()
+    const imdbIdParam = formState.imdbId.trim()
+    if (!titleParam && !imdbIdParam) {
+      setMessage("Enter a title or IMDb ID first")
+      return
+    }
+
+    setFetchingEpisodes(true)
+    setMessage(null)
+    try {
+      const params = new URLSearchParams()
+      if (titleParam) params.set("title", titleParam)
+      if (imdbIdParam) params.set("imdb_id", imdbIdParam)
+      params.set("season", String(parseSeasonNumber(formState.season)))
+
+      const response = await backendFetch<SeasonEpisodesResponse>(`/api/metadata/episodes?${params.toString()}`)
+      setFormState((prev) => (prev ? applySeasonEpisodesToDraft(prev, response) : prev))
+      setMessage(`Loaded ${response.episodes.length} episodes for season ${response.season}`)
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Failed to fetch episodes")
+    } finally {
+      setFetchingEpisodes(false)
+    }
+  }
+
   async function pickAndUploadPoster() {
     if (!formState) return
     const permission = await ImagePicker.requestMediaLibraryPermissionsAsync()
@@ -647,6 +729,12 @@ export function MediaScreen() {
     }
   }
 
+  /** Every way of finishing entries (editor, batch, shelf) suggests what comes next in their series. */
+  function withNextInSeries(message: string, finishedIds: string[]): string {
+    const next = getNextInSeriesAfter(finishedIds, data ?? [], relations ?? [])
+    return next.length > 0 ? `${message}. Next in series: ${next.map((entry) => entry.title).join(", ")}` : message
+  }
+
   async function saveEntryDetails() {
     if (!selectedEntry || !formState) return
     const payload = buildMediaEntryPayloadFromDraft(formState)
@@ -660,7 +748,8 @@ export function MediaScreen() {
     try {
       await updateEntry({ id: selectedEntry.id, payload })
       await refetch()
-      setMessage("Entry updated")
+      const finished = payload.status === "Finished" && selectedEntry.status !== "Finished"
+      setMessage(withNextInSeries("Entry updated", finished ? [selectedEntry.id] : []))
       closeEntryDetails()
     } catch (e) {
       setMessage(e instanceof Error ? e.message : "Failed to save entry")
@@ -689,11 +778,29 @@ export function MediaScreen() {
     await refetch()
   }
 
+  async function stepProgressForEntry(entry: MediaEntry, direction: 1 | -1) {
+    if (resolveProgressUnit(entry) === "episodes") {
+      if (direction > 0) await markNextEpisodeForEntry(entry)
+      return
+    }
+
+    const payload = buildProgressStepPayload(entry, direction)
+    await updateEntry({ id: entry.id, payload })
+    await refetch()
+    if (payload.status === "Finished" && entry.status !== "Finished") {
+      setMessage(withNextInSeries(`Finished ${entry.title}`, [entry.id]))
+    }
+  }
+
   function addEpisodeToEditor(episode: number) {
     setFormState((prev) => (prev ? addEpisodeToDraft(prev, episode) : prev))
     setMessage(`Logged episode ${episode}`)
   }
 
+  function toggleEpisodeWatchedInEditor(episode: number) {
+    setFormState((prev) => (prev ? toggleEpisodeWatchedInDraft(prev, episode) : prev))
+  }
+
   function finishTodayInEditor() {
     if (!formState) return
     const nextDraft = markFinishedTodayInDraft(formState)
@@ -742,6 +849,7 @@ export function MediaScreen() {
 
         const params = new URLSearchParams({ title: entry.title, source: "tmdb" })
         if (entry.imdb_id) params.set("imdb_id", entry.imdb_id)
+        if (entry.medium) params.set("medium", entry.medium)
         if (entry.medium === "Movie") params.set("type", "movie")
         if (entry.medium === "TV Show") params.set("type", "series")
 
@@ -752,6 +860,9 @@ export function MediaScreen() {
           if (!entry.imdb_id && typeof metadata.imdb_id === "string") patch.imdb_id = metadata.imdb_id
           if (entry.average_rating == null && typeof metadata.average_rating === "number") patch.average_rating = metadata.average_rating
           if (!entry.length && typeof metadata.length === "string") patch.length = metadata.length
+          if (entry.progress_total == null && resolveProgressUnit(entry) === "pages" && typeof metadata.page_count === "number") {
+            patch.progress_total = metadata.page_count
+          }
           if ((!entry.genre || entry.genre.length === 0) && Array.isArray(metadata.genre)) {
             patch.genre = metadata.genre.filter((item): item is string => typeof item === "string")
           }
@@ -774,6 +885,39 @@ export function MediaScreen() {
     }
   }
 
+  async function refreshPodcastFeeds() {
+    const podcasts = entries.filter((entry) => entry.feed_url && isPodcastMedium(entry.medium))
+    if (podcasts.length === 0) {
+      setMessage("No podcasts have an RSS feed yet")
+      return
+    }
+
+    setBatchFetching(true)
+    setMessage(null)
+    let newEpisodes = 0
+    let resumedCount = 0
+
+    try {
+      for (const entry of podcasts) {
+        try {
+          const params = new URLSearchParams({ url: entry.feed_url ?? "" })
+          const response = await backendFetch<PodcastFeedResponse>(`/api/metadata/feed?${params.toString()}`)
+          const merged = mergeFeedEpisodes(parseEpisodeMetadata(entry.episode_metadata), response)
+          const payload = buildFeedRefreshPayload(entry, merged.cache, merged.newEpisodes)
+          await updateEntry({ id: entry.id, payload })
+          newEpisodes += merged.newEpisodes
+          if (payload.status !== entry.status) resumedCount += 1
+        } catch {
+          // keep best-effort behavior
+        }
+      }
+      setMessage(`Feeds refreshed. ${newEpisodes} new episodes, ${resumedCount} podcasts back to Watching.`)
+      await refetch()
+    } finally {
+      setBatchFetching(false)
+    }
+  }
+
   async function batchDeleteSelected() {
     if (selectedIds.size === 0) return
     for (const id of selectedIds) {
@@ -787,9 +931,11 @@ export function MediaScreen() {
   async function batchSetFinished() {
     if (selectedIds.size === 0) return
     const today = new Date().toISOString().slice(0, 10)
+    const finishedIds: string[] = []
     for (const id of selectedIds) {
       const entry = entries.find((item) => item.id === id)
       if (!entry) continue
+      if (entry.status !== "Finished") finishedIds.push(id)
       await updateEntry({
         id,
         payload: {
@@ -800,7 +946,7 @@ export function MediaScreen() {
       })
     }
     setSelectedIds(new Set())
-    setMessage("Selected entries marked finished")
+    setMessage(withNextInSeries("Selected entries marked finished", finishedIds))
     await refetch()
   }
 
@@ -875,36 +1021,6 @@ export function MediaScreen() {
     }
   }
 
-  function pickRandomPlanned() {
-    const planned = entries.filter((entry) => statusBucket(entry.status) === "planned")
-    if (planned.length === 0) {
-      setMessage("No planned entries available")
-      return
-    }
-    const random = planned[Math.floor(Math.random() * planned.length)]
-    setWatchThisEntry(random)
-    loadWatchThisSynopsis(random)
-  }
-
-  async function loadWatchThisSynopsis(entry: MediaEntry) {
-    setWatchThisLoading(true)
-    setWatchThisSynopsis("")
-    try {
-      const params = new URLSearchParams()
-      params.set("source", "tmdb")
-      if (entry.imdb_id) params.set("imdb_id", entry.imdb_id)
-      if (entry.title) params.set("title", entry.title)
-      if (entry.medium === "Movie") params.set("type", "movie")
-      if (entry.medium === "TV Show") params.set("type", "series")
-      const metadata = await backendFetch<Record<string, unknown>>(`/api/metadata?${params.toString()}`)
-      setWatchThisSynopsis(typeof metadata.plot === "string" ? metadata.plot : "No synopsis available.")
-    } catch {
-      setWatchThisSynopsis("Could not load synopsis.")
-    } finally {
-      setWatchThisLoading(false)
-    }
-  }
-
   function toggleSelected(id: string) {
     setSelectedIds((prev) => {
       const next = new Set(prev)
@@ -990,8 +1106,8 @@ export function MediaScreen() {
             entries={watchingEntries}
             palette={palette}
             onOpenEntry={openEntryDetails}
-            onAddEpisode={(entry) => {
-              void markNextEpisodeForEntry(entry)
+            onStepProgress={(entry, direction) => {
+              void stepProgressForEntry(entry, direction)
             }}
           />
 
@@ -1060,16 +1176,28 @@ export function MediaScreen() {
         onClose={() => setOverflowOpen(false)}
         onPickRandomPlanned={() => {
           setOverflowOpen(false)
-          pickRandomPlanned()
+          setWatchThisOpen(true)
         }}
         onBatchFetchMetadata={() => {
           setOverflowOpen(false)
           void batchFetchMetadata()
         }}
+        onRefreshFeeds={() => {
+          setOverflowOpen(false)
+          void refreshPodcastFeeds()
+        }}
         onOpenImport={() => {
           setOverflowOpen(false)
           setImportSheetOpen(true)
         }}
+        onOpenSubscriptions={() => {
+          setOverflowOpen(false)
+          router.push("/media/subscriptions")
+        }}
+        onOpenCollections={() => {
+          setOverflowOpen(false)
+          router.push("/media/collections")
+        }}
         onToggleSelectMode={() => {
           setOverflowOpen(false)
           setSelectMode((prev) => !prev)
@@ -1095,12 +1223,23 @@ export function MediaScreen() {
           onBatchFinish={() => {
             void batchSetFinished()
           }}
+          onAddToCollection={() => setCollectionPickerOpen(true)}
           onBatchDelete={() => {
             void batchDeleteSelected()
           }}
         />
       ) : null}
 
+      <MediaCollectionPickerSheet
+        visible={collectionPickerOpen}
+        entryIds={Array.from(selectedIds)}
+        onClose={() => setCollectionPickerOpen(false)}
+        onAdded={(text) => {
+          setCollectionPickerOpen(false)
+          setMessage(text)
+        }}
+      />
+
       <Modal
         visible={importSheetOpen}
         animationType="slide"
@@ -1252,8 +1391,10 @@ export function MediaScreen() {
               saving={saving}
               uploadingPoster={uploadingPoster}
               fetchingMetadata={fetchingMetadata}
+              fetchingEpisodes={fetchingEpisodes}
               historyLoading={historyLoading}
               isPersisted
+              entryId={selectedEntry?.id ?? null}
               statusHistory={statusHistory}
               showDelete={Boolean(selectedEntry)}
               onTabChange={setEditorTab}
@@ -1271,7 +1412,11 @@ export function MediaScreen() {
               onFetchMetadata={(params) => {
                 void fetchMetadataForForm(params)
               }}
+              onFetchEpisodes={() => {
+                void fetchEpisodesForForm()
+              }}
               onAddEpisode={addEpisodeToEditor}
+              onToggleEpisodeWatched={toggleEpisodeWatchedInEditor}
               onFinishedToday={finishTodayInEditor}
               onUpdateEpisodeDate={updateEpisodeDateInEditor}
               onDeleteEpisode={deleteEpisodeHistoryInEditor}
@@ -1287,38 +1432,15 @@ export function MediaScreen() {
         onSkip={() => setPendingMetadata(null)}
       />
 
-      <Modal visible={Boolean(watchThisEntry)} transparent animationType="fade" onRequestClose={() => setWatchThisEntry(null)}>
-        <View style={styles.overlay}>
-          <View style={[styles.watchModal, { backgroundColor: palette.surface, borderColor: palette.border }]}>
-            <Text style={[styles.modalTitle, { color: palette.text }]}>Watch This</Text>
-            <Text style={{ color: palette.text, fontWeight: "700", marginTop: 4 }}>{watchThisEntry?.title}</Text>
-            <Text style={[styles.metaText, { color: palette.textMuted }]}>{watchThisEntry?.medium ?? watchThisEntry?.type ?? "-"}</Text>
-
-            {watchThisLoading ? (
-              <ActivityIndicator color={palette.primary} />
-            ) : (
-              <ScrollView style={{ maxHeight: 160 }}>
-                <Text style={{ color: palette.textMuted }}>{watchThisSynopsis || "No synopsis available."}</Text>
-              </ScrollView>
-            )}
-
-            <View style={styles.inlineRow}>
-              <Pressable style={[styles.secondaryButton, themedBorder(palette)]} onPress={() => setWatchThisEntry(null)}>
-                <Text style={{ color: palette.text }}>Close</Text>
-              </Pressable>
-              <Pressable
-                style={[styles.primaryButton, { backgroundColor: palette.primary }]}
-                onPress={() => {
-                  if (watchThisEntry) openEntryDetails(watchThisEntry)
-                  setWatchThisEntry(null)
-                }}
-              >
-                <Text style={[styles.primaryButtonText, { color: palette.primaryText }]}>Open in Diary</Text>
-              </Pressable>
-            </View>
-          </View>
-        </View>
-      </Modal>
+      <MediaWatchThisModal
+        visible={watchThisOpen}
+        entries={entries}
+        onClose={() => setWatchThisOpen(false)}
+        onOpenEntry={(entry) => {
+          setWatchThisOpen(false)
+          openEntryDetails(entry)
+        }}
+      />
     </SafeAreaView>
   )
 }
@@ -1603,12 +1725,5 @@ const styles = StyleSheet.create({
     gap: 8
   },
   overrideRow: { borderWidth: 1, borderRadius: 10, padding: 8, gap: 2 },
-  watchModal: {
-    width: "100%",
-    borderWidth: 1,
-    borderRadius: 12,
-    padding: 14,
-    gap: 10
-  },
   metaText: { fontSize: 12 }
 })
@@ -0,0 +1,230 @@
+import { useMemo, useState } from "react"
+import { ActivityIndicator, Pressable, StyleSheet, Text, TextInput, View } from "react-native"
+import { useCurrencySettings } from "@/src/features/currency/hooks/useCurrencySettings"
+import { formatMoney, normalizeCurrencyCode } from "@/src/features/currency/lib/currency"
+import { useMediaEntries } from "@/src/features/media/hooks/useMediaEntries"
+import { usePlatformSubscriptions } from "@/src/features/media/hooks/usePlatformSubscriptions"
+import { BILLING_CYCLES } from "@/src/features/media/lib/media-subscriptions"
+import { GroupedSection } from "@/src/shared/components/native/grouped-section"
+import { NativeDateField } from "@/src/shared/components/native/native-date-field"
+import { ScreenScrollView } from "@/src/shared/components/native/screen-scroll-view"
+import { SettingsRow } from "@/src/shared/components/native/settings-row"
+import { SegmentedSwitch } from "@/src/shared/components/workspace/SegmentedSwitch"
+import { useAppTheme } from "@/src/shared/theme/ThemeProvider"
+import type { BillingCycle, PlatformSubscription } from "@/src/shared/types/database"
+
+const CYCLE_LABELS: Record<BillingCycle, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly"
+}
+
+const CYCLE_SUFFIX: Record<BillingCycle, string> = {
+  weekly: "wk",
+  monthly: "mo",
+  yearly: "yr"
+}
+
+function todayDateKey(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+export function MediaSubscriptionsScreen() {
+  const { palette } = useAppTheme()
+  const { homeCurrency } = useCurrencySettings()
+  const { data: entries } = useMediaEntries()
+  const { data: subscriptions, isLoading, createSubscription, updateSubscription, deleteSubscription, saving } =
+    usePlatformSubscriptions()
+
+  const [platform, setPlatform] = useState("")
+  const [price, setPrice] = useState("")
+  const [currency, setCurrency] = useState("")
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>("monthly")
+  const [startDate, setStartDate] = useState(todayDateKey())
+  const [cancelDate, setCancelDate] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const knownPlatforms = useMemo(() => {
+    const names = new Set<string>()
+    for (const entry of entries ?? []) {
+      if (entry.platform?.trim()) names.add(entry.platform.trim())
+    }
+    return Array.from(names).sort((left, right) => left.localeCompare(right))
+  }, [entries])
+
+  const inputStyle = [styles.input, { backgroundColor: palette.surface, borderColor: palette.border, color: palette.text }]
+
+  async function addSubscription() {
+    setError(null)
+    const parsedPrice = Number(price)
+    const currencyCode = currency.trim() ? normalizeCurrencyCode(currency) : null
+
+    if (!platform.trim()) return setError("Platform is required")
+    if (!price.trim() || !Number.isFinite(parsedPrice) || parsedPrice < 0) return setError("Price must be a number")
+    if (currency.trim() && !currencyCode) return setError("Currency must be a 3-letter code such as EUR")
+    if (cancelDate && !/^\d{4}-\d{2}-\d{2}$/.test(cancelDate)) return setError("Cancel date must use YYYY-MM-DD")
+    if (cancelDate && cancelDate < startDate) return setError("Cancel date must be after the start date")
+
+    try {
+      await createSubscription({
+        platform: platform.trim(),
+        price: parsedPrice,
+        currency: currencyCode,
+        billing_cycle: billingCycle,
+        start_date: startDate,
+        cancel_date: cancelDate || null
+      })
+      setPlatform("")
+      setPrice("")
+      setCurrency("")
+      setCancelDate("")
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save subscription")
+    }
+  }
+
+  async function runRowAction(action: () => Promise<unknown>) {
+    setError(null)
+    try {
+      await action()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update subscription")
+    }
+  }
+
+  function describe(subscription: PlatformSubscription): string {
+    const amount = formatMoney(subscription.price, subscription.currency ?? homeCurrency)
+    return `${amount}/${CYCLE_SUFFIX[subscription.billing_cycle] ?? "mo"}`
+  }
+
+  return (
+    <ScreenScrollView>
+      <View style={{ gap: 4 }}>
+        <Text selectable style={{ color: palette.text, fontSize: 34, fontWeight: "700", letterSpacing: -0.6 }}>
+          Subscriptions
+        </Text>
+        <Text selectable style={{ color: palette.textMuted, fontSize: 15 }}>
+          Track what each platform costs so analytics can show cost per hour and idle billing periods.
+        </Text>
+      </View>
+
+      {error ? <Text selectable style={{ color: palette.danger, fontSize: 13 }}>{error}</Text> : null}
+
+      <GroupedSection title="Add Subscription">
+        <View style={styles.form}>
+          <TextInput
+            style={inputStyle}
+            value={platform}
+            onChangeText={setPlatform}
+            placeholder="Platform (e.g. Netflix)"
+            placeholderTextColor={palette.textMuted}
+          />
+          {knownPlatforms.length > 0 ? (
+            <View style={styles.chips}>
+              {knownPlatforms.map((name) => {
+                const active = name === platform.trim()
+                return (
+                  <Pressable
+                    key={name}
+                    style={[styles.chip, { borderColor: active ? palette.primary : palette.border }]}
+                    onPress={() => setPlatform(name)}
+                  >
+                    <Text style={{ color: active ? palette.primary : palette.text, fontSize: 12 }}>{name}</Text>
+                  </Pressable>
+                )
+              })}
+            </View>
+          ) : null}
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              value={price}
+              onChangeText={setPrice}
+              keyboardType="decimal-pad"
+              placeholder="Price"
+              placeholderTextColor={palette.textMuted}
+            />
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              value={currency}
+              onChangeText={(value) => setCurrency(value.toUpperCase())}
+              autoCapitalize="characters"
+              maxLength={3}
+              placeholder={homeCurrency}
+              placeholderTextColor={palette.textMuted}
+            />
+          </View>
+          <SegmentedSwitch
+            value={billingCycle}
+            onChange={setBillingCycle}
+            options={BILLING_CYCLES.map((cycle) => ({ value: cycle, label: CYCLE_LABELS[cycle] }))}
+          />
+          <NativeDateField label="Start date" value={startDate} onChange={setStartDate} />
+          <TextInput
+            style={inputStyle}
+            value={cancelDate}
+            onChangeText={setCancelDate}
+            placeholder="Cancel date (YYYY-MM-DD, optional)"
+            placeholderTextColor={palette.textMuted}
+          />
+          <Pressable style={[styles.button, { backgroundColor: palette.primary }]} onPress={addSubscription} disabled={saving}>
+            <Text style={[styles.buttonText, { color: palette.primaryText }]}>Add Subscription</Text>
+          </Pressable>
+        </View>
+      </GroupedSection>
+
+      <GroupedSection title="Subscriptions">
+        {isLoading ? (
+          <ActivityIndicator color={palette.primary} style={{ padding: 16 }} />
+        ) : (subscriptions ?? []).length === 0 ? (
+          <SettingsRow title="No subscriptions yet" subtitle="Add the services you pay for to see cost per hour." />
+        ) : (
+          (subscriptions ?? []).map((subscription) => {
+            const cancelled = Boolean(subscription.cancel_date)
+            return (
+              <SettingsRow
+                key={subscription.id}
+                title={`${subscription.platform} • ${describe(subscription)}`}
+                subtitle={
+                  cancelled
+                    ? `${subscription.start_date} → cancelled ${subscription.cancel_date}`
+                    : `Since ${subscription.start_date}`
+                }
+                accessory={
+                  <View style={styles.rowActions}>
+                    {!cancelled ? (
+                      <Pressable
+                        onPress={() =>
+                          runRowAction(() =>
+                            updateSubscription({ id: subscription.id, patch: { cancel_date: todayDateKey() } })
+                          )
+                        }
+                      >
+                        <Text style={{ color: palette.primary, fontWeight: "600" }}>Cancel</Text>
+                      </Pressable>
+                    ) : null}
+                    <Pressable onPress={() => runRowAction(() => deleteSubscription(subscription.id))}>
+                      <Text style={{ color: palette.danger, fontWeight: "600" }}>Delete</Text>
+                    </Pressable>
+                  </View>
+                }
+              />
+            )
+          })
+        )}
+      </GroupedSection>
+    </ScreenScrollView>
+  )
+}
+
+const styles = StyleSheet.create({
+  form: { padding: 16, gap: 10 },
+  row: { flexDirection: "row", gap: 10 },
+  flex: { flex: 1 },
+  input: { borderRadius: 10, borderWidth: 1, paddingHorizontal: 12, paddingVertical: 10 },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+  chip: { borderWidth: 1, borderRadius: 999, paddingHorizontal: 10, paddingVertical: 5 },
+  rowActions: { flexDirection: "row", gap: 14 },
+  button: { borderRadius: 10, paddingVertical: 12, alignItems: "center" },
+  buttonText: { fontWeight: "700" }
+})
@@ -99,6 +99,16 @@ export function ProfileScreen() {
           subtitle="Open the cross-workspace dashboard."
           onPress={() => router.push("/analytics")}
         />
+        <SettingsRow
+          title="Currency"
+          subtitle="Home currency and exchange rates for spending totals."
+          onPress={() => router.push("/currency")}
+        />
+        <SettingsRow
+          title="Custom Fields"
+          subtitle="Your own fields on media and food entries."
+          onPress={() => router.push("/custom-fields")}
+        />
         {profile.isAdmin ? (
           <SettingsRow
             title="Admin Console"
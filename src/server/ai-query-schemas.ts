@@ -1,3 +1,5 @@
+import { RATE_DATE_COLUMNS } from "@/src/features/currency/lib/currency"
+
 export type WorkspaceType = "media" | "food"
 
 export interface SchemaDefinition {
@@ -53,6 +55,28 @@ export const MEDIA_SCHEMA: SchemaDefinition = {
       description: "Array of genres",
       example: '["Sci-Fi", "Thriller"]',
     },
+    {
+      name: "priority",
+      type: "INTEGER",
+      description: "Watchlist priority from 1 (someday) to 5 (next up); NULL means normal (3)",
+      example: "4",
+    },
+    {
+      name: "tags",
+      type: "TEXT[]",
+      description: "Free-form user tags, separate from genre",
+      example: '["comfort watch", "with friends"]',
+    },
+    {
+      name: "review",
+      type: "TEXT",
+      description: "The user's long-form review or notes; search it with ILIKE '%term%'",
+    },
+    {
+      name: "review_has_spoilers",
+      type: "BOOLEAN",
+      description: "Whether the review contains spoilers; false when there is no review",
+    },
     {
       name: "status",
       type: "TEXT",
@@ -77,6 +101,12 @@ export const MEDIA_SCHEMA: SchemaDefinition = {
       description: "Cost paid for the media",
       example: "14.99",
     },
+    {
+      name: "currency",
+      type: "TEXT",
+      description: "Currency code of price (NULL means the user's home currency)",
+      example: "USD, EUR, JPY",
+    },
     {
       name: "start_date",
       type: "DATE",
@@ -119,6 +149,36 @@ export const MEDIA_SCHEMA: SchemaDefinition = {
       description: "Number of episodes watched",
       example: "5",
     },
+    {
+      name: "progress_unit",
+      type: "TEXT",
+      description: "Unit for non-episode progress (pages, chapters, percent, minutes); NULL means the medium's default (pages for books, minutes for audiobooks, otherwise episodes)",
+      example: "pages",
+    },
+    {
+      name: "progress_current",
+      type: "NUMERIC",
+      description: "Progress so far in progress_unit (e.g. pages read)",
+      example: "120",
+    },
+    {
+      name: "progress_total",
+      type: "NUMERIC",
+      description: "Total size in progress_unit (e.g. page count)",
+      example: "350",
+    },
+    {
+      name: "feed_url",
+      type: "TEXT",
+      description: "RSS feed URL for podcasts; episodes listened are counted in episodes_watched",
+      example: "https://feeds.example.com/show.xml",
+    },
+    {
+      name: "custom_fields",
+      type: "JSONB",
+      description: "Values of the user's custom fields keyed by field key; see CUSTOM FIELDS",
+      example: '{"watched_with": "Sam", "cinema_seat": "F12"}',
+    },
     {
       name: "season",
       type: "TEXT",
@@ -211,6 +271,11 @@ export const FOOD_SCHEMA: SchemaDefinition = {
       type: "UUID",
       description: "Unique identifier",
     },
+    {
+      name: "place_id",
+      type: "UUID",
+      description: "Canonical place shared by every visit to the same restaurant; count distinct places with COUNT(DISTINCT place_id)",
+    },
     {
       name: "name",
       type: "TEXT",
@@ -307,6 +372,23 @@ export const FOOD_SCHEMA: SchemaDefinition = {
       description: "Whether user would visit again",
       example: "true, false",
     },
+    {
+      name: "party_size",
+      type: "INTEGER",
+      description: "People at the table including the user; NULL when not recorded",
+      example: "2, 4",
+    },
+    {
+      name: "companions",
+      type: "TEXT[]",
+      description: "Names of the people the user ate with",
+      example: '["Dara", "Sophea"]',
+    },
+    {
+      name: "bill_split",
+      type: "JSONB",
+      description: "How the bill was shared (mode, payer, paid_amounts, tax, tip, item_shares, custom_amounts); total_price is always the whole table's bill, not the user's share",
+    },
     {
       name: "address",
       type: "TEXT",
@@ -341,6 +423,12 @@ export const FOOD_SCHEMA: SchemaDefinition = {
       type: "TEXT",
       description: "Additional notes",
     },
+    {
+      name: "custom_fields",
+      type: "JSONB",
+      description: "Values of the user's custom fields keyed by field key; see CUSTOM FIELDS",
+      example: '{"spiciness": 4, "recommended_by": "Dana"}',
+    },
     {
       name: "created_at",
       type: "TIMESTAMP",
@@ -410,8 +498,80 @@ export function getSchemaForWorkspace(workspace: WorkspaceType): SchemaDefinitio
   return workspace === "media" ? MEDIA_SCHEMA : FOOD_SCHEMA
 }
 
-export function buildSystemPrompt(workspace: WorkspaceType): string {
+/** A user-defined field as described to the model; values live in `custom_fields`. */
+export interface PromptCustomField {
+  key: string
+  label: string
+  field_type: string
+  options: string[] | null
+}
+
+export interface SystemPromptOptions {
+  /** ISO code spend should be normalized to. */
+  homeCurrency?: string
+  customFields?: PromptCustomField[]
+}
+
+const CUSTOM_FIELD_CASTS: Record<string, string> = {
+  number: "::numeric",
+  date: "::date",
+  boolean: "::boolean",
+}
+
+function buildCustomFieldsGuide(fields: PromptCustomField[]): string {
+  // Keys are interpolated into SQL examples, so anything but a plain slug is left out
+  const lines = fields
+    .filter((field) => /^[a-z0-9_]+$/.test(field.key))
+    .map((field) => {
+      const accessor = `custom_fields->>'${field.key}'`
+      const expression = CUSTOM_FIELD_CASTS[field.field_type] ? `(${accessor})${CUSTOM_FIELD_CASTS[field.field_type]}` : accessor
+      const options = field.field_type === "select" && field.options?.length ? ` | Options: ${field.options.join(", ")}` : ""
+      return `  - "${field.label}" (${field.field_type}): ${expression}${options}`
+    })
+
+  if (lines.length === 0) return ""
+
+  return `CUSTOM FIELDS (user-defined, stored in the custom_fields JSONB column):
+${lines.join("\n")}
+- Use the expressions above to read, filter, group or aggregate a custom field; entries without a value return NULL
+- Match text and select values case-insensitively with ILIKE or LOWER()`
+}
+
+const CURRENCY_COLUMNS: Record<WorkspaceType, { amount: string; rows: string }> = {
+  media: { amount: "price", rows: "entries" },
+  food: { amount: "total_price", rows: "visits" },
+}
+
+// Correlated lookup matching createCurrencyConverter: rates are used as stored (foreign → home)
+// or inverted (home → foreign), and the latest rate on or before the row's date wins, falling
+// back to the earliest rate when the date predates them all and to the latest without a date.
+// The row's date comes from RATE_DATE_COLUMNS, as in getRateDate.
+function buildCurrencyGuide(workspace: WorkspaceType, homeCurrency: string): string {
+  const table = getSchemaForWorkspace(workspace).tableName
+  const { amount, rows } = CURRENCY_COLUMNS[workspace]
+  const rowCurrency = `UPPER(${table}.currency)`
+  const rowDate = `COALESCE(${RATE_DATE_COLUMNS[workspace].map((column) => `${table}.${column}`).join(", ")})`
+  const onOrBefore = `(r.effective_date <= ${rowDate}) IS NOT FALSE`
+  const rates =
+    `SELECT x.rate, x.effective_date FROM exchange_rates x WHERE x.from_currency = ${rowCurrency} AND x.to_currency = '${homeCurrency}' AND x.rate > 0 ` +
+    `UNION ALL SELECT 1 / x.rate, x.effective_date FROM exchange_rates x WHERE x.from_currency = '${homeCurrency}' AND x.to_currency = ${rowCurrency} AND x.rate > 0`
+  const rateLookup = `(SELECT r.rate FROM (${rates}) r ORDER BY ${onOrBefore} DESC, CASE WHEN ${onOrBefore} THEN r.effective_date END DESC NULLS LAST, r.effective_date LIMIT 1)`
+
+  return `CURRENCY CONVERSION:
+The user's home currency is ${homeCurrency}. ${amount} may be in other currencies (column currency).
+Table: exchange_rates (from_currency TEXT, to_currency TEXT, rate NUMERIC, effective_date DATE) where 1 from_currency = rate to_currency; a rate may be stored in either direction.
+- Whenever you SUM, AVG, compare or rank ${amount} across ${rows}, convert it to ${homeCurrency} with this expression:
+  CASE WHEN currency IS NULL OR UPPER(currency) = '${homeCurrency}' THEN ${amount} ELSE ${amount} * ${rateLookup} END
+- Name converted columns with the currency, e.g. total_spent_${homeCurrency.toLowerCase()}; ${rows} without a rate convert to NULL and are skipped by aggregates
+- When listing individual ${rows}, also return the original ${amount} and currency next to the converted amount
+- exchange_rates is only for conversion; the main table is still ${table}`
+}
+
+export function buildSystemPrompt(workspace: WorkspaceType, options: SystemPromptOptions = {}): string {
   const schema = getSchemaForWorkspace(workspace)
+  const currencyGuide =
+    options.homeCurrency ? `\n\n${buildCurrencyGuide(workspace, options.homeCurrency)}` : ""
+  const customFieldsGuide = options.customFields ? buildCustomFieldsGuide(options.customFields) : ""
 
   const columnsDescription = schema.columns
     .map(
@@ -437,7 +597,7 @@ Table: ${schema.tableName}
 Description: ${schema.description}
 
 Columns:
-${columnsDescription}
+${columnsDescription}${currencyGuide}${customFieldsGuide ? `\n\n${customFieldsGuide}` : ""}
 
 RULES:
 1. Only generate SELECT queries - no INSERT, UPDATE, DELETE, DROP, ALTER, CREATE
@@ -454,6 +614,8 @@ RULES:
 12. For "this month", use EXTRACT(MONTH FROM date_column::date) = EXTRACT(MONTH FROM CURRENT_DATE)
 13. When asked about spending or cost, always filter WHERE price/total_price IS NOT NULL
 14. The current year is 2026
+15. Write a single statement that reads only from ${schema.tableName}${currencyGuide ? " (plus exchange_rates for conversion)" : ""}; no semicolons, comments or system catalogs
+16. Do not filter by user_id; results are scoped to the current user automatically and capped at 500 rows
 
 EXAMPLE QUERIES:
 ${examplesDescription}
@@ -475,33 +637,9 @@ CRITICAL JSON REQUIREMENTS:
 IMPORTANT: Return ONLY the raw JSON object. No markdown formatting, no code blocks, no explanations before or after.`
 }
 
-export function buildActionPrompt(workspace: WorkspaceType): string {
-  const schema = getSchemaForWorkspace(workspace)
-  const tableName = schema.tableName
-
-  return `You are an AI assistant that helps users manage their ${workspace} tracking data. You can understand natural language requests to add, update, or delete entries.
-
-DATABASE SCHEMA:
-Table: ${tableName}
-${schema.description}
-
-Available fields for ${workspace} entries:
-${schema.columns
-  .filter(col => !['id', 'created_at', 'updated_at', 'user_id'].includes(col.name))
-  .map(col => `  - ${col.name} (${col.type}): ${col.description}${col.example ? ` | Example: ${col.example}` : ""}`)
-  .join('\n')}
-
-VALID STATUS VALUES: ${workspace === 'media' ? 'Finished, Watching, Currently Watching, On Hold, Dropped, Plan to Watch, Planned' : 'N/A'}
-VALID MEDIUM VALUES: ${workspace === 'media' ? 'Movie, TV Show, Book, Game, Podcast, Live Theatre' : 'N/A'}
-VALID PLATFORM VALUES: ${workspace === 'media' ? 'Netflix, Hulu, Disney+, Amazon Prime, HBO Max, Apple TV+, YouTube, Spotify, Audible, Steam, PlayStation, Xbox, Nintendo, Other' : 'N/A'}
-
-YOUR TASK:
-Analyze the user's request and determine what actions they want to perform. Return a JSON response with the intent and a list of actions.
-
-ACTION TYPES:
-1. CREATE - Add new entries to the database
-2. UPDATE - Modify existing entries (requires matching by title)
-3. DELETE - Remove entries (requires matching by title)
+const MEDIA_ACTION_GUIDE = `VALID STATUS VALUES: Finished, Watching, Currently Watching, On Hold, Dropped, Plan to Watch, Planned
+VALID MEDIUM VALUES: Movie, TV Show, Book, Game, Podcast, Live Theatre
+VALID PLATFORM VALUES: Netflix, Hulu, Disney+, Amazon Prime, HBO Max, Apple TV+, YouTube, Spotify, Audible, Steam, PlayStation, Xbox, Nintendo, Other
 
 EXAMPLE REQUESTS AND RESPONSES:
 
@@ -570,7 +708,94 @@ RULES FOR ACTIONS:
 4. Rating values should be numbers 0-10 (not strings)
 5. Dates should be in ISO format YYYY-MM-DD
 6. Genre and language should be arrays of strings
-7. For TV shows, include episodes info if mentioned
+7. For TV shows, include episodes info if mentioned`
+
+const FOOD_ACTION_GUIDE = `VALID DINING TYPE VALUES: Dine-in, Takeout, Delivery, Fine Dining, Casual, Fast Food
+VALID PRICE LEVEL VALUES: $, $$, $$$, $$$$
+
+EXAMPLE REQUESTS AND RESPONSES:
+
+Example 1: Logging a visit
+Request: "Log lunch at Tartine today, 4 stars, $23"
+Response:
+{
+  "type": "action",
+  "intent": "Log a lunch visit to Tartine",
+  "actions": [
+    {"type": "create", "data": {"name": "Tartine", "visit_date": "TODAY", "overall_rating": 8, "total_price": 23, "currency": "HOME_CURRENCY"}}
+  ]
+}
+
+Example 2: Updating the latest visit
+Request: "Change my Nopa visit to 9/10 and mark that I would return"
+Response:
+{
+  "type": "action",
+  "intent": "Update the latest Nopa visit rating",
+  "actions": [
+    {"type": "update", "data": {"name": "Nopa", "overall_rating": 9, "would_return": true}}
+  ]
+}
+
+Example 3: Delete
+Request: "Remove the Burger Joint visit from 2026-02-03"
+Response:
+{
+  "type": "action",
+  "intent": "Delete a Burger Joint visit",
+  "actions": [
+    {"type": "delete", "data": {"name": "Burger Joint", "visit_date": "2026-02-03"}}
+  ]
+}
+
+RULES FOR ACTIONS:
+1. For CREATE actions:
+   - Always include "name" (required) and "visit_date"
+   - Resolve relative dates ("today", "yesterday", "last Friday") to YYYY-MM-DD using today's date: TODAY
+   - Include other fields if mentioned (ratings, price, cuisine, city, etc.)
+
+2. For UPDATE actions:
+   - Always include "name" to identify the place; the latest visit is updated
+   - Include only the fields that should be changed
+
+3. For DELETE actions:
+   - Include "name" and, when mentioned, "visit_date" to identify the visit
+
+4. Rating values are numbers 0-10; convert star ratings out of 5 by doubling them
+5. Dates should be in ISO format YYYY-MM-DD
+6. cuisine_type and tags should be arrays of strings
+7. total_price is a number without currency symbols; put the currency code in "currency", using HOME_CURRENCY when none is mentioned`
+
+export function buildActionPrompt(workspace: WorkspaceType, options: Pick<SystemPromptOptions, "homeCurrency"> = {}): string {
+  const schema = getSchemaForWorkspace(workspace)
+  const tableName = schema.tableName
+  const today = new Date().toISOString().slice(0, 10)
+  const guide =
+    workspace === "media"
+      ? MEDIA_ACTION_GUIDE
+      : FOOD_ACTION_GUIDE.replace(/TODAY/g, today).replace(/HOME_CURRENCY/g, options.homeCurrency ?? "USD")
+
+  return `You are an AI assistant that helps users manage their ${workspace} tracking data. You can understand natural language requests to add, update, or delete entries.
+
+DATABASE SCHEMA:
+Table: ${tableName}
+${schema.description}
+
+Available fields for ${workspace} entries:
+${schema.columns
+  .filter(col => !['id', 'created_at', 'updated_at', 'user_id'].includes(col.name))
+  .map(col => `  - ${col.name} (${col.type}): ${col.description}${col.example ? ` | Example: ${col.example}` : ""}`)
+  .join('\n')}
+
+YOUR TASK:
+Analyze the user's request and determine what actions they want to perform. Return a JSON response with the intent and a list of actions.
+
+ACTION TYPES:
+1. CREATE - Add new entries to the database
+2. UPDATE - Modify existing entries (requires matching by ${workspace === "media" ? "title" : "name"})
+3. DELETE - Remove entries (requires matching by ${workspace === "media" ? "title" : "name"})
+
+${guide}
 
 OUTPUT FORMAT:
 Return ONLY a JSON object with this structure:
@@ -590,15 +815,71 @@ CRITICAL:
 - Return the complete JSON starting with { and ending with }`
 }
 
-export function shouldUseActionMode(query: string): boolean {
+const FOOD_ACTION_VERBS = "log|record|add|create|update|change|modify|mark|set|delete|remove"
+const FOOD_ENTRY_OBJECTS = "visits?|meals?|lunch|dinner|breakfast|brunch|coffee|entry|entries|restaurants?|cafe|rating|price"
+
+// An imperative verb ("Log Tartine today"), a verb acting on a visit within a few words
+// ("change my Nopa visit"), or a first-person meal report ("I had dinner at Nopa")
+const FOOD_ACTION_PATTERNS = [
+  new RegExp(`^(?:please\\s+)?(?:${FOOD_ACTION_VERBS})\\b`),
+  new RegExp(`\\b(?:${FOOD_ACTION_VERBS})\\s+(?:[\\w'$.-]+\\s+){0,3}(?:${FOOD_ENTRY_OBJECTS})\\b`),
+  /\bi\s+(?:just\s+)?(?:ate at|had (?:lunch|dinner|breakfast|brunch|coffee))\b/,
+]
+
+// Read questions mention the same verbs ("how many visits did I log last month")
+const QUESTION_PATTERN = /^(?:how|what|which|when|where|who|whom|why|did|do|does|have|has|is|are|was|were|show|list|count|compare)\b|\?$/
+
+function isFoodActionQuery(query: string): boolean {
+  const normalized = query.toLowerCase().trim()
+  if (QUESTION_PATTERN.test(normalized)) return false
+  return FOOD_ACTION_PATTERNS.some((pattern) => pattern.test(normalized))
+}
+
+export function shouldUseActionMode(query: string, workspace: WorkspaceType = "media"): boolean {
+  if (workspace === 'food') return isFoodActionQuery(query)
+
   const actionKeywords = [
     'add', 'create', 'new',
     'update', 'change', 'modify', 'mark', 'set',
     'delete', 'remove',
-    'to planned', 'to plan to watch', 'to watchlist',
-    'as finished', 'as watching', 'as dropped', 'as on hold'
+    'to planned', 'to plan to watch', 'to watchlist', 'as finished', 'as watching', 'as dropped', 'as on hold'
   ]
   
   const queryLower = query.toLowerCase()
   return actionKeywords.some(keyword => queryLower.includes(keyword))
 }
+
+export interface FollowUpTurn {
+  query: string
+  sql: string | null
+  explanation: string | null
+  columns: string[]
+  intent: string | null
+}
+
+/**
+ * Render earlier turns of a conversation so the model can refine the previous
+ * result ("now only 2025", "break that down by platform").
+ */
+export function buildFollowUpPrompt(query: string, previousTurns: FollowUpTurn[]): string {
+  if (previousTurns.length === 0) return query
+
+  const history = previousTurns
+    .map((turn, idx) => {
+      const lines = [`Turn ${idx + 1}:`, `  Question: "${turn.query}"`]
+      if (turn.sql) lines.push(`  SQL: ${turn.sql}`)
+      if (turn.columns.length > 0) lines.push(`  Result columns: ${turn.columns.join(", ")}`)
+      if (turn.explanation) lines.push(`  Explanation: ${turn.explanation}`)
+      if (turn.intent) lines.push(`  Action intent: ${turn.intent}`)
+      return lines.join("\n")
+    })
+    .join("\n\n")
+
+  return `PREVIOUS CONVERSATION (oldest first):
+${history}
+
+The new request may refer to the previous result ("that", "those", "now only ...", "break it down by ...").
+When it does, modify the most recent SQL instead of starting from scratch.
+
+NEW REQUEST: ${query}`
+}
@@ -1,7 +1,7 @@
 import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js"
 
 import type { Database } from "@/src/server/database.types"
-import { getServerSupabaseAnonKey, getServerSupabaseUrl } from "@/src/server/env"
+import { getServerSupabaseAnonKey, getServerSupabaseUrl, getSupabaseServiceRoleKey } from "@/src/server/env"
 
 interface AuthenticatedRequestContext {
   supabase: SupabaseClient<Database>
@@ -43,6 +43,26 @@ function createRequestClient(token: string): SupabaseClient<Database> {
   })
 }
 
+/**
+ * Client for writes the caller must not be able to make directly, such as stored AI SQL.
+ * It bypasses row level security, so every query must filter on the authenticated user id.
+ */
+export function createServiceRoleClient(): SupabaseClient<Database> {
+  const supabaseUrl = getServerSupabaseUrl()
+  const serviceRoleKey = getSupabaseServiceRoleKey()
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Missing Supabase service role configuration")
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
 export async function requireAuthenticatedUser(request: Request): Promise<AuthSuccess | AuthFailure> {
   const token = getBearerToken(request)
   if (!token) {
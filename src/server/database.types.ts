@@ -15,13 +15,396 @@ export interface EpisodeWatchRecord {
 export type Database = {
   public: {
     Tables: {
+      action_undo_batches: {
+        Row: {
+          id: string
+          user_id: string
+          workspace: string
+          operations: Json
+          created_at: string
+          undo_started_at: string | null
+          undone_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace: string
+          operations: Json
+          created_at?: string
+          undo_started_at?: string | null
+          undone_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace?: string
+          operations?: Json
+          created_at?: string
+          undo_started_at?: string | null
+          undone_at?: string | null
+        }
+        Relationships: []
+      }
+      ai_conversations: {
+        Row: {
+          id: string
+          user_id: string
+          workspace: string
+          title: string
+          pinned: boolean
+          turns: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace: string
+          title: string
+          pinned?: boolean
+          turns?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace?: string
+          title?: string
+          pinned?: boolean
+          turns?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_dashboard_cards: {
+        Row: {
+          id: string
+          user_id: string
+          workspace: string
+          title: string
+          query: string
+          sql: string
+          visualization_type: string
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace: string
+          title: string
+          query: string
+          sql: string
+          visualization_type: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace?: string
+          title?: string
+          query?: string
+          sql?: string
+          visualization_type?: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      custom_field_definitions: {
+        Row: {
+          id: string
+          user_id: string
+          workspace: string
+          key: string
+          label: string
+          field_type: string
+          options: string[] | null
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace: string
+          key: string
+          label: string
+          field_type: string
+          options?: string[] | null
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace?: string
+          key?: string
+          label?: string
+          field_type?: string
+          options?: string[] | null
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          effective_date: string
+          source: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          effective_date: string
+          source?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          from_currency?: string
+          to_currency?: string
+          rate?: number
+          effective_date?: string
+          source?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      food_dishes: {
+        Row: {
+          id: string
+          user_id: string
+          place_id: string
+          name: string
+          normalized_name: string
+          category: string | null
+          latest_price: number | null
+          latest_price_currency: string | null
+          latest_price_date: string | null
+          photo_urls: string[] | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          place_id: string
+          name: string
+          normalized_name: string
+          category?: string | null
+          latest_price?: number | null
+          latest_price_currency?: string | null
+          latest_price_date?: string | null
+          photo_urls?: string[] | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          place_id?: string
+          name?: string
+          normalized_name?: string
+          category?: string | null
+          latest_price?: number | null
+          latest_price_currency?: string | null
+          latest_price_date?: string | null
+          photo_urls?: string[] | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      food_places: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          branch: string | null
+          address: string | null
+          google_place_id: string | null
+          normalized_key: string
+          google_maps_url: string | null
+          latitude: number | null
+          longitude: number | null
+          neighborhood: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          branch?: string | null
+          address?: string | null
+          google_place_id?: string | null
+          normalized_key: string
+          google_maps_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          neighborhood?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          branch?: string | null
+          address?: string | null
+          google_place_id?: string | null
+          normalized_key?: string
+          google_maps_url?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          neighborhood?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      food_visit_dishes: {
+        Row: {
+          id: string
+          user_id: string
+          food_entry_id: string
+          dish_id: string
+          visit_date: string
+          price: number | null
+          currency: string | null
+          rating: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          food_entry_id: string
+          dish_id: string
+          visit_date: string
+          price?: number | null
+          currency?: string | null
+          rating?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          food_entry_id?: string
+          dish_id?: string
+          visit_date?: string
+          price?: number | null
+          currency?: string | null
+          rating?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      media_collection_items: {
+        Row: {
+          id: string
+          user_id: string
+          collection_id: string
+          media_entry_id: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          collection_id: string
+          media_entry_id: string
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          collection_id?: string
+          media_entry_id?: string
+          position?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_collection_items_collection_id_fkey"
+            columns: ["collection_id"]
+            referencedRelation: "media_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "media_collection_items_media_entry_id_fkey"
+            columns: ["media_entry_id"]
+            referencedRelation: "media_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      media_collections: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          cover_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          cover_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          cover_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       media_entries: {
         Row: {
           average_rating: number | null
           created_at: string
+          currency: string | null
+          custom_fields: Json | null
           episodes: number | null
           episodes_watched: number | null
           episode_history: Json | null
+          episode_metadata: Json | null
+          feed_url: string | null
           last_watched_at: string | null
           finish_date: string | null
           genre: string[] | null
@@ -33,11 +416,19 @@ export type Database = {
           my_rating: number | null
           platform: string | null
           poster_url: string | null
+          progress_current: number | null
+          progress_history: Json | null
+          progress_total: number | null
+          progress_unit: string | null
           price: number | null
+          priority: number | null
           rating: number | null
+          review: string | null
+          review_has_spoilers: boolean
           season: string | null
           start_date: string | null
           status: string | null
+          tags: string[] | null
           time_taken: string | null
           title: string
           type: string | null
@@ -47,9 +438,13 @@ export type Database = {
         Insert: {
           average_rating?: number | null
           created_at?: string
+          currency?: string | null
+          custom_fields?: Json | null
           episodes?: number | null
           episodes_watched?: number | null
           episode_history?: Json | null
+          episode_metadata?: Json | null
+          feed_url?: string | null
           last_watched_at?: string | null
           finish_date?: string | null
           genre?: string[] | null
@@ -61,11 +456,19 @@ export type Database = {
           my_rating?: number | null
           platform?: string | null
           poster_url?: string | null
+          progress_current?: number | null
+          progress_history?: Json | null
+          progress_total?: number | null
+          progress_unit?: string | null
           price?: number | null
+          priority?: number | null
           rating?: number | null
+          review?: string | null
+          review_has_spoilers?: boolean
           season?: string | null
           start_date?: string | null
           status?: string | null
+          tags?: string[] | null
           time_taken?: string | null
           title: string
           type?: string | null
@@ -75,9 +478,13 @@ export type Database = {
         Update: {
           average_rating?: number | null
           created_at?: string
+          currency?: string | null
+          custom_fields?: Json | null
           episodes?: number | null
           episodes_watched?: number | null
           episode_history?: Json | null
+          episode_metadata?: Json | null
+          feed_url?: string | null
           last_watched_at?: string | null
           finish_date?: string | null
           genre?: string[] | null
@@ -89,11 +496,19 @@ export type Database = {
           my_rating?: number | null
           platform?: string | null
           poster_url?: string | null
+          progress_current?: number | null
+          progress_history?: Json | null
+          progress_total?: number | null
+          progress_unit?: string | null
           price?: number | null
+          priority?: number | null
           rating?: number | null
+          review?: string | null
+          review_has_spoilers?: boolean
           season?: string | null
           start_date?: string | null
           status?: string | null
+          tags?: string[] | null
           time_taken?: string | null
           title?: string
           type?: string | null
@@ -102,6 +517,89 @@ export type Database = {
         }
         Relationships: []
       }
+      media_play_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          media_entry_id: string
+          played_on: string
+          duration_minutes: number
+          platform: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          media_entry_id: string
+          played_on: string
+          duration_minutes: number
+          platform?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          media_entry_id?: string
+          played_on?: string
+          duration_minutes?: number
+          platform?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_play_sessions_media_entry_id_fkey"
+            columns: ["media_entry_id"]
+            referencedRelation: "media_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      media_relations: {
+        Row: {
+          id: string
+          user_id: string
+          from_entry_id: string
+          to_entry_id: string
+          relation_type: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          from_entry_id: string
+          to_entry_id: string
+          relation_type: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          from_entry_id?: string
+          to_entry_id?: string
+          relation_type?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_relations_from_entry_id_fkey"
+            columns: ["from_entry_id"]
+            referencedRelation: "media_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "media_relations_to_entry_id_fkey"
+            columns: ["to_entry_id"]
+            referencedRelation: "media_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       media_status_history: {
         Row: {
           id: string
@@ -142,6 +640,91 @@ export type Database = {
           }
         ]
       }
+      media_viewings: {
+        Row: {
+          id: string
+          user_id: string
+          media_entry_id: string
+          start_date: string | null
+          finish_date: string | null
+          rating: number | null
+          platform: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          media_entry_id: string
+          start_date?: string | null
+          finish_date?: string | null
+          rating?: number | null
+          platform?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          media_entry_id?: string
+          start_date?: string | null
+          finish_date?: string | null
+          rating?: number | null
+          platform?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_viewings_media_entry_id_fkey"
+            columns: ["media_entry_id"]
+            referencedRelation: "media_entries"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      platform_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          platform: string
+          price: number
+          currency: string | null
+          billing_cycle: string
+          start_date: string
+          cancel_date: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          platform: string
+          price: number
+          currency?: string | null
+          billing_cycle: string
+          start_date: string
+          cancel_date?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          platform?: string
+          price?: number
+          currency?: string | null
+          billing_cycle?: string
+          start_date?: string
+          cancel_date?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_preferences: {
         Row: {
           id: string
@@ -216,6 +799,21 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      append_ai_conversation_turn: {
+        Args: {
+          p_user_id: string
+          p_workspace: string
+          p_conversation_id: string | null
+          p_title: string
+          p_turn: Json
+          p_max_turns: number
+        }
+        Returns: string
+      }
+      apply_entry_writes: {
+        Args: { p_table: string; p_writes: Json }
+        Returns: Json
+      }
       execute_sql_query: {
         Args: { query_text: string }
         Returns: unknown[]
@@ -224,6 +822,10 @@ export type Database = {
         Args: Record<string, never>
         Returns: boolean
       }
+      merge_food_places: {
+        Args: { p_target_id: string; p_source_ids: string[]; p_target_patch: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -355,9 +957,42 @@ export type MediaEntryInsert = TablesInsert<"media_entries">
 /** Media entry fields from CSV/import; user_id is added at insert time. */
 export type MediaEntryInsertFromCsv = Omit<MediaEntryInsert, "user_id">
 export type MediaEntryUpdate = TablesUpdate<"media_entries">
+export type ActionUndoBatch = Tables<"action_undo_batches">
+export type ActionUndoBatchInsert = TablesInsert<"action_undo_batches">
+export type AIConversation = Tables<"ai_conversations">
+export type AIConversationInsert = TablesInsert<"ai_conversations">
+export type AIDashboardCard = Tables<"ai_dashboard_cards">
+export type AIDashboardCardInsert = TablesInsert<"ai_dashboard_cards">
+export type CustomFieldDefinition = Tables<"custom_field_definitions">
+export type CustomFieldDefinitionInsert = TablesInsert<"custom_field_definitions">
+export type ExchangeRate = Tables<"exchange_rates">
+export type ExchangeRateInsert = TablesInsert<"exchange_rates">
+export type FoodDish = Tables<"food_dishes">
+export type FoodDishInsert = TablesInsert<"food_dishes">
+export type FoodDishUpdate = TablesUpdate<"food_dishes">
+export type FoodPlace = Tables<"food_places">
+export type FoodPlaceInsert = TablesInsert<"food_places">
+export type FoodPlaceUpdate = TablesUpdate<"food_places">
+export type FoodVisitDish = Tables<"food_visit_dishes">
+export type FoodVisitDishInsert = TablesInsert<"food_visit_dishes">
+export type MediaCollection = Tables<"media_collections">
+export type MediaCollectionInsert = TablesInsert<"media_collections">
+export type MediaCollectionItem = Tables<"media_collection_items">
+export type MediaCollectionItemInsert = TablesInsert<"media_collection_items">
+export type MediaPlaySession = Tables<"media_play_sessions">
+export type MediaPlaySessionInsert = TablesInsert<"media_play_sessions">
+export type MediaPlaySessionUpdate = TablesUpdate<"media_play_sessions">
+export type MediaRelation = Tables<"media_relations">
+export type MediaRelationInsert = TablesInsert<"media_relations">
 export type MediaStatusHistory = Tables<"media_status_history">
 export type MediaStatusHistoryInsert = TablesInsert<"media_status_history">
 export type MediaStatusHistoryUpdate = TablesUpdate<"media_status_history">
+export type MediaViewing = Tables<"media_viewings">
+export type MediaViewingInsert = TablesInsert<"media_viewings">
+export type MediaViewingUpdate = TablesUpdate<"media_viewings">
+export type PlatformSubscription = Tables<"platform_subscriptions">
+export type PlatformSubscriptionInsert = TablesInsert<"platform_subscriptions">
+export type PlatformSubscriptionUpdate = TablesUpdate<"platform_subscriptions">
 export type UserPreference = Tables<"user_preferences">
 export type UserPreferenceInsert = TablesInsert<"user_preferences">
 export type UserPreferenceUpdate = TablesUpdate<"user_preferences">
@@ -372,11 +1007,13 @@ export type ItemOrdered = {
   image_url: string | null
   category: string | null
   categories?: string[] | null
+  rating?: number | null
 }
 
 // Food entry type
 export type FoodEntry = {
   id: string
+  place_id: string | null
   name: string
   branch: string | null
   visit_date: string
@@ -406,7 +1043,11 @@ export type FoodEntry = {
   dining_type: string | null
   tags: string[] | null
   would_return: boolean | null
+  party_size: number | null
+  companions: string[] | null
+  bill_split: Json | null
   notes: string | null
+  custom_fields: Json | null
   user_id: string
   created_at: string
   updated_at: string
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+import { join } from "node:path"
+import { buildActionPrompt, buildSystemPrompt } from "@/src/server/ai-query-schemas"
+import { createFixtureProvider, getLLMProvider, LLMBlockedResponseError } from "@/src/server/llm-provider"
+
+const FIXTURE_FILE = join(import.meta.dir, "__fixtures__", "llm", "fixtures.json")
+
+const ENV_KEYS = [
+  "LLM_PROVIDER",
+  "LLM_PROVIDER_AI_QUERY",
+  "LLM_PROVIDER_CLEAN_DATA",
+  "LLM_PROVIDER_CLASSIFIER",
+  "LLM_BASE_URL",
+  "LLM_MODEL_NAME",
+  "LLM_API_KEY",
+  "LLM_FIXTURE_FILE",
+  "GEMINI_API_KEY",
+  "GEMINI_MODEL_NAME"
+]
+
+const geminiCalls: Array<{ apiKey: string; model: string; systemInstruction?: string; prompt: string }> = []
+let geminiText: () => string = () => "gemini answer"
+
+mock.module("@google/generative-ai", () => ({
+  GoogleGenerativeAI: class {
+    constructor(readonly apiKey: string) {}
+    getGenerativeModel(options: { model: string; systemInstruction?: string }) {
+      return {
+        generateContent: async (prompt: string) => {
+          geminiCalls.push({ apiKey: this.apiKey, model: options.model, systemInstruction: options.systemInstruction, prompt })
+          return { response: { text: geminiText } }
+        }
+      }
+    }
+  }
+}))
+
+const savedEnv: Record<string, string | undefined> = {}
+const originalFetch = globalThis.fetch
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) {
+    savedEnv[key] = process.env[key]
+    delete process.env[key]
+  }
+  geminiCalls.length = 0
+  geminiText = () => "gemini answer"
+})
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key]
+    else process.env[key] = savedEnv[key]
+  }
+  globalThis.fetch = originalFetch
+})
+
+function resolve(feature: Parameters<typeof getLLMProvider>[0]) {
+  const result = getLLMProvider(feature)
+  if (!result.success) throw new Error(result.error)
+  return result.provider
+}
+
+describe("getLLMProvider", () => {
+  test("defaults to gemini", () => {
+    process.env.GEMINI_API_KEY = "key"
+    process.env.GEMINI_MODEL_NAME = "gemini-test"
+    expect(resolve("ai-query")).toMatchObject({ name: "gemini", model: "gemini-test" })
+  })
+
+  test("a feature override wins over the global provider", () => {
+    process.env.LLM_PROVIDER = "openai-compatible"
+    process.env.LLM_PROVIDER_CLASSIFIER = "fixture"
+    process.env.LLM_FIXTURE_FILE = FIXTURE_FILE
+    process.env.LLM_BASE_URL = "http://localhost:11434/v1"
+    process.env.LLM_MODEL_NAME = "llama3"
+
+    expect(resolve("classifier").name).toBe("fixture")
+    expect(resolve("ai-query").name).toBe("openai-compatible")
+    expect(resolve("clean-data").name).toBe("openai-compatible")
+  })
+
+  test("maps dashed feature names to the env key", () => {
+    process.env.LLM_PROVIDER_CLEAN_DATA = "FIXTURE"
+    process.env.LLM_FIXTURE_FILE = FIXTURE_FILE
+    expect(resolve("clean-data").name).toBe("fixture")
+  })
+
+  test("reports unknown providers and missing configuration", () => {
+    process.env.LLM_PROVIDER = "mystery"
+    expect(getLLMProvider("ai-query")).toEqual({
+      success: false,
+      error: 'Unknown LLM provider "mystery". Use one of: gemini, openai-compatible, fixture'
+    })
+
+    process.env.LLM_PROVIDER = "openai-compatible"
+    expect(getLLMProvider("ai-query")).toMatchObject({ success: false, error: expect.stringContaining("LLM_BASE_URL") })
+
+    process.env.LLM_PROVIDER = "fixture"
+    expect(getLLMProvider("ai-query")).toMatchObject({ success: false, error: expect.stringContaining("LLM_FIXTURE_FILE") })
+
+    process.env.LLM_FIXTURE_FILE = join(import.meta.dir, "__fixtures__", "llm", "missing.json")
+    expect(getLLMProvider("ai-query")).toMatchObject({ success: false, error: expect.stringContaining("Failed to load LLM fixtures") })
+
+    delete process.env.LLM_PROVIDER
+    expect(getLLMProvider("ai-query")).toEqual({ success: false, error: "Gemini API key not configured" })
+  })
+})
+
+describe("gemini provider", () => {
+  test("passes the system instruction and returns the response text", async () => {
+    process.env.GEMINI_API_KEY = "key"
+    process.env.GEMINI_MODEL_NAME = "gemini-test"
+
+    const text = await resolve("ai-query").generateText({ systemInstruction: "You write SQL", prompt: "How many movies?" })
+
+    expect(text).toBe("gemini answer")
+    expect(geminiCalls).toEqual([{ apiKey: "key", model: "gemini-test", systemInstruction: "You write SQL", prompt: "How many movies?" }])
+  })
+
+  test("turns a blocked response into LLMBlockedResponseError", async () => {
+    process.env.GEMINI_API_KEY = "key"
+    process.env.GEMINI_MODEL_NAME = "gemini-test"
+    geminiText = () => {
+      throw new Error("Candidate was blocked due to SAFETY")
+    }
+
+    await expect(resolve("ai-query").generateText({ prompt: "x" })).rejects.toBeInstanceOf(LLMBlockedResponseError)
+  })
+})
+
+describe("openai-compatible provider", () => {
+  function configure() {
+    process.env.LLM_PROVIDER = "openai-compatible"
+    process.env.LLM_BASE_URL = "http://localhost:11434/v1/"
+    process.env.LLM_MODEL_NAME = "llama3"
+    process.env.LLM_API_KEY = "secret"
+  }
+
+  test("posts a chat completion and returns the first choice", async () => {
+    configure()
+    const requests: Array<{ url: string; init: RequestInit }> = []
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init })
+      return Response.json({ choices: [{ message: { content: "local answer" }, finish_reason: "stop" }] })
+    }) as unknown as typeof fetch
+
+    const text = await resolve("ai-query").generateText({ systemInstruction: "sys", prompt: "hi" })
+
+    expect(text).toBe("local answer")
+    expect(requests[0].url).toBe("http://localhost:11434/v1/chat/completions")
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe("Bearer secret")
+    expect(JSON.parse(String(requests[0].init.body))).toEqual({
+      model: "llama3",
+      temperature: 0,
+      messages: [
+        { role: "system", content: "sys" },
+        { role: "user", content: "hi" }
+      ]
+    })
+  })
+
+  test("surfaces HTTP errors and content filtering", async () => {
+    configure()
+    globalThis.fetch = (async () => new Response("model not loaded", { status: 503 })) as unknown as typeof fetch
+    await expect(resolve("ai-query").generateText({ prompt: "hi" })).rejects.toThrow("LLM request failed (503): model not loaded")
+
+    globalThis.fetch = (async () =>
+      Response.json({ choices: [{ message: { content: null }, finish_reason: "content_filter" }] })) as unknown as typeof fetch
+    await expect(resolve("ai-query").generateText({ prompt: "hi" })).rejects.toBeInstanceOf(LLMBlockedResponseError)
+  })
+})
+
+describe("fixture provider", () => {
+  test("replays the recorded fixture file through getLLMProvider", async () => {
+    process.env.LLM_PROVIDER = "fixture"
+    process.env.LLM_FIXTURE_FILE = FIXTURE_FILE
+    const provider = resolve("ai-query")
+    const mediaPrompt = buildSystemPrompt("media", { homeCurrency: "USD" })
+    const foodActionPrompt = buildActionPrompt("food", { homeCurrency: "USD" })
+
+    const action = JSON.parse(
+      await provider.generateText({ systemInstruction: foodActionPrompt, prompt: "Log lunch at Tartine today, 4 stars, $23" })
+    )
+    expect(action.type).toBe("action")
+    expect(action.actions[0].data.name).toBe("Tartine")
+
+    const query = JSON.parse(await provider.generateText({ systemInstruction: mediaPrompt, prompt: "How many MOVIES did I watch?" }))
+    expect(query.sql).toContain("medium = 'Movie'")
+
+    // The real prompts quote "How many movies" and "Log lunch at Tartine" as examples
+    for (const systemInstruction of [mediaPrompt, foodActionPrompt]) {
+      const fallback = JSON.parse(await provider.generateText({ systemInstruction, prompt: "anything else" }))
+      expect(fallback.sql).toBe("SELECT COUNT(*) AS total FROM media_entries")
+    }
+  })
+
+  test("matches the prompt only, returns strings verbatim and fails without a default", async () => {
+    const provider = createFixtureProvider({ fixtures: [{ match: "classify", response: "raw text" }] })
+
+    expect(await provider.generateText({ prompt: "Classify this entry: Dune" })).toBe("raw text")
+    await expect(provider.generateText({ systemInstruction: "Classify this entry", prompt: "Dune" })).rejects.toThrow(
+      "No LLM fixture matched the request"
+    )
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Pluggable text-generation providers for the AI routes.
+ *
+ * The provider is chosen per feature through env config so routes never construct a model client directly:
+ *   LLM_PROVIDER_<FEATURE> (e.g. LLM_PROVIDER_AI_QUERY) > LLM_PROVIDER > "gemini"
+ */
+import { readFileSync } from "node:fs"
+import { getEnvValue } from "@/src/server/env"
+
+export type LLMProviderName = "gemini" | "openai-compatible" | "fixture"
+export type LLMFeature = "ai-query" | "clean-data" | "classifier"
+
+export interface LLMGenerateRequest {
+  systemInstruction?: string
+  prompt: string
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  generateText(request: LLMGenerateRequest): Promise<string>
+}
+
+/** Thrown when the model produced no usable text (blocked by safety filters or empty). */
+export class LLMBlockedResponseError extends Error {
+  constructor(message = "The AI response was blocked or empty") {
+    super(message)
+    this.name = "LLMBlockedResponseError"
+  }
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ["gemini", "openai-compatible", "fixture"]
+
+function createGeminiProvider(apiKey: string, model: string): LLMProvider {
+  return {
+    name: "gemini",
+    model,
+    async generateText({ systemInstruction, prompt }) {
+      const { GoogleGenerativeAI } = await import("@google/generative-ai")
+      const genAI = new GoogleGenerativeAI(apiKey)
+      const generativeModel = genAI.getGenerativeModel({
+        model,
+        ...(systemInstruction ? { systemInstruction } : {}),
+      })
+
+      const result = await generativeModel.generateContent(prompt)
+
+      // response.text() throws if the candidate was blocked or empty
+      try {
+        return result.response.text()
+      } catch (textError) {
+        throw new LLMBlockedResponseError(textError instanceof Error ? textError.message : undefined)
+      }
+    },
+  }
+}
+
+/**
+ * Any server exposing the OpenAI chat completions API: llama.cpp's server, Ollama, vLLM, LM Studio, etc.
+ */
+function createOpenAICompatibleProvider(baseUrl: string, model: string, apiKey?: string): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`
+
+  return {
+    name: "openai-compatible",
+    model,
+    async generateText({ systemInstruction, prompt }) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+            { role: "user", content: prompt },
+          ],
+        }),
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "")
+        throw new Error(`LLM request failed (${response.status}): ${detail.slice(0, 200)}`)
+      }
+
+      const payload = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string | null }; finish_reason?: string }>
+      }
+      const choice = payload.choices?.[0]
+      if (choice?.finish_reason === "content_filter") {
+        throw new LLMBlockedResponseError()
+      }
+      return choice?.message?.content ?? ""
+    },
+  }
+}
+
+export interface LLMFixture {
+  /** Case-insensitive substring matched against the prompt. */
+  match: string
+  /** Returned verbatim when a string, otherwise serialized as JSON. */
+  response: unknown
+}
+
+export interface LLMFixtureSet {
+  fixtures: LLMFixture[]
+  default?: unknown
+}
+
+function serializeFixtureResponse(response: unknown): string {
+  return typeof response === "string" ? response : JSON.stringify(response)
+}
+
+/**
+ * Deterministic provider for tests and offline development: the first fixture whose `match`
+ * appears in the prompt wins, falling back to `default`. The system instruction is ignored
+ * because the real ones quote example requests that would match every call.
+ */
+export function createFixtureProvider(fixtureSet: LLMFixtureSet): LLMProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+    async generateText({ prompt }) {
+      const haystack = prompt.toLowerCase()
+      const fixture = fixtureSet.fixtures.find((candidate) => haystack.includes(candidate.match.toLowerCase()))
+
+      if (fixture) return serializeFixtureResponse(fixture.response)
+      if (fixtureSet.default !== undefined) return serializeFixtureResponse(fixtureSet.default)
+      throw new Error("No LLM fixture matched the request")
+    },
+  }
+}
+
+function loadFixtureSet(path: string): LLMFixtureSet {
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as Partial<LLMFixtureSet>
+  return {
+    fixtures: Array.isArray(parsed.fixtures) ? parsed.fixtures : [],
+    default: parsed.default,
+  }
+}
+
+function resolveProviderName(feature: LLMFeature): string {
+  const featureKey = `LLM_PROVIDER_${feature.replace(/-/g, "_").toUpperCase()}`
+  return (getEnvValue(featureKey, "LLM_PROVIDER") ?? "gemini").toLowerCase()
+}
+
+/**
+ * Resolve the configured provider for a feature. Returns an error message instead of throwing
+ * so routes can surface missing configuration as a normal API error.
+ */
+export function getLLMProvider(
+  feature: LLMFeature
+): { success: true; provider: LLMProvider } | { success: false; error: string } {
+  const name = resolveProviderName(feature)
+
+  if (!PROVIDER_NAMES.includes(name as LLMProviderName)) {
+    return { success: false, error: `Unknown LLM provider "${name}". Use one of: ${PROVIDER_NAMES.join(", ")}` }
+  }
+
+  if (name === "openai-compatible") {
+    const baseUrl = getEnvValue("LLM_BASE_URL")
+    const model = getEnvValue("LLM_MODEL_NAME")
+    if (!baseUrl) return { success: false, error: "LLM base URL not configured (LLM_BASE_URL)" }
+    if (!model) return { success: false, error: "LLM model name not configured (LLM_MODEL_NAME)" }
+    return { success: true, provider: createOpenAICompatibleProvider(baseUrl, model, getEnvValue("LLM_API_KEY")) }
+  }
+
+  if (name === "fixture") {
+    const fixturePath = getEnvValue("LLM_FIXTURE_FILE")
+    if (!fixturePath) return { success: false, error: "LLM fixture file not configured (LLM_FIXTURE_FILE)" }
+    try {
+      return { success: true, provider: createFixtureProvider(loadFixtureSet(fixturePath)) }
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to load LLM fixtures: ${error instanceof Error ? error.message : "Unknown error"}`,
+      }
+    }
+  }
+
+  const apiKey = getEnvValue("GEMINI_API_KEY")
+  const model = getEnvValue("GEMINI_MODEL_NAME")
+  if (!apiKey) return { success: false, error: "Gemini API key not configured" }
+  if (!model) return { success: false, error: "Gemini model name not configured (GEMINI_MODEL_NAME)" }
+  return { success: true, provider: createGeminiProvider(apiKey, model) }
+}
@@ -0,0 +1,437 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database, Json } from "@/src/server/database.types"
+import {
+  findFoodEntryByName,
+  getFoodEntryById,
+  prepareFoodEntryInsert,
+  type FoodActionPayload
+} from "@/src/server/services/food-repository"
+import {
+  findMediaEntryByTitle,
+  getMediaEntryById,
+  prepareMediaEntryInsert,
+  type MediaActionPayload
+} from "@/src/server/services/media-repository"
+import type {
+  ActionFieldChange,
+  ExecuteActionDiff,
+  ExecuteActionResult,
+  ExecuteActionsMode,
+  ExecuteActionsResponse,
+  FoodAction,
+  MediaAction,
+  UndoActionsResponse,
+  WorkspaceAction,
+  WorkspaceType
+} from "@analytics/contracts"
+
+type EntryRow = Record<string, unknown>
+type PrepareResult = { success: true; data: EntryRow } | { success: false; error: string }
+
+interface ActionRepository {
+  table: "media_entries" | "food_entries"
+  entryLabel: "title" | "name"
+  findTargetId: (action: WorkspaceAction) => Promise<string | undefined>
+  getById: (id: string) => Promise<EntryRow | null>
+  prepareInsert: (data: EntryRow) => Promise<PrepareResult>
+}
+
+/**
+ * One row write applied by the `apply_entry_writes` database function, which runs a
+ * list of them in a single transaction. Undo batches are stored in the same shape.
+ */
+type EntryWrite =
+  | { op: "insert"; values: EntryRow }
+  | { op: "update"; id: string; values: EntryRow }
+  | { op: "delete"; id: string }
+  /** Re-inserts a deleted row with the dependent rows its delete cascaded to, keyed by table. */
+  | { op: "restore"; values: EntryRow; dependents: Record<string, EntryRow[]> }
+
+interface WriteOutcome {
+  row: EntryRow | null
+  dependents: Record<string, EntryRow[]>
+}
+
+type ApplyResult =
+  | { success: true; outcomes: WriteOutcome[] }
+  | { success: false; failedIndex: number | null; error: string }
+
+interface ActionPlan {
+  targetId: string | null
+  before: EntryRow | null
+  write: EntryWrite
+}
+
+function createMediaActionRepository(supabase: SupabaseClient<Database>, userId: string): ActionRepository {
+  return {
+    table: "media_entries",
+    entryLabel: "title",
+    async findTargetId(action) {
+      const { id, data } = action as MediaAction
+      if (id) return id
+      if (!data?.title) return undefined
+      const matched = await findMediaEntryByTitle(supabase, userId, data.title)
+      return matched?.id
+    },
+    async getById(id) {
+      return (await getMediaEntryById(supabase, userId, id)) as EntryRow | null
+    },
+    async prepareInsert(data) {
+      return prepareMediaEntryInsert(data as MediaActionPayload)
+    }
+  }
+}
+
+function createFoodActionRepository(supabase: SupabaseClient<Database>, userId: string): ActionRepository {
+  return {
+    table: "food_entries",
+    entryLabel: "name",
+    async findTargetId(action) {
+      const { id, data } = action as FoodAction
+      if (id) return id
+      if (!data?.name) return undefined
+      // Updates usually target the latest visit, so the visit date only narrows deletes.
+      const visitDate = action.type === "delete" ? data.visit_date : undefined
+      const matched = await findFoodEntryByName(supabase, userId, data.name, visitDate)
+      return matched?.id
+    },
+    async getById(id) {
+      return (await getFoodEntryById(supabase, userId, id)) as EntryRow | null
+    },
+    async prepareInsert(data) {
+      return prepareFoodEntryInsert(supabase, userId, data as FoodActionPayload)
+    }
+  }
+}
+
+export function createActionRepository(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workspace: WorkspaceType
+): ActionRepository {
+  return workspace === "food"
+    ? createFoodActionRepository(supabase, userId)
+    : createMediaActionRepository(supabase, userId)
+}
+
+async function applyWrites(
+  supabase: SupabaseClient<Database>,
+  table: ActionRepository["table"],
+  writes: EntryWrite[]
+): Promise<ApplyResult> {
+  const { data, error } = await supabase.rpc("apply_entry_writes", {
+    p_table: table,
+    p_writes: writes as unknown as Json
+  })
+
+  if (error) {
+    // The function prefixes the failing write's position so it can be reported on its action
+    const match = /^write (\d+): ([\s\S]*)$/.exec(error.message)
+    return match
+      ? { success: false, failedIndex: Number(match[1]), error: match[2] }
+      : { success: false, failedIndex: null, error: error.message }
+  }
+
+  return { success: true, outcomes: (Array.isArray(data) ? data : []) as unknown as WriteOutcome[] }
+}
+
+function isSameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null)
+}
+
+function buildDiff(
+  action: WorkspaceAction,
+  entryId: string | null,
+  before: EntryRow | null,
+  after: EntryRow | null
+): ExecuteActionDiff {
+  const data = (action.data ?? {}) as EntryRow
+  const changes: ActionFieldChange[] = []
+
+  if (action.type !== "delete") {
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue
+      const previous = before ? before[field] : null
+      if (!isSameValue(previous, value)) {
+        changes.push({ field, before: previous ?? null, after: value })
+      }
+    }
+  }
+
+  return { entryId, before, after, changes }
+}
+
+async function planAction(repository: ActionRepository, action: WorkspaceAction): Promise<ActionPlan | string> {
+  if (action.type !== "create" && action.type !== "update" && action.type !== "delete") {
+    return `Unknown action type: ${(action as { type: string }).type}`
+  }
+
+  const data = (action.data ?? {}) as EntryRow
+
+  if (action.type === "create") {
+    const prepared = await repository.prepareInsert(data)
+    if (!prepared.success) return prepared.error
+    // The id is chosen here so the undo batch can name the row before it exists
+    return { targetId: null, before: null, write: { op: "insert", values: { ...prepared.data, id: crypto.randomUUID() } } }
+  }
+
+  const targetId = await repository.findTargetId(action)
+  if (!targetId) {
+    return `Entry ID or ${repository.entryLabel} match is required for ${action.type} action`
+  }
+
+  const before = await repository.getById(targetId)
+  if (!before) {
+    return `No entry found for ${action.type} action`
+  }
+
+  return {
+    targetId,
+    before,
+    write: action.type === "update" ? { op: "update", id: targetId, values: data } : { op: "delete", id: targetId }
+  }
+}
+
+function previewAfter(action: WorkspaceAction, before: EntryRow | null): EntryRow | null {
+  if (action.type === "delete") return null
+  return { ...(before ?? {}), ...((action.data ?? {}) as EntryRow) }
+}
+
+/** The write that reverts an applied one. */
+function inverseWrite(plan: ActionPlan, outcome: WriteOutcome): EntryWrite {
+  const { write } = plan
+
+  if (write.op === "insert") return { op: "delete", id: String(outcome.row?.id ?? write.values.id) }
+
+  if (write.op === "update") {
+    const before = plan.before ?? {}
+    const values: EntryRow = {}
+    for (const field of Object.keys(write.values)) {
+      if (field in before) values[field] = before[field]
+    }
+    return { op: "update", id: write.id, values }
+  }
+
+  return { op: "restore", values: outcome.row ?? plan.before ?? {}, dependents: outcome.dependents ?? {} }
+}
+
+function appliedResult(action: WorkspaceAction, plan: ActionPlan, outcome: WriteOutcome): ExecuteActionResult {
+  const entryId = plan.targetId ?? String(outcome.row?.id ?? "")
+  return {
+    success: true,
+    action,
+    entryId,
+    diff: buildDiff(action, entryId, plan.before, plan.write.op === "delete" ? null : outcome.row)
+  }
+}
+
+async function storeUndoBatch(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workspace: WorkspaceType,
+  operations: EntryWrite[]
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("action_undo_batches")
+    .insert({ user_id: userId, workspace, operations: operations as unknown as Json })
+    .select("id")
+    .single()
+
+  if (error || !data) {
+    console.error("Failed to store undo batch:", error)
+    return null
+  }
+
+  return data.id
+}
+
+function summarize(results: ExecuteActionResult[]) {
+  return {
+    total: results.length,
+    succeeded: results.filter((result) => result.success).length,
+    failed: results.filter((result) => !result.success).length
+  }
+}
+
+/**
+ * Run a batch of AI-generated actions.
+ *
+ * - `dry-run` resolves every action against the current rows and returns diffs without writing.
+ * - `atomic` resolves every action first, then applies all of them in one database transaction.
+ * - `best-effort` applies each action independently (the original behaviour).
+ *
+ * Actions are resolved against the rows as they were before the batch, so an action cannot
+ * target an entry created earlier in the same batch.
+ */
+export async function executeActionBatch(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workspace: WorkspaceType,
+  actions: WorkspaceAction[],
+  mode: ExecuteActionsMode
+): Promise<ExecuteActionsResponse> {
+  const repository = createActionRepository(supabase, userId, workspace)
+  const results: ExecuteActionResult[] = []
+  const undoWrites: EntryWrite[] = []
+  let rolledBack = false
+  let error: string | undefined
+
+  const plans: Array<{ action: WorkspaceAction; plan: ActionPlan }> = []
+  for (const action of actions) {
+    let plan: ActionPlan | string
+    try {
+      plan = await planAction(repository, action)
+    } catch (planError) {
+      plan = planError instanceof Error ? planError.message : "Unknown error occurred"
+    }
+
+    if (typeof plan === "string") {
+      results.push({ success: false, action, error: plan })
+      if (mode === "atomic") break
+      continue
+    }
+
+    if (mode === "dry-run") {
+      results.push({
+        success: true,
+        action,
+        entryId: plan.targetId ?? undefined,
+        diff: buildDiff(action, plan.targetId, plan.before, previewAfter(action, plan.before))
+      })
+      continue
+    }
+
+    if (mode === "atomic") {
+      plans.push({ action, plan })
+      continue
+    }
+
+    const applied = await applyWrites(supabase, repository.table, [plan.write])
+    if (!applied.success) {
+      results.push({ success: false, action, error: applied.error })
+      continue
+    }
+    undoWrites.unshift(inverseWrite(plan, applied.outcomes[0]))
+    results.push(appliedResult(action, plan, applied.outcomes[0]))
+  }
+
+  if (mode === "atomic") {
+    const planFailed = results.length > 0
+    const applied = planFailed
+      ? null
+      : await applyWrites(supabase, repository.table, plans.map(({ plan }) => plan.write))
+
+    if (applied?.success) {
+      plans.forEach(({ action, plan }, index) => {
+        undoWrites.unshift(inverseWrite(plan, applied.outcomes[index]))
+        results.push(appliedResult(action, plan, applied.outcomes[index]))
+      })
+    } else {
+      // Nothing was written: a resolve failure stops before the transaction, a write failure rolls it back
+      rolledBack = true
+      if (applied && !applied.success) {
+        plans.forEach(({ action }, index) => {
+          results.push(
+            index === applied.failedIndex
+              ? { success: false, action, error: applied.error }
+              : { success: false, action, error: "Rolled back because another action in the batch failed" }
+          )
+        })
+        if (applied.failedIndex === null) error = applied.error
+      } else {
+        results.unshift(
+          ...plans.map(({ action }): ExecuteActionResult => ({
+            success: false,
+            action,
+            error: "Not applied because another action in the batch failed"
+          }))
+        )
+      }
+      for (const action of actions.slice(results.length)) {
+        results.push({ success: false, action, error: "Not applied because another action in the batch failed" })
+      }
+    }
+  }
+
+  const undoToken = undoWrites.length > 0
+    ? await storeUndoBatch(supabase, userId, workspace, undoWrites)
+    : null
+
+  const summary = summarize(results)
+
+  return {
+    success: summary.failed === 0,
+    mode,
+    results,
+    summary,
+    undoToken,
+    ...(rolledBack ? { rolledBack } : {}),
+    ...(error ? { error } : {})
+  }
+}
+
+/**
+ * Revert a batch in one transaction. The batch is claimed first so concurrent undos cannot
+ * both run, and it is only marked undone once every revert has been applied; a failed undo
+ * releases the claim and can be retried.
+ */
+export async function undoActionBatch(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  undoToken: string
+): Promise<UndoActionsResponse> {
+  const claimedAt = new Date().toISOString()
+  const { data: batch, error } = await supabase
+    .from("action_undo_batches")
+    .update({ undo_started_at: claimedAt })
+    .eq("id", undoToken)
+    .eq("user_id", userId)
+    .is("undone_at", null)
+    .is("undo_started_at", null)
+    .select("*")
+    .maybeSingle()
+
+  if (error || !batch) {
+    const { data: existing } = await supabase
+      .from("action_undo_batches")
+      .select("undone_at")
+      .eq("id", undoToken)
+      .eq("user_id", userId)
+      .maybeSingle()
+
+    const message = !existing
+      ? "Undo token not found"
+      : existing.undone_at
+        ? "This batch has already been undone"
+        : "This batch is already being undone"
+    return { success: false, reverted: 0, errors: [], error: message }
+  }
+
+  const workspace: WorkspaceType = batch.workspace === "food" ? "food" : "media"
+  const repository = createActionRepository(supabase, userId, workspace)
+  const writes = (Array.isArray(batch.operations) ? batch.operations : []) as unknown as EntryWrite[]
+  const applied = await applyWrites(supabase, repository.table, writes)
+
+  if (!applied.success) {
+    await supabase
+      .from("action_undo_batches")
+      .update({ undo_started_at: null })
+      .eq("id", undoToken)
+      .eq("user_id", userId)
+      .eq("undo_started_at", claimedAt)
+
+    return { success: false, reverted: 0, errors: [applied.error], error: `Nothing was reverted: ${applied.error}` }
+  }
+
+  const { error: markError } = await supabase
+    .from("action_undo_batches")
+    .update({ undone_at: new Date().toISOString() })
+    .eq("id", undoToken)
+    .eq("user_id", userId)
+  if (markError) {
+    // The claim stays in place, so the reverted batch still cannot be undone twice
+    console.error("Failed to mark undo batch as undone:", markError)
+  }
+
+  return { success: true, reverted: writes.length, errors: [] }
+}
@@ -1,5 +1,6 @@
-// AI Classification service using Google Gemini API
+// AI Classification service using the configured LLM provider
 import { getGeminiErrorMessage } from "@/src/server/gemini-errors"
+import { getLLMProvider } from "@/src/server/llm-provider"
 
 export interface ClassificationInput {
   title: string;
@@ -15,21 +16,20 @@ export interface ClassificationOutput {
   suggested_genres?: string[];
 }
 
-export async function classifyWithGemini(
-  input: ClassificationInput,
-  apiKey: string
+export function isClassifierConfigured(): boolean {
+  return getLLMProvider("classifier").success;
+}
+
+export async function classifyWithLLM(
+  input: ClassificationInput
 ): Promise<ClassificationOutput | null> {
   try {
-    const modelName = process.env.GEMINI_MODEL_NAME;
-    if (!modelName) {
-      console.error("GEMINI_MODEL_NAME not configured");
+    const llm = getLLMProvider("classifier");
+    if (!llm.success) {
+      console.error("AI classifier not configured:", llm.error);
       return null;
     }
 
-    const { GoogleGenerativeAI } = await import("@google/generative-ai");
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: modelName });
-
     const prompt = `You are a media classification expert. Based on the following information, classify this ${input.type || "media"}:
 
 Title: ${input.title}
@@ -44,21 +44,19 @@ Please provide a JSON response with the following fields (only include fields wh
 
 Return ONLY valid JSON, no markdown or explanation.`;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const text = await llm.provider.generateText({ prompt });
     
     // Try to parse JSON from the response
     const jsonMatch = text.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
-      console.error("Gemini response not valid JSON:", text);
+      console.error("AI classifier response not valid JSON:", text);
       return null;
     }
 
     const classification = JSON.parse(jsonMatch[0]);
     return classification;
   } catch (error) {
-    console.error("Gemini classification error:", getGeminiErrorMessage(error), error);
+    console.error("AI classification error:", getGeminiErrorMessage(error), error);
     return null;
   }
 }
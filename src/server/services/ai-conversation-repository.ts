@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createServiceRoleClient } from "@/src/server/api/request-auth"
+import type { AIConversation, Database, Json } from "@/src/server/database.types"
+import type { AIConversationTurn, WorkspaceType } from "@analytics/contracts"
+
+const MAX_STORED_TURNS = 50
+const TITLE_MAX_LENGTH = 80
+
+export function getConversationTurns(conversation: AIConversation | null): AIConversationTurn[] {
+  if (!conversation || !Array.isArray(conversation.turns)) return []
+  return conversation.turns as unknown as AIConversationTurn[]
+}
+
+export async function getConversation(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  id: string
+): Promise<AIConversation | null> {
+  const { data } = await supabase
+    .from("ai_conversations")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  return data ?? null
+}
+
+function buildTitle(query: string): string {
+  const singleLine = query.replace(/\s+/g, " ").trim()
+  return singleLine.length > TITLE_MAX_LENGTH ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 1)}…` : singleLine
+}
+
+export interface AppendedTurn {
+  conversationId: string
+  turnId: string
+}
+
+/**
+ * Append a turn to a conversation, creating the conversation when it does not exist yet.
+ * Turns hold SQL that reruns execute, so they are written with the service role; callers
+ * cannot write them. Returns null when persisting failed (history is best-effort).
+ */
+export async function appendConversationTurn(
+  userId: string,
+  workspace: WorkspaceType,
+  conversation: AIConversation | null,
+  turn: Omit<AIConversationTurn, "id" | "created_at">
+): Promise<AppendedTurn | null> {
+  const storedTurn: AIConversationTurn = {
+    ...turn,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    created_at: new Date().toISOString()
+  }
+
+  try {
+    const { data, error } = await createServiceRoleClient().rpc("append_ai_conversation_turn", {
+      p_user_id: userId,
+      p_workspace: workspace,
+      p_conversation_id: conversation?.id ?? null,
+      p_title: buildTitle(turn.query),
+      p_turn: storedTurn as unknown as Json,
+      p_max_turns: MAX_STORED_TURNS
+    })
+
+    if (error || !data) {
+      console.error("Failed to append AI conversation turn:", error)
+      return null
+    }
+
+    return { conversationId: data, turnId: storedTurn.id }
+  } catch (error) {
+    console.error("Failed to append AI conversation turn:", error)
+    return null
+  }
+}
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createServiceRoleClient } from "@/src/server/api/request-auth"
+import type { AIDashboardCard, Database } from "@/src/server/database.types"
+import type { AIConversationTurn, SaveDashboardCardRequest } from "@analytics/contracts"
+
+export async function getDashboardCard(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  id: string
+): Promise<AIDashboardCard | null> {
+  const { data } = await supabase
+    .from("ai_dashboard_cards")
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  return data ?? null
+}
+
+/**
+ * Saves a recorded query turn as a card at the end of the workspace dashboard. The SQL is
+ * copied from the turn, never taken from the caller, and written with the service role
+ * because clients cannot insert cards.
+ */
+export async function createDashboardCard(
+  userId: string,
+  input: Pick<SaveDashboardCardRequest, "workspace" | "title" | "visualizationType">,
+  turn: AIConversationTurn
+): Promise<{ success: true; data: AIDashboardCard } | { success: false; error: string }> {
+  if (turn.type !== "query" || !turn.sql) return { success: false, error: "Only query turns can be saved as cards" }
+
+  const serviceClient = createServiceRoleClient()
+
+  const { data: last, error: positionError } = await serviceClient
+    .from("ai_dashboard_cards")
+    .select("position")
+    .eq("user_id", userId)
+    .eq("workspace", input.workspace)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (positionError) return { success: false, error: positionError.message }
+
+  const { data, error } = await serviceClient
+    .from("ai_dashboard_cards")
+    .insert({
+      user_id: userId,
+      workspace: input.workspace,
+      title: input.title,
+      query: turn.query,
+      sql: turn.sql,
+      visualization_type: input.visualizationType,
+      position: (last?.position ?? -1) + 1
+    })
+    .select("*")
+    .single()
+
+  if (error || !data) return { success: false, error: error?.message ?? "Failed to save dashboard card" }
+  return { success: true, data }
+}
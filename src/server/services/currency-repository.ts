@@ -0,0 +1,16 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { DEFAULT_HOME_CURRENCY, HOME_CURRENCY_PREFERENCE_KEY, normalizeCurrencyCode } from "@/src/features/currency/lib/currency"
+import type { Database } from "@/src/server/database.types"
+
+/** The user's home currency preference, defaulting to USD when unset or invalid. */
+export async function getHomeCurrency(supabase: SupabaseClient<Database>, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from("user_preferences")
+    .select("preference_value")
+    .eq("user_id", userId)
+    .eq("preference_key", HOME_CURRENCY_PREFERENCE_KEY)
+    .maybeSingle()
+
+  const value = typeof data?.preference_value === "string" ? data.preference_value : null
+  return normalizeCurrencyCode(value) ?? DEFAULT_HOME_CURRENCY
+}
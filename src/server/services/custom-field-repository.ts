@@ -0,0 +1,22 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CustomFieldDefinition, Database } from "@/src/server/database.types"
+
+/** The user's custom field definitions for one workspace, in display order. */
+export async function getCustomFieldDefinitions(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workspace: "media" | "food"
+): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from("custom_field_definitions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("workspace", workspace)
+    .order("sort_order", { ascending: true })
+
+  if (error) {
+    console.error("Custom field definitions error:", error)
+    return []
+  }
+  return data ?? []
+}
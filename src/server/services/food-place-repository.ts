@@ -0,0 +1,101 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { buildPlaceKey, findMatchingPlace, normalizePlaceName } from "@/src/features/food/lib/food-place-keys"
+import { planPlaceMerge } from "@/src/features/food/lib/food-places"
+import type { Database, FoodPlace, Json } from "@/src/server/database.types"
+
+export interface FoodPlaceLookup {
+  googlePlaceId?: string | null
+  name: string
+  branch?: string | null
+  address?: string | null
+}
+
+export interface FoodPlaceMergeResult {
+  place: FoodPlace
+  movedVisits: number
+}
+
+/**
+ * The user's existing place for a lookup, matched like the app does (`findMatchingPlace`): same
+ * Google place id, then the same normalized name and address, then the same name when either
+ * side has no address.
+ */
+export async function findFoodPlace(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  lookup: FoodPlaceLookup
+): Promise<FoodPlace | null> {
+  const fields = {
+    name: lookup.name,
+    branch: lookup.branch ?? null,
+    address: lookup.address ?? null,
+    google_place_id: lookup.googlePlaceId ?? null
+  }
+
+  if (fields.google_place_id) {
+    const { data } = await supabase
+      .from("food_places")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("google_place_id", fields.google_place_id)
+      .limit(1)
+
+    if (data && data.length > 0) return data[0]
+  }
+
+  if (!lookup.name.trim()) return null
+
+  // Keys start with the normalized name, so this loads every place sharing it; the name has no
+  // LIKE wildcards because normalization leaves only letters, digits and spaces
+  const { data } = await supabase
+    .from("food_places")
+    .select("*")
+    .eq("user_id", userId)
+    .like("normalized_key", `${normalizePlaceName(fields.name, fields.branch)}|%`)
+
+  return findMatchingPlace(data ?? [], { ...fields, google_place_id: null })
+}
+
+/**
+ * Merges `sourceIds` into `targetId` in one transaction (`merge_food_places`): their visits and
+ * dishes move to the target, its blank fields are filled from them and they are deleted.
+ */
+export async function mergeFoodPlaces(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  targetId: string,
+  sourceIds: string[]
+): Promise<{ success: true; data: FoodPlaceMergeResult } | { success: false; error: string }> {
+  const { data: places, error } = await supabase
+    .from("food_places")
+    .select("*")
+    .eq("user_id", userId)
+    .in("id", [targetId, ...sourceIds])
+
+  if (error) return { success: false, error: error.message }
+
+  // Earlier sources win when two of them could fill the same blank field, as in planPlaceMerge
+  const byId = new Map((places ?? []).map((place) => [place.id, place]))
+  const target = byId.get(targetId)
+  const sourceOrder = [...new Set(sourceIds)].filter((id) => id !== targetId)
+  const sources = sourceOrder.map((id) => byId.get(id)).filter((place): place is FoodPlace => Boolean(place))
+  if (!target || sources.length === 0 || sources.length !== sourceOrder.length) {
+    return { success: false, error: "Place not found" }
+  }
+
+  const { targetPatch } = planPlaceMerge(target, sources)
+  const patch = targetPatch.address
+    ? { ...targetPatch, normalized_key: buildPlaceKey(target.name, target.branch, targetPatch.address) }
+    : targetPatch
+
+  const { data, error: mergeError } = await supabase.rpc("merge_food_places", {
+    p_target_id: targetId,
+    p_source_ids: sources.map((source) => source.id),
+    p_target_patch: patch as Json
+  })
+
+  if (mergeError) return { success: false, error: mergeError.message }
+
+  const result = data as { place: FoodPlace; moved_visits: number }
+  return { success: true, data: { place: result.place, movedVisits: result.moved_visits } }
+}
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { Database, FoodEntry } from "@/src/server/database.types"
+import { findFoodPlace } from "@/src/server/services/food-place-repository"
+
+export interface FoodActionPayload {
+  name?: string
+  branch?: string
+  visit_date?: string
+  category?: string
+  cuisine_type?: string[]
+  dining_type?: string
+  overall_rating?: number
+  food_rating?: number
+  ambiance_rating?: number
+  service_rating?: number
+  value_rating?: number
+  total_price?: number
+  currency?: string
+  price_level?: string
+  favorite_item?: string
+  would_return?: boolean
+  address?: string
+  neighborhood?: string
+  city?: string
+  country?: string
+  tags?: string[]
+  notes?: string
+}
+
+function todayDateKey(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/**
+ * Match a food entry by place name. Visits repeat the same name, so the most
+ * recent visit wins unless a visit date narrows it down.
+ */
+export async function findFoodEntryByName(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  name: string,
+  visitDate?: string
+): Promise<FoodEntry | null> {
+  const normalized = name.trim()
+  if (!normalized) return null
+
+  for (const pattern of [normalized, `%${normalized}%`]) {
+    let query = (supabase
+      .from("food_entries" as any) as any)
+      .select("*")
+      .eq("user_id", userId)
+      .ilike("name", pattern)
+
+    if (visitDate) {
+      query = query.eq("visit_date", visitDate)
+    }
+
+    const { data: matches } = await query
+      .order("visit_date", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+
+    if (matches && matches.length > 0) {
+      return matches[0] as FoodEntry
+    }
+  }
+
+  return null
+}
+
+/** Every visit of the user, newest first. */
+export async function listFoodEntries(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<{ success: true; data: FoodEntry[] } | { success: false; error: string }> {
+  const { data, error } = await (supabase
+    .from("food_entries" as any) as any)
+    .select("*")
+    .eq("user_id", userId)
+    .order("visit_date", { ascending: false })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  return { success: true, data: (data ?? []) as FoodEntry[] }
+}
+
+/** Row for a new visit, written by the action executor. */
+export async function prepareFoodEntryInsert(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  payload: FoodActionPayload
+): Promise<{ success: true; data: Record<string, unknown> } | { success: false; error: string }> {
+  if (!payload.name?.trim()) {
+    return { success: false, error: "Name is required for create action" }
+  }
+
+  // Visits join an existing place when one matches; unmatched ones are linked from the places screen
+  const place = await findFoodPlace(supabase, userId, {
+    name: payload.name.trim(),
+    branch: payload.branch,
+    address: payload.address
+  })
+
+  return {
+    success: true,
+    data: {
+      ...payload,
+      place_id: place?.id ?? null,
+      name: payload.name.trim(),
+      visit_date: payload.visit_date || todayDateKey()
+    }
+  }
+}
+
+export async function getFoodEntryById(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  id: string
+): Promise<FoodEntry | null> {
+  const { data } = await (supabase
+    .from("food_entries" as any) as any)
+    .select("*")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  return (data as FoodEntry | null) ?? null
+}
@@ -15,6 +15,7 @@ export interface MediaActionPayload {
   episodes?: number
   episodes_watched?: number
   price?: number
+  currency?: string
 }
 
 export async function findMediaEntryByTitle(
@@ -51,69 +52,28 @@ export async function findMediaEntryByTitle(
   return null
 }
 
-export async function createMediaEntry(
-  supabase: SupabaseClient<Database>,
-  userId: string,
+/** Row for a new entry, written by the action executor. */
+export function prepareMediaEntryInsert(
   payload: MediaActionPayload
-): Promise<{ success: true; data: MediaEntry } | { success: false; error: string }> {
+): { success: true; data: Record<string, unknown> } | { success: false; error: string } {
   if (!payload.title?.trim()) {
     return { success: false, error: "Title is required for create action" }
   }
 
-  const insertPayload = {
-    ...payload,
-    title: payload.title.trim(),
-    user_id: userId
-  }
-
-  const { data, error } = await (supabase
-    .from("media_entries" as any) as any)
-    .insert(insertPayload)
-    .select("*")
-    .single()
-
-  if (error) {
-    return { success: false, error: error.message }
-  }
-
-  return { success: true, data: data as MediaEntry }
+  return { success: true, data: { ...payload, title: payload.title.trim() } }
 }
 
-export async function updateMediaEntry(
+export async function getMediaEntryById(
   supabase: SupabaseClient<Database>,
   userId: string,
-  id: string,
-  payload: MediaActionPayload
-): Promise<{ success: true; data: MediaEntry } | { success: false; error: string }> {
-  const { data, error } = await (supabase
+  id: string
+): Promise<MediaEntry | null> {
+  const { data } = await (supabase
     .from("media_entries" as any) as any)
-    .update(payload)
-    .eq("id", id)
-    .eq("user_id", userId)
     .select("*")
-    .single()
-
-  if (error) {
-    return { success: false, error: error.message }
-  }
-
-  return { success: true, data: data as MediaEntry }
-}
-
-export async function deleteMediaEntry(
-  supabase: SupabaseClient<Database>,
-  userId: string,
-  id: string
-): Promise<{ success: true } | { success: false; error: string }> {
-  const { error } = await supabase
-    .from("media_entries")
-    .delete()
     .eq("id", id)
     .eq("user_id", userId)
+    .maybeSingle()
 
-  if (error) {
-    return { success: false, error: error.message }
-  }
-
-  return { success: true }
+  return (data as MediaEntry | null) ?? null
 }
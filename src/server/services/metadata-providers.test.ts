@@ -0,0 +1,234 @@
+import { describe, expect, test } from "bun:test"
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import {
+  createFixtureFetcher,
+  createOpenLibraryProvider,
+  createRAWGProvider,
+  getMetadataProvider,
+  type MetadataFixtureSet
+} from "@/src/server/services/metadata-providers"
+
+const FIXTURES_DIR = join(import.meta.dir, "..", "__fixtures__", "metadata")
+
+function loadFixtures(name: string): MetadataFixtureSet {
+  return JSON.parse(readFileSync(join(FIXTURES_DIR, name), "utf8")) as MetadataFixtureSet
+}
+
+/** Replays the fixture set and records every URL requested. */
+function recordingFetcher(name: string) {
+  const replay = createFixtureFetcher(loadFixtures(name))
+  const urls: string[] = []
+  const fetcher = (url: string) => {
+    urls.push(url)
+    return replay(url)
+  }
+  return { fetcher, urls }
+}
+
+describe("Open Library provider", () => {
+  test("looks up an ISBN edition with its work description", async () => {
+    const { fetcher, urls } = recordingFetcher("openlibrary.json")
+    const metadata = await createOpenLibraryProvider(fetcher).lookup({ title: null, isbn: "978-0-441-17271-9", year: null })
+
+    expect(metadata).toMatchObject({
+      source: "openlibrary",
+      type: "Book",
+      title: "Dune",
+      authors: ["Frank Herbert"],
+      page_count: 604,
+      year: "2005",
+      poster_url: "https://covers.openlibrary.org/b/id/11481354-L.jpg",
+      genre: ["Science fiction", "Dune (Imaginary place)", "Fiction", "Life on other planets", "Ecology"],
+      isbn: "9780441172719"
+    })
+    expect(metadata?.plot).toStartWith("Set on the desert planet Arrakis")
+    expect(urls).toEqual([
+      "https://openlibrary.org/api/books?bibkeys=ISBN%3A9780441172719&format=json&jscmd=data",
+      "https://openlibrary.org/works/OL893415W.json"
+    ])
+  })
+
+  test("treats an ISBN typed into the title as an ISBN", async () => {
+    const { fetcher, urls } = recordingFetcher("openlibrary.json")
+    const metadata = await createOpenLibraryProvider(fetcher).lookup({ title: "9780441172719", isbn: null, year: null })
+
+    expect(metadata?.title).toBe("Dune")
+    expect(urls[0]).toContain("/api/books?bibkeys=ISBN%3A9780441172719")
+  })
+
+  test("returns null for an unknown ISBN", async () => {
+    const { fetcher } = recordingFetcher("openlibrary.json")
+    expect(await createOpenLibraryProvider(fetcher).lookup({ title: null, isbn: "0000000000", year: null })).toBeNull()
+  })
+
+  test("looks up a title through search and the work description", async () => {
+    const { fetcher, urls } = recordingFetcher("openlibrary.json")
+    const metadata = await createOpenLibraryProvider(fetcher).lookup({ title: " Dune ", isbn: null, year: null })
+
+    expect(metadata).toMatchObject({
+      title: "Dune",
+      authors: ["Frank Herbert"],
+      page_count: 604,
+      year: "1965",
+      poster_url: "https://covers.openlibrary.org/b/id/11481354-L.jpg",
+      isbn: "9780441172719"
+    })
+    expect(metadata?.genre).toHaveLength(5)
+    expect(metadata?.plot).toStartWith("Set on the desert planet Arrakis")
+    expect(urls[0]).toContain("limit=5&title=Dune")
+  })
+
+  test("prefers the search result from the requested year", async () => {
+    const { fetcher } = recordingFetcher("openlibrary.json")
+    const metadata = await createOpenLibraryProvider(fetcher).lookup({ title: "Dune", isbn: null, year: "1969" })
+
+    expect(metadata).toMatchObject({ title: "Dune Messiah", year: "1969", poster_url: null, isbn: "0399128972" })
+    // The work is not recorded, so the description request fails and is left empty
+    expect(metadata?.plot).toBeNull()
+  })
+
+  test("reads a plain string description", async () => {
+    const { fetcher } = recordingFetcher("openlibrary.json")
+    const metadata = await createOpenLibraryProvider(fetcher).lookup({ title: "Fantastic Mr Fox", isbn: null, year: null })
+    expect(metadata?.plot).toBe("A fox outwits three farmers.")
+  })
+
+  test("returns null when nothing matches or the query is empty", async () => {
+    const { fetcher, urls } = recordingFetcher("openlibrary.json")
+    const provider = createOpenLibraryProvider(fetcher)
+
+    expect(await provider.lookup({ title: "Nothing Like This", isbn: null, year: null })).toBeNull()
+    expect(await provider.lookup({ title: "  ", isbn: null, year: null })).toBeNull()
+    expect(urls).toHaveLength(1)
+  })
+
+  test("searches by title", async () => {
+    const { fetcher } = recordingFetcher("openlibrary.json")
+    const results = await createOpenLibraryProvider(fetcher).search("Dune")
+
+    expect(results).toEqual([
+      {
+        id: "openlibrary_/works/OL893415W",
+        title: "Dune",
+        year: "1965",
+        poster_url: "https://covers.openlibrary.org/b/id/11481354-M.jpg",
+        media_type: "book",
+        isbn: "9780441172719",
+        authors: ["Frank Herbert"]
+      },
+      {
+        id: "openlibrary_/works/OL2794726W",
+        title: "Dune Messiah",
+        year: "1969",
+        poster_url: null,
+        media_type: "book",
+        isbn: "0399128972",
+        authors: ["Frank Herbert"]
+      }
+    ])
+  })
+
+  test("searches by ISBN and keeps the searched ISBN", async () => {
+    const { fetcher, urls } = recordingFetcher("openlibrary.json")
+    const results = await createOpenLibraryProvider(fetcher).search("978-0441172719")
+
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ title: "Dune", isbn: "9780441172719" })
+    expect(urls[0]).toContain("&isbn=9780441172719")
+  })
+
+  test("returns no results when the service fails", async () => {
+    const { fetcher } = recordingFetcher("openlibrary.json")
+    expect(await createOpenLibraryProvider(fetcher).search("Unrecorded title")).toEqual([])
+  })
+})
+
+describe("RAWG provider", () => {
+  const withKey = () => "test-key"
+
+  test("looks up the best match with its details", async () => {
+    const { fetcher, urls } = recordingFetcher("rawg.json")
+    const metadata = await createRAWGProvider(fetcher, withKey).lookup({ title: "Hades", isbn: null, year: null })
+
+    expect(metadata).toMatchObject({
+      source: "rawg",
+      type: "Game",
+      title: "Hades",
+      year: "2020",
+      poster_url: "https://media.rawg.io/media/games/1f4/1f47a270b8f241e4676b14d39ec620f7.jpg",
+      genre: ["Action", "RPG", "Indie"],
+      average_rating: 8.8,
+      length: "21h",
+      platforms: ["PC", "Nintendo Switch", "PlayStation 5"],
+      developer: "Supergiant Games"
+    })
+    expect(metadata?.plot).toStartWith("Defy the god of the dead")
+    expect(urls).toEqual([
+      "https://api.rawg.io/api/games?key=test-key&search=Hades&page_size=5",
+      "https://api.rawg.io/api/games/274755?key=test-key"
+    ])
+  })
+
+  test("prefers the requested release year and falls back to the search result without details", async () => {
+    const { fetcher } = recordingFetcher("rawg.json")
+    const metadata = await createRAWGProvider(fetcher, withKey).lookup({ title: "Hades", isbn: null, year: "2017" })
+
+    expect(metadata).toMatchObject({
+      title: "Hades Star",
+      year: "2017",
+      poster_url: null,
+      average_rating: 6.2,
+      length: "2h",
+      platforms: [],
+      developer: null,
+      plot: null
+    })
+  })
+
+  test("returns null without a match, a title or an API key", async () => {
+    const { fetcher, urls } = recordingFetcher("rawg.json")
+
+    expect(await createRAWGProvider(fetcher, withKey).lookup({ title: "Nothing Like This", isbn: null, year: null })).toBeNull()
+    expect(await createRAWGProvider(fetcher, withKey).lookup({ title: " ", isbn: null, year: null })).toBeNull()
+    expect(await createRAWGProvider(fetcher, () => undefined).lookup({ title: "Hades", isbn: null, year: null })).toBeNull()
+    expect(urls).toHaveLength(1)
+  })
+
+  test("searches games", async () => {
+    const { fetcher, urls } = recordingFetcher("rawg.json")
+    const results = await createRAWGProvider(fetcher, withKey).search("Hades")
+
+    expect(results).toEqual([
+      {
+        id: "rawg_274755",
+        title: "Hades",
+        year: "2020",
+        poster_url: "https://media.rawg.io/media/games/1f4/1f47a270b8f241e4676b14d39ec620f7.jpg",
+        media_type: "game",
+        platforms: ["PC", "Nintendo Switch"]
+      },
+      { id: "rawg_3700", title: "Hades Star", year: "2017", poster_url: null, media_type: "game", platforms: [] }
+    ])
+    expect(urls[0]).toEndWith("&page_size=8")
+  })
+
+  test("reports whether it is configured and returns nothing on API errors", async () => {
+    const { fetcher } = recordingFetcher("rawg.json")
+
+    expect(createRAWGProvider(fetcher, withKey).isConfigured()).toBe(true)
+    expect(createRAWGProvider(fetcher, () => undefined).isConfigured()).toBe(false)
+    expect(await createRAWGProvider(fetcher, () => undefined).search("Hades")).toEqual([])
+    expect(await createRAWGProvider(fetcher, () => "bad-key").search("Hades")).toEqual([])
+  })
+})
+
+describe("getMetadataProvider", () => {
+  test("dispatches books to Open Library and games to RAWG, leaving movies to TMDB/OMDB", () => {
+    expect(getMetadataProvider(" Book ")?.source).toBe("openlibrary")
+    expect(getMetadataProvider("audiobook")?.source).toBe("openlibrary")
+    expect(getMetadataProvider("Game")?.source).toBe("rawg")
+    expect(getMetadataProvider("Movie")).toBeNull()
+    expect(getMetadataProvider(null)).toBeNull()
+  })
+})
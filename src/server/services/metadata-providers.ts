@@ -0,0 +1,244 @@
+// Medium-specific metadata providers. Movies and TV keep the TMDB/OMDB flow in the
+// metadata routes; any medium claimed by a provider here is dispatched to it instead.
+
+import { readFileSync } from "node:fs";
+import { getEnvValue } from "@/src/server/env";
+import {
+    extractPublishYear,
+    fetchOpenLibraryByISBN,
+    fetchOpenLibraryWorkDescription,
+    getOpenLibraryCoverUrl,
+    normalizeISBN,
+    searchOpenLibrary,
+    type OpenLibraryFetcher,
+    type OpenLibrarySearchDoc
+} from "@/src/server/services/openlibrary";
+import {
+    fetchRAWGGame,
+    getRAWGPlatformNames,
+    searchRAWG,
+    type RAWGFetcher,
+    type RAWGGameDetails,
+    type RAWGGameSummary
+} from "@/src/server/services/rawg";
+import type { MetadataResponse, MetadataSearchItem, MetadataSource } from "@analytics/contracts";
+
+export interface MetadataProviderQuery {
+    title: string | null;
+    isbn: string | null;
+    year: string | null;
+}
+
+export interface MetadataProvider {
+    source: MetadataSource;
+    /** Lowercased `medium` values this provider answers for. */
+    mediums: string[];
+    isConfigured(): boolean;
+    lookup(query: MetadataProviderQuery): Promise<MetadataResponse | null>;
+    search(query: string): Promise<MetadataSearchItem[]>;
+}
+
+export interface MetadataFixture {
+    /** Substring matched against the request URL. */
+    match: string;
+    /** Response body: strings verbatim (e.g. an RSS feed), anything else as JSON. */
+    response?: unknown;
+    /** Path to a recorded body, read verbatim; takes precedence over `response`. */
+    file?: string;
+    status?: number;
+}
+
+export interface MetadataFixtureSet {
+    fixtures: MetadataFixture[];
+}
+
+/**
+ * Replays recorded API responses for tests and offline development: the first fixture whose
+ * `match` appears in the URL wins, anything else is a 404.
+ */
+export function createFixtureFetcher(fixtureSet: MetadataFixtureSet): (url: string) => Promise<Response> {
+    return async (url) => {
+        const fixture = fixtureSet.fixtures.find((candidate) => url.includes(candidate.match));
+        if (!fixture) return new Response(JSON.stringify({ error: "No metadata fixture matched" }), { status: 404 });
+
+        const body = fixture.file
+            ? readFileSync(fixture.file, "utf8")
+            : typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+        return new Response(body, { status: fixture.status ?? 200 });
+    };
+}
+
+function loadFixtureSet(path: string): MetadataFixtureSet {
+    const parsed = JSON.parse(readFileSync(path, "utf8")) as Partial<MetadataFixtureSet>;
+    return { fixtures: Array.isArray(parsed.fixtures) ? parsed.fixtures : [] };
+}
+
+/** Live fetch unless METADATA_FIXTURE_FILE points at recorded responses. */
+export function fetchMetadataUrl(url: string, init?: RequestInit): Promise<Response> {
+    const fixturePath = getEnvValue("METADATA_FIXTURE_FILE");
+    return fixturePath ? createFixtureFetcher(loadFixtureSet(fixturePath))(url) : fetch(url, init);
+}
+
+function emptyMetadata(source: MetadataSource): MetadataResponse {
+    return {
+        title: null,
+        poster_url: null,
+        genre: null,
+        language: null,
+        average_rating: null,
+        length: null,
+        type: null,
+        episodes: null,
+        season: null,
+        year: null,
+        plot: null,
+        imdb_id: null,
+        content_type: null,
+        price: 0,
+        source,
+    };
+}
+
+function pickYearMatch(docs: OpenLibrarySearchDoc[], year: string | null): OpenLibrarySearchDoc | null {
+    if (docs.length === 0) return null;
+    if (!year) return docs[0];
+    return docs.find((doc) => String(doc.first_publish_year ?? "") === year) ?? docs[0];
+}
+
+export function createOpenLibraryProvider(fetcher: OpenLibraryFetcher = fetch): MetadataProvider {
+    return {
+        source: "openlibrary",
+        mediums: ["book", "audiobook"],
+        isConfigured: () => true,
+
+        async lookup(query) {
+            // A title that is really an ISBN (typed or scanned into the title field) is looked up as one
+            const isbn = normalizeISBN(query.isbn) ?? normalizeISBN(query.title);
+            const title = isbn ? null : query.title?.trim() || null;
+            if (!isbn && !title) return null;
+
+            const metadata = emptyMetadata("openlibrary");
+            metadata.type = "Book";
+
+            if (isbn) {
+                const edition = await fetchOpenLibraryByISBN(isbn, fetcher);
+                if (!edition) return null;
+
+                metadata.title = edition.title ?? null;
+                metadata.authors = edition.authors?.map((author) => author.name).filter((name): name is string => Boolean(name)) ?? null;
+                metadata.page_count = edition.number_of_pages ?? null;
+                metadata.year = extractPublishYear(edition.publish_date);
+                metadata.poster_url = edition.cover?.large ?? edition.cover?.medium ?? null;
+                metadata.genre = edition.subjects?.map((subject) => subject.name).filter((name): name is string => Boolean(name)).slice(0, 5) ?? null;
+                metadata.isbn = edition.identifiers?.isbn_13?.[0] ?? edition.identifiers?.isbn_10?.[0] ?? isbn;
+
+                const workKey = edition.works?.[0]?.key;
+                if (workKey) {
+                    metadata.plot = await fetchOpenLibraryWorkDescription(workKey, fetcher);
+                }
+                return metadata;
+            }
+
+            const doc = pickYearMatch(await searchOpenLibrary({ title: title ?? undefined }, fetcher, 5), query.year);
+            if (!doc) return null;
+
+            metadata.title = doc.title ?? null;
+            metadata.authors = doc.author_name ?? null;
+            metadata.page_count = doc.number_of_pages_median ?? null;
+            metadata.year = doc.first_publish_year ? String(doc.first_publish_year) : null;
+            metadata.poster_url = getOpenLibraryCoverUrl(doc.cover_i);
+            metadata.genre = doc.subject?.slice(0, 5) ?? null;
+            metadata.isbn = doc.isbn?.find((value) => value.length === 13) ?? doc.isbn?.[0] ?? null;
+            metadata.plot = await fetchOpenLibraryWorkDescription(doc.key, fetcher);
+            return metadata;
+        },
+
+        async search(query) {
+            const isbn = normalizeISBN(query);
+            const docs = await searchOpenLibrary(isbn ? { isbn } : { title: query }, fetcher);
+
+            return docs.map((doc) => ({
+                id: `openlibrary_${doc.key}`,
+                title: doc.title || "Unknown",
+                year: doc.first_publish_year ? String(doc.first_publish_year) : null,
+                poster_url: getOpenLibraryCoverUrl(doc.cover_i, "M"),
+                media_type: "book",
+                isbn: isbn ?? doc.isbn?.find((value) => value.length === 13) ?? doc.isbn?.[0],
+                authors: doc.author_name,
+            }));
+        },
+    };
+}
+
+function pickReleaseYearMatch(games: RAWGGameSummary[], year: string | null): RAWGGameSummary | null {
+    if (games.length === 0) return null;
+    if (!year) return games[0];
+    return games.find((game) => game.released?.startsWith(year)) ?? games[0];
+}
+
+export function createRAWGProvider(
+    fetcher: RAWGFetcher = fetch,
+    getApiKey: () => string | undefined = () => getEnvValue("RAWG_API_KEY")
+): MetadataProvider {
+    return {
+        source: "rawg",
+        mediums: ["game"],
+        isConfigured: () => Boolean(getApiKey()),
+
+        async lookup(query) {
+            const apiKey = getApiKey();
+            const title = query.title?.trim();
+            if (!apiKey || !title) return null;
+
+            const match = pickReleaseYearMatch(await searchRAWG(title, apiKey, fetcher, 5), query.year);
+            if (!match) return null;
+
+            const game: RAWGGameDetails = (await fetchRAWGGame(match.id, apiKey, fetcher)) ?? match;
+            const developers = game.developers?.map((developer) => developer.name).filter((name): name is string => Boolean(name)) ?? [];
+
+            const metadata = emptyMetadata("rawg");
+            metadata.type = "Game";
+            metadata.title = game.name ?? null;
+            metadata.year = game.released?.substring(0, 4) || null;
+            metadata.poster_url = game.background_image ?? null;
+            metadata.genre = game.genres?.map((genre) => genre.name).filter((name): name is string => Boolean(name)) ?? null;
+            // RAWG ratings are out of 5; entries use a 10-point scale
+            metadata.average_rating = game.rating ? parseFloat((game.rating * 2).toFixed(1)) : null;
+            metadata.length = game.playtime ? `${game.playtime}h` : null;
+            metadata.plot = game.description_raw || null;
+            metadata.platforms = getRAWGPlatformNames(game);
+            metadata.developer = developers.length > 0 ? developers.join(", ") : null;
+            return metadata;
+        },
+
+        async search(query) {
+            const apiKey = getApiKey();
+            if (!apiKey) return [];
+
+            const games = await searchRAWG(query, apiKey, fetcher);
+            return games.map((game) => ({
+                id: `rawg_${game.id}`,
+                title: game.name || "Unknown",
+                year: game.released?.substring(0, 4) || null,
+                poster_url: game.background_image ?? null,
+                media_type: "game",
+                platforms: getRAWGPlatformNames(game),
+            }));
+        },
+    };
+}
+
+const METADATA_PROVIDERS: MetadataProvider[] = [createOpenLibraryProvider(fetchMetadataUrl), createRAWGProvider(fetchMetadataUrl)];
+
+/**
+ * Provider that owns `medium`, or null to fall back to the TMDB/OMDB flow. Unconfigured
+ * providers are still returned so the routes can report the missing key.
+ */
+export function getMetadataProvider(
+    medium: string | null | undefined,
+    providers: MetadataProvider[] = METADATA_PROVIDERS
+): MetadataProvider | null {
+    const normalized = medium?.trim().toLowerCase();
+    if (!normalized) return null;
+    return providers.find((provider) => provider.mediums.includes(normalized)) ?? null;
+}
@@ -161,6 +161,26 @@ export async function fetchOMDBEpisodeRuntime(imdbId: string, apiKey: string): P
     }
 }
 
+// Season lookups need one request per episode; a few at a time keeps long seasons under OMDB's rate limit.
+const EPISODE_RUNTIME_CONCURRENCY = 4;
+
+/** Runtimes in minutes for each episode id, in order; 0 when an id is missing or the lookup fails. */
+export async function fetchOMDBEpisodeRuntimes(imdbIds: Array<string | null>, apiKey: string): Promise<number[]> {
+    const runtimes: number[] = new Array(imdbIds.length).fill(0);
+    let next = 0;
+
+    async function worker() {
+        while (next < imdbIds.length) {
+            const index = next++;
+            const imdbId = imdbIds[index];
+            if (imdbId) runtimes[index] = await fetchOMDBEpisodeRuntime(imdbId, apiKey);
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(EPISODE_RUNTIME_CONCURRENCY, imdbIds.length) }, worker));
+    return runtimes;
+}
+
 export function mapOMDBType(omdbType?: string): string | null {
     if (!omdbType) return null;
 
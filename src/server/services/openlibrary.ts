@@ -0,0 +1,121 @@
+// Open Library API service module for book metadata (no API key required)
+
+const OPEN_LIBRARY_BASE_URL = "https://openlibrary.org";
+const OPEN_LIBRARY_COVERS_URL = "https://covers.openlibrary.org/b";
+
+/** Injectable so the service can be exercised against recorded fixtures. */
+export type OpenLibraryFetcher = (url: string) => Promise<Response>;
+
+export interface OpenLibrarySearchDoc {
+    key: string;
+    title?: string;
+    author_name?: string[];
+    first_publish_year?: number;
+    number_of_pages_median?: number;
+    cover_i?: number;
+    isbn?: string[];
+    subject?: string[];
+    language?: string[];
+}
+
+interface OpenLibrarySearchResponse {
+    numFound?: number;
+    docs?: OpenLibrarySearchDoc[];
+}
+
+export interface OpenLibraryEdition {
+    title?: string;
+    authors?: Array<{ name?: string }>;
+    number_of_pages?: number;
+    publish_date?: string;
+    cover?: { small?: string; medium?: string; large?: string };
+    subjects?: Array<{ name?: string }>;
+    identifiers?: { isbn_10?: string[]; isbn_13?: string[] };
+    works?: Array<{ key?: string }>;
+}
+
+interface OpenLibraryWorkResponse {
+    description?: string | { value?: string };
+}
+
+/** Strips separators; returns null unless the value is a valid-looking ISBN-10 or ISBN-13. */
+export function normalizeISBN(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const compact = value.replace(/[\s-]/g, "").toUpperCase();
+    if (/^\d{9}[\dX]$/.test(compact) || /^97[89]\d{10}$/.test(compact)) {
+        return compact;
+    }
+    return null;
+}
+
+export function getOpenLibraryCoverUrl(coverId: number | null | undefined, size: "S" | "M" | "L" = "L"): string | null {
+    return coverId ? `${OPEN_LIBRARY_COVERS_URL}/id/${coverId}-${size}.jpg` : null;
+}
+
+/** First four-digit year in a free-form publish date such as "March 5, 2019". */
+export function extractPublishYear(value: string | null | undefined): string | null {
+    const match = value?.match(/\b(\d{4})\b/);
+    return match ? match[1] : null;
+}
+
+export async function fetchOpenLibraryByISBN(
+    isbn: string,
+    fetcher: OpenLibraryFetcher = fetch
+): Promise<OpenLibraryEdition | null> {
+    try {
+        const bibkey = `ISBN:${isbn}`;
+        const params = new URLSearchParams({ bibkeys: bibkey, format: "json", jscmd: "data" });
+        const response = await fetcher(`${OPEN_LIBRARY_BASE_URL}/api/books?${params.toString()}`);
+
+        if (!response.ok) return null;
+
+        const data: Record<string, OpenLibraryEdition> = await response.json();
+        return data[bibkey] ?? null;
+    } catch (error) {
+        console.error("Open Library ISBN fetch error:", error);
+        return null;
+    }
+}
+
+export async function searchOpenLibrary(
+    query: { title?: string; isbn?: string },
+    fetcher: OpenLibraryFetcher = fetch,
+    limit: number = 8
+): Promise<OpenLibrarySearchDoc[]> {
+    try {
+        const params = new URLSearchParams({
+            fields: "key,title,author_name,first_publish_year,number_of_pages_median,cover_i,isbn,subject,language",
+            limit: String(limit),
+        });
+        if (query.isbn) params.set("isbn", query.isbn);
+        if (query.title) params.set("title", query.title);
+
+        const response = await fetcher(`${OPEN_LIBRARY_BASE_URL}/search.json?${params.toString()}`);
+
+        if (!response.ok) return [];
+
+        const data: OpenLibrarySearchResponse = await response.json();
+        return data.docs ?? [];
+    } catch (error) {
+        console.error("Open Library search error:", error);
+        return [];
+    }
+}
+
+export async function fetchOpenLibraryWorkDescription(
+    workKey: string,
+    fetcher: OpenLibraryFetcher = fetch
+): Promise<string | null> {
+    try {
+        const response = await fetcher(`${OPEN_LIBRARY_BASE_URL}${workKey}.json`);
+
+        if (!response.ok) return null;
+
+        const data: OpenLibraryWorkResponse = await response.json();
+        if (typeof data.description === "string") return data.description;
+        return data.description?.value ?? null;
+    } catch (error) {
+        console.error("Open Library work fetch error:", error);
+        return null;
+    }
+}
@@ -0,0 +1,305 @@
+// Podcast RSS feed parsing. Regex-based on purpose: feeds are flat <item> lists and the API
+// routes should not pull in an XML dependency for a handful of tags.
+//
+// Feed URLs come from users, so every request (including each redirect hop) must resolve to a
+// public address and connect to the address that was checked, and bodies are read up to a size cap.
+
+import { lookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import type { EpisodeMetadata } from "@analytics/contracts";
+
+export interface PodcastFeedRequestInit extends RequestInit {
+    /** The checked address of the URL's host; the connection must use it instead of resolving again. */
+    address: string;
+}
+
+export type PodcastFeedFetcher = (url: string, init: PodcastFeedRequestInit) => Promise<Response>;
+
+/** Resolves a hostname to every address it points at. */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export const MAX_FEED_BYTES = 10 * 1024 * 1024;
+const MAX_FEED_REDIRECTS = 5;
+const FEED_TIMEOUT_MS = 15_000;
+
+export interface ParsedPodcastFeed {
+    title: string | null;
+    /** Numbered oldest-first, so new episodes always get the next numbers. */
+    episodes: EpisodeMetadata[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: "\"",
+    apos: "'",
+};
+
+function decodeXmlText(value: string): string {
+    const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+    const raw = cdata ? cdata[1] : value;
+    return raw
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+        .trim();
+}
+
+function readTag(xml: string, tag: string): string | null {
+    const escaped = tag.replace(":", "\\:");
+    const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, "i"));
+    if (!match) return null;
+    const text = decodeXmlText(match[1]);
+    return text || null;
+}
+
+/** `itunes:duration` is seconds ("3600"), "MM:SS" or "HH:MM:SS". */
+export function parseFeedDurationMinutes(value: string | null): number | null {
+    if (!value) return null;
+    const parts = value.trim().split(":").map((part) => Number(part));
+    if (parts.length === 0 || parts.length > 3 || parts.some((part) => !Number.isFinite(part) || part < 0)) {
+        return null;
+    }
+
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    return seconds > 0 ? Math.max(1, Math.round(seconds / 60)) : null;
+}
+
+function toIsoDate(value: string | null): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+export function parsePodcastFeed(xml: string): ParsedPodcastFeed {
+    const channelHead = xml.split(/<item[\s>]/i)[0] ?? "";
+    const items = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) ?? [];
+
+    const parsed = items.map((item, index) => ({
+        index,
+        title: readTag(item, "title"),
+        published: toIsoDate(readTag(item, "pubDate")),
+        runtime: parseFeedDurationMinutes(readTag(item, "itunes:duration")),
+    }));
+
+    // Feeds are usually newest-first; undated items keep their relative feed order
+    parsed.sort((left, right) => {
+        if (left.published && right.published && left.published !== right.published) {
+            return left.published.localeCompare(right.published);
+        }
+        return right.index - left.index;
+    });
+
+    return {
+        title: readTag(channelHead, "title"),
+        episodes: parsed.map((item, position) => ({
+            episode: position + 1,
+            title: item.title,
+            air_date: item.published,
+            runtime_minutes: item.runtime,
+            rating: null,
+        })),
+    };
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.map((entry) => entry.address);
+}
+
+function isPublicIPv4(address: string): boolean {
+    const [a, b, c] = address.split(".").map(Number);
+    if (a === 0 || a === 10 || a === 127 || a >= 224) return false; // this network, private, loopback, multicast and reserved
+    if (a === 100 && b >= 64 && b < 128) return false; // carrier-grade NAT
+    if (a === 169 && b === 254) return false; // link-local, including cloud metadata services
+    if (a === 172 && b >= 16 && b < 32) return false;
+    if (a === 192 && b === 168) return false;
+    if (a === 192 && b === 0 && c === 0) return false; // IETF protocol assignments
+    if (a === 198 && (b === 18 || b === 19)) return false; // benchmarking
+    return true;
+}
+
+/** The eight 16-bit groups of an IPv6 address, with a dotted IPv4 tail expanded. */
+function expandIPv6(address: string): number[] {
+    let text = address.toLowerCase().split("%")[0];
+    const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted[1].split(".").map(Number);
+        text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.includes("::") ? text.split("::") : [text, null];
+    const headGroups = head ? head.split(":") : [];
+    const tailGroups = tail ? tail.split(":") : [];
+    const zeros = tail === null ? [] : new Array(8 - headGroups.length - tailGroups.length).fill("0");
+    return [...headGroups, ...zeros, ...tailGroups].map((group) => parseInt(group, 16));
+}
+
+function isPublicIPv6(address: string): boolean {
+    const groups = expandIPv6(address);
+    const embeddedIPv4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+    // Unspecified, loopback, IPv4-compatible and IPv4-mapped addresses are judged by their IPv4 part
+    if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) {
+        return isPublicIPv4(embeddedIPv4);
+    }
+    if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPublicIPv4(embeddedIPv4); // NAT64
+    if ((groups[0] & 0xfe00) === 0xfc00) return false; // unique local
+    if ((groups[0] & 0xffc0) === 0xfe80) return false; // link-local
+    if ((groups[0] & 0xff00) === 0xff00) return false; // multicast
+    return true;
+}
+
+/** False for loopback, private, link-local and other addresses that do not reach the public internet. */
+export function isPublicAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) return isPublicIPv4(address);
+    if (version === 6) return isPublicIPv6(address);
+    return false;
+}
+
+type FeedUrlCheck = { problem: string; address: null } | { problem: null; address: string };
+
+function refuse(problem: string): FeedUrlCheck {
+    return { problem, address: null };
+}
+
+/** Resolves the URL's host once and returns the address to connect to, or why it may not be fetched. */
+async function resolveFeedUrl(url: string, resolve: HostResolver): Promise<FeedUrlCheck> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return refuse("A valid http(s) feed URL is required");
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        return refuse("A valid http(s) feed URL is required");
+    }
+    if (parsed.username || parsed.password) {
+        return refuse("Feed URLs cannot include credentials");
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+        return refuse("Feed URL must point to a public host");
+    }
+
+    let addresses: string[];
+    try {
+        addresses = isIP(hostname) ? [hostname] : await resolve(hostname);
+    } catch {
+        return refuse("Feed host could not be resolved");
+    }
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+        return refuse("Feed URL must point to a public host");
+    }
+    return { problem: null, address: addresses[0] };
+}
+
+/** Why a feed URL may not be fetched, or null when it is an http(s) URL on a public host. */
+export async function checkFeedUrl(url: string, resolve: HostResolver = resolveHost): Promise<string | null> {
+    return (await resolveFeedUrl(url, resolve)).problem;
+}
+
+/**
+ * Live fetcher that connects to `init.address` instead of resolving the host again, so a DNS
+ * answer that changes after the check (DNS rebinding) cannot send the request to a private
+ * address. TLS is still verified against the URL's hostname.
+ */
+export function fetchPinnedFeedUrl(url: string, init: PodcastFeedRequestInit): Promise<Response> {
+    const target = new URL(url);
+    const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+    const family = isIP(init.address);
+    const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+        if (options.all) callback(null, [{ address: init.address, family }]);
+        else callback(null, init.address, family);
+    };
+
+    return new Promise((resolve, reject) => {
+        const request = send(url, { method: "GET", lookup: pinnedLookup, signal: init.signal ?? undefined }, (response) => {
+            const headers = new Headers();
+            for (const [name, value] of Object.entries(response.headers)) {
+                for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) headers.append(name, item);
+            }
+
+            const status = response.statusCode ?? 502;
+            const hasBody = status !== 204 && status !== 205 && status !== 304;
+            if (!hasBody) response.resume();
+            resolve(new Response(hasBody ? (Readable.toWeb(response) as unknown as ReadableStream) : null, { status, headers }));
+        });
+        request.on("error", reject);
+        request.end();
+    });
+}
+
+/** The body as text, or null once it passes `maxBytes`. */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string | null> {
+    if (Number(response.headers.get("content-length")) > maxBytes) return null;
+    if (!response.body) return response.text();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let received = 0;
+    let text = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        received += value.byteLength;
+        if (received > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        text += decoder.decode(value, { stream: true });
+    }
+    return text + decoder.decode();
+}
+
+/**
+ * Fetches and parses a feed. Redirects are followed by hand so each hop is checked like
+ * `checkFeedUrl` and fetched from the checked address; a blocked hop, an error status or an
+ * oversized body yields null.
+ */
+export async function fetchPodcastFeed(
+    url: string,
+    fetcher: PodcastFeedFetcher = fetchPinnedFeedUrl,
+    options: { resolve?: HostResolver; maxBytes?: number } = {}
+): Promise<ParsedPodcastFeed | null> {
+    try {
+        let currentUrl = url;
+        for (let redirects = 0; redirects <= MAX_FEED_REDIRECTS; redirects += 1) {
+            const check = await resolveFeedUrl(currentUrl, options.resolve ?? resolveHost);
+            if (check.problem !== null) {
+                console.error(`Podcast feed blocked (${currentUrl}): ${check.problem}`);
+                return null;
+            }
+
+            const response = await fetcher(currentUrl, {
+                redirect: "manual",
+                signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+                address: check.address,
+            });
+            const location = response.headers.get("location");
+            if (response.status >= 300 && response.status < 400 && location) {
+                currentUrl = new URL(location, currentUrl).toString();
+                continue;
+            }
+
+            if (!response.ok) return null;
+
+            const xml = await readLimitedText(response, options.maxBytes ?? MAX_FEED_BYTES);
+            if (xml === null) {
+                console.error(`Podcast feed exceeds ${options.maxBytes ?? MAX_FEED_BYTES} bytes: ${currentUrl}`);
+                return null;
+            }
+            return parsePodcastFeed(xml);
+        }
+
+        console.error(`Podcast feed redirected more than ${MAX_FEED_REDIRECTS} times: ${url}`);
+        return null;
+    } catch (error) {
+        console.error("Podcast feed fetch error:", error);
+        return null;
+    }
+}
@@ -0,0 +1,78 @@
+// RAWG API service module for video game metadata
+
+const RAWG_BASE_URL = "https://api.rawg.io/api";
+
+/** Injectable so the service can be exercised against recorded fixtures. */
+export type RAWGFetcher = (url: string) => Promise<Response>;
+
+export interface RAWGGameSummary {
+    id: number;
+    slug?: string;
+    name?: string;
+    released?: string | null;
+    background_image?: string | null;
+    rating?: number | null;
+    metacritic?: number | null;
+    playtime?: number | null;
+    genres?: Array<{ name?: string }>;
+    platforms?: Array<{ platform?: { name?: string } }> | null;
+}
+
+export interface RAWGGameDetails extends RAWGGameSummary {
+    description_raw?: string;
+    developers?: Array<{ name?: string }>;
+    publishers?: Array<{ name?: string }>;
+}
+
+interface RAWGSearchResponse {
+    count?: number;
+    results?: RAWGGameSummary[];
+}
+
+export function getRAWGPlatformNames(game: RAWGGameSummary): string[] {
+    return (game.platforms ?? [])
+        .map((item) => item.platform?.name)
+        .filter((name): name is string => Boolean(name));
+}
+
+export async function searchRAWG(
+    query: string,
+    apiKey: string,
+    fetcher: RAWGFetcher = fetch,
+    pageSize: number = 8
+): Promise<RAWGGameSummary[]> {
+    try {
+        const params = new URLSearchParams({
+            key: apiKey,
+            search: query,
+            page_size: String(pageSize),
+        });
+        const response = await fetcher(`${RAWG_BASE_URL}/games?${params.toString()}`);
+
+        if (!response.ok) return [];
+
+        const data: RAWGSearchResponse = await response.json();
+        return data.results ?? [];
+    } catch (error) {
+        console.error("RAWG search error:", error);
+        return [];
+    }
+}
+
+export async function fetchRAWGGame(
+    id: number,
+    apiKey: string,
+    fetcher: RAWGFetcher = fetch
+): Promise<RAWGGameDetails | null> {
+    try {
+        const params = new URLSearchParams({ key: apiKey });
+        const response = await fetcher(`${RAWG_BASE_URL}/games/${id}?${params.toString()}`);
+
+        if (!response.ok) return null;
+
+        return await response.json();
+    } catch (error) {
+        console.error("RAWG game fetch error:", error);
+        return null;
+    }
+}
@@ -13,6 +13,7 @@ export interface TMDBMovieResponse {
     vote_count?: number;
     imdb_id?: string;
     spoken_languages?: Array<{ iso_639_1: string; name: string }>;
+    belongs_to_collection?: { id: number; name: string; poster_path?: string } | null;
 }
 
 export interface TMDBTVResponse {
@@ -43,6 +44,30 @@ export interface TMDBTVResponse {
     spoken_languages?: Array<{ iso_639_1: string; name: string }>;
 }
 
+export interface TMDBSeasonResponse {
+    id: number;
+    season_number: number;
+    episodes?: Array<{
+        id: number;
+        episode_number: number;
+        name?: string;
+        air_date?: string | null;
+        runtime?: number | null;
+        vote_average?: number;
+    }>;
+}
+
+export interface TMDBCollectionResponse {
+    id: number;
+    name: string;
+    parts?: Array<{
+        id: number;
+        title: string;
+        release_date?: string;
+        poster_path?: string;
+    }>;
+}
+
 interface TMDBSearchResponse {
     results?: Array<{
         id: number;
@@ -85,6 +110,30 @@ export async function fetchTMDBTV(tmdbId: number, apiKey: string): Promise<TMDBT
     }
 }
 
+export async function fetchTMDBSeason(tmdbId: number, seasonNumber: number, apiKey: string): Promise<TMDBSeasonResponse | null> {
+    try {
+        const url = `https://api.themoviedb.org/3/tv/${tmdbId}/season/${seasonNumber}?api_key=${apiKey}`;
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        return await response.json();
+    } catch (error) {
+        console.error("TMDB season fetch error:", error);
+        return null;
+    }
+}
+
+export async function fetchTMDBCollection(collectionId: number, apiKey: string): Promise<TMDBCollectionResponse | null> {
+    try {
+        const url = `https://api.themoviedb.org/3/collection/${collectionId}?api_key=${apiKey}`;
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        return await response.json();
+    } catch (error) {
+        console.error("TMDB collection fetch error:", error);
+        return null;
+    }
+}
+
 export async function searchTMDB(
     title: string,
     apiKey: string,
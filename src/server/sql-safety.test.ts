@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test"
+import type { SqlRejectionCode } from "@analytics/contracts"
+import { DEFAULT_AI_QUERY_ROW_LIMIT, validateAIQuerySql } from "@/src/server/sql-safety"
+
+const USER_ID = "0b6f1c9e-4a39-4a8e-9d5c-2f1d6f0c7a11"
+const SCOPE = `WHERE user_id = '${USER_ID}'`
+
+const ALLOWED: string[] = [
+  "SELECT title, updated_at, created_at FROM media_entries",
+  "select count(*) from food_entries;",
+  "SELECT medium, COUNT(*) AS total FROM media_entries GROUP BY medium ORDER BY total DESC LIMIT 10",
+  "WITH recent AS (SELECT * FROM food_entries WHERE visit_date >= CURRENT_DATE - INTERVAL '30 days') SELECT name FROM recent",
+  "WITH RECURSIVE totals(n) AS (SELECT 1 FROM media_entries) SELECT n FROM totals",
+  "WITH RECURSIVE days(n) AS (SELECT 1 FROM media_entries UNION ALL SELECT n + 1 FROM days WHERE n < 7) SELECT n FROM days",
+  "WITH a AS (SELECT title FROM media_entries), b AS (SELECT title FROM a) SELECT title FROM b",
+  "SELECT EXTRACT(YEAR FROM visit_date) AS year, SUM(total_price) FROM food_entries GROUP BY 1",
+  "SELECT m.title FROM media_entries m JOIN food_entries f ON f.visit_date = m.start_date",
+  "SELECT m.title FROM media_entries m, food_entries f WHERE m.start_date = f.visit_date",
+  "SELECT x FROM (SELECT title AS x, status FROM media_entries) s",
+  "SELECT m.title FROM (media_entries m CROSS JOIN food_entries f)",
+  "SELECT * FROM ((media_entries m JOIN food_entries f ON m.id = f.id))",
+  "SELECT title FROM media_entries WHERE notes LIKE '%UPDATE; DROP TABLE x%'",
+  "SELECT \"title\" FROM media_entries -- DELETE everything\n",
+  "SELECT name FROM food_entries WHERE EXISTS (SELECT 1 FROM media_entries WHERE media_entries.title = food_entries.name)",
+  "SELECT total_price * (SELECT r.rate FROM exchange_rates r LIMIT 1) FROM food_entries",
+  "SELECT g, COUNT(*) FROM media_entries, unnest(genre) AS g GROUP BY g",
+  "SELECT title FROM media_entries LIMIT ALL",
+  "SELECT title FROM media_entries ORDER BY title LIMIT 20 OFFSET 40"
+]
+
+const BLOCKED: Array<{ sql: string; code: SqlRejectionCode }> = [
+  { sql: "", code: "empty_query" },
+  { sql: "   -- only a comment", code: "empty_query" },
+  { sql: "SELECT 1 FROM media_entries; DROP TABLE media_entries", code: "multiple_statements" },
+  { sql: "DELETE FROM media_entries", code: "forbidden_keyword" },
+  { sql: "UPDATE food_entries SET total_price = 0", code: "forbidden_keyword" },
+  { sql: "WITH gone AS (DELETE FROM media_entries RETURNING *) SELECT * FROM gone", code: "forbidden_keyword" },
+  { sql: "SELECT * INTO backup FROM media_entries", code: "forbidden_keyword" },
+  { sql: "SELECT * FROM media_entries FOR UPDATE", code: "forbidden_keyword" },
+  { sql: "VALUES (1)", code: "not_select" },
+  { sql: "SELECT pg_sleep(10) FROM media_entries", code: "system_object" },
+  { sql: "SELECT * FROM pg_catalog.pg_user", code: "system_object" },
+  { sql: "SELECT * FROM information_schema.tables", code: "system_object" },
+  { sql: "SELECT * FROM public.media_entries", code: "system_object" },
+  { sql: "SELECT * FROM auth.users", code: "system_object" },
+  { sql: "SELECT dblink('x', 'y') FROM media_entries", code: "function_not_allowed" },
+  { sql: "SELECT * FROM user_profiles", code: "table_not_allowed" },
+  { sql: "SELECT a FROM (secret_table)", code: "table_not_allowed" },
+  { sql: "SELECT m.title FROM (user_profiles m CROSS JOIN food_entries f)", code: "table_not_allowed" },
+  { sql: "SELECT * FROM ONLY media_entries", code: "table_not_allowed" },
+  { sql: "SELECT * FROM food_entries WHERE EXISTS (TABLE media_entries)", code: "table_not_allowed" },
+  { sql: "WITH media_entries AS (SELECT 1) SELECT * FROM media_entries", code: "table_not_allowed" },
+  {
+    sql: "WITH x AS (SELECT * FROM media_entries), user_profiles AS (SELECT * FROM user_profiles) SELECT * FROM user_profiles",
+    code: "table_not_allowed"
+  },
+  { sql: "WITH x AS (SELECT * FROM x) SELECT * FROM x, media_entries", code: "table_not_allowed" },
+  { sql: "WITH a AS (SELECT * FROM b), b AS (SELECT * FROM media_entries) SELECT * FROM a", code: "table_not_allowed" },
+  { sql: "SELECT 1", code: "missing_table" },
+  { sql: "SELECT title FROM media_entries LIMIT 1 + 1", code: "invalid_limit" },
+  { sql: "SELECT title FROM media_entries LIMIT 500 * 1000", code: "invalid_limit" },
+  { sql: "SELECT title FROM media_entries FETCH FIRST 5 ROWS ONLY", code: "invalid_limit" },
+  { sql: "SELECT (title FROM media_entries", code: "syntax_error" },
+  { sql: "SELECT 'unterminated FROM media_entries", code: "syntax_error" },
+  { sql: "SELECT E'\\x41' FROM media_entries", code: "syntax_error" },
+  { sql: "SELECT $$x$$ FROM media_entries", code: "syntax_error" }
+]
+
+/** Every data table in the rewrite must be the user-scoped subquery. */
+function countUnscoped(sql: string): number {
+  const withoutScoped = sql.replace(/\(SELECT \* FROM (media_entries|food_entries|exchange_rates) WHERE user_id = '[^']+'\)/g, "")
+  return (withoutScoped.match(/\bFROM\s+\(?\s*(media_entries|food_entries|exchange_rates)\b/gi) ?? []).length
+}
+
+describe("validateAIQuerySql", () => {
+  describe("allowed queries", () => {
+    for (const sql of ALLOWED) {
+      test(sql, () => {
+        const result = validateAIQuerySql(sql, { userId: USER_ID })
+        expect(result.valid).toBe(true)
+        if (!result.valid) return
+        expect(result.sql).toContain(SCOPE)
+        expect(countUnscoped(result.sql)).toBe(0)
+        expect(result.limit).toBeLessThanOrEqual(DEFAULT_AI_QUERY_ROW_LIMIT)
+      })
+    }
+  })
+
+  describe("blocked queries", () => {
+    for (const { sql, code } of BLOCKED) {
+      test(`${code}: ${sql || "(empty)"}`, () => {
+        const result = validateAIQuerySql(sql, { userId: USER_ID })
+        expect(result.valid).toBe(false)
+        if (result.valid) return
+        expect(result.reasons.map((reason) => reason.code)).toContain(code)
+      })
+    }
+  })
+
+  test("scopes both sides of a parenthesized join", () => {
+    const result = validateAIQuerySql("SELECT m.title FROM (media_entries m CROSS JOIN food_entries f)", { userId: USER_ID })
+    expect(result.valid && result.tables.sort()).toEqual(["food_entries", "media_entries"])
+  })
+
+  test("adds an alias when the table has none", () => {
+    const result = validateAIQuerySql("SELECT media_entries.title FROM media_entries", { userId: USER_ID })
+    expect(result.valid && result.sql).toBe(
+      `SELECT media_entries.title FROM (SELECT * FROM media_entries ${SCOPE}) AS media_entries LIMIT ${DEFAULT_AI_QUERY_ROW_LIMIT}`
+    )
+  })
+
+  test("caps a larger LIMIT and keeps a smaller one", () => {
+    const capped = validateAIQuerySql("SELECT title FROM media_entries LIMIT 100000", { userId: USER_ID, maxRows: 50 })
+    expect(capped.valid && capped.sql.endsWith("LIMIT 50")).toBe(true)
+    const kept = validateAIQuerySql("SELECT title FROM media_entries LIMIT 5", { userId: USER_ID, maxRows: 50 })
+    expect(kept.valid && kept.limit).toBe(5)
+  })
+
+  test("limits only the outer query", () => {
+    const result = validateAIQuerySql("SELECT x FROM (SELECT title AS x FROM media_entries LIMIT 3) s", { userId: USER_ID })
+    expect(result.valid && result.sql.endsWith(`LIMIT ${DEFAULT_AI_QUERY_ROW_LIMIT}`)).toBe(true)
+  })
+
+  test("reports every problem, not just the first", () => {
+    const result = validateAIQuerySql("SELECT pg_sleep(1) FROM user_profiles; DROP TABLE x", { userId: USER_ID })
+    expect(result.valid).toBe(false)
+    if (result.valid) return
+    expect(result.reasons.map((reason) => reason.code)).toEqual(
+      expect.arrayContaining(["multiple_statements", "system_object", "table_not_allowed", "forbidden_keyword"])
+    )
+  })
+
+  test("refuses to scope to an invalid user id", () => {
+    const result = validateAIQuerySql("SELECT title FROM media_entries", { userId: "1' OR '1'='1" })
+    expect(result.valid ? null : result.reasons[0].code).toBe("invalid_user")
+  })
+})
@@ -0,0 +1,497 @@
+/**
+ * Token-based safety layer for AI-generated SQL.
+ *
+ * Queries are tokenized (strings, quoted identifiers and comments are never
+ * mistaken for keywords), checked against an allowlist of statements, tables
+ * and functions, and then rewritten so every table reference is scoped to the
+ * requesting user and the result set is capped.
+ */
+
+import type { SqlRejectionCode, SqlRejectionReason } from "@analytics/contracts"
+
+export const AI_QUERY_TABLES = ["media_entries", "food_entries", "exchange_rates"] as const
+export const DEFAULT_AI_QUERY_ROW_LIMIT = 500
+
+/** Every table in the public schema; a CTE may not take one of these names. */
+const DATABASE_TABLES = new Set([
+  "action_undo_batches", "ai_conversations", "ai_dashboard_cards", "custom_field_definitions", "exchange_rates",
+  "food_dishes", "food_entries", "food_entry_images", "food_places", "food_visit_dishes", "media_collection_items",
+  "media_collections", "media_entries", "media_play_sessions", "media_relations", "media_status_history",
+  "media_viewings", "platform_subscriptions", "user_preferences", "user_profiles"
+])
+
+type TokenType = "keyword" | "identifier" | "quoted_identifier" | "string" | "number" | "operator" | "punctuation"
+
+interface SqlToken {
+  type: TokenType
+  /** Upper-cased for keywords, lower-cased for identifiers, raw otherwise. */
+  value: string
+  start: number
+  end: number
+}
+
+/** A leading WITH clause: each CTE with the token positions of its body's parentheses. */
+interface CteClause {
+  recursive: boolean
+  definitions: Array<{ name: string; bodyStart: number; bodyEnd: number }>
+}
+
+export interface SqlSafetyOptions {
+  userId: string
+  maxRows?: number
+  allowedTables?: readonly string[]
+}
+
+export type SqlSafetyResult =
+  | { valid: true; sql: string; tables: string[]; limit: number }
+  | { valid: false; reasons: SqlRejectionReason[] }
+
+const KEYWORDS = new Set([
+  "ALL", "AND", "ANY", "AS", "ASC", "BETWEEN", "BY", "CASE", "CAST", "CROSS", "DESC", "DISTINCT",
+  "ELSE", "END", "EXCEPT", "EXISTS", "EXTRACT", "FALSE", "FETCH", "FILTER", "FIRST", "FOR", "FROM",
+  "FULL", "GROUP", "HAVING", "ILIKE", "IN", "INNER", "INTERSECT", "INTERVAL", "IS", "JOIN", "LAST",
+  "LATERAL", "LEFT", "LIKE", "LIMIT", "NATURAL", "NOT", "NULL", "NULLS", "OFFSET", "ON", "OR", "ORDER", "OUTER",
+  "OVER", "PARTITION", "RECURSIVE", "RIGHT", "SELECT", "SIMILAR", "THEN", "TRUE", "UNION", "USING",
+  "WHEN", "WHERE", "WINDOW", "WITH", "WITHIN",
+  // Statements and clauses that are never allowed but must still tokenize as keywords.
+  "ALTER", "ANALYZE", "CALL", "COMMENT", "COPY", "CREATE", "DEALLOCATE", "DELETE", "DO", "DROP",
+  "EXECUTE", "EXPLAIN", "GRANT", "IMPORT", "INSERT", "INTO", "LISTEN", "LOCK", "MERGE", "NOTIFY",
+  "PREPARE", "REFRESH", "REINDEX", "RESET", "REVOKE", "SET", "SHOW", "TRUNCATE", "UPDATE", "VACUUM"
+])
+
+const FORBIDDEN_KEYWORDS = new Set([
+  "ALTER", "ANALYZE", "CALL", "COMMENT", "COPY", "CREATE", "DEALLOCATE", "DELETE", "DO", "DROP",
+  "EXECUTE", "EXPLAIN", "GRANT", "IMPORT", "INSERT", "INTO", "LISTEN", "LOCK", "MERGE", "NOTIFY",
+  "PREPARE", "REFRESH", "REINDEX", "RESET", "REVOKE", "SET", "SHOW", "TRUNCATE", "UPDATE", "VACUUM"
+])
+
+/** Keywords that legitimately take a parenthesised argument list. */
+const CALLABLE_KEYWORDS = new Set(["ALL", "ANY", "CAST", "EXISTS", "EXTRACT", "FILTER", "IN", "OVER", "WITHIN"])
+
+/** Keywords that may use FROM inside their argument list, e.g. EXTRACT(YEAR FROM visit_date). */
+const FROM_ARGUMENT_FUNCTIONS = new Set(["EXTRACT", "substring", "trim", "overlay", "position"])
+
+const ALLOWED_FUNCTIONS = new Set([
+  "abs", "age", "array_agg", "array_length", "array_to_string", "avg", "bool_and", "bool_or",
+  "cardinality", "ceil", "ceiling", "coalesce", "concat", "concat_ws", "count", "cume_dist",
+  "current_date", "date", "date_part", "date_trunc", "dense_rank", "first_value", "floor",
+  "greatest", "initcap", "lag", "last_value", "lead", "least", "left", "length", "lower", "ltrim",
+  "make_date", "max", "min", "mode", "now", "ntile", "nullif", "percent_rank", "percentile_cont",
+  "percentile_disc", "position", "rank", "regexp_replace", "replace", "right", "round", "row_number",
+  "rtrim", "split_part", "sqrt", "stddev", "string_agg", "substring", "sum", "to_char", "to_date",
+  "trim", "trunc", "unnest", "upper", "variance"
+])
+
+const SYSTEM_SCHEMAS = new Set(["pg_catalog", "information_schema", "public", "auth", "storage", "extensions", "vault"])
+
+/** Keywords that end a FROM list at the same nesting depth. */
+const FROM_TERMINATORS = new Set([
+  "WHERE", "GROUP", "HAVING", "ORDER", "LIMIT", "OFFSET", "UNION", "EXCEPT", "INTERSECT", "WINDOW", "FETCH", "ON", "USING"
+])
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+class SqlTokenizeError extends Error {
+  constructor(
+    readonly code: SqlRejectionCode,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+function isIdentifierStart(char: string): boolean {
+  return /[A-Za-z_]/.test(char)
+}
+
+function isIdentifierPart(char: string): boolean {
+  return /[A-Za-z0-9_$]/.test(char)
+}
+
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  let index = 0
+
+  while (index < sql.length) {
+    const char = sql[index]
+    const next = sql[index + 1]
+
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+
+    if (char === "-" && next === "-") {
+      const lineEnd = sql.indexOf("\n", index)
+      index = lineEnd === -1 ? sql.length : lineEnd + 1
+      continue
+    }
+
+    if (char === "/" && next === "*") {
+      const commentEnd = sql.indexOf("*/", index + 2)
+      if (commentEnd === -1) throw new SqlTokenizeError("syntax_error", "Unterminated block comment")
+      index = commentEnd + 2
+      continue
+    }
+
+    if (char === "'" || ((char === "E" || char === "e") && next === "'")) {
+      if (char !== "'") {
+        throw new SqlTokenizeError("syntax_error", "Escape string literals (E'...') are not allowed")
+      }
+      const start = index
+      index += 1
+      while (index < sql.length) {
+        if (sql[index] === "'" && sql[index + 1] === "'") {
+          index += 2
+          continue
+        }
+        if (sql[index] === "'") break
+        index += 1
+      }
+      if (index >= sql.length) throw new SqlTokenizeError("syntax_error", "Unterminated string literal")
+      index += 1
+      tokens.push({ type: "string", value: sql.slice(start, index), start, end: index })
+      continue
+    }
+
+    if (char === "$" && /[A-Za-z_$]/.test(next ?? "")) {
+      throw new SqlTokenizeError("syntax_error", "Dollar-quoted strings are not allowed")
+    }
+
+    if (char === '"') {
+      const start = index
+      const close = sql.indexOf('"', index + 1)
+      if (close === -1) throw new SqlTokenizeError("syntax_error", "Unterminated quoted identifier")
+      index = close + 1
+      tokens.push({ type: "quoted_identifier", value: sql.slice(start + 1, close).toLowerCase(), start, end: index })
+      continue
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(next ?? ""))) {
+      const start = index
+      while (index < sql.length && /[0-9.eE]/.test(sql[index])) index += 1
+      tokens.push({ type: "number", value: sql.slice(start, index), start, end: index })
+      continue
+    }
+
+    if (isIdentifierStart(char)) {
+      const start = index
+      while (index < sql.length && isIdentifierPart(sql[index])) index += 1
+      const word = sql.slice(start, index)
+      const upper = word.toUpperCase()
+      tokens.push(
+        KEYWORDS.has(upper)
+          ? { type: "keyword", value: upper, start, end: index }
+          : { type: "identifier", value: word.toLowerCase(), start, end: index }
+      )
+      continue
+    }
+
+    if ("(),;.[]".includes(char)) {
+      tokens.push({ type: "punctuation", value: char, start: index, end: index + 1 })
+      index += 1
+      continue
+    }
+
+    const start = index
+    while (index < sql.length && "+-*/<>=~!@#%^&|:?".includes(sql[index])) index += 1
+    if (index === start) {
+      throw new SqlTokenizeError("syntax_error", `Unexpected character "${char}"`)
+    }
+    tokens.push({ type: "operator", value: sql.slice(start, index), start, end: index })
+  }
+
+  return tokens
+}
+
+function isWord(token: SqlToken | undefined, value: string): boolean {
+  return token?.type === "keyword" && token.value === value
+}
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+  return token?.type === "punctuation" && token.value === value
+}
+
+function isName(token: SqlToken | undefined): boolean {
+  return token?.type === "identifier" || token?.type === "quoted_identifier"
+}
+
+function collectCtes(tokens: SqlToken[]): CteClause {
+  const clause: CteClause = { recursive: isWord(tokens[1], "RECURSIVE"), definitions: [] }
+  if (!isWord(tokens[0], "WITH")) return clause
+
+  let index = clause.recursive ? 2 : 1
+  while (index < tokens.length && isName(tokens[index])) {
+    const name = tokens[index].value
+    index += 1
+    // Optional column list: name(col_a, col_b) AS (...)
+    if (isPunctuation(tokens[index], "(")) {
+      let depth = 0
+      do {
+        if (isPunctuation(tokens[index], "(")) depth += 1
+        if (isPunctuation(tokens[index], ")")) depth -= 1
+        index += 1
+      } while (index < tokens.length && depth > 0)
+    }
+    if (!isWord(tokens[index], "AS") || !isPunctuation(tokens[index + 1], "(")) break
+    index += 1
+    const bodyStart = index
+    let depth = 0
+    do {
+      if (isPunctuation(tokens[index], "(")) depth += 1
+      if (isPunctuation(tokens[index], ")")) depth -= 1
+      index += 1
+    } while (index < tokens.length && depth > 0)
+    clause.definitions.push({ name, bodyStart, bodyEnd: index - 1 })
+    if (!isPunctuation(tokens[index], ",")) break
+    index += 1
+  }
+
+  return clause
+}
+
+/**
+ * Whether a FROM item at `index` reads the CTE rather than a table: CTEs are visible after
+ * their definition, and inside their own body only under WITH RECURSIVE.
+ */
+function isCteInScope(ctes: CteClause, name: string, index: number): boolean {
+  const definition = ctes.definitions.find((item) => item.name === name)
+  if (!definition) return false
+  if (index > definition.bodyEnd) return true
+  return ctes.recursive && index > definition.bodyStart && index < definition.bodyEnd
+}
+
+function reject(code: SqlRejectionCode, message: string): SqlRejectionReason {
+  return { code, message }
+}
+
+/**
+ * Validate an AI-generated query and return a user-scoped, row-limited rewrite.
+ * Every rejection reason found is reported, not just the first one.
+ */
+export function validateAIQuerySql(sql: string, options: SqlSafetyOptions): SqlSafetyResult {
+  const maxRows = options.maxRows ?? DEFAULT_AI_QUERY_ROW_LIMIT
+  const allowedTables = new Set(options.allowedTables ?? AI_QUERY_TABLES)
+
+  if (!UUID_PATTERN.test(options.userId)) {
+    return { valid: false, reasons: [reject("invalid_user", "Cannot scope query to an invalid user id")] }
+  }
+
+  let tokens: SqlToken[]
+  try {
+    tokens = tokenizeSql(sql)
+  } catch (error) {
+    if (error instanceof SqlTokenizeError) {
+      return { valid: false, reasons: [reject(error.code, error.message)] }
+    }
+    throw error
+  }
+
+  // A single trailing semicolon is harmless; anything after it is a second statement.
+  if (isPunctuation(tokens[tokens.length - 1], ";")) tokens = tokens.slice(0, -1)
+
+  if (tokens.length === 0) {
+    return { valid: false, reasons: [reject("empty_query", "Query is empty")] }
+  }
+
+  const reasons: SqlRejectionReason[] = []
+  const seen = new Set<string>()
+  const addReason = (code: SqlRejectionCode, message: string) => {
+    const key = `${code}:${message}`
+    if (seen.has(key)) return
+    seen.add(key)
+    reasons.push(reject(code, message))
+  }
+
+  if (tokens.some((token) => isPunctuation(token, ";"))) {
+    addReason("multiple_statements", "Only a single statement is allowed")
+  }
+
+  if (!isWord(tokens[0], "SELECT") && !isWord(tokens[0], "WITH")) {
+    addReason("not_select", "Query must start with SELECT or WITH")
+  }
+
+  const ctes = collectCtes(tokens)
+  const cteNames = new Set(ctes.definitions.map((definition) => definition.name))
+  for (const name of cteNames) {
+    if (allowedTables.has(name) || DATABASE_TABLES.has(name)) {
+      addReason("table_not_allowed", `CTE name "${name}" shadows a data table`)
+    }
+  }
+
+  const referencedTables = new Set<string>()
+  const tableTokens: number[] = []
+  // One frame per open parenthesis: whether it is a function argument list and whether we are in its FROM list.
+  const frames: Array<{ callee: string | null; inFrom: boolean }> = [{ callee: null, inFrom: false }]
+  let topLevelLimit: number | null = null
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index]
+    const previous = tokens[index - 1]
+    const next = tokens[index + 1]
+    const frame = frames[frames.length - 1]
+
+    if (token.type === "keyword" && FORBIDDEN_KEYWORDS.has(token.value)) {
+      addReason("forbidden_keyword", `${token.value} is not allowed in read-only queries`)
+      continue
+    }
+
+    if (isWord(token, "FOR") && !(frame.callee && FROM_ARGUMENT_FUNCTIONS.has(frame.callee))) {
+      addReason("forbidden_keyword", "Row locking clauses (FOR ...) are not allowed")
+      continue
+    }
+
+    if (isPunctuation(token, "(")) {
+      const callee =
+        previous && (isName(previous) || (previous.type === "keyword" && CALLABLE_KEYWORDS.has(previous.value)))
+          ? previous.value
+          : null
+      // A parenthesis that starts a FROM item holds a subquery or a join group: (a JOIN b)
+      const opensFromItem =
+        !callee &&
+        (isWord(previous, "FROM") ||
+          isWord(previous, "JOIN") ||
+          (frame.inFrom && (isPunctuation(previous, ",") || isPunctuation(previous, "("))))
+      frames.push({ callee, inFrom: opensFromItem })
+      continue
+    }
+
+    if (isPunctuation(token, ")")) {
+      if (frames.length === 1) {
+        addReason("syntax_error", "Unbalanced parentheses")
+      } else {
+        frames.pop()
+      }
+      continue
+    }
+
+    if (isName(token)) {
+      if (SYSTEM_SCHEMAS.has(token.value) || token.value.startsWith("pg_")) {
+        addReason("system_object", `Access to "${token.value}" is not allowed`)
+        continue
+      }
+
+      // A CTE column list, e.g. WITH totals(n) AS (...), is not a function call
+      if (isPunctuation(next, "(") && !cteNames.has(token.value)) {
+        if (!ALLOWED_FUNCTIONS.has(token.value)) {
+          addReason("function_not_allowed", `Function "${token.value}" is not allowed`)
+        }
+        continue
+      }
+
+      const startsFromItem =
+        isWord(previous, "FROM") ||
+        isWord(previous, "JOIN") ||
+        (frame.inFrom && (isPunctuation(previous, ",") || isPunctuation(previous, "(")))
+      const isQualifier = isPunctuation(next, ".")
+      if (startsFromItem && frame.inFrom && !isQualifier && !isPunctuation(previous, ".")) {
+        if (isCteInScope(ctes, token.value, index)) continue
+        if (!allowedTables.has(token.value)) {
+          addReason("table_not_allowed", `Table "${token.value}" is not allowed`)
+          continue
+        }
+        referencedTables.add(token.value)
+        tableTokens.push(index)
+      }
+      continue
+    }
+
+    if (token.type !== "keyword") continue
+
+    // A subquery's select list is not part of the FROM list that opened it
+    if (token.value === "SELECT") {
+      frame.inFrom = false
+      continue
+    }
+
+    if (token.value === "FROM") {
+      const callee = frame.callee
+      if (!(callee && FROM_ARGUMENT_FUNCTIONS.has(callee))) frame.inFrom = true
+      continue
+    }
+
+    if (token.value === "JOIN") {
+      frame.inFrom = true
+      continue
+    }
+
+    if (FROM_TERMINATORS.has(token.value)) {
+      if (token.value !== "ON" && token.value !== "USING") frame.inFrom = false
+    }
+
+    if (token.value === "FETCH") {
+      addReason("invalid_limit", "Use LIMIT instead of FETCH")
+      continue
+    }
+
+    if (token.value === "LIMIT" && frames.length === 1) {
+      // Only a plain number or ALL, so arithmetic cannot lift the cap
+      const after = tokens[index + 2]
+      if (after && !isWord(after, "OFFSET")) {
+        addReason("invalid_limit", "LIMIT must be a whole number")
+      } else if (next?.type === "number" && /^\d+$/.test(next.value)) {
+        topLevelLimit = index
+      } else if (isWord(next, "ALL")) {
+        topLevelLimit = index
+      } else {
+        addReason("invalid_limit", "LIMIT must be a whole number")
+      }
+    }
+  }
+
+  if (frames.length !== 1) {
+    addReason("syntax_error", "Unbalanced parentheses")
+  }
+
+  // Any other mention of a data table (ONLY t, TABLE t, an alias) would escape the user scope
+  const scopedTokens = new Set(tableTokens)
+  tokens.forEach((token, index) => {
+    if (!isName(token) || !allowedTables.has(token.value) || scopedTokens.has(index)) return
+    if (isPunctuation(tokens[index + 1], ".") || isPunctuation(tokens[index - 1], ".")) return
+    addReason("table_not_allowed", `Table "${token.value}" must be read directly after FROM or JOIN`)
+  })
+
+  if (referencedTables.size === 0 && reasons.length === 0) {
+    addReason("missing_table", `Query must read from ${Array.from(allowedTables).join(" or ")}`)
+  }
+
+  if (reasons.length > 0) {
+    return { valid: false, reasons }
+  }
+
+  // Rewrite: scope every table reference to the user and enforce the row cap.
+  const replacements: Array<{ start: number; end: number; text: string }> = []
+
+  for (const index of tableTokens) {
+    const token = tokens[index]
+    const next = tokens[index + 1]
+    const hasAlias = isWord(next, "AS") || isName(next)
+    const scoped = `(SELECT * FROM ${token.value} WHERE user_id = '${options.userId}')`
+    replacements.push({
+      start: token.start,
+      end: token.end,
+      text: hasAlias ? scoped : `${scoped} AS ${token.value}`
+    })
+  }
+
+  let limit = maxRows
+  if (topLevelLimit !== null) {
+    const valueToken = tokens[topLevelLimit + 1]
+    const requested = valueToken.type === "number" ? Number(valueToken.value) : Number.POSITIVE_INFINITY
+    limit = Math.min(requested, maxRows)
+    if (requested !== limit) {
+      replacements.push({ start: valueToken.start, end: valueToken.end, text: String(limit) })
+    }
+  }
+
+  let rewritten = sql.slice(0, tokens[tokens.length - 1].end)
+  for (const replacement of replacements.sort((left, right) => right.start - left.start)) {
+    rewritten = rewritten.slice(0, replacement.start) + replacement.text + rewritten.slice(replacement.end)
+  }
+
+  if (topLevelLimit === null) {
+    rewritten = `${rewritten} LIMIT ${maxRows}`
+  }
+
+  return { valid: true, sql: rewritten, tables: Array.from(referencedTables), limit }
+}
@@ -1,3 +1,5 @@
+import type { AIConversationTurn, AIQueryMetadata } from "@analytics/contracts"
+
 export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue | undefined }
 
 export interface MediaEntry {
@@ -16,11 +18,32 @@ export interface MediaEntry {
   average_rating: number | null
   rating: number | null
   price: number | null
+  /** ISO 4217 code for `price`; null means the user's home currency. */
+  currency: string | null
+  /** Watchlist priority from 1 (someday) to 5 (next up); null is treated as 3. */
+  priority: number | null
+  /** Values for the user's custom fields, keyed by `CustomFieldDefinition.key`. */
+  custom_fields: CustomFieldValues | null
+  /** Free-form labels, distinct from `genre`. */
+  tags: string[] | null
+  /** Long-form review or notes. */
+  review: string | null
+  /** Hides `review` behind a reveal in lists. */
+  review_has_spoilers: boolean
   length: string | null
   episodes: number | null
   episodes_watched: number | null
   episode_history: JsonValue | null
+  /** Cached per-episode metadata for `season`, see `parseEpisodeMetadata`. */
+  episode_metadata: JsonValue | null
+  /** Podcast RSS feed; its episodes are cached in `episode_metadata`. */
+  feed_url: string | null
   last_watched_at: string | null
+  /** Progress unit (episodes, pages, chapters, percent, minutes); null uses the medium's default. */
+  progress_unit: string | null
+  progress_current: number | null
+  progress_total: number | null
+  progress_history: JsonValue | null
   season: string | null
   time_taken: string | null
   poster_url: string | null
@@ -40,12 +63,94 @@ export interface MediaStatusHistory {
   user_id: string
 }
 
+/** A rewatch/reread of an entry; the entry's own dates and rating describe the first viewing. */
+export interface MediaViewing {
+  id: string
+  user_id: string
+  media_entry_id: string
+  start_date: string | null
+  finish_date: string | null
+  rating: number | null
+  platform: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Time spent playing a game on one day; sessions replace `length` as the game's playtime. */
+export interface MediaPlaySession {
+  id: string
+  user_id: string
+  media_entry_id: string
+  played_on: string
+  duration_minutes: number
+  platform: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** A user-curated list of media entries, e.g. a marathon or an awards slate. */
+export interface MediaCollection {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  /** Explicit cover; null falls back to the first entry's poster. */
+  cover_url: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Membership of an entry in a collection; `position` is the manual order within the collection. */
+export interface MediaCollectionItem {
+  id: string
+  user_id: string
+  collection_id: string
+  media_entry_id: string
+  position: number
+  created_at: string
+}
+
+export type MediaRelationType = "sequel_of" | "season_of" | "adaptation_of" | "remake_of"
+
+/**
+ * Directed link read as "`from_entry_id` is `relation_type` `to_entry_id`", e.g. Season 2 is season_of
+ * Season 1, the film is adaptation_of the book.
+ */
+export interface MediaRelation {
+  id: string
+  user_id: string
+  from_entry_id: string
+  to_entry_id: string
+  relation_type: MediaRelationType
+  created_at: string
+}
+
+export type BillingCycle = "weekly" | "monthly" | "yearly"
+
+export interface PlatformSubscription {
+  id: string
+  user_id: string
+  platform: string
+  price: number
+  /** ISO 4217 code for `price`; null means the user's home currency. */
+  currency: string | null
+  billing_cycle: BillingCycle
+  start_date: string
+  cancel_date: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface FoodItem {
   name: string
   price: number | null
   image_url: string | null
   category: string | null
   categories?: string[] | null
+  /** Per-dish rating for this visit, copied to the visit's dish link on save. */
+  rating?: number | null
 }
 
 export interface FoodEntryImage {
@@ -59,9 +164,85 @@ export interface FoodEntryImage {
   created_at: string
 }
 
+/** A canonical restaurant; visits point at it through `FoodEntry.place_id`. */
+export interface FoodPlace {
+  id: string
+  user_id: string
+  name: string
+  branch: string | null
+  address: string | null
+  /** Google Places id, the preferred dedupe key when known. */
+  google_place_id: string | null
+  /** Normalized name and address, see `buildPlaceKey`; used when there is no Google place id. */
+  normalized_key: string
+  google_maps_url: string | null
+  latitude: number | null
+  longitude: number | null
+  neighborhood: string | null
+  city: string | null
+  country: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type FoodSplitMode = "equal" | "itemized" | "custom"
+
+/** How tax and tip are shared: in proportion to what each person had, or evenly per seat. */
+export type FoodExtrasSplit = "proportional" | "equal"
+
+/** How a visit's bill was shared; people are "me" or a name from the visit's `companions`. */
+export interface FoodBillSplit {
+  mode: FoodSplitMode
+  /** Paid whatever `paid_amounts` leaves uncovered; the whole bill when nobody else paid. */
+  payer: string
+  /** What other people put toward the whole bill, tax and tip included. */
+  paid_amounts: Record<string, number> | null
+  /** Included in `total_price`. */
+  tax: number | null
+  tip: number | null
+  extras_split: FoodExtrasSplit
+  /** Itemized: who shared each item, keyed by its index in `items_ordered`. */
+  item_shares: Record<string, string[]> | null
+  /** Custom: each person's amount before tax and tip. */
+  custom_amounts: Record<string, number> | null
+}
+
+/** A dish on a place's menu; visits link to it through `FoodVisitDish`. */
+export interface FoodDish {
+  id: string
+  user_id: string
+  place_id: string
+  name: string
+  /** `normalizePlaceText(name)`; unique per place. */
+  normalized_name: string
+  category: string | null
+  /** Price from the most recent visit that listed one. */
+  latest_price: number | null
+  latest_price_currency: string | null
+  latest_price_date: string | null
+  photo_urls: string[] | null
+  created_at: string
+  updated_at: string
+}
+
+/** One order of a dish on a visit. */
+export interface FoodVisitDish {
+  id: string
+  user_id: string
+  food_entry_id: string
+  dish_id: string
+  visit_date: string
+  price: number | null
+  currency: string | null
+  rating: number | null
+  created_at: string
+}
+
 export interface FoodEntry {
   id: string
   user_id: string
+  /** Canonical place; the location columns below are a copy kept for search and AI queries. */
+  place_id: string | null
   name: string
   branch: string | null
   visit_date: string
@@ -89,13 +270,80 @@ export interface FoodEntry {
   dining_type: string | null
   tags: string[] | null
   would_return: boolean | null
+  /** People at the table including me; may exceed the named companions. */
+  party_size: number | null
+  companions: string[] | null
+  bill_split: FoodBillSplit | null
   notes: string | null
+  /** Values for the user's custom fields, keyed by `CustomFieldDefinition.key`. */
+  custom_fields: CustomFieldValues | null
   primary_image_url?: string | null
   images?: FoodEntryImage[]
   created_at: string
   updated_at: string
 }
 
+export type CustomFieldWorkspace = "media" | "food"
+
+export type CustomFieldType = "text" | "number" | "date" | "select" | "boolean"
+
+/** Dates are stored as YYYY-MM-DD strings; select values are one of the definition's `options`. */
+export type CustomFieldValue = string | number | boolean
+
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
+/** A user-defined field on media or food entries; values live in the entry's `custom_fields`. */
+export interface CustomFieldDefinition {
+  id: string
+  user_id: string
+  workspace: CustomFieldWorkspace
+  /** Stable JSON key; the label can be renamed without touching stored values. */
+  key: string
+  label: string
+  field_type: CustomFieldType
+  /** Choices for `select` fields, null otherwise. */
+  options: string[] | null
+  sort_order: number
+  created_at: string
+  updated_at: string
+}
+
+export interface AIConversation {
+  id: string
+  user_id: string
+  workspace: "media" | "food"
+  title: string
+  pinned: boolean
+  turns: AIConversationTurn[]
+  created_at: string
+  updated_at: string
+}
+
+export interface AIDashboardCard {
+  id: string
+  user_id: string
+  workspace: "media" | "food"
+  title: string
+  query: string
+  sql: string
+  visualization_type: AIQueryMetadata["visualizationType"]
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+/** 1 unit of `from_currency` equals `rate` units of `to_currency` from `effective_date` onwards. */
+export interface ExchangeRate {
+  id: string
+  user_id: string
+  from_currency: string
+  to_currency: string
+  rate: number
+  effective_date: string
+  source: "manual" | "csv"
+  created_at: string
+}
+
 export interface UserProfile {
   id: string
   user_id: string
@@ -123,16 +371,81 @@ export interface AppDatabase {
         Insert: Omit<MediaStatusHistory, "id" | "created_at"> & { id?: string; created_at?: string }
         Update: Partial<Omit<MediaStatusHistory, "id">>
       }
+      media_play_sessions: {
+        Row: MediaPlaySession
+        Insert: Omit<MediaPlaySession, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<MediaPlaySession, "id">>
+      }
+      media_collections: {
+        Row: MediaCollection
+        Insert: Omit<MediaCollection, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<MediaCollection, "id">>
+      }
+      media_collection_items: {
+        Row: MediaCollectionItem
+        Insert: Omit<MediaCollectionItem, "id" | "created_at"> & { id?: string; created_at?: string }
+        Update: Partial<Omit<MediaCollectionItem, "id">>
+      }
+      media_relations: {
+        Row: MediaRelation
+        Insert: Omit<MediaRelation, "id" | "created_at"> & { id?: string; created_at?: string }
+        Update: Partial<Omit<MediaRelation, "id">>
+      }
+      media_viewings: {
+        Row: MediaViewing
+        Insert: Omit<MediaViewing, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<MediaViewing, "id">>
+      }
+      platform_subscriptions: {
+        Row: PlatformSubscription
+        Insert: Omit<PlatformSubscription, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<PlatformSubscription, "id">>
+      }
       food_entries: {
         Row: FoodEntry
         Insert: Omit<FoodEntry, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
         Update: Partial<Omit<FoodEntry, "id">>
       }
+      food_places: {
+        Row: FoodPlace
+        Insert: Omit<FoodPlace, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<FoodPlace, "id">>
+      }
+      food_dishes: {
+        Row: FoodDish
+        Insert: Omit<FoodDish, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<FoodDish, "id">>
+      }
+      food_visit_dishes: {
+        Row: FoodVisitDish
+        Insert: Omit<FoodVisitDish, "id" | "created_at"> & { id?: string; created_at?: string }
+        Update: Partial<Omit<FoodVisitDish, "id">>
+      }
       food_entry_images: {
         Row: FoodEntryImage
         Insert: Omit<FoodEntryImage, "id" | "created_at" | "user_id"> & { id?: string; created_at?: string; user_id?: string }
         Update: Partial<Omit<FoodEntryImage, "id">>
       }
+      custom_field_definitions: {
+        Row: CustomFieldDefinition
+        Insert: Omit<CustomFieldDefinition, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<CustomFieldDefinition, "id">>
+      }
+      ai_conversations: {
+        Row: AIConversation
+        Insert: Omit<AIConversation, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<AIConversation, "id">>
+      }
+      ai_dashboard_cards: {
+        Row: AIDashboardCard
+        Insert: Omit<AIDashboardCard, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
+        Update: Partial<Omit<AIDashboardCard, "id">>
+      }
+      exchange_rates: {
+        Row: ExchangeRate
+        Insert: Omit<ExchangeRate, "id" | "created_at"> & { id?: string; created_at?: string }
+        Update: Partial<Omit<ExchangeRate, "id">>
+      }
       user_profiles: {
         Row: UserProfile
         Insert: Omit<UserProfile, "id" | "created_at" | "updated_at"> & { id?: string; created_at?: string; updated_at?: string }
@@ -0,0 +1,23 @@
+-- Undo batches for /api/execute-actions: the writes that revert one applied batch, in the
+-- shape apply_entry_writes takes. undo_started_at claims a batch while its undo runs.
+CREATE TABLE IF NOT EXISTS public.action_undo_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  workspace TEXT NOT NULL CHECK (workspace IN ('media', 'food')),
+  operations JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  undo_started_at TIMESTAMPTZ,
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS action_undo_batches_user_id_idx ON public.action_undo_batches (user_id, created_at DESC);
+
+ALTER TABLE public.action_undo_batches ENABLE ROW LEVEL SECURITY;
+
+-- Batches are never deleted by the app; the undo only stamps undo_started_at and undone_at
+CREATE POLICY "Users read their undo batches" ON public.action_undo_batches
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users store their undo batches" ON public.action_undo_batches
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users mark their undo batches" ON public.action_undo_batches
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,75 @@
+-- AI query history for /api/ai-query. Each row is a conversation whose turns keep the
+-- SQL the model generated, which reruns execute again, so only the server writes turns:
+-- clients may read, pin and delete their conversations but cannot insert or edit turns.
+CREATE TABLE IF NOT EXISTS public.ai_conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  workspace TEXT NOT NULL CHECK (workspace IN ('media', 'food')),
+  title TEXT NOT NULL,
+  pinned BOOLEAN NOT NULL DEFAULT false,
+  turns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_conversations_user_id_idx ON public.ai_conversations (user_id, workspace, updated_at DESC);
+
+ALTER TABLE public.ai_conversations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their AI conversations" ON public.ai_conversations
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users pin their AI conversations" ON public.ai_conversations
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their AI conversations" ON public.ai_conversations
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE ON public.ai_conversations FROM anon, authenticated;
+GRANT UPDATE (pinned) ON public.ai_conversations TO authenticated;
+
+-- Appends one turn in a single statement, so concurrent follow-ups cannot overwrite each
+-- other, and keeps the newest p_max_turns. Creates the conversation when p_conversation_id
+-- is null. Called by the API with the service role, which is why it takes p_user_id.
+CREATE OR REPLACE FUNCTION public.append_ai_conversation_turn(
+  p_user_id UUID,
+  p_workspace TEXT,
+  p_conversation_id UUID,
+  p_title TEXT,
+  p_turn JSONB,
+  p_max_turns INT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  conversation_id UUID;
+BEGIN
+  IF p_conversation_id IS NULL THEN
+    INSERT INTO ai_conversations (user_id, workspace, title, turns)
+    VALUES (p_user_id, p_workspace, p_title, jsonb_build_array(p_turn))
+    RETURNING id INTO conversation_id;
+    RETURN conversation_id;
+  END IF;
+
+  UPDATE ai_conversations
+  SET
+    turns = (
+      SELECT COALESCE(jsonb_agg(kept.turn ORDER BY kept.ordinal), '[]'::jsonb)
+      FROM jsonb_array_elements(ai_conversations.turns || jsonb_build_array(p_turn)) WITH ORDINALITY AS kept (turn, ordinal)
+      WHERE kept.ordinal > jsonb_array_length(ai_conversations.turns) + 1 - p_max_turns
+    ),
+    updated_at = now()
+  WHERE id = p_conversation_id AND user_id = p_user_id AND workspace = p_workspace
+  RETURNING id INTO conversation_id;
+
+  IF conversation_id IS NULL THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  RETURN conversation_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_ai_conversation_turn(UUID, TEXT, UUID, TEXT, JSONB, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_ai_conversation_turn(UUID, TEXT, UUID, TEXT, JSONB, INT) TO service_role;
@@ -0,0 +1,29 @@
+-- Saved AI queries shown as live cards on the analytics dashboard. /api/ai-query re-executes
+-- a card's SQL, so only the server creates cards, copying the SQL from a recorded history
+-- turn: clients may read, rename, reorder and delete their cards but not write SQL.
+CREATE TABLE IF NOT EXISTS public.ai_dashboard_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  workspace TEXT NOT NULL CHECK (workspace IN ('media', 'food')),
+  title TEXT NOT NULL,
+  query TEXT NOT NULL,
+  sql TEXT NOT NULL,
+  visualization_type TEXT NOT NULL CHECK (visualization_type IN ('kpi', 'table', 'bar', 'pie', 'line', 'area')),
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_dashboard_cards_user_id_idx ON public.ai_dashboard_cards (user_id, workspace, position);
+
+ALTER TABLE public.ai_dashboard_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their dashboard cards" ON public.ai_dashboard_cards
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users arrange their dashboard cards" ON public.ai_dashboard_cards
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their dashboard cards" ON public.ai_dashboard_cards
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE ON public.ai_dashboard_cards FROM anon, authenticated;
+GRANT UPDATE (title, position, updated_at) ON public.ai_dashboard_cards TO authenticated;
@@ -0,0 +1,24 @@
+-- Exchange rates each user keeps for converting prices to their home currency. One row means
+-- 1 from_currency = rate to_currency from effective_date on; rates are read in either direction.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  from_currency TEXT NOT NULL CHECK (from_currency ~ '^[A-Z]{3}$'),
+  to_currency TEXT NOT NULL CHECK (to_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (from_currency <> to_currency)
+);
+
+CREATE INDEX IF NOT EXISTS exchange_rates_user_id_idx ON public.exchange_rates (user_id, from_currency, to_currency, effective_date);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their exchange rates" ON public.exchange_rates
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their exchange rates" ON public.exchange_rates
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their exchange rates" ON public.exchange_rates
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
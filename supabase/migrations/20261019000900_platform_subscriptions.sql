@@ -0,0 +1,27 @@
+-- Streaming and other platform subscriptions, billed every cycle from start_date until
+-- cancel_date. The media analytics spread their cost over what was watched on them.
+CREATE TABLE IF NOT EXISTS public.platform_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  currency TEXT,
+  billing_cycle TEXT NOT NULL DEFAULT 'monthly' CHECK (billing_cycle IN ('weekly', 'monthly', 'yearly')),
+  start_date DATE NOT NULL,
+  cancel_date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS platform_subscriptions_user_id_idx ON public.platform_subscriptions (user_id, platform);
+
+ALTER TABLE public.platform_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their subscriptions" ON public.platform_subscriptions
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their subscriptions" ON public.platform_subscriptions
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users edit their subscriptions" ON public.platform_subscriptions
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their subscriptions" ON public.platform_subscriptions
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
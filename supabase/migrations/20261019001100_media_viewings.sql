@@ -0,0 +1,35 @@
+-- Rewatches and rereads of a media entry: each row is one viewing after the first, which
+-- stays on the entry itself. Deleting the entry deletes its viewings.
+CREATE TABLE IF NOT EXISTS public.media_viewings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  media_entry_id UUID NOT NULL REFERENCES public.media_entries (id) ON DELETE CASCADE,
+  start_date DATE,
+  finish_date DATE,
+  rating NUMERIC,
+  platform TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS media_viewings_entry_idx ON public.media_viewings (media_entry_id);
+CREATE INDEX IF NOT EXISTS media_viewings_user_id_idx ON public.media_viewings (user_id);
+
+ALTER TABLE public.media_viewings ENABLE ROW LEVEL SECURITY;
+
+-- Viewings may only be attached to the user's own entries
+CREATE POLICY "Users read their viewings" ON public.media_viewings
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their viewings" ON public.media_viewings
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users edit their viewings" ON public.media_viewings
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their viewings" ON public.media_viewings
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
@@ -0,0 +1,34 @@
+-- Time spent playing a game on one day. Logged sessions replace the entry's length as its
+-- playtime in the analytics; deleting the entry deletes its sessions.
+CREATE TABLE IF NOT EXISTS public.media_play_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  media_entry_id UUID NOT NULL REFERENCES public.media_entries (id) ON DELETE CASCADE,
+  played_on DATE NOT NULL,
+  duration_minutes INT NOT NULL CHECK (duration_minutes >= 0),
+  platform TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS media_play_sessions_entry_idx ON public.media_play_sessions (media_entry_id, played_on);
+CREATE INDEX IF NOT EXISTS media_play_sessions_user_id_idx ON public.media_play_sessions (user_id);
+
+ALTER TABLE public.media_play_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions may only be attached to the user's own entries
+CREATE POLICY "Users read their play sessions" ON public.media_play_sessions
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their play sessions" ON public.media_play_sessions
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users edit their play sessions" ON public.media_play_sessions
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their play sessions" ON public.media_play_sessions
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
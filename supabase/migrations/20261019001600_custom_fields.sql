@@ -0,0 +1,33 @@
+-- User-defined fields on media and food entries. Definitions describe each field; the
+-- values live in the entries' custom_fields objects keyed by the definition's key. Keys
+-- cannot change once created because stored values and saved AI queries refer to them.
+ALTER TABLE public.media_entries ADD COLUMN IF NOT EXISTS custom_fields JSONB;
+ALTER TABLE public.food_entries ADD COLUMN IF NOT EXISTS custom_fields JSONB;
+
+CREATE TABLE IF NOT EXISTS public.custom_field_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  workspace TEXT NOT NULL CHECK (workspace IN ('media', 'food')),
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9_]{1,40}$'),
+  label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'boolean')),
+  options TEXT[],
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, workspace, key)
+);
+
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their custom fields" ON public.custom_field_definitions
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their custom fields" ON public.custom_field_definitions
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users edit their custom fields" ON public.custom_field_definitions
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their custom fields" ON public.custom_field_definitions
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+REVOKE UPDATE ON public.custom_field_definitions FROM anon, authenticated;
+GRANT UPDATE (label, options, sort_order, updated_at) ON public.custom_field_definitions TO authenticated;
@@ -0,0 +1,54 @@
+-- User-curated, ordered lists of media entries. Deleting a collection or an entry removes
+-- the matching items.
+CREATE TABLE IF NOT EXISTS public.media_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  cover_url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.media_collection_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  collection_id UUID NOT NULL REFERENCES public.media_collections (id) ON DELETE CASCADE,
+  media_entry_id UUID NOT NULL REFERENCES public.media_entries (id) ON DELETE CASCADE,
+  position INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (collection_id, media_entry_id)
+);
+
+CREATE INDEX IF NOT EXISTS media_collections_user_id_idx ON public.media_collections (user_id);
+CREATE INDEX IF NOT EXISTS media_collection_items_entry_idx ON public.media_collection_items (media_entry_id);
+
+ALTER TABLE public.media_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.media_collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their collections" ON public.media_collections
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their collections" ON public.media_collections
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users edit their collections" ON public.media_collections
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their collections" ON public.media_collections
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Items may only link the user's own collections and entries
+CREATE POLICY "Users read their collection items" ON public.media_collection_items
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their collection items" ON public.media_collection_items
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users reorder their collection items" ON public.media_collection_items
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_collections c WHERE c.id = collection_id AND c.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = media_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their collection items" ON public.media_collection_items
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
@@ -0,0 +1,29 @@
+-- Links between media entries: from_entry_id is a sequel, next season, adaptation or remake
+-- of to_entry_id. Deleting either entry deletes the link.
+CREATE TABLE IF NOT EXISTS public.media_relations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  from_entry_id UUID NOT NULL REFERENCES public.media_entries (id) ON DELETE CASCADE,
+  to_entry_id UUID NOT NULL REFERENCES public.media_entries (id) ON DELETE CASCADE,
+  relation_type TEXT NOT NULL CHECK (relation_type IN ('sequel_of', 'season_of', 'adaptation_of', 'remake_of')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (from_entry_id <> to_entry_id),
+  UNIQUE (from_entry_id, to_entry_id, relation_type)
+);
+
+CREATE INDEX IF NOT EXISTS media_relations_to_entry_idx ON public.media_relations (to_entry_id);
+CREATE INDEX IF NOT EXISTS media_relations_user_id_idx ON public.media_relations (user_id);
+
+ALTER TABLE public.media_relations ENABLE ROW LEVEL SECURITY;
+
+-- Relations may only link the user's own entries
+CREATE POLICY "Users read their relations" ON public.media_relations
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their relations" ON public.media_relations
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = from_entry_id AND e.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.media_entries e WHERE e.id = to_entry_id AND e.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their relations" ON public.media_relations
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
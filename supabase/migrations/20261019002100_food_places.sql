@@ -0,0 +1,39 @@
+-- Restaurants and other places food visits happen at. Visits link to their place through
+-- food_entries.place_id and keep a copy of its location fields; normalized_key (built by
+-- buildPlaceKey from name, branch and address) is how new visits are matched to a place.
+-- Deleting a place keeps its visits, unlinked.
+CREATE TABLE IF NOT EXISTS public.food_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  branch TEXT,
+  address TEXT,
+  google_place_id TEXT,
+  normalized_key TEXT NOT NULL,
+  google_maps_url TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  neighborhood TEXT,
+  city TEXT,
+  country TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS food_places_user_id_idx ON public.food_places (user_id, normalized_key);
+
+ALTER TABLE public.food_entries
+  ADD COLUMN IF NOT EXISTS place_id UUID REFERENCES public.food_places (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS food_entries_place_id_idx ON public.food_entries (place_id);
+
+ALTER TABLE public.food_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their places" ON public.food_places
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their places" ON public.food_places
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users edit their places" ON public.food_places
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete their places" ON public.food_places
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
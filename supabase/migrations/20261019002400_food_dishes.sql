@@ -0,0 +1,73 @@
+-- Dishes a place serves and the orders of them on each visit. A dish is unique per place by
+-- its normalized name; latest_price caches the newest priced order. Deleting a place deletes
+-- its dishes, and deleting a visit or a dish deletes the orders linking them.
+CREATE TABLE IF NOT EXISTS public.food_dishes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  place_id UUID NOT NULL REFERENCES public.food_places (id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  category TEXT,
+  latest_price NUMERIC,
+  latest_price_currency TEXT,
+  latest_price_date DATE,
+  photo_urls TEXT[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (place_id, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS food_dishes_user_id_idx ON public.food_dishes (user_id);
+
+CREATE TABLE IF NOT EXISTS public.food_visit_dishes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  food_entry_id UUID NOT NULL REFERENCES public.food_entries (id) ON DELETE CASCADE,
+  dish_id UUID NOT NULL REFERENCES public.food_dishes (id) ON DELETE CASCADE,
+  visit_date DATE NOT NULL,
+  price NUMERIC,
+  currency TEXT,
+  rating NUMERIC,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS food_visit_dishes_entry_idx ON public.food_visit_dishes (food_entry_id);
+CREATE INDEX IF NOT EXISTS food_visit_dishes_dish_idx ON public.food_visit_dishes (dish_id, visit_date DESC);
+CREATE INDEX IF NOT EXISTS food_visit_dishes_user_id_idx ON public.food_visit_dishes (user_id);
+
+ALTER TABLE public.food_dishes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.food_visit_dishes ENABLE ROW LEVEL SECURITY;
+
+-- Dishes may only be attached to the user's own places
+CREATE POLICY "Users read their dishes" ON public.food_dishes
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their dishes" ON public.food_dishes
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.food_places p WHERE p.id = place_id AND p.user_id = auth.uid())
+  );
+CREATE POLICY "Users edit their dishes" ON public.food_dishes
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.food_places p WHERE p.id = place_id AND p.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their dishes" ON public.food_dishes
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Orders may only link the user's own visits and dishes
+CREATE POLICY "Users read their dish orders" ON public.food_visit_dishes
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users add their dish orders" ON public.food_visit_dishes
+  FOR INSERT TO authenticated WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.food_entries e WHERE e.id = food_entry_id AND e.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.food_dishes d WHERE d.id = dish_id AND d.user_id = auth.uid())
+  );
+CREATE POLICY "Users edit their dish orders" ON public.food_visit_dishes
+  FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.food_entries e WHERE e.id = food_entry_id AND e.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.food_dishes d WHERE d.id = dish_id AND d.user_id = auth.uid())
+  );
+CREATE POLICY "Users delete their dish orders" ON public.food_visit_dishes
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
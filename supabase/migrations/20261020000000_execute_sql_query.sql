@@ -0,0 +1,31 @@
+-- Runs SQL from /api/ai-query after src/server/sql-safety.ts has validated it and
+-- scoped every table to the caller. Replaces the legacy keyword check, which
+-- rejected WITH queries and any column containing "update" or "create".
+--
+-- SECURITY INVOKER keeps row level security in force even if a query slips past
+-- the validator, and the read-only transaction blocks data-modifying CTEs.
+CREATE OR REPLACE FUNCTION public.execute_sql_query(query_text TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+SET statement_timeout = '5s'
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF query_text !~* '^\s*(SELECT|WITH)\M' THEN
+    RAISE EXCEPTION 'Only SELECT or WITH queries are allowed';
+  END IF;
+
+  SET LOCAL transaction_read_only = on;
+
+  EXECUTE format('SELECT COALESCE(json_agg(row_to_json(t)), ''[]''::json) FROM (%s) t', query_text)
+  INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.execute_sql_query(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.execute_sql_query(TEXT) TO authenticated;
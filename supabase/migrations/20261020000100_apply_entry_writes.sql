@@ -0,0 +1,203 @@
+-- Applies the writes of one /api/execute-actions batch (or of its undo) in a single
+-- transaction: any failing write raises and rolls back every earlier one.
+--
+-- p_writes is an array of
+--   { "op": "insert",  "values": {...} }                      values carry the new id
+--   { "op": "update",  "id": "...", "values": {...} }
+--   { "op": "delete",  "id": "..." }                          returns the row and its dependent rows
+--   { "op": "restore", "values": {...}, "dependents": {...} } re-inserts a deleted row and its dependents
+-- and the result holds { "row", "dependents" } per write, in order. Failures are raised
+-- as "write <index>: <message>" so the caller can attribute them.
+--
+-- Restored dependents are inserted after every write has run, so a relation between two
+-- entries deleted in one batch finds both entries back in place. Updates only accept the
+-- columns listed in updatable_columns, with values of the listed kind.
+CREATE OR REPLACE FUNCTION public.apply_entry_writes(p_table TEXT, p_writes JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  -- Rows that reference an entry and are removed with it by ON DELETE CASCADE
+  dependent_tables JSONB := CASE p_table
+    WHEN 'media_entries' THEN '[
+      ["media_status_history", "media_entry_id"],
+      ["media_viewings", "media_entry_id"],
+      ["media_play_sessions", "media_entry_id"],
+      ["media_collection_items", "media_entry_id"],
+      ["media_relations", "from_entry_id"],
+      ["media_relations", "to_entry_id"]
+    ]'::jsonb
+    WHEN 'food_entries' THEN '[
+      ["food_entry_images", "food_entry_id"],
+      ["food_visit_dishes", "food_entry_id"]
+    ]'::jsonb
+  END;
+  -- Columns an update may set, with the JSON kind each value must have (null is always allowed)
+  updatable_columns JSONB := CASE p_table
+    WHEN 'media_entries' THEN '{
+      "title": "text", "medium": "text", "type": "text", "status": "text", "platform": "text",
+      "genre": "text[]", "language": "text[]", "tags": "text[]",
+      "start_date": "date", "finish_date": "date", "last_watched_at": "text",
+      "my_rating": "number", "average_rating": "number", "rating": "number", "priority": "number",
+      "price": "number", "currency": "text", "length": "text", "time_taken": "text", "season": "text",
+      "episodes": "number", "episodes_watched": "number", "episode_history": "array", "episode_metadata": "object",
+      "progress_unit": "text", "progress_current": "number", "progress_total": "number", "progress_history": "array",
+      "feed_url": "text", "poster_url": "text", "imdb_id": "text",
+      "review": "text", "review_has_spoilers": "boolean", "custom_fields": "object"
+    }'::jsonb
+    WHEN 'food_entries' THEN '{
+      "name": "text", "branch": "text", "place_id": "text", "visit_date": "date", "category": "text",
+      "address": "text", "google_maps_url": "text", "latitude": "number", "longitude": "number",
+      "neighborhood": "text", "city": "text", "country": "text", "instagram_handle": "text", "website_url": "text",
+      "items_ordered": "array", "favorite_item": "text",
+      "overall_rating": "number", "food_rating": "number", "ambiance_rating": "number",
+      "service_rating": "number", "value_rating": "number",
+      "total_price": "number", "currency": "text", "price_level": "text",
+      "cuisine_type": "text[]", "dining_type": "text", "tags": "text[]", "would_return": "boolean",
+      "party_size": "number", "companions": "text[]", "bill_split": "object",
+      "notes": "text", "custom_fields": "object"
+    }'::jsonb
+  END;
+  caller UUID := auth.uid();
+  results JSONB := '[]'::jsonb;
+  entry_write JSONB;
+  write_index INT := 0;
+  row_json JSONB;
+  dependents JSONB;
+  dependent JSONB;
+  dependent_rows JSONB;
+  dependent_table TEXT;
+  pending_dependents JSONB := '[]'::jsonb;
+  columns_list TEXT;
+  column_name TEXT;
+  column_value JSONB;
+  column_kind TEXT;
+BEGIN
+  IF dependent_tables IS NULL THEN
+    RAISE EXCEPTION 'Table % does not accept entry writes', p_table;
+  END IF;
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR entry_write IN SELECT value FROM jsonb_array_elements(p_writes) LOOP
+    row_json := NULL;
+    dependents := '{}'::jsonb;
+
+    BEGIN
+      CASE entry_write->>'op'
+        WHEN 'insert', 'restore' THEN
+          SELECT string_agg(quote_ident(key), ', ') INTO columns_list
+          FROM jsonb_object_keys(entry_write->'values') AS key
+          WHERE key <> 'user_id';
+
+          EXECUTE format(
+            'INSERT INTO %1$I (user_id, %2$s) SELECT $2, %2$s FROM jsonb_populate_record(NULL::%1$I, $1) RETURNING to_jsonb(%1$I.*)',
+            p_table, columns_list
+          ) INTO row_json USING entry_write->'values', caller;
+
+          IF entry_write->>'op' = 'restore' THEN
+            FOR dependent_table, dependent_rows IN SELECT key, value FROM jsonb_each(COALESCE(entry_write->'dependents', '{}'::jsonb)) LOOP
+              IF NOT EXISTS (SELECT 1 FROM jsonb_array_elements(dependent_tables) AS d WHERE d->>0 = dependent_table) THEN
+                RAISE EXCEPTION 'Unknown dependent table %', dependent_table;
+              END IF;
+              pending_dependents := pending_dependents || jsonb_build_array(
+                jsonb_build_object('index', write_index, 'table', dependent_table, 'rows', dependent_rows)
+              );
+            END LOOP;
+          END IF;
+
+        WHEN 'update' THEN
+          FOR column_name, column_value IN SELECT key, value FROM jsonb_each(entry_write->'values') WHERE key NOT IN ('id', 'user_id') LOOP
+            column_kind := updatable_columns->>column_name;
+            IF column_kind IS NULL THEN
+              RAISE EXCEPTION 'Column % cannot be updated', column_name;
+            END IF;
+            IF jsonb_typeof(column_value) <> 'null' AND NOT (CASE column_kind
+              WHEN 'text' THEN jsonb_typeof(column_value) = 'string'
+              WHEN 'date' THEN jsonb_typeof(column_value) = 'string' AND (column_value #>> '{}') ~ '^\d{4}-\d{2}-\d{2}$'
+              WHEN 'number' THEN jsonb_typeof(column_value) = 'number'
+              WHEN 'boolean' THEN jsonb_typeof(column_value) = 'boolean'
+              WHEN 'text[]' THEN jsonb_typeof(column_value) = 'array'
+                AND NOT EXISTS (SELECT 1 FROM jsonb_array_elements(column_value) AS element WHERE jsonb_typeof(element) <> 'string')
+              WHEN 'array' THEN jsonb_typeof(column_value) = 'array'
+              WHEN 'object' THEN jsonb_typeof(column_value) = 'object'
+              ELSE false
+            END) THEN
+              RAISE EXCEPTION 'Column % expects a % value', column_name, column_kind;
+            END IF;
+          END LOOP;
+
+          SELECT string_agg(quote_ident(key), ', ') INTO columns_list
+          FROM jsonb_object_keys(entry_write->'values') AS key
+          WHERE key NOT IN ('id', 'user_id');
+
+          IF columns_list IS NULL THEN
+            EXECUTE format('SELECT to_jsonb(t.*) FROM %I t WHERE id = $1 AND user_id = $2', p_table)
+            INTO row_json USING (entry_write->>'id')::uuid, caller;
+          ELSE
+            EXECUTE format(
+              'UPDATE %1$I SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::%1$I, $1)) WHERE id = $2 AND user_id = $3 RETURNING to_jsonb(%1$I.*)',
+              p_table, columns_list
+            ) INTO row_json USING entry_write->'values', (entry_write->>'id')::uuid, caller;
+          END IF;
+
+          IF row_json IS NULL THEN
+            RAISE EXCEPTION 'Entry % not found', entry_write->>'id';
+          END IF;
+
+        WHEN 'delete' THEN
+          FOR dependent IN SELECT value FROM jsonb_array_elements(dependent_tables) LOOP
+            EXECUTE format(
+              'SELECT COALESCE(jsonb_agg(to_jsonb(d.*)), ''[]''::jsonb) FROM %I d WHERE %I = $1 AND user_id = $2',
+              dependent->>0, dependent->>1
+            ) INTO dependent_rows USING (entry_write->>'id')::uuid, caller;
+            dependents := jsonb_set(
+              dependents,
+              ARRAY[dependent->>0],
+              COALESCE(dependents->(dependent->>0), '[]'::jsonb) || dependent_rows
+            );
+          END LOOP;
+
+          EXECUTE format('DELETE FROM %1$I WHERE id = $1 AND user_id = $2 RETURNING to_jsonb(%1$I.*)', p_table)
+          INTO row_json USING (entry_write->>'id')::uuid, caller;
+
+          IF row_json IS NULL THEN
+            RAISE EXCEPTION 'Entry % not found', entry_write->>'id';
+          END IF;
+
+        ELSE
+          RAISE EXCEPTION 'Unknown write %', entry_write->>'op';
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'write %: %', write_index, SQLERRM;
+    END;
+
+    results := results || jsonb_build_array(jsonb_build_object('row', row_json, 'dependents', dependents));
+    write_index := write_index + 1;
+  END LOOP;
+
+  -- Every restored entry is back, so rows pointing at two of them (relations) can be inserted
+  FOR dependent IN SELECT value FROM jsonb_array_elements(pending_dependents) LOOP
+    BEGIN
+      EXECUTE format(
+        'INSERT INTO %1$I SELECT * FROM jsonb_populate_recordset(NULL::%1$I, $1) WHERE user_id = $2 ON CONFLICT DO NOTHING',
+        dependent->>'table'
+      ) USING dependent->'rows', caller;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'write %: %', dependent->>'index', SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_entry_writes(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_entry_writes(TEXT, JSONB) TO authenticated;
+
+-- Undo claims the batch before reverting it, so two concurrent undos cannot both run; tables
+-- created before the column was added to 20261019000200_action_undo_batches.sql lack it
+ALTER TABLE public.action_undo_batches ADD COLUMN IF NOT EXISTS undo_started_at TIMESTAMPTZ;
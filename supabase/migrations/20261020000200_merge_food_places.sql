@@ -0,0 +1,114 @@
+-- Merges duplicate food places for /api/food/places/merge in a single transaction.
+--
+-- The sources' visits move to the target and every visit of the target copies its location
+-- fields again; source dishes move over, or fold into the target's dish of the same name
+-- (their orders are relinked and the latest price recomputed); the sources are then deleted.
+-- p_target_patch holds the blank target fields filled from the sources plus the rebuilt
+-- normalized_key, which the server computes with buildPlaceKey.
+--
+-- Returns { "place": <merged target>, "moved_visits": <visits moved from the sources> }.
+CREATE OR REPLACE FUNCTION public.merge_food_places(p_target_id UUID, p_source_ids UUID[], p_target_patch JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  caller UUID := auth.uid();
+  target food_places;
+  sources UUID[];
+  columns_list TEXT;
+  dish RECORD;
+  existing_dish UUID;
+  folded_dishes UUID[] := '{}';
+  moved_visits INT;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT array_agg(DISTINCT source_id) INTO sources
+  FROM unnest(p_source_ids) AS source_id
+  WHERE source_id <> p_target_id;
+
+  IF sources IS NULL THEN
+    RAISE EXCEPTION 'No places to merge';
+  END IF;
+
+  -- Lock every place involved so a concurrent edit or merge waits for this one
+  PERFORM 1 FROM food_places
+  WHERE user_id = caller AND (id = p_target_id OR id = ANY(sources))
+  FOR UPDATE;
+
+  SELECT * INTO target FROM food_places WHERE id = p_target_id AND user_id = caller;
+  IF NOT FOUND OR (SELECT count(*) FROM food_places WHERE user_id = caller AND id = ANY(sources)) <> cardinality(sources) THEN
+    RAISE EXCEPTION 'Place not found';
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO columns_list
+  FROM jsonb_object_keys(COALESCE(p_target_patch, '{}'::jsonb)) AS key
+  WHERE key IN ('address', 'google_place_id', 'google_maps_url', 'latitude', 'longitude', 'neighborhood', 'city', 'country', 'normalized_key');
+
+  IF columns_list IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE food_places SET (%1$s, updated_at) = (SELECT %1$s, now() FROM jsonb_populate_record(NULL::food_places, $1)) WHERE id = $2 RETURNING *',
+      columns_list
+    ) INTO target USING p_target_patch, p_target_id;
+  END IF;
+
+  SELECT count(*) INTO moved_visits FROM food_entries WHERE user_id = caller AND place_id = ANY(sources);
+
+  UPDATE food_entries
+  SET place_id = target.id,
+      name = target.name,
+      branch = target.branch,
+      address = target.address,
+      google_maps_url = target.google_maps_url,
+      latitude = target.latitude,
+      longitude = target.longitude,
+      neighborhood = target.neighborhood,
+      city = target.city,
+      country = target.country
+  WHERE user_id = caller AND (place_id = target.id OR place_id = ANY(sources));
+
+  -- Two sources can both carry a dish the target lacks; the first one moved becomes the target's copy
+  FOR dish IN
+    SELECT id, normalized_name FROM food_dishes
+    WHERE user_id = caller AND place_id = ANY(sources)
+    ORDER BY array_position(p_source_ids, place_id), created_at
+  LOOP
+    SELECT id INTO existing_dish FROM food_dishes
+    WHERE place_id = target.id AND normalized_name = dish.normalized_name;
+
+    IF existing_dish IS NULL THEN
+      UPDATE food_dishes SET place_id = target.id, updated_at = now() WHERE id = dish.id;
+    ELSE
+      UPDATE food_visit_dishes SET dish_id = existing_dish WHERE dish_id = dish.id;
+      DELETE FROM food_dishes WHERE id = dish.id;
+      folded_dishes := array_append(folded_dishes, existing_dish);
+    END IF;
+  END LOOP;
+
+  UPDATE food_dishes d
+  SET latest_price = latest.price,
+      latest_price_currency = latest.currency,
+      latest_price_date = latest.visit_date,
+      updated_at = now()
+  FROM (SELECT DISTINCT unnest(folded_dishes) AS id) folded
+  LEFT JOIN LATERAL (
+    SELECT v.price, v.currency, v.visit_date
+    FROM food_visit_dishes v
+    WHERE v.dish_id = folded.id AND v.price IS NOT NULL
+    ORDER BY v.visit_date DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE d.id = folded.id;
+
+  DELETE FROM food_places WHERE user_id = caller AND id = ANY(sources);
+
+  RETURN jsonb_build_object('place', to_jsonb(target), 'moved_visits', moved_visits);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_food_places(UUID, UUID[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_food_places(UUID, UUID[], JSONB) TO authenticated;